@@ -0,0 +1,569 @@
+/**
+ * Build OMR Fixtures
+ *
+ * Engraves the synthetic score images in fixtures/omr, used to measure how
+ * accurately the built-in optical music recognition (src/lib/omr.ts) reads
+ * clean printed music. Each fixture is written as <name>.png (or, when it
+ * spans several pages, as <name>.pdf with one page image per page) with the
+ * score model it shows as <name>.json. Everything is drawn here from the glyphs
+ * in src/lib/notation-glyphs.ts, so the images are free of third-party
+ * content and identical on every run.
+ *
+ * Music is written one measure per "|", with tokens like `c#5/8.`: pitch
+ * (or `r` for a rest, `+` between chord notes), an optional printed
+ * accidental (#, b, n), the octave, then the value (1, 2, 4, 8, 16, 32)
+ * and any dots. Eighths and shorter are beamed within each beat.
+ *
+ * Usage: deno run --allow-write scripts/build-omr-fixtures.ts
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { type GlyphName, drawGlyph, glyphBounds } from '../src/lib/notation-glyphs.ts';
+import { type GrayImage, createGrayImage, fillPolygon, fillRect } from '../src/lib/raster.ts';
+import { encodeGrayPng } from '../src/lib/png.ts';
+import {
+  type Accidental,
+  type Clef,
+  type NoteValue,
+  SCORE_MODEL_VERSION,
+  type ScoreEvent,
+  type ScoreMeasure,
+  type ScoreModel,
+  type Step,
+  type TimeSignature,
+  measureTicks,
+  noteValueTicks,
+} from '../src/lib/score-model.ts';
+
+const OUTPUT = new URL('../fixtures/omr/', import.meta.url);
+const DIVISIONS = 8;
+// Page images are placed in PDFs at the resolution the server renders them at
+const PDF_DPI = 300;
+
+interface FixtureSpec {
+  name: string;
+  // Pixels per staff space
+  space: number;
+  // Page width in staff spaces
+  width: number;
+  clef: 'treble' | 'bass' | 'alto';
+  fifths: number;
+  time: [number, number] | 'common' | 'cut';
+  music: string;
+  // Start a new page after this many systems
+  systemsPerPage?: number;
+}
+
+const FIXTURES: FixtureSpec[] = [
+  {
+    name: 'c-major-scale',
+    space: 16, width: 70, clef: 'treble', fifths: 0, time: [4, 4],
+    music: 'c4/4 d4/4 e4/4 f4/4 | g4/4 a4/4 b4/4 c5/4 | c5/4 b4/4 a4/4 g4/4 | f4/4 e4/4 d4/4 c4/4 | c4/1',
+  },
+  {
+    name: 'rhythms-g-major',
+    space: 18, width: 70, clef: 'treble', fifths: 1, time: [3, 4],
+    music: 'g4/2. | b4/4 a4/8 g4/8 f4/4 | g4/4 r/4 d5/4 | e5/8 d5/8 c5/8 b4/8 a4/4 | b4/4 r/8 d4/8 g4/4 | g4/2 r/4',
+  },
+  {
+    name: 'sixteenths-d-major',
+    space: 18, width: 70, clef: 'treble', fifths: 2, time: [2, 4],
+    music: 'd5/16 c5/16 b4/16 a4/16 g4/8 f4/8 | e4/8. f4/16 g4/8 a4/8 | b4/16 a4/16 g4/8 f4/4 | a4/8 r/8 d5/8 r/8 | d4/4 r/4',
+  },
+  {
+    name: 'bass-clef-f-major',
+    space: 16, width: 70, clef: 'bass', fifths: -1, time: [4, 4],
+    music: 'f2/2 a2/2 | c3/4 d3/4 e3/4 f3/4 | g3/2. r/4 | c4/4 e4/4 d4/8 c4/8 b3/8 a3/8 | g3/2 c3/2 | f2/1',
+  },
+  {
+    name: 'alto-clef-b-flat',
+    space: 16, width: 64, clef: 'alto', fifths: -2, time: [3, 4],
+    music: 'b3/4 c4/4 d4/4 | e4/2 d4/4 | c4/8 b3/8 a3/8 g3/8 f3/4 | b3/2.',
+  },
+  {
+    name: 'accidentals',
+    space: 18, width: 70, clef: 'treble', fifths: 0, time: [4, 4],
+    music: 'a4/4 g#4/4 a4/4 b4/4 | c5/4 c#5/4 d5/4 dn5/4 | e5/4 f#5/4 g#5/4 a5/4 | bb4/4 a4/4 ab4/4 g4/4 | a4/1',
+  },
+  {
+    name: 'chords',
+    space: 18, width: 64, clef: 'treble', fifths: 0, time: [4, 4],
+    music: 'c4+e4+g4/2 f4+a4+c5/2 | g4+b4+d5/4 e4+g4/4 f4+a4/4 d4+f4/4 | c4+e4+g4/1',
+  },
+  {
+    name: 'compound-e-flat',
+    space: 16, width: 70, clef: 'treble', fifths: -3, time: [6, 8],
+    music: 'e4/8 g4/8 b4/8 e5/8 d5/8 c5/8 | b4/4. g4/4. | a4/8 c5/8 a4/8 f4/4 r/8 | e4/2.',
+  },
+  {
+    name: 'hymn-e-major',
+    space: 16, width: 60, clef: 'treble', fifths: 4, time: 'common',
+    music: 'b4/4 | e5/4 b4/4 g4/4 e4/4 | f4/4 g4/4 a4/2 | g4/4 f4/4 e4/4 f4/4 | g4/2. b4/4 | ' +
+      'c5/4 b4/4 a4/4 g4/4 | f4/4 e4/4 f4/2 | g4/4 a4/4 b4/4 c5/4 | b4/2. b4/4 | ' +
+      'e5/4 d5/4 c5/4 b4/4 | a4/4 g4/4 f4/2 | e4/4 g4/4 f4/4. e4/8 | e4/2.',
+  },
+  {
+    name: 'cut-time-a-major',
+    space: 22, width: 56, clef: 'treble', fifths: 3, time: 'cut',
+    music: 'a4/2 c5/2 | e5/1 | r/1 | d5/2 b4/2 | a4/1',
+  },
+  {
+    name: 'ledger-lines',
+    space: 20, width: 64, clef: 'treble', fifths: 0, time: [4, 4],
+    music: 'c4/4 b3/4 a3/4 g3/4 | a5/4 b5/4 c6/4 d6/4 | e6/2 c6/2 | a3/2 c4/2',
+  },
+  {
+    name: 'two-pages-b-flat',
+    space: 18, width: 56, clef: 'treble', fifths: -2, time: [3, 4], systemsPerPage: 2,
+    music: 'b4/4 d5/4 f5/4 | e5/4. d5/8 c5/4 | d5/2 b4/4 | c5/8 d5/8 e5/4 c5/4 | ' +
+      'f5/2. | g5/4 f5/4 e5/4 | d5/4 c5/4 b4/4 | a4/2 r/4 | ' +
+      'b4/8 c5/8 d5/4 eb5/4 | f5/4 en5/4 f5/4 | d5/2 c5/4 | b4/2.',
+  },
+];
+
+// Staff space offsets of key signature accidentals above the bottom line, in the treble clef
+const SHARP_POSITIONS = [8, 5, 9, 6, 3, 7, 4];
+const FLAT_POSITIONS = [4, 7, 3, 6, 2, 5, 1];
+const CLEF_SHIFT = { treble: 0, bass: -2, alto: -1 };
+const CLEFS: Record<FixtureSpec['clef'], { clef: Clef; glyph: GlyphName; line: number; bottom: number }> = {
+  treble: { clef: { staff: 1, sign: 'G', line: 2 }, glyph: 'treble-clef', line: 2, bottom: 4 * 7 + 2 },
+  bass: { clef: { staff: 1, sign: 'F', line: 4 }, glyph: 'bass-clef', line: 4, bottom: 2 * 7 + 4 },
+  alto: { clef: { staff: 1, sign: 'C', line: 3 }, glyph: 'alto-clef', line: 3, bottom: 3 * 7 + 3 },
+};
+
+const VALUES: Record<string, NoteValue> = { 1: 'whole', 2: 'half', 4: 'quarter', 8: 'eighth', 16: '16th', 32: '32nd' };
+const SPACING: Record<NoteValue, number> = { whole: 5.5, half: 4.2, quarter: 3.2, eighth: 2.6, '16th': 2.1, '32nd': 1.8, '64th': 1.6 };
+const STEPS: Step[] = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const ACCIDENTALS: Record<string, Accidental> = { '#': 'sharp', b: 'flat', n: 'natural' };
+const ALTERS: Record<Accidental, number> = { sharp: 1, flat: -1, natural: 0, 'double-sharp': 2, 'flat-flat': -2 };
+
+interface ParsedNote {
+  diatonic: number;
+  step: Step;
+  octave: number;
+  accidental?: Accidental;
+}
+
+interface ParsedEvent {
+  notes: ParsedNote[];
+  value: NoteValue;
+  dots: number;
+  duration: number;
+  offset: number;
+  measureRest?: boolean;
+}
+
+interface Placed {
+  event: ParsedEvent;
+  x: number;
+}
+
+mkdirSync(OUTPUT, { recursive: true });
+for (const spec of FIXTURES) {
+  const { pages, model } = engrave(spec);
+  if (pages.length === 1) {
+    writeFileSync(new URL(`${spec.name}.png`, OUTPUT), await encodeGrayPng(pages[0].width, pages[0].height, pages[0].data));
+  } else {
+    writeFileSync(new URL(`${spec.name}.pdf`, OUTPUT), await writeImagePdf(pages));
+  }
+  writeFileSync(new URL(`${spec.name}.json`, OUTPUT), JSON.stringify(model, null, 2) + '\n');
+  console.log(`Wrote ${spec.name} (${model.parts[0].measures.length} measures, ${pages.length} page${pages.length === 1 ? '' : 's'})`);
+}
+
+function engrave(spec: FixtureSpec): { pages: GrayImage[]; model: ScoreModel } {
+  const s = spec.space;
+  const time: TimeSignature = spec.time === 'common' ? { beats: 4, beatType: 4 }
+    : spec.time === 'cut' ? { beats: 2, beatType: 2 }
+    : { beats: spec.time[0], beatType: spec.time[1] };
+  const measures = parseMusic(spec, time);
+  const clef = CLEFS[spec.clef];
+
+  // Lay measures out in systems that fill the page width
+  const margin = 3;
+  const clefWidth = 3.4;
+  const keyWidth = Math.abs(spec.fifths) * 1.05 + (spec.fifths !== 0 ? 0.8 : 0);
+  const timeWidth = 2.8;
+  const natural = measures.map(measure =>
+    1.4 + measure.reduce((sum, event) => sum + eventWidth(event), 0));
+  const systems: { measures: number[]; start: number; scale: number }[] = [];
+  let index = 0;
+  while (index < measures.length) {
+    const start = margin + clefWidth + keyWidth + (systems.length === 0 ? timeWidth : 0);
+    const available = spec.width - margin - start;
+    const members: number[] = [];
+    let used = 0;
+    while (index < measures.length && (members.length === 0 || used + natural[index] <= available)) {
+      used += natural[index];
+      members.push(index++);
+    }
+    const last = index >= measures.length;
+    systems.push({ measures: members, start, scale: last && used < available * 0.7 ? 1 : available / used });
+  }
+
+  const systemHeight = 12;
+  const top = 6;
+  const perPage = spec.systemsPerPage ?? systems.length;
+  const pages = range(0, systems.length - 1, perPage).map(first => {
+    const count = Math.min(perPage, systems.length - first);
+    return createGrayImage(Math.round(spec.width * s), Math.round((top + count * systemHeight + 2) * s));
+  });
+  const thickness = Math.max(1, Math.round(0.11 * s));
+
+  systems.forEach((system, number) => {
+    const image = pages[Math.floor(number / perPage)];
+    const staffTop = Math.round((top + (number % perPage) * systemHeight) * s);
+    const lineY = (line: number) => staffTop + line * s;
+    const left = margin * s;
+    const end = system.start * s + system.measures.reduce((sum, measure) => sum + natural[measure] * system.scale * s, 0);
+    for (let line = 0; line < 5; line++) {
+      fillRect(image, { x: left, y: Math.round(lineY(line) - thickness / 2), width: end - left, height: thickness });
+    }
+
+    // Clef, key signature and (on the first system) time signature
+    drawGlyph(image, clef.glyph, left + 0.6 * s, lineY(5 - clef.line), s);
+    let x = left + clefWidth * s;
+    const positions = (spec.fifths > 0 ? SHARP_POSITIONS : FLAT_POSITIONS).map(p => p + CLEF_SHIFT[spec.clef]);
+    for (let i = 0; i < Math.abs(spec.fifths); i++) {
+      drawGlyph(image, spec.fifths > 0 ? 'sharp' : 'flat', x, lineY(4) - (positions[i] * s) / 2, s);
+      x += 1.05 * s;
+    }
+    if (number === 0) {
+      x = (margin + clefWidth + keyWidth) * s;
+      if (spec.time === 'common' || spec.time === 'cut') {
+        drawGlyph(image, spec.time === 'common' ? 'common-time' : 'cut-time', x, lineY(2), s);
+      } else {
+        drawNumber(image, time.beats, x, lineY(0), s);
+        drawNumber(image, time.beatType, x, lineY(2), s);
+      }
+    }
+
+    let measureX = system.start * s;
+    system.measures.forEach(measureIndex => {
+      const width = natural[measureIndex] * system.scale * s;
+      const events = measures[measureIndex];
+      const placed: Placed[] = [];
+      let eventX = measureX + 1.0 * s * system.scale;
+      for (const event of events) {
+        const accidentalRoom = event.notes.some(note => note.accidental) ? 1.3 * s : 0;
+        placed.push({ event, x: event.measureRest ? measureX + width / 2 - 0.6 * s : eventX + accidentalRoom });
+        eventX += eventWidth(event) * s * system.scale;
+      }
+      drawMeasure(image, placed, time, clef.bottom, lineY, s, thickness);
+
+      const barX = measureX + width;
+      const final = measureIndex === measures.length - 1;
+      const barWidth = Math.max(2, 0.16 * s);
+      if (final) {
+        fillRect(image, { x: barX - 0.5 * s, y: lineY(0) - thickness / 2, width: 0.5 * s, height: 4 * s + thickness });
+        fillRect(image, { x: barX - 0.9 * s - barWidth, y: lineY(0) - thickness / 2, width: barWidth, height: 4 * s + thickness });
+      } else {
+        fillRect(image, { x: barX - barWidth, y: lineY(0) - thickness / 2, width: barWidth, height: 4 * s + thickness });
+      }
+      measureX += width;
+    });
+  });
+
+  return { pages, model: buildModel(spec, measures, time, clef.clef) };
+}
+
+function eventWidth(event: ParsedEvent): number {
+  if (event.measureRest) return 4;
+  const accidentals = event.notes.some(note => note.accidental) ? 1.3 : 0;
+  return SPACING[event.value] + (event.dots > 0 ? 0.7 : 0) + accidentals;
+}
+
+function drawMeasure(
+  image: GrayImage,
+  placed: Placed[],
+  time: TimeSignature,
+  bottomLine: number,
+  lineY: (line: number) => number,
+  s: number,
+  thickness: number,
+) {
+  const yOf = (diatonic: number) => lineY(4) - ((diatonic - bottomLine) * s) / 2;
+  const stemWidth = Math.max(2, 0.12 * s);
+  const beatTicks = time.beatType === 8 && time.beats % 3 === 0 ? DIVISIONS * 1.5 : (DIVISIONS * 4) / time.beatType;
+
+  // Beam groups: consecutive notes shorter than a quarter within one beat
+  const groups: Placed[][] = [];
+  let group: Placed[] = [];
+  let groupBeat = -1;
+  for (const item of placed) {
+    const beamable = item.event.notes.length > 0 && ['eighth', '16th', '32nd'].includes(item.event.value);
+    const beat = Math.floor(item.event.offset / beatTicks);
+    if (!beamable || beat !== groupBeat) {
+      if (group.length > 0) groups.push(group);
+      group = [];
+    }
+    if (beamable) {
+      group.push(item);
+      groupBeat = beat;
+    } else {
+      groupBeat = -1;
+    }
+  }
+  if (group.length > 0) groups.push(group);
+  const beamed = new Map<Placed, { up: boolean; tip: number }>();
+
+  for (const members of groups.filter(items => items.length > 1)) {
+    const positions = members.flatMap(item => item.event.notes.map(note => note.diatonic - bottomLine));
+    const up = mean(positions) < 4;
+    const stemX = (item: Placed) => up ? item.x + 1.24 * s - stemWidth / 2 : item.x + 0.02 * s + stemWidth / 2;
+    const naturalTip = (item: Placed) => up
+      ? Math.min(...item.event.notes.map(note => yOf(note.diatonic))) - 3.5 * s
+      : Math.max(...item.event.notes.map(note => yOf(note.diatonic))) + 3.5 * s;
+    const first = members[0];
+    const last = members[members.length - 1];
+    const run = stemX(last) - stemX(first);
+    const slope = Math.max(-0.2, Math.min(0.2, (naturalTip(last) - naturalTip(first)) / run));
+    const offsets = members.map(item => naturalTip(item) - slope * (stemX(item) - stemX(first)));
+    const intercept = up ? Math.min(...offsets) : Math.max(...offsets);
+    const beamY = (x: number) => intercept + slope * (x - stemX(first));
+    const toward = up ? 1 : -1;
+    const beam = (x0: number, x1: number, level: number) => {
+      const shift = level * 0.75 * s * toward;
+      const y0 = beamY(x0) + shift;
+      const y1 = beamY(x1) + shift;
+      const depth = 0.5 * s * toward;
+      fillPolygon(image, [[x0, y0], [x1, y1], [x1, y1 + depth], [x0, y0 + depth]]);
+    };
+
+    const half = stemWidth / 2;
+    beam(stemX(first) - half, stemX(last) + half, 0);
+    members.forEach((item, index) => {
+      beamed.set(item, { up, tip: beamY(stemX(item)) });
+      const levels = beamLevels(item.event.value);
+      for (let level = 1; level < levels; level++) {
+        const next = members[index + 1];
+        const previous = members[index - 1];
+        if (next && beamLevels(next.event.value) > level) {
+          beam(stemX(item) - half, stemX(next) + half, level);
+        } else if (!(previous && beamLevels(previous.event.value) > level)) {
+          // A beamlet pointing at the neighbouring note
+          const x = stemX(item);
+          if (previous) beam(x - 1.1 * s, x + half, level);
+          else beam(x - half, x + 1.1 * s, level);
+        }
+      }
+    });
+  }
+
+  for (const item of placed) {
+    const { event, x } = item;
+    if (event.notes.length === 0) {
+      const glyph: GlyphName = event.value === 'whole' ? 'whole-rest' : event.value === 'half' ? 'half-rest'
+        : event.value === 'quarter' ? 'quarter-rest' : event.value === 'eighth' ? 'eighth-rest' : '16th-rest';
+      drawGlyph(image, glyph, x, lineY(2), s);
+      if (event.dots > 0) drawGlyph(image, 'dot', x + glyphBounds(glyph).right * s + 0.4 * s, lineY(2) - 0.5 * s, s);
+      continue;
+    }
+
+    const positions = event.notes.map(note => note.diatonic - bottomLine);
+    const head: GlyphName = event.value === 'whole' ? 'notehead-whole' : event.value === 'half' ? 'notehead-half' : 'notehead-black';
+    const headWidth = glyphBounds(head).right * s;
+    for (const note of event.notes) {
+      const y = yOf(note.diatonic);
+      const position = note.diatonic - bottomLine;
+      drawGlyph(image, head, x, y, s);
+      if (note.accidental) {
+        const glyph = note.accidental as GlyphName;
+        drawGlyph(image, glyph, x - 0.3 * s - glyphBounds(glyph).right * s, y, s);
+      }
+      if (event.dots > 0) {
+        const dotY = position % 2 === 0 ? y - 0.5 * s : y;
+        drawGlyph(image, 'dot', x + headWidth + 0.3 * s, dotY, s);
+      }
+    }
+
+    // Ledger lines below and above the staff
+    const ledgers = [
+      ...range(-2, Math.min(...positions), -2),
+      ...range(10, Math.max(...positions), 2),
+    ];
+    for (const position of ledgers) {
+      const y = lineY(4) - (position * s) / 2;
+      fillRect(image, { x: x - 0.4 * s, y: Math.round(y - thickness / 2), width: headWidth + 0.8 * s, height: thickness });
+    }
+
+    if (event.value === 'whole') continue;
+    const beam = beamed.get(item);
+    const up = beam ? beam.up : mean(positions) < 4;
+    const highest = Math.min(...event.notes.map(note => yOf(note.diatonic)));
+    const lowest = Math.max(...event.notes.map(note => yOf(note.diatonic)));
+    const stemLeft = up ? x + 1.24 * s - stemWidth : x + 0.02 * s;
+    const [stemTop, stemBottom] = up
+      ? [beam ? beam.tip : highest - 3.5 * s, lowest - 0.15 * s]
+      : [highest + 0.15 * s, beam ? beam.tip : lowest + 3.5 * s];
+    fillRect(image, { x: stemLeft, y: stemTop, width: stemWidth, height: stemBottom - stemTop });
+
+    if (!beam) {
+      for (let flag = 0; flag < beamLevels(event.value); flag++) {
+        if (up) drawGlyph(image, 'flag-up', stemLeft + stemWidth / 2, stemTop + flag * 0.75 * s, s);
+        else drawGlyph(image, 'flag-down', stemLeft + stemWidth / 2, stemBottom - flag * 0.75 * s, s);
+      }
+    }
+  }
+}
+
+function drawNumber(image: GrayImage, value: number, x: number, top: number, s: number) {
+  String(value).split('').forEach((digit, index) => {
+    drawGlyph(image, `digit-${digit}` as GlyphName, x + index * 1.3 * s, top, s);
+  });
+}
+
+function parseMusic(spec: FixtureSpec, time: TimeSignature): ParsedEvent[][] {
+  const capacity = measureTicks(time, DIVISIONS);
+  return spec.music.split('|').map(text => {
+    let offset = 0;
+    return text.trim().split(/\s+/).map(token => {
+      const [pitches, rhythm] = token.split('/');
+      const value = VALUES[rhythm.replace(/\.+$/, '')];
+      const dots = rhythm.length - rhythm.replace(/\.+$/, '').length;
+      const notes = pitches === 'r' ? [] : pitches.split('+').map(parseNote);
+      const measureRest = pitches === 'r' && value === 'whole';
+      const duration = measureRest ? capacity : noteValueTicks(value, DIVISIONS, dots);
+      const event = { notes, value, dots, duration, offset, ...(measureRest && { measureRest }) };
+      offset += duration;
+      return event;
+    });
+  });
+}
+
+function parseNote(text: string): ParsedNote {
+  const match = /^([a-g])([#bn]?)(\d)$/.exec(text);
+  if (!match) throw new Error(`Bad note ${text}`);
+  const step = match[1].toUpperCase() as Step;
+  const octave = Number(match[3]);
+  return {
+    step,
+    octave,
+    diatonic: octave * 7 + STEPS.indexOf(step),
+    ...(match[2] && { accidental: ACCIDENTALS[match[2]] }),
+  };
+}
+
+function buildModel(spec: FixtureSpec, measures: ParsedEvent[][], time: TimeSignature, clef: Clef): ScoreModel {
+  const capacity = measureTicks(time, DIVISIONS);
+  const sharps = ['F', 'C', 'G', 'D', 'A', 'E', 'B'].slice(0, Math.max(0, spec.fifths));
+  const flats = ['B', 'E', 'A', 'D', 'G', 'C', 'F'].slice(0, Math.max(0, -spec.fifths));
+  const pickup = measures[0].reduce((sum, event) => sum + event.duration, 0) < capacity;
+
+  const scoreMeasures: ScoreMeasure[] = measures.map((events, index) => {
+    const alterations = new Map<number, number>();
+    const scoreEvents: ScoreEvent[] = events.flatMap((event): ScoreEvent[] => {
+      const base = {
+        offset: event.offset,
+        staff: 1,
+        voice: 1,
+        duration: event.duration,
+        value: event.value,
+        ...(event.dots > 0 && { dots: event.dots }),
+      };
+      if (event.notes.length === 0) {
+        return [{ type: 'rest', ...base, ...(event.measureRest && { measureRest: true }) }];
+      }
+      return event.notes.map(note => {
+        if (note.accidental) alterations.set(note.diatonic, ALTERS[note.accidental]);
+        const alter = alterations.get(note.diatonic) ??
+          (sharps.includes(note.step) ? 1 : flats.includes(note.step) ? -1 : 0);
+        return {
+          type: 'note' as const,
+          ...base,
+          pitch: { step: note.step, alter, octave: note.octave },
+          ...(note.accidental && { accidental: note.accidental }),
+        };
+      });
+    });
+
+    return {
+      number: pickup ? index : index + 1,
+      ...(pickup && index === 0 && { implicit: true }),
+      ...(index === 0 && { key: { fifths: spec.fifths, mode: 'major' as const }, time, clefs: [clef] }),
+      events: scoreEvents,
+    };
+  });
+
+  return {
+    version: SCORE_MODEL_VERSION,
+    source: 'omr',
+    divisions: DIVISIONS,
+    parts: [{ id: 'P1', name: 'Part 1', staves: 1, measures: scoreMeasures }],
+  };
+}
+
+/**
+ * A PDF with one gray image filling each page
+ */
+async function writeImagePdf(pages: GrayImage[]): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Objects: 1 catalog, 2 page tree, then a page, its contents and its image for each page
+  const pageIds = pages.map((_, index) => 3 + index * 3);
+  write('%PDF-1.4\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  for (const [index, page] of pages.entries()) {
+    const id = pageIds[index];
+    const width = (page.width * 72) / PDF_DPI;
+    const height = (page.height * 72) / PDF_DPI;
+    const contents = encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`);
+    const pixels = await deflate(page.data);
+    object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+      `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`);
+    object(id + 1, `<< /Length ${contents.length} >>`, contents);
+    object(id + 2, `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+      `/ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode /Length ${pixels.length} >>`, pixels);
+  }
+
+  const count = 3 + pages.length * 3;
+  const xref = length;
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let id = 1; id < count; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    pdf.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return pdf;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function beamLevels(value: NoteValue): number {
+  return value === 'eighth' ? 1 : value === '16th' ? 2 : value === '32nd' ? 3 : 0;
+}
+
+function range(from: number, to: number, step: number): number[] {
+  const values: number[] = [];
+  for (let value = from; step > 0 ? value <= to : value >= to; value += step) values.push(value);
+  return values;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
@@ -0,0 +1,304 @@
+/**
+ * Build Test SoundFont
+ *
+ * Generates fixtures/soundfonts/test.sf2, a small SoundFont used to test
+ * sample-based rendering offline. All samples are synthesized here from
+ * simple waveforms, so the file is free of third-party content and the
+ * output is identical on every run.
+ *
+ * Bank 0 has a preset for each of the 128 General MIDI programs, built from
+ * a handful of looped single-cycle samples grouped by GM family. Bank 128
+ * program 0 is a drum kit made from a noise sample.
+ *
+ * Usage: deno run --allow-write scripts/build-test-soundfont.ts
+ */
+
+import { writeFileSync } from 'node:fs';
+
+const OUTPUT = new URL('../fixtures/soundfonts/test.sf2', import.meta.url);
+
+// 200 frames per cycle at this rate plays middle C (261.63 Hz)
+const CYCLE = 200;
+const CYCLE_RATE = 52325;
+const NOISE_RATE = 44100;
+const SAMPLE_PADDING = 46;
+
+interface SampleDef {
+  name: string;
+  data: Int16Array;
+  loop: [number, number] | null;
+  sampleRate: number;
+}
+
+interface InstrumentDef {
+  name: string;
+  sample: number;
+  loop: boolean;
+  // Envelope in seconds; sustain in centibels of attenuation
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+  attenuation?: number;
+  drumKeys?: boolean;
+}
+
+const samples: SampleDef[] = [
+  cycleSample('Saw', Array.from({ length: 24 }, (_, i) => 1 / (i + 1))),
+  cycleSample('Square', Array.from({ length: 24 }, (_, i) => (i % 2 === 0 ? 1 / (i + 1) : 0))),
+  cycleSample('Sine', [1, 0.3, 0.1, 0.05]),
+  cycleSample('Bell', [1, 0, 0.5, 0, 0, 0.3, 0, 0, 0, 0.2]),
+  noiseSample('Noise', 0.4),
+];
+
+const SAW = 0;
+const SQUARE = 1;
+const SINE = 2;
+const BELL = 3;
+const NOISE = 4;
+
+const instruments: InstrumentDef[] = [
+  { name: 'Plucked', sample: SAW, loop: true, attack: 0.002, decay: 1.6, sustain: 1000, release: 0.3 },
+  { name: 'Mallet', sample: BELL, loop: true, attack: 0.002, decay: 1.2, sustain: 1000, release: 0.4 },
+  { name: 'Organ', sample: SQUARE, loop: true, attack: 0.02, decay: 0.1, sustain: 0, release: 0.1, attenuation: 40 },
+  { name: 'Bowed', sample: SAW, loop: true, attack: 0.08, decay: 0.3, sustain: 20, release: 0.3 },
+  { name: 'Choir', sample: SINE, loop: true, attack: 0.15, decay: 0.3, sustain: 20, release: 0.35 },
+  { name: 'Brass', sample: SAW, loop: true, attack: 0.04, decay: 0.2, sustain: 30, release: 0.2 },
+  { name: 'Reed', sample: SQUARE, loop: true, attack: 0.03, decay: 0.2, sustain: 20, release: 0.15, attenuation: 30 },
+  { name: 'Pipe', sample: SINE, loop: true, attack: 0.05, decay: 0.2, sustain: 10, release: 0.15 },
+  { name: 'Percussion', sample: NOISE, loop: false, attack: 0.001, decay: 0.3, sustain: 1440, release: 0.1 },
+  { name: 'Drum Kit', sample: NOISE, loop: false, attack: 0.001, decay: 0.25, sustain: 1440, release: 0.1, drumKeys: true },
+];
+
+const DRUM_KIT = instruments.length - 1;
+
+/**
+ * Instrument for each GM program, by family of eight
+ */
+function instrumentForProgram(program: number): number {
+  if (program === 45 || program === 46) return 0;
+  if (program === 47) return 1;
+  if (program >= 52 && program <= 54) return 4;
+  const families = [0, 1, 2, 0, 0, 3, 3, 5, 6, 7, 6, 3, 1, 1, 8, 8];
+  return families[Math.floor(program / 8)];
+}
+
+writeFileSync(OUTPUT, buildSoundFont());
+console.log(`Wrote ${OUTPUT.pathname}`);
+
+function buildSoundFont(): Uint8Array {
+  // Sample data with the required zero padding after each sample
+  const sampleWords: number[] = [];
+  const headers: Uint8Array[] = [];
+  for (const sample of samples) {
+    const start = sampleWords.length;
+    sampleWords.push(...sample.data);
+    const end = sampleWords.length;
+    for (let i = 0; i < SAMPLE_PADDING; i++) sampleWords.push(0);
+
+    const loop = sample.loop ?? [0, 0];
+    headers.push(record(46, view => {
+      writeName(view, 0, sample.name);
+      view.setUint32(20, start, true);
+      view.setUint32(24, end, true);
+      view.setUint32(28, start + loop[0], true);
+      view.setUint32(32, start + loop[1], true);
+      view.setUint32(36, sample.sampleRate, true);
+      view.setUint8(40, 60);
+      view.setInt8(41, 0);
+      view.setUint16(42, 0, true);
+      view.setUint16(44, 1, true);
+    }));
+  }
+  headers.push(record(46, view => writeName(view, 0, 'EOS')));
+
+  // Instruments: one zone each, or one zone per drum key
+  const instHeaders: Uint8Array[] = [];
+  const instBags: Uint8Array[] = [];
+  const instGens: Uint8Array[] = [];
+  instruments.forEach(instrument => {
+    instHeaders.push(record(22, view => {
+      writeName(view, 0, instrument.name);
+      view.setUint16(20, instBags.length, true);
+    }));
+
+    const zones = instrument.drumKeys
+      ? Array.from({ length: 47 }, (_, i) => 35 + i)
+      : [null];
+    for (const key of zones) {
+      instBags.push(bag(instGens.length));
+      if (key !== null) {
+        instGens.push(generator(43, key | (key << 8)));
+        // Low keys are drums, high keys cymbals: pitch the noise with the key
+        instGens.push(generator(58, 60));
+        instGens.push(generator(56, 50));
+      }
+      instGens.push(generator(34, timecents(instrument.attack)));
+      instGens.push(generator(36, timecents(instrument.decay)));
+      instGens.push(generator(37, instrument.sustain));
+      instGens.push(generator(38, timecents(instrument.release)));
+      if (instrument.attenuation) instGens.push(generator(48, instrument.attenuation));
+      instGens.push(generator(54, instrument.loop ? 1 : 0));
+      instGens.push(generator(53, instrument.sample));
+    }
+  });
+  instHeaders.push(record(22, view => {
+    writeName(view, 0, 'EOI');
+    view.setUint16(20, instBags.length, true);
+  }));
+  instBags.push(bag(instGens.length));
+  instGens.push(generator(0, 0));
+
+  // Presets: the 128 GM programs in bank 0 and the drum kit in bank 128
+  const presetDefs = [
+    ...Array.from({ length: 128 }, (_, program) => ({
+      name: `GM ${program}`,
+      program,
+      bank: 0,
+      instrument: instrumentForProgram(program),
+    })),
+    { name: 'Standard Kit', program: 0, bank: 128, instrument: DRUM_KIT },
+  ];
+  const presetHeaders: Uint8Array[] = [];
+  const presetBags: Uint8Array[] = [];
+  const presetGens: Uint8Array[] = [];
+  for (const preset of presetDefs) {
+    presetHeaders.push(record(38, view => {
+      writeName(view, 0, preset.name);
+      view.setUint16(20, preset.program, true);
+      view.setUint16(22, preset.bank, true);
+      view.setUint16(24, presetBags.length, true);
+    }));
+    presetBags.push(bag(presetGens.length));
+    presetGens.push(generator(41, preset.instrument));
+  }
+  presetHeaders.push(record(38, view => {
+    writeName(view, 0, 'EOP');
+    view.setUint16(24, presetBags.length, true);
+  }));
+  presetBags.push(bag(presetGens.length));
+  presetGens.push(generator(0, 0));
+
+  const smpl = new Uint8Array(sampleWords.length * 2);
+  const smplView = new DataView(smpl.buffer);
+  sampleWords.forEach((word, i) => smplView.setInt16(i * 2, word, true));
+
+  const info = list('INFO', [
+    chunk('ifil', new Uint8Array([2, 0, 1, 0])),
+    chunk('isng', text('EMU8000')),
+    chunk('INAM', text('Sheet to Sound Test')),
+    chunk('ICOP', text('Generated from synthetic waveforms; public domain (CC0)')),
+  ]);
+  const sdta = list('sdta', [chunk('smpl', smpl)]);
+  const pdta = list('pdta', [
+    chunk('phdr', concat(presetHeaders)),
+    chunk('pbag', concat(presetBags)),
+    chunk('pmod', new Uint8Array(10)),
+    chunk('pgen', concat(presetGens)),
+    chunk('inst', concat(instHeaders)),
+    chunk('ibag', concat(instBags)),
+    chunk('imod', new Uint8Array(10)),
+    chunk('igen', concat(instGens)),
+    chunk('shdr', concat(headers)),
+  ]);
+
+  const body = concat([ascii('sfbk'), info, sdta, pdta]);
+  return concat([ascii('RIFF'), uint32(body.length), body]);
+}
+
+/**
+ * Eight cycles of a waveform, looping over the last four
+ */
+function cycleSample(name: string, harmonics: number[]): SampleDef {
+  const cycles = 8;
+  const data = new Int16Array(CYCLE * cycles);
+  let peak = 0;
+  const values = Array.from({ length: CYCLE }, (_, i) => {
+    const value = harmonics.reduce((sum, amplitude, h) =>
+      sum + amplitude * Math.sin((2 * Math.PI * (h + 1) * i) / CYCLE), 0);
+    peak = Math.max(peak, Math.abs(value));
+    return value;
+  });
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.round((values[i % CYCLE] / peak) * 24000);
+  }
+  return { name, data, loop: [CYCLE * 4, CYCLE * cycles], sampleRate: CYCLE_RATE };
+}
+
+/**
+ * Decaying white noise from a fixed-seed generator
+ */
+function noiseSample(name: string, seconds: number): SampleDef {
+  const data = new Int16Array(Math.round(seconds * NOISE_RATE));
+  let state = 0x2545f491;
+  for (let i = 0; i < data.length; i++) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    const value = ((state >>> 0) / 4294967296) * 2 - 1;
+    data[i] = Math.round(value * 24000 * Math.exp(-i / (NOISE_RATE * 0.08)));
+  }
+  return { name, data, loop: null, sampleRate: NOISE_RATE };
+}
+
+function timecents(seconds: number): number {
+  return Math.round(1200 * Math.log2(seconds));
+}
+
+function record(size: number, fill: (view: DataView) => void): Uint8Array {
+  const bytes = new Uint8Array(size);
+  fill(new DataView(bytes.buffer));
+  return bytes;
+}
+
+function bag(generatorIndex: number): Uint8Array {
+  return record(4, view => view.setUint16(0, generatorIndex, true));
+}
+
+function generator(operator: number, amount: number): Uint8Array {
+  return record(4, view => {
+    view.setUint16(0, operator, true);
+    view.setUint16(2, amount & 0xffff, true);
+  });
+}
+
+function writeName(view: DataView, offset: number, name: string) {
+  for (let i = 0; i < Math.min(name.length, 19); i++) {
+    view.setUint8(offset + i, name.charCodeAt(i));
+  }
+}
+
+function chunk(id: string, data: Uint8Array): Uint8Array {
+  const padded = data.length % 2 === 1 ? concat([data, new Uint8Array(1)]) : data;
+  return concat([ascii(id), uint32(data.length), padded]);
+}
+
+function list(type: string, chunks: Uint8Array[]): Uint8Array {
+  const body = concat([ascii(type), ...chunks]);
+  return concat([ascii('LIST'), uint32(body.length), body]);
+}
+
+function text(value: string): Uint8Array {
+  // Zero-terminated, padded to an even length
+  const bytes = new Uint8Array(value.length + (value.length % 2 === 0 ? 2 : 1));
+  bytes.set(ascii(value));
+  return bytes;
+}
+
+function ascii(value: string): Uint8Array {
+  return Uint8Array.from(value, char => char.charCodeAt(0));
+}
+
+function uint32(value: number): Uint8Array {
+  return record(4, view => view.setUint32(0, value, true));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
@@ -0,0 +1,45 @@
+/**
+ * Engrave External OMR Fixtures
+ *
+ * Renders every MusicXML score in fixtures/omr (<name>.musicxml) with the
+ * Verovio engraver and its Bravura font, and writes the page as <name>.png
+ * with the score model it shows as <name>.json. Unlike the fixtures drawn by
+ * build-omr-fixtures.ts, these images do not come from the recognizer's own
+ * glyphs, so they show how well it reads music set by other software.
+ *
+ * Verovio is set to 18 pixels per staff space, like the largest synthetic
+ * fixtures. The versions are pinned so the images stay the same.
+ *
+ * Usage: deno run --node-modules-dir=none --allow-read --allow-write scripts/engrave-omr-fixtures.ts
+ */
+
+import { readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import createVerovioModule from 'npm:verovio@6.2.0/wasm';
+import { VerovioToolkit } from 'npm:verovio@6.2.0/esm';
+import { Resvg, initWasm } from 'npm:@resvg/resvg-wasm@2.6.2';
+import { parseMusicXml } from '../src/lib/musicxml.ts';
+
+const FIXTURES = new URL('../fixtures/omr/', import.meta.url);
+
+await initWasm(readFileSync(new URL(import.meta.resolve('npm:@resvg/resvg-wasm@2.6.2/index_bg.wasm'))));
+const toolkit = new VerovioToolkit(await createVerovioModule());
+toolkit.setOptions({ header: 'none', footer: 'none', adjustPageHeight: true, pageWidth: 1400, scale: 100 });
+
+const names = readdirSync(FIXTURES)
+  .filter(file => file.endsWith('.musicxml'))
+  .map(file => file.replace(/\.musicxml$/, ''))
+  .sort();
+
+for (const name of names) {
+  const source = readFileSync(new URL(`${name}.musicxml`, FIXTURES), 'utf8');
+  const { model, errors } = parseMusicXml(source);
+  if (!model) throw new Error(`${name}: ${errors.join('; ')}`);
+
+  if (!toolkit.loadData(source)) throw new Error(`${name}: Verovio could not read the score`);
+  if (toolkit.getPageCount() !== 1) throw new Error(`${name}: the score must fit on one page`);
+  const png = new Resvg(toolkit.renderToSVG(1), { background: 'white' }).render().asPng();
+
+  writeFileSync(new URL(`${name}.png`, FIXTURES), png);
+  writeFileSync(new URL(`${name}.json`, FIXTURES), JSON.stringify(model, null, 2) + '\n');
+  console.log(`${name}: ${model.parts[0].measures.length} measures`);
+}
@@ -20,7 +20,7 @@
 
 import React, { useState, useMemo } from 'react';
 import { Search, Music } from 'lucide-react';
-import { INSTRUMENTS, INSTRUMENT_CATEGORIES, getInstrumentsByCategory } from '../../lib/instruments';
+import { INSTRUMENTS, INSTRUMENT_CATEGORIES, describeRange, getInstrumentsByCategory } from '../../lib/instruments';
 import { Chip } from './ui/chip';
 import { Input } from './ui/input';
 import { cn } from '../../lib/utils';
@@ -163,6 +163,7 @@ export function InstrumentSelector({
                   key={instrument.id}
                   onClick={() => handleInstrumentToggle(instrument.id)}
                   disabled={isDisabled}
+                  title={instrument.range && `Range ${describeRange(instrument.range.extreme)} (sounding)`}
                   className={cn(
                     'px-3 py-2 rounded-lg text-sm font-medium text-left transition-all',
                     'border-2 focus:outline-none focus:ring-2 focus:ring-blue-500',
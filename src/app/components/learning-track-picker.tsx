@@ -0,0 +1,95 @@
+/**
+ * Learning Track Picker Component
+ *
+ * Switches a choir conversion between its learning tracks, grouped by voice.
+ *
+ * Features:
+ * - All parts balanced, then each voice prominent or missing
+ * - One click switches; clicking the chosen track again goes back to the
+ *   conversion's own mix
+ * - Download of each rendered learning track
+ *
+ * Props:
+ * - tracks: Learning tracks of the conversion
+ * - selectedId: Learning track being played, or null for the conversion's mix
+ * - onSelect: Callback when a learning track is chosen or cleared
+ * - onDownload: Callback to download a learning track
+ * - disabled: Disable all controls
+ */
+
+import React from 'react';
+import { Download, GraduationCap } from 'lucide-react';
+import { LearningTrack, LearningTrackKind } from '../../lib/types';
+import { Chip } from './ui/chip';
+
+export interface LearningTrackPickerProps {
+  tracks: LearningTrack[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onDownload?: (track: LearningTrack) => void;
+  disabled?: boolean;
+}
+
+const KIND_LABELS: Record<LearningTrackKind, string> = {
+  balanced: 'All parts balanced',
+  prominent: 'Prominent',
+  missing: 'Part missing',
+};
+
+export function LearningTrackPicker({
+  tracks,
+  selectedId,
+  onSelect,
+  onDownload,
+  disabled = false,
+}: LearningTrackPickerProps) {
+  // One row for the balanced track, then one per voice in score order
+  const groups: { key: string; label: string; tracks: LearningTrack[] }[] = [];
+  for (const track of tracks) {
+    const key = track.trackId ?? '';
+    const group = groups.find(item => item.key === key);
+    if (group) {
+      group.tracks.push(track);
+    } else {
+      groups.push({ key, label: track.trackName ?? 'Choir', tracks: [track] });
+    }
+  }
+  
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600 flex items-center gap-2">
+        <GraduationCap className="w-4 h-4" />
+        Pick a track to rehearse with. Click it again to go back to the converted mix.
+      </p>
+      
+      <div className="space-y-2">
+        {groups.map(group => (
+          <div key={group.key} className="flex flex-wrap items-center gap-3">
+            <span className="w-24 text-sm font-medium text-gray-900">{group.label}</span>
+            {group.tracks.map(track => (
+              <span key={track.id} className="inline-flex items-center gap-1">
+                <Chip
+                  label={KIND_LABELS[track.kind]}
+                  variant="primary"
+                  selected={track.id === selectedId}
+                  onSelect={() => onSelect(track.id === selectedId ? null : track.id)}
+                  disabled={disabled}
+                />
+                {onDownload && (
+                  <button
+                    onClick={() => onDownload(track)}
+                    disabled={disabled}
+                    className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                    aria-label={`Download ${group.label} ${KIND_LABELS[track.kind].toLowerCase()}`}
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,368 @@
+/**
+ * Measure Editor Component
+ *
+ * Form for correcting one measure of a score model: the pitch, written
+ * accidental and tie of each note, the value of each note or rest, and key
+ * and time signature changes.
+ *
+ * Features:
+ * - One row per chord or rest, in time order per staff and voice
+ * - Turn notes into rests and back, add and remove chord notes
+ * - Shows how full the measure is against its time signature
+ *
+ * Props:
+ * - model: Score model being edited
+ * - partIndex / measureIndex: The measure shown
+ * - selectedEvent: Index of the highlighted event in the measure
+ * - onSelectEvent: Callback when a row is picked
+ * - onChange: Callback with the edited model
+ * - disabled: Disable all inputs
+ */
+
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import {
+  Accidental,
+  KeySignature,
+  NOTE_VALUE_QUARTERS,
+  NoteValue,
+  ScoreModel,
+  ScoreNote,
+  ScoreRest,
+  Step,
+  TimeSignature,
+  describeKey,
+  describePitch,
+  measureTicks,
+  resolveMeasureAttributes,
+} from '../../lib/score-model';
+import {
+  EventAddress,
+  addChordNote,
+  measureChords,
+  removeNote,
+  setChordValue,
+  setKeyChange,
+  setNotePitch,
+  setTie,
+  setTimeChange,
+  toggleRest,
+} from '../../lib/score-editing';
+import { Button } from './ui/button';
+import { Chip } from './ui/chip';
+
+export interface MeasureEditorProps {
+  model: ScoreModel;
+  partIndex: number;
+  measureIndex: number;
+  selectedEvent?: number | null;
+  onSelectEvent?: (event: number) => void;
+  onChange: (model: ScoreModel) => void;
+  disabled?: boolean;
+}
+
+const STEPS: Step[] = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const NOTE_VALUES = Object.keys(NOTE_VALUE_QUARTERS) as NoteValue[];
+const BEAT_TYPES = [1, 2, 4, 8, 16, 32];
+const ACCIDENTAL_LABELS: [Accidental | '', string][] = [
+  ['', 'no accidental'],
+  ['sharp', '♯'],
+  ['flat', '♭'],
+  ['natural', '♮'],
+  ['double-sharp', '𝄪'],
+  ['flat-flat', '𝄫'],
+];
+
+const selectClass = 'px-2 py-1 border rounded bg-white text-sm disabled:opacity-50';
+
+export function MeasureEditor({
+  model,
+  partIndex,
+  measureIndex,
+  selectedEvent = null,
+  onSelectEvent,
+  onChange,
+  disabled = false,
+}: MeasureEditorProps) {
+  const part = model.parts[partIndex];
+  const measure = part.measures[measureIndex];
+  const attributes = resolveMeasureAttributes(part)[measureIndex];
+  const chords = measureChords(measure);
+  const multipleVoices = new Set(chords.map(chord => `${chord.staff}:${chord.voice}`)).size > 1;
+  const at = (event: number): EventAddress => ({ part: partIndex, measure: measureIndex, event });
+  
+  const capacity = measureTicks(attributes.time, model.divisions);
+  const beatTicks = (model.divisions * 4) / attributes.time.beatType;
+  const voiceEnds = new Map<string, number>();
+  for (const chord of chords) {
+    const voice = `${chord.staff}:${chord.voice}`;
+    voiceEnds.set(voice, Math.max(voiceEnds.get(voice) ?? 0, chord.offset + chord.duration));
+  }
+  const filled = Math.max(0, ...voiceEnds.values());
+  const beats = (ticks: number) => Number((ticks / beatTicks).toFixed(2));
+  
+  function changeKey(key: KeySignature) {
+    onChange(setKeyChange(model, measureIndex, key));
+  }
+  
+  function changeTime(time: TimeSignature) {
+    if (Number.isInteger(time.beats) && time.beats >= 1 && time.beats <= 32) {
+      onChange(setTimeChange(model, measureIndex, time));
+    }
+  }
+  
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="font-semibold text-gray-900">Measure {measure.number}</h3>
+        {filled === capacity ? (
+          <Chip label={`${beats(capacity)} beats`} size="sm" variant="success" />
+        ) : (
+          <Chip
+            label={filled > capacity
+              ? `${beats(filled)} of ${beats(capacity)} beats: too long`
+              : `${beats(filled)} of ${beats(capacity)} beats`}
+            size="sm"
+            variant="warning"
+          />
+        )}
+        {measure.confidence !== undefined && (
+          <Chip label={`Read with ${Math.round(measure.confidence * 100)}% confidence`} size="sm" />
+        )}
+      </div>
+      
+      <div className="flex flex-wrap items-end gap-4 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-700">Key{measureIndex > 0 && measure.key ? ' (changes here)' : ''}</span>
+          <div className="flex gap-1">
+            <select
+              value={attributes.key.fifths}
+              onChange={(e) => changeKey({ ...attributes.key, fifths: parseInt(e.target.value) })}
+              disabled={disabled}
+              className={selectClass}
+            >
+              {Array.from({ length: 15 }, (_, i) => i - 7).map(fifths => (
+                <option key={fifths} value={fifths}>
+                  {describeKey({ fifths, mode: attributes.key.mode }).replace(/ (major|minor)$/, '')}
+                  {' '}({fifths === 0 ? 'no sharps or flats' : `${Math.abs(fifths)} ${fifths > 0 ? '♯' : '♭'}`})
+                </option>
+              ))}
+            </select>
+            <select
+              value={attributes.key.mode}
+              onChange={(e) => changeKey({ ...attributes.key, mode: e.target.value as KeySignature['mode'] })}
+              disabled={disabled}
+              className={selectClass}
+            >
+              <option value="major">major</option>
+              <option value="minor">minor</option>
+            </select>
+          </div>
+        </label>
+        
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-700">Time{measureIndex > 0 && measure.time ? ' (changes here)' : ''}</span>
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min="1"
+              max="32"
+              value={attributes.time.beats}
+              onChange={(e) => changeTime({ ...attributes.time, beats: parseInt(e.target.value) })}
+              disabled={disabled}
+              className={`${selectClass} w-16`}
+            />
+            <span>/</span>
+            <select
+              value={attributes.time.beatType}
+              onChange={(e) => changeTime({ ...attributes.time, beatType: parseInt(e.target.value) })}
+              disabled={disabled}
+              className={selectClass}
+            >
+              {BEAT_TYPES.map(beatType => (
+                <option key={beatType} value={beatType}>{beatType}</option>
+              ))}
+            </select>
+          </div>
+        </label>
+        
+        {measureIndex > 0 && (measure.key || measure.time) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={disabled}
+            onClick={() => {
+              let edited = model;
+              if (measure.key) edited = setKeyChange(edited, measureIndex, null);
+              if (measure.time) edited = setTimeChange(edited, measureIndex, null);
+              onChange(edited);
+            }}
+          >
+            Remove key/time change
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        A key change applies from this measure on, in every part. Notes without their own accidental follow it.
+      </p>
+      
+      {chords.length === 0 && (
+        <p className="text-sm text-gray-500">This measure has no notes or rests.</p>
+      )}
+      
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {chords.map(chord => {
+          const first = measure.events[chord.events[0]] as ScoreNote | ScoreRest;
+          const value = first.value ?? 'quarter';
+          const dots = first.dots ?? 0;
+          const selected = selectedEvent !== null && chord.events.includes(selectedEvent);
+          
+          return (
+            <li
+              key={chord.events[0]}
+              className={`p-3 space-y-2 ${selected ? 'bg-blue-50' : ''}`}
+              onClick={() => onSelectEvent?.(chord.events[0])}
+            >
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium text-gray-700 w-20">
+                  {chord.grace ? 'Grace' : `Beat ${beats(chord.offset) + 1}`}
+                </span>
+                {multipleVoices && (
+                  <span className="text-xs text-gray-500">
+                    {part.staves > 1 ? `staff ${chord.staff}, ` : ''}voice {chord.voice}
+                  </span>
+                )}
+                <select
+                  aria-label="Note value"
+                  value={value}
+                  onChange={(e) => onChange(setChordValue(model, at(chord.events[0]), e.target.value as NoteValue, dots))}
+                  disabled={disabled}
+                  className={selectClass}
+                >
+                  {NOTE_VALUES.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+                <select
+                  aria-label="Dots"
+                  value={dots}
+                  onChange={(e) => onChange(setChordValue(model, at(chord.events[0]), value, parseInt(e.target.value)))}
+                  disabled={disabled}
+                  className={selectClass}
+                >
+                  <option value={0}>no dot</option>
+                  <option value={1}>dotted</option>
+                  <option value={2}>double dotted</option>
+                </select>
+                {!chord.grace && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={disabled}
+                    onClick={() => onChange(toggleRest(model, at(chord.events[0])))}
+                  >
+                    {chord.rest ? 'Make note' : 'Make rest'}
+                  </Button>
+                )}
+                {chord.rest && <span className="text-gray-500">rest</span>}
+              </div>
+              
+              {!chord.rest && chord.events.map(index => {
+                const note = measure.events[index] as ScoreNote;
+                const tied = note.tie === 'start' || note.tie === 'continue';
+                
+                return (
+                  <div
+                    key={index}
+                    className={`flex flex-wrap items-center gap-2 text-sm pl-4 sm:pl-20 ${selectedEvent === index ? 'text-blue-700' : ''}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onSelectEvent?.(index);
+                    }}
+                  >
+                    <select
+                      aria-label="Step"
+                      value={note.pitch.step}
+                      onChange={(e) => onChange(setNotePitch(model, at(index), e.target.value as Step, note.pitch.octave, note.accidental))}
+                      disabled={disabled}
+                      className={selectClass}
+                    >
+                      {STEPS.map(step => (
+                        <option key={step} value={step}>{step}</option>
+                      ))}
+                    </select>
+                    <input
+                      aria-label="Octave"
+                      type="number"
+                      min="0"
+                      max="9"
+                      value={note.pitch.octave}
+                      onChange={(e) => {
+                        const octave = parseInt(e.target.value);
+                        if (octave >= 0 && octave <= 9) {
+                          onChange(setNotePitch(model, at(index), note.pitch.step, octave, note.accidental));
+                        }
+                      }}
+                      disabled={disabled}
+                      className={`${selectClass} w-16`}
+                    />
+                    <select
+                      aria-label="Accidental"
+                      value={note.accidental ?? ''}
+                      onChange={(e) => onChange(setNotePitch(
+                        model,
+                        at(index),
+                        note.pitch.step,
+                        note.pitch.octave,
+                        (e.target.value || undefined) as Accidental | undefined,
+                      ))}
+                      disabled={disabled}
+                      className={selectClass}
+                    >
+                      {ACCIDENTAL_LABELS.map(([accidental, label]) => (
+                        <option key={accidental} value={accidental}>{label}</option>
+                      ))}
+                    </select>
+                    <span className="text-gray-500 w-12">{describePitch(note.pitch)}</span>
+                    <label className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={tied}
+                        onChange={(e) => onChange(setTie(model, at(index), e.target.checked))}
+                        disabled={disabled}
+                      />
+                      Tie to next
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => onChange(removeNote(model, at(index)))}
+                      disabled={disabled}
+                      className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                      aria-label={`Remove ${describePitch(note.pitch)}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+              
+              {!chord.rest && (
+                <div className="pl-4 sm:pl-20">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={disabled}
+                    onClick={() => onChange(addChordNote(model, at(chord.events[0])))}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add chord note
+                  </Button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+/**
+ * Mixer Panel Component
+ *
+ * Live mixer for a conversion played in the page: one strip per instrument
+ * or voice track. A choir with accompaniment gets one mixer for both, with
+ * the voices and the instruments grouped.
+ *
+ * Features:
+ * - Mute, solo, volume and pan per track, heard at once
+ * - Mute or unmute the whole choir or accompaniment
+ * - Level meter per track while the music plays
+ * - Reset to the mix the conversion was made with
+ * - Save the mix as the conversion's default
+ *
+ * Props:
+ * - tracks: Tracks of the conversion
+ * - mix: Current mix settings by track id
+ * - onChange: Callback when the mix changes
+ * - levels: Reads each track's current level (0-1), for the meters
+ * - onSave: Callback to save the mix as the default
+ * - saving: Whether the mix is being saved
+ * - changed: Whether the mix differs from the saved default
+ * - disabled: Disable all controls
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Volume2, VolumeX, SlidersHorizontal, Save } from 'lucide-react';
+import { TrackMix } from '../../lib/types';
+import { ArrangementTrack } from '../../lib/arrangement';
+import { defaultTrackMix } from '../../lib/playback-engine';
+import { cn } from '../../lib/utils';
+import { Button } from './ui/button';
+
+export interface MixerPanelProps {
+  tracks: ArrangementTrack[];
+  mix: Record<string, TrackMix>;
+  onChange: (mix: Record<string, TrackMix>) => void;
+  levels?: () => Record<string, number>;
+  onSave?: () => void;
+  saving?: boolean;
+  changed?: boolean;
+  disabled?: boolean;
+}
+
+// How often the meters are redrawn
+const METER_UPDATE_MS = 50;
+// Level from which a meter shows red
+const CLIP_LEVEL = 0.9;
+
+export function MixerPanel({
+  tracks,
+  mix,
+  onChange,
+  levels,
+  onSave,
+  saving = false,
+  changed = false,
+  disabled = false,
+}: MixerPanelProps) {
+  const [meters, setMeters] = useState<Record<string, number>>({});
+  
+  useEffect(() => {
+    if (!levels) {
+      setMeters({});
+      return;
+    }
+    
+    const timer = setInterval(() => {
+      const next = levels();
+      // Skip redrawing while everything is silent
+      setMeters(current => (isSounding(next) || isSounding(current) ? next : current));
+    }, METER_UPDATE_MS);
+    return () => clearInterval(timer);
+  }, [levels]);
+  
+  function updateTrack(trackId: string, changes: Partial<TrackMix>) {
+    onChange({ ...mix, [trackId]: { ...mix[trackId], ...changes } });
+  }
+  
+  function handleToggleSolo(trackId: string) {
+    // Solo one track at a time, as in the voice controls
+    const soloing = !mix[trackId].solo;
+    onChange(Object.fromEntries(Object.entries(mix).map(([id, settings]) => [
+      id,
+      { ...settings, solo: soloing && id === trackId },
+    ])));
+  }
+  
+  function handleToggleGroup(group: ArrangementTrack[]) {
+    // Unmute the group when all of it is muted, otherwise mute it all
+    const muted = !group.every(track => mix[track.id]?.muted);
+    onChange(Object.fromEntries(Object.entries(mix).map(([id, settings]) => [
+      id,
+      group.some(track => track.id === id) ? { ...settings, muted } : settings,
+    ])));
+  }
+  
+  const anySolo = tracks.some(track => mix[track.id]?.solo);
+  const groups = [
+    { label: 'Choir', tracks: tracks.filter(track => track.voice) },
+    { label: 'Accompaniment', tracks: tracks.filter(track => !track.voice) },
+  ].filter(group => group.tracks.length > 0);
+  
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600 flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          Changes are heard straight away. Downloads keep the converted mix.
+        </p>
+        
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(defaultTrackMix(tracks))}
+            disabled={disabled}
+          >
+            Reset
+          </Button>
+          {onSave && (
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={onSave}
+              disabled={disabled || saving || !changed}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Saving...' : 'Save as Default'}
+            </Button>
+          )}
+        </div>
+      </div>
+      
+      {/* Track Strips, grouped when a choir has accompaniment */}
+      {groups.map(group => (
+        <div key={group.label} className="space-y-3">
+          {groups.length > 1 && (
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-gray-700">{group.label}</h4>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleToggleGroup(group.tracks)}
+                disabled={disabled}
+              >
+                {group.tracks.every(track => mix[track.id]?.muted) ? 'Unmute All' : 'Mute All'}
+              </Button>
+            </div>
+          )}
+          
+          {group.tracks.map(track => {
+            const settings = mix[track.id];
+            if (!settings) return null;
+            const isActive = !settings.muted && (!anySolo || settings.solo);
+            const level = meters[track.id] ?? 0;
+            
+            return (
+              <div
+                key={track.id}
+                className={cn(
+                  'border rounded-lg p-3 transition-all',
+                  isActive ? 'border-blue-200 bg-white' : 'border-gray-200 bg-gray-50',
+                  settings.muted && 'opacity-50'
+                )}
+              >
+                <div className="flex flex-wrap items-center gap-3">
+                  {/* Track Name and Meter */}
+                  <div className="w-48 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate" title={track.name}>
+                      {track.name}
+                    </p>
+                    <div className="mt-1 h-1.5 rounded-full bg-gray-200 overflow-hidden" aria-hidden="true">
+                      <div
+                        className={cn('h-full', level >= CLIP_LEVEL ? 'bg-red-500' : 'bg-green-500')}
+                        style={{ width: `${Math.round(level * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                  
+                  {/* Mute/Unmute Button */}
+                  <button
+                    onClick={() => updateTrack(track.id, { muted: !settings.muted })}
+                    disabled={disabled}
+                    className={cn(
+                      'p-2 rounded-lg transition-colors',
+                      !settings.muted
+                        ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                        : 'bg-red-100 text-red-700 hover:bg-red-200',
+                      disabled && 'opacity-50 cursor-not-allowed'
+                    )}
+                    aria-label={settings.muted ? `Unmute ${track.name}` : `Mute ${track.name}`}
+                  >
+                    {settings.muted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+                  </button>
+                  
+                  {/* Solo Button */}
+                  <button
+                    onClick={() => handleToggleSolo(track.id)}
+                    disabled={disabled || settings.muted}
+                    className={cn(
+                      'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors',
+                      settings.solo ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200',
+                      (disabled || settings.muted) && 'opacity-50 cursor-not-allowed'
+                    )}
+                  >
+                    {settings.solo ? 'Solo On' : 'Solo'}
+                  </button>
+                  
+                  {/* Volume Slider */}
+                  <label className="flex-1 min-w-[10rem] flex items-center gap-2 text-sm text-gray-600">
+                    <span className="sr-only">Volume of {track.name}</span>
+                    <input
+                      type="range"
+                      min="0"
+                      max="100"
+                      value={Math.round(settings.volume * 100)}
+                      onChange={(e) => updateTrack(track.id, { volume: parseInt(e.target.value) / 100 })}
+                      disabled={disabled}
+                      className="flex-1 h-2 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                    />
+                    <span className="w-10 text-right">{Math.round(settings.volume * 100)}%</span>
+                  </label>
+                  
+                  {/* Pan Slider */}
+                  <label className="w-40 flex items-center gap-2 text-sm text-gray-600">
+                    <span className="sr-only">Pan of {track.name}</span>
+                    <input
+                      type="range"
+                      min="-100"
+                      max="100"
+                      value={Math.round(settings.pan * 100)}
+                      onChange={(e) => updateTrack(track.id, { pan: parseInt(e.target.value) / 100 })}
+                      onDoubleClick={() => updateTrack(track.id, { pan: 0 })}
+                      disabled={disabled}
+                      className="flex-1 h-2 rounded-lg appearance-none cursor-pointer accent-gray-600"
+                    />
+                    <span className="w-8 text-right">{describePan(settings.pan)}</span>
+                  </label>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Pan position as shown on a mixing desk: L50, C or R50
+ */
+function describePan(pan: number): string {
+  const amount = Math.round(Math.abs(pan) * 100);
+  if (amount === 0) return 'C';
+  return `${pan < 0 ? 'L' : 'R'}${amount}`;
+}
+
+function isSounding(levels: Record<string, number>): boolean {
+  return Object.values(levels).some(level => level > 0);
+}
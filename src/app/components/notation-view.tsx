@@ -0,0 +1,551 @@
+/**
+ * Notation View Component
+ *
+ * Draws one part of a score model as staff notation, in systems that wrap to
+ * the width of the page, and lets the user pick a measure or a note.
+ *
+ * Features:
+ * - Clefs, key and time signatures (and their changes), notes, chords,
+ *   rests, accidentals, dots, ledger lines, flags and ties
+ * - Measures read with low confidence are tinted
+ * - The selected measure and note are highlighted
+ *
+ * Props:
+ * - model: Score model to draw
+ * - partIndex: Which part to draw
+ * - selectedMeasure: Index of the highlighted measure
+ * - selectedEvent: Index of the highlighted event in that measure
+ * - onSelect: Callback with the measure (and event, when a note or rest
+ *   was clicked) the user picked
+ */
+
+import React from 'react';
+import {
+  Clef,
+  KeySignature,
+  NoteValue,
+  ScoreMeasure,
+  ScoreModel,
+  ScoreNote,
+  TimeSignature,
+  clefBottomLine,
+  diatonicNumber,
+  resolveMeasureAttributes,
+} from '../../lib/score-model';
+import { MeasureChord, measureChords } from '../../lib/score-editing';
+import { GlyphName, glyphBounds, glyphSvgPaths } from '../../lib/notation-glyphs';
+import { LOW_CONFIDENCE } from '../../lib/omr';
+
+export interface NotationViewProps {
+  model: ScoreModel;
+  partIndex: number;
+  selectedMeasure?: number | null;
+  selectedEvent?: number | null;
+  onSelect?: (measure: number, event?: number) => void;
+}
+
+// Everything below is measured in staff spaces
+const SYSTEM_WIDTH = 100;
+const STAFF_DISTANCE = 13;
+const TOP_MARGIN = 6;
+const BOTTOM_MARGIN = 5;
+const LINE_WIDTH = 0.12;
+const CLEF_WIDTH = 3.4;
+const TIME_WIDTH = 2.8;
+const STEM_WIDTH = 0.13;
+
+// Key signature positions above the bottom line of a treble staff
+const SHARP_POSITIONS = [8, 5, 9, 6, 3, 7, 4];
+const FLAT_POSITIONS = [4, 7, 3, 6, 2, 5, 1];
+
+const REST_GLYPHS: Record<NoteValue, GlyphName> = {
+  'whole': 'whole-rest',
+  'half': 'half-rest',
+  'quarter': 'quarter-rest',
+  'eighth': 'eighth-rest',
+  '16th': '16th-rest',
+  '32nd': '16th-rest',
+  '64th': '16th-rest',
+};
+
+const FLAG_COUNTS: Partial<Record<NoteValue, number>> = { 'eighth': 1, '16th': 2, '32nd': 3, '64th': 4 };
+
+interface MeasureLayout {
+  index: number;
+  keyChange: boolean;
+  timeChange: boolean;
+  header: number;
+  content: number;
+  columns: Map<number, number>;
+}
+
+interface SystemLayout {
+  measures: MeasureLayout[];
+  prefix: number;
+  scale: number;
+}
+
+export function NotationView({
+  model,
+  partIndex,
+  selectedMeasure = null,
+  selectedEvent = null,
+  onSelect,
+}: NotationViewProps) {
+  const part = model.parts[partIndex];
+  if (!part || part.measures.length === 0) {
+    return <p className="text-sm text-gray-500">This part has no measures.</p>;
+  }
+  
+  const attributes = resolveMeasureAttributes(part);
+  const systems = layoutSystems(part.measures, attributes, model.divisions);
+  const height = TOP_MARGIN + (part.staves - 1) * STAFF_DISTANCE + 4 + BOTTOM_MARGIN;
+  
+  return (
+    <div className="space-y-2">
+      {systems.map((system, systemIndex) => {
+        const first = system.measures[0];
+        const lastMeasure = system.measures[system.measures.length - 1];
+        const staffTop = (staff: number) => TOP_MARGIN + (staff - 1) * STAFF_DISTANCE;
+        let end = system.prefix;
+        const placed = system.measures.map(layout => {
+          const width = layout.header + layout.content * system.scale;
+          end += width;
+          return { layout, x: end - width, width };
+        });
+        const systemHeight = staffTop(part.staves) + 4 - staffTop(1);
+        
+        return (
+          <svg
+            key={systemIndex}
+            viewBox={`0 0 ${SYSTEM_WIDTH} ${height}`}
+            className="w-full text-gray-900 select-none"
+            role="img"
+            aria-label={`Measures ${part.measures[first.index].number} to ${part.measures[lastMeasure.index].number}`}
+          >
+            <g fill="currentColor">
+              {/* Measure backgrounds go under the staff lines */}
+              {placed.map(({ layout, x, width }) => {
+                const measure = part.measures[layout.index];
+                const doubtful = measure.confidence !== undefined && measure.confidence < LOW_CONFIDENCE;
+                return (
+                  <rect
+                    key={layout.index}
+                    x={x}
+                    y={staffTop(1) - 3}
+                    width={width}
+                    height={systemHeight + 6}
+                    onClick={() => onSelect?.(layout.index)}
+                    className={`${layout.index === selectedMeasure ? 'fill-blue-100' : doubtful ? 'fill-orange-100' : 'fill-transparent'}${onSelect ? ' cursor-pointer' : ''}`}
+                  />
+                );
+              })}
+              
+              {Array.from({ length: part.staves }, (_, staffIndex) => {
+                const staff = staffIndex + 1;
+                const clef = clefFor(attributes[first.index].clefs, staff);
+                return (
+                  <g key={staff}>
+                    {[0, 1, 2, 3, 4].map(line => (
+                      <rect
+                        key={line}
+                        x={1}
+                        y={staffTop(staff) + line - LINE_WIDTH / 2}
+                        width={end - 1}
+                        height={LINE_WIDTH}
+                      />
+                    ))}
+                    <ClefGlyph clef={clef} x={1.5} top={staffTop(staff)} />
+                    <KeyGlyphs
+                      keySignature={attributes[first.index].key}
+                      clef={clef}
+                      x={1 + CLEF_WIDTH}
+                      top={staffTop(staff)}
+                    />
+                    {first.timeChange && (
+                      <TimeGlyphs
+                        time={attributes[first.index].time}
+                        x={1 + CLEF_WIDTH + keyWidth(attributes[first.index].key)}
+                        top={staffTop(staff)}
+                      />
+                    )}
+                  </g>
+                );
+              })}
+              
+              <rect x={1} y={staffTop(1)} width={LINE_WIDTH * 1.5} height={systemHeight} />
+              <text x={1} y={staffTop(1) - 2} fontSize={1.6} className="fill-gray-500">
+                {part.measures[first.index].number}
+              </text>
+              
+              {placed.map(({ layout, x: measureX, width }) => {
+                const measure = part.measures[layout.index];
+                const selected = layout.index === selectedMeasure;
+                const final = layout.index === part.measures.length - 1;
+                
+                return (
+                  <g
+                    key={layout.index}
+                    onClick={() => onSelect?.(layout.index)}
+                    className={onSelect ? 'cursor-pointer' : undefined}
+                  >
+                    {layout.header > 0 && Array.from({ length: part.staves }, (_, staffIndex) => {
+                      const staff = staffIndex + 1;
+                      const clef = clefFor(attributes[layout.index].clefs, staff);
+                      const keyX = measureX + 0.6;
+                      return (
+                        <g key={staff}>
+                          {layout.keyChange && (
+                            <KeyGlyphs keySignature={attributes[layout.index].key} clef={clef} x={keyX} top={staffTop(staff)} />
+                          )}
+                          {layout.timeChange && (
+                            <TimeGlyphs
+                              time={attributes[layout.index].time}
+                              x={keyX + (layout.keyChange ? keyWidth(attributes[layout.index].key) : 0)}
+                              top={staffTop(staff)}
+                            />
+                          )}
+                        </g>
+                      );
+                    })}
+                    <MeasureNotes
+                      measure={measure}
+                      clefs={attributes[layout.index].clefs}
+                      layout={layout}
+                      x={measureX + layout.header}
+                      end={measureX + width}
+                      scale={system.scale}
+                      staffTop={staffTop}
+                      selectedEvent={selected ? selectedEvent : null}
+                      onSelectEvent={onSelect && (event => onSelect(layout.index, event))}
+                    />
+                    {final ? (
+                      <>
+                        <rect x={measureX + width - 0.9} y={staffTop(1)} width={0.16} height={systemHeight} />
+                        <rect x={measureX + width - 0.5} y={staffTop(1)} width={0.5} height={systemHeight} />
+                      </>
+                    ) : (
+                      <rect x={measureX + width - 0.16} y={staffTop(1)} width={0.16} height={systemHeight} />
+                    )}
+                  </g>
+                );
+              })}
+            </g>
+          </svg>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Notes and rests of one measure, with x positions from its layout
+ */
+function MeasureNotes({
+  measure,
+  clefs,
+  layout,
+  x,
+  end,
+  scale,
+  staffTop,
+  selectedEvent,
+  onSelectEvent,
+}: {
+  measure: ScoreMeasure;
+  clefs: Clef[];
+  layout: MeasureLayout;
+  x: number;
+  end: number;
+  scale: number;
+  staffTop: (staff: number) => number;
+  selectedEvent: number | null;
+  onSelectEvent?: (event: number) => void;
+}) {
+  const chords = measureChords(measure);
+  const chordX = (chord: MeasureChord) => x + layout.columns.get(columnKey(chord))! * scale;
+  
+  return (
+    <>
+      {chords.map(chord => {
+        const top = staffTop(chord.staff);
+        const bottomLine = clefBottomLine(clefFor(clefs, chord.staff));
+        const chordStart = chordX(chord);
+        const selected = selectedEvent !== null && chord.events.includes(selectedEvent);
+        const select = (event: React.MouseEvent) => {
+          if (!onSelectEvent) return;
+          event.stopPropagation();
+          onSelectEvent(chord.events[0]);
+        };
+        
+        if (chord.rest) {
+          const rest = measure.events[chord.events[0]];
+          const value = rest.type === 'rest' && rest.value ? rest.value : 'quarter';
+          const whole = rest.type === 'rest' && (rest.measureRest || chords.length === 1);
+          const restX = whole && chords.length === 1 ? (chordStart + end) / 2 - 1 : chordStart;
+          const glyph = whole ? 'whole-rest' : REST_GLYPHS[value];
+          return (
+            <g key={chord.events[0]} onClick={select} className={selected ? 'text-blue-600' : undefined}>
+              <rect x={restX - 0.5} y={top} width={2.5} height={4} className="fill-transparent" />
+              <Glyph name={glyph} x={restX} y={top + 2} />
+              {rest.type === 'rest' && (rest.dots ?? 0) > 0 && (
+                <Glyph name="dot" x={restX + glyphBounds(glyph).right + 0.4} y={top + 1.5} />
+              )}
+            </g>
+          );
+        }
+        
+        const notes = chord.events.map(index => measure.events[index] as ScoreNote);
+        const positions = notes.map(note => diatonicNumber(note.pitch) - bottomLine);
+        const yOf = (position: number) => top + 4 - position / 2;
+        const value = notes[0].value ?? 'quarter';
+        const head: GlyphName = value === 'whole' ? 'notehead-whole' : value === 'half' ? 'notehead-half' : 'notehead-black';
+        const headWidth = glyphBounds(head).right;
+        const size = chord.grace ? 0.65 : 1;
+        const voices = new Set(chords.filter(other => other.staff === chord.staff).map(other => other.voice));
+        const up = voices.size > 1 ? chord.voice % 2 === 1 : positions.reduce((sum, p) => sum + p, 0) / positions.length < 4;
+        const highest = yOf(Math.max(...positions));
+        const lowest = yOf(Math.min(...positions));
+        const stemX = up ? chordStart + (headWidth - 0.02) * size - STEM_WIDTH : chordStart + 0.02 * size;
+        const [stemTop, stemBottom] = up ? [highest - 3.5 * size, lowest - 0.15] : [highest + 0.15, lowest + 3.5 * size];
+        const ledgers = [
+          ...range(-2, Math.min(...positions), -2),
+          ...range(10, Math.max(...positions), 2),
+        ];
+        const next = chords.find(other =>
+          other.staff === chord.staff && other.voice === chord.voice && !other.grace && other.offset > chord.offset);
+        
+        return (
+          <g key={chord.events[0]} className={selected ? 'text-blue-600' : undefined}>
+            {ledgers.map(position => (
+              <rect
+                key={position}
+                x={chordStart - 0.4 * size}
+                y={yOf(position) - LINE_WIDTH / 2}
+                width={(headWidth + 0.8) * size}
+                height={LINE_WIDTH}
+              />
+            ))}
+            {notes.map((note, index) => {
+              const y = yOf(positions[index]);
+              const tied = note.tie === 'start' || note.tie === 'continue';
+              const tieEnd = next ? chordX(next) - 0.1 : end + 0.4;
+              const tieY = y + (up ? 0.7 : -0.7);
+              return (
+                <g
+                  key={chord.events[index]}
+                  onClick={event => {
+                    if (!onSelectEvent) return;
+                    event.stopPropagation();
+                    onSelectEvent(chord.events[index]);
+                  }}
+                  className={selectedEvent === chord.events[index] ? 'text-blue-600' : undefined}
+                >
+                  <rect x={chordStart - 0.3} y={y - 0.6} width={headWidth * size + 0.6} height={1.2} className="fill-transparent" />
+                  <Glyph name={head} x={chordStart} y={y} scale={size} />
+                  {note.accidental && ACCIDENTAL_GLYPHS[note.accidental] && (
+                    <Glyph
+                      name={ACCIDENTAL_GLYPHS[note.accidental]!}
+                      x={chordStart - (0.3 + glyphBounds(ACCIDENTAL_GLYPHS[note.accidental]!).right) * size}
+                      y={y}
+                      scale={size}
+                    />
+                  )}
+                  {(note.dots ?? 0) > 0 && (
+                    <Glyph name="dot" x={chordStart + headWidth + 0.3} y={positions[index] % 2 === 0 ? y - 0.5 : y} />
+                  )}
+                  {tied && (
+                    <path
+                      d={`M${chordStart + headWidth + 0.2} ${tieY}Q${(chordStart + headWidth + tieEnd) / 2} ${tieY + (up ? 1 : -1)} ${tieEnd} ${tieY}`}
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth={0.15}
+                    />
+                  )}
+                </g>
+              );
+            })}
+            {value !== 'whole' && (
+              <rect x={stemX} y={stemTop} width={STEM_WIDTH} height={stemBottom - stemTop} onClick={select} />
+            )}
+            {Array.from({ length: value === 'whole' ? 0 : FLAG_COUNTS[value] ?? 0 }, (_, flag) => (
+              <Glyph
+                key={flag}
+                name={up ? 'flag-up' : 'flag-down'}
+                x={stemX + STEM_WIDTH / 2}
+                y={up ? stemTop + flag * 0.75 : stemBottom - flag * 0.75}
+                scale={size}
+              />
+            ))}
+          </g>
+        );
+      })}
+    </>
+  );
+}
+
+const ACCIDENTAL_GLYPHS: Partial<Record<NonNullable<ScoreNote['accidental']>, GlyphName>> = {
+  'sharp': 'sharp',
+  'flat': 'flat',
+  'natural': 'natural',
+};
+
+const glyphPathCache = new Map<GlyphName, ReturnType<typeof glyphSvgPaths>>();
+
+function Glyph({ name, x, y, scale = 1 }: { name: GlyphName; x: number; y: number; scale?: number }) {
+  if (!glyphPathCache.has(name)) glyphPathCache.set(name, glyphSvgPaths(name));
+  const { fill, strokes } = glyphPathCache.get(name)!;
+  
+  return (
+    <g transform={`translate(${x} ${y})${scale !== 1 ? ` scale(${scale})` : ''}`}>
+      {fill && <path d={fill} fillRule="evenodd" />}
+      {strokes.map((stroke, index) => (
+        <path
+          key={index}
+          d={stroke.d}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={stroke.width}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      ))}
+    </g>
+  );
+}
+
+function ClefGlyph({ clef, x, top }: { clef: Clef; x: number; top: number }) {
+  if (clef.sign === 'percussion') {
+    return (
+      <>
+        <rect x={x + 0.6} y={top + 1} width={0.45} height={2} />
+        <rect x={x + 1.5} y={top + 1} width={0.45} height={2} />
+      </>
+    );
+  }
+  
+  const glyph: GlyphName = clef.sign === 'G' ? 'treble-clef' : clef.sign === 'F' ? 'bass-clef' : 'alto-clef';
+  return <Glyph name={glyph} x={x} y={top + 5 - clef.line} />;
+}
+
+function KeyGlyphs({ keySignature, clef, x, top }: { keySignature: KeySignature; clef: Clef; x: number; top: number }) {
+  // Move the treble clef pattern onto the same letters in this clef
+  let shift = (((30 - clefBottomLine(clef)) % 7) + 7) % 7;
+  if (shift > 3) shift -= 7;
+  const positions = (keySignature.fifths > 0 ? SHARP_POSITIONS : FLAT_POSITIONS).map(position => position + shift);
+  
+  return (
+    <>
+      {positions.slice(0, Math.abs(keySignature.fifths)).map((position, index) => (
+        <Glyph
+          key={index}
+          name={keySignature.fifths > 0 ? 'sharp' : 'flat'}
+          x={x + index * 1.05}
+          y={top + 4 - position / 2}
+        />
+      ))}
+    </>
+  );
+}
+
+function TimeGlyphs({ time, x, top }: { time: TimeSignature; x: number; top: number }) {
+  const number = (value: number, y: number) => {
+    const digits = String(value).split('');
+    const left = x + (2 * 1.3 - digits.length * 1.3) / 2;
+    return digits.map((digit, index) => (
+      <Glyph key={`${y}-${index}`} name={`digit-${digit}` as GlyphName} x={left + index * 1.3} y={y} />
+    ));
+  };
+  
+  return (
+    <>
+      {number(time.beats, top)}
+      {number(time.beatType, top + 2)}
+    </>
+  );
+}
+
+/**
+ * Break the measures into systems that fit SYSTEM_WIDTH and stretch every
+ * system but a short last one to fill it
+ */
+function layoutSystems(
+  measures: ScoreMeasure[],
+  attributes: ReturnType<typeof resolveMeasureAttributes>,
+  divisions: number,
+): SystemLayout[] {
+  const layouts = measures.map((measure, index) => {
+    const keyChange = index > 0 && !!measure.key;
+    const timeChange = index === 0 || !!measure.time;
+    const { content, columns } = measureColumns(measure, divisions);
+    return { index, keyChange, timeChange, header: 0, content, columns };
+  });
+  
+  const systems: SystemLayout[] = [];
+  let index = 0;
+  while (index < layouts.length) {
+    const first = layouts[index];
+    const prefix = 1 + CLEF_WIDTH + keyWidth(attributes[first.index].key) + (first.timeChange ? TIME_WIDTH : 0);
+    const members: MeasureLayout[] = [];
+    let used = 0;
+    let headers = 0;
+    while (index < layouts.length) {
+      const layout = layouts[index];
+      const header = members.length === 0 ? 0
+        : (layout.keyChange ? keyWidth(attributes[layout.index].key) + 0.6 : 0) + (layout.timeChange ? TIME_WIDTH + 0.6 : 0);
+      if (members.length > 0 && prefix + headers + header + used + layout.content > SYSTEM_WIDTH - 1) break;
+      members.push({ ...layout, header });
+      headers += header;
+      used += layout.content;
+      index++;
+    }
+    
+    const available = SYSTEM_WIDTH - 1 - prefix - headers;
+    const last = index >= layouts.length;
+    const scale = last && used < available * 0.7 ? 1 : available / used;
+    systems.push({ measures: members, prefix, scale });
+  }
+  return systems;
+}
+
+/**
+ * x position of every column of a measure (chords that start together
+ * share one) and the width of its contents before stretching
+ */
+function measureColumns(measure: ScoreMeasure, divisions: number): { content: number; columns: Map<number, number> } {
+  const chords = measureChords(measure);
+  const keys = [...new Set(chords.map(columnKey))].sort((a, b) => a - b);
+  const columns = new Map<number, number>();
+  let x = 1;
+  
+  for (const key of keys) {
+    const here = chords.filter(chord => columnKey(chord) === key);
+    const notes = here.flatMap(chord => chord.events.map(index => measure.events[index]));
+    if (notes.some(event => event.type === 'note' && event.accidental)) x += 1.3;
+    columns.set(key, x);
+    
+    const shortest = Math.min(...here.map(chord => chord.grace ? 0 : chord.duration));
+    const dotted = notes.some(event => (event.type === 'note' || event.type === 'rest') && (event.dots ?? 0) > 0);
+    x += shortest === 0 ? 1.8 : 3.2 * Math.pow(Math.max(shortest / divisions, 1 / 16), 0.35) + (dotted ? 0.7 : 0);
+  }
+  return { content: Math.max(6, x + 0.6), columns };
+}
+
+// Grace notes take their own column just before the note they lead to
+function columnKey(chord: MeasureChord): number {
+  return chord.offset * 2 - (chord.grace ? 1 : 0);
+}
+
+function keyWidth(key: KeySignature): number {
+  return Math.abs(key.fifths) * 1.05 + (key.fifths !== 0 ? 0.8 : 0);
+}
+
+function clefFor(clefs: Clef[], staff: number): Clef {
+  return clefs.find(clef => clef.staff === staff) ?? clefs[0] ?? { staff, sign: 'G', line: 2 };
+}
+
+function range(from: number, to: number, step: number): number[] {
+  const values: number[] = [];
+  for (let value = from; step > 0 ? value <= to : value >= to; value += step) values.push(value);
+  return values;
+}
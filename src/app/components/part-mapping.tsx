@@ -0,0 +1,122 @@
+/**
+ * Part Mapping Component
+ *
+ * Lists the parts (and staves) detected in a score and says which
+ * instruments play each one.
+ *
+ * Features:
+ * - Assign an instrument to a part
+ * - Double a part by adding more instruments
+ * - Drop a part so it is not played
+ *
+ * Props:
+ * - parts: Parts and staves of the score, in score order
+ * - assignments: Instruments per part; parts without one are not played
+ * - onChange: Callback when an assignment changes
+ * - disabled: Disable all controls
+ */
+
+import React from 'react';
+import { Ban } from 'lucide-react';
+import { PartAssignment } from '../../lib/types';
+import { AssignablePart } from '../../lib/orchestration';
+import { INSTRUMENTS, INSTRUMENT_CATEGORIES, getInstrumentById } from '../../lib/instruments';
+import { Chip } from './ui/chip';
+import { Button } from './ui/button';
+
+export interface PartMappingProps {
+  parts: AssignablePart[];
+  assignments: PartAssignment[];
+  onChange: (assignments: PartAssignment[]) => void;
+  disabled?: boolean;
+}
+
+export function PartMapping({ parts, assignments, onChange, disabled = false }: PartMappingProps) {
+  function instrumentsFor(part: AssignablePart): string[] {
+    return assignments.find(assignment => isAssignmentFor(assignment, part))?.instruments ?? [];
+  }
+  
+  function updateInstruments(part: AssignablePart, instruments: string[]) {
+    const others = assignments.filter(assignment => !isAssignmentFor(assignment, part));
+    onChange(parts
+      .map(item => item === part
+        ? { partId: part.partId, ...(part.staff !== undefined && { staff: part.staff }), instruments }
+        : others.find(assignment => isAssignmentFor(assignment, item)))
+      .filter((assignment): assignment is PartAssignment => assignment !== undefined));
+  }
+  
+  function handleAdd(part: AssignablePart, instrumentId: string) {
+    const current = instrumentsFor(part);
+    if (!instrumentId || current.includes(instrumentId)) return;
+    updateInstruments(part, [...current, instrumentId]);
+  }
+  
+  return (
+    <div className="space-y-3">
+      {parts.map(part => {
+        const instruments = instrumentsFor(part);
+        const dropped = instruments.length === 0;
+        
+        return (
+          <div
+            key={`${part.partId}-${part.staff ?? 0}`}
+            className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 border border-gray-200 rounded-lg"
+          >
+            <p className={`sm:w-48 font-medium ${dropped ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+              {part.name}
+            </p>
+            
+            <div className="flex-1 flex flex-wrap items-center gap-2">
+              {dropped && <span className="text-sm text-gray-500">Not played</span>}
+              {instruments.map(id => (
+                <Chip
+                  key={id}
+                  label={getInstrumentById(id)?.name ?? id}
+                  variant="primary"
+                  size="sm"
+                  onRemove={disabled ? undefined : () => updateInstruments(part, instruments.filter(item => item !== id))}
+                  disabled={disabled}
+                />
+              ))}
+            </div>
+            
+            <div className="flex items-center gap-2">
+              <select
+                value=""
+                onChange={(e) => handleAdd(part, e.target.value)}
+                disabled={disabled}
+                className="px-2 py-1 border rounded-lg bg-white text-sm"
+                aria-label={`Add an instrument to ${part.name}`}
+              >
+                <option value="">{dropped ? 'Assign instrument…' : 'Double on…'}</option>
+                {INSTRUMENT_CATEGORIES.map(category => (
+                  <optgroup key={category.id} label={category.name}>
+                    {INSTRUMENTS.filter(inst => inst.category === category.id).map(inst => (
+                      <option key={inst.id} value={inst.id} disabled={instruments.includes(inst.id)}>
+                        {inst.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+              
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateInstruments(part, [])}
+                disabled={disabled || dropped}
+                title="Drop this part"
+              >
+                <Ban className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function isAssignmentFor(assignment: PartAssignment, part: AssignablePart): boolean {
+  return assignment.partId === part.partId && assignment.staff === part.staff;
+}
@@ -5,68 +5,161 @@
  * - Play/Pause button
  * - Progress scrubber with timeline
  * - Tempo control (BPM)
+ * - Transposition in semitones (live playback only)
  * - Loop region selection
- * - Time display (current / total)
+ * - Time display (current / total), with the written measure being played
  * 
  * Props:
  * - audioUrl: URL of the audio file to play
+ * - score: Symbolic data of the conversion, for live playback
+ * - mix: Live mix settings by track id
+ * - onEngineChange: Callback with the live playback engine, for level meters
+ * - measures: Written measures in the order the audio plays them
  * - onTempoChange: Callback when tempo changes
  * - onDownloadAudio: Callback to download audio
  * - onDownloadMidi: Callback to download MIDI
+ * - onDownloadStems: Callback to download the stems ZIP, when there is one
  * - disabled: Disable controls
+ * - initialTempo: Tempo the conversion was rendered at
  * 
  * State:
  * Manages playback state including current time, duration, playing status
  * 
  * API Integration:
- * - Audio element for playback
- * - Tempo changes may require re-generation (call conversion API with new tempo)
+ * - With a score, plays it in the page through the playback engine, so
+ *   tempo, transposition, mix and loop changes apply at once
+ * - Otherwise plays the rendered audio file at its converted tempo
  */
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Play, Pause, RotateCcw, Download } from 'lucide-react';
 import { Button } from './ui/button';
 import { formatDuration } from '../../lib/utils';
 import { cn } from '../../lib/utils';
+import { PlayedMeasure, TrackMix } from '../../lib/types';
+import { measureSequenceAtSpeed, playedMeasureAt } from '../../lib/repeats';
+import { MAX_TRANSPOSE_SEMITONES } from '../../lib/transposition';
+import {
+  PlaybackEngine,
+  PlaybackScore,
+  createPlaybackEngine,
+  isPlaybackEngineSupported,
+} from '../../lib/playback-engine';
 
 export interface PlaybackControlsProps {
   audioUrl?: string;
+  score?: PlaybackScore | null;
+  mix?: Record<string, TrackMix>;
+  onEngineChange?: (engine: PlaybackEngine | null) => void;
+  measures?: PlayedMeasure[];
   onTempoChange?: (tempo: number) => void;
   onDownloadAudio?: () => void;
   onDownloadMidi?: () => void;
+  onDownloadStems?: () => void;
   disabled?: boolean;
   initialTempo?: number;
 }
 
+const SEMITONES = Array.from({ length: MAX_TRANSPOSE_SEMITONES * 2 + 1 }, (_, i) => MAX_TRANSPOSE_SEMITONES - i);
+
+// How often the time display follows live playback
+const TIME_UPDATE_MS = 100;
+
 export function PlaybackControls({
   audioUrl,
+  score,
+  mix,
+  onEngineChange,
+  measures,
   onTempoChange,
   onDownloadAudio,
   onDownloadMidi,
+  onDownloadStems,
   disabled = false,
   initialTempo = 120,
 }: PlaybackControlsProps) {
   const audioRef = useRef<HTMLAudioElement>(null);
+  const engineRef = useRef<PlaybackEngine | null>(null);
+  const live = Boolean(score) && isPlaybackEngineSupported();
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [tempo, setTempo] = useState(initialTempo);
+  const [semitones, setSemitones] = useState(0);
   const [loopEnabled, setLoopEnabled] = useState(false);
   const [loopStart, setLoopStart] = useState(0);
   const [loopEnd, setLoopEnd] = useState(100);
   
+  // Live playback moves through the converted timeline faster or slower
+  const speed = live && initialTempo > 0 ? tempo / initialTempo : 1;
+  // Seconds heard so far, and the measure times as heard, at that speed
+  const elapsed = currentTime / speed;
+  const heardMeasures = useMemo(() => measures && measureSequenceAtSpeed(measures, speed), [measures, speed]);
+  const played = heardMeasures ? playedMeasureAt(heardMeasures, elapsed) : null;
+  
+  // Set up live playback for the score
+  useEffect(() => {
+    if (!score || !isPlaybackEngineSupported()) return;
+    
+    const engine = createPlaybackEngine(score, {
+      onEnded: () => {
+        setIsPlaying(false);
+        setCurrentTime(0);
+      },
+    });
+    engineRef.current = engine;
+    onEngineChange?.(engine);
+    setDuration(engine.duration);
+    setCurrentTime(0);
+    
+    return () => {
+      engine.dispose();
+      engineRef.current = null;
+      onEngineChange?.(null);
+      setIsPlaying(false);
+    };
+  }, [score]);
+  
+  // Follow live playback in the time display
+  useEffect(() => {
+    if (!live || !isPlaying) return;
+    const timer = setInterval(() => {
+      if (engineRef.current) setCurrentTime(engineRef.current.currentTime());
+    }, TIME_UPDATE_MS);
+    return () => clearInterval(timer);
+  }, [live, isPlaying]);
+  
+  useEffect(() => {
+    engineRef.current?.setSpeed(speed);
+  }, [score, speed]);
+  
+  useEffect(() => {
+    engineRef.current?.setTransposition(semitones);
+  }, [score, semitones]);
+  
+  useEffect(() => {
+    if (mix) engineRef.current?.setMix(mix);
+  }, [score, mix]);
+  
+  useEffect(() => {
+    engineRef.current?.setLoop(loopEnabled && duration > 0
+      ? { start: (loopStart / 100) * duration, end: (loopEnd / 100) * duration }
+      : null);
+  }, [score, loopEnabled, loopStart, loopEnd, duration]);
+  
   // Update audio source when URL changes
   useEffect(() => {
+    if (live) return;
     if (audioRef.current && audioUrl) {
       audioRef.current.src = audioUrl;
       audioRef.current.load();
     }
-  }, [audioUrl]);
+  }, [audioUrl, live]);
   
   // Handle audio time updates
   useEffect(() => {
     const audio = audioRef.current;
-    if (!audio) return;
+    if (!audio || live) return;
     
     function handleTimeUpdate() {
       setCurrentTime(audio!.currentTime);
@@ -102,11 +195,24 @@ export function PlaybackControls({
       audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
       audio.removeEventListener('ended', handleEnded);
     };
-  }, [loopEnabled, loopStart, loopEnd, duration]);
+  }, [loopEnabled, loopStart, loopEnd, duration, live]);
   
-  function handlePlayPause() {
-    if (!audioRef.current || disabled) return;
+  async function handlePlayPause() {
+    if (disabled) return;
     
+    const engine = engineRef.current;
+    if (engine) {
+      if (engine.isPlaying()) {
+        engine.pause();
+        setIsPlaying(false);
+      } else {
+        await engine.play();
+        setIsPlaying(true);
+      }
+      return;
+    }
+    
+    if (!audioRef.current) return;
     if (isPlaying) {
       audioRef.current.pause();
       setIsPlaying(false);
@@ -117,16 +223,31 @@ export function PlaybackControls({
   }
   
   function handleSeek(value: number) {
-    if (!audioRef.current || disabled) return;
+    if (disabled) return;
     
     const newTime = (value / 100) * duration;
-    audioRef.current.currentTime = newTime;
+    if (engineRef.current) {
+      engineRef.current.seek(newTime);
+    } else if (audioRef.current) {
+      audioRef.current.currentTime = newTime;
+    } else {
+      return;
+    }
     setCurrentTime(newTime);
   }
   
   function handleReset() {
-    if (!audioRef.current || disabled) return;
+    if (disabled) return;
+    
+    if (engineRef.current) {
+      engineRef.current.pause();
+      engineRef.current.seek(0);
+      setCurrentTime(0);
+      setIsPlaying(false);
+      return;
+    }
     
+    if (!audioRef.current) return;
     audioRef.current.currentTime = 0;
     setCurrentTime(0);
     setIsPlaying(false);
@@ -139,12 +260,12 @@ export function PlaybackControls({
   }
   
   const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
-  const hasAudio = Boolean(audioUrl);
+  const hasAudio = live || Boolean(audioUrl);
   
   return (
     <div className="space-y-4">
-      {/* Hidden audio element */}
-      <audio ref={audioRef} />
+      {/* Hidden audio element, used when the score cannot be played live */}
+      {!live && <audio ref={audioRef} />}
       
       {/* Main Controls */}
       <div className="bg-white border border-gray-200 rounded-lg p-4">
@@ -177,7 +298,13 @@ export function PlaybackControls({
             
             {/* Time Display */}
             <div className="flex-1 text-sm text-gray-600 font-mono">
-              {formatDuration(currentTime)} / {formatDuration(duration)}
+              {formatDuration(elapsed)} / {formatDuration(duration / speed)}
+              {played && (
+                <span className="ml-3 font-sans text-gray-700">
+                  m. {played.measure.number}
+                  {played.pass > 1 && <span className="text-gray-500"> ({ordinal(played.pass)} time)</span>}
+                </span>
+              )}
             </div>
           </div>
           
@@ -270,19 +397,42 @@ export function PlaybackControls({
           />
         </div>
         
+        {live && (
+          <div className="flex items-center gap-4 mt-4">
+            <label htmlFor="playback-transpose" className="text-sm font-medium text-gray-700 w-20">
+              Transpose
+            </label>
+            <select
+              id="playback-transpose"
+              value={semitones}
+              onChange={(e) => setSemitones(parseInt(e.target.value))}
+              disabled={disabled}
+              className="px-3 py-2 border rounded-lg bg-white disabled:opacity-50"
+            >
+              {SEMITONES.map(count => (
+                <option key={count} value={count}>
+                  {count === 0 ? 'None' : `${count > 0 ? '+' : ''}${count} semitone${Math.abs(count) !== 1 ? 's' : ''}`}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        
         <p className="text-xs text-gray-500 mt-2">
-          💡 Changing tempo will regenerate the audio. Current playback uses original tempo.
+          {live
+            ? '💡 Tempo and transposition apply as you listen. Downloads keep the converted tempo and key.'
+            : '💡 Changing tempo will regenerate the audio. Current playback uses original tempo.'}
         </p>
       </div>
       
       {/* Download Controls */}
-      {(onDownloadAudio || onDownloadMidi) && (
+      {(onDownloadAudio || onDownloadMidi || onDownloadStems) && (
         <div className="flex gap-3">
           {onDownloadAudio && (
             <Button
               variant="outline"
               onClick={onDownloadAudio}
-              disabled={disabled || !hasAudio}
+              disabled={disabled || !audioUrl}
               className="flex-1"
             >
               <Download className="w-4 h-4 mr-2" />
@@ -294,13 +444,25 @@ export function PlaybackControls({
             <Button
               variant="outline"
               onClick={onDownloadMidi}
-              disabled={disabled || !hasAudio}
+              disabled={disabled || !audioUrl}
               className="flex-1"
             >
               <Download className="w-4 h-4 mr-2" />
               Download MIDI
             </Button>
           )}
+          
+          {onDownloadStems && (
+            <Button
+              variant="outline"
+              onClick={onDownloadStems}
+              disabled={disabled || !audioUrl}
+              className="flex-1"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download Stems
+            </Button>
+          )}
         </div>
       )}
       
@@ -312,3 +474,8 @@ export function PlaybackControls({
     </div>
   );
 }
+
+function ordinal(count: number): string {
+  const suffix = count % 100 >= 11 && count % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][count % 10] ?? 'th';
+  return `${count}${suffix}`;
+}
@@ -0,0 +1,162 @@
+/**
+ * Recognition Review Component
+ *
+ * Shows what was recognized in an uploaded score so it can be checked
+ * before a conversion is started.
+ *
+ * Features:
+ * - Key, time signature, part count and measure count
+ * - Page images with the measures read with low confidence highlighted, and
+ *   those where voices sharing a staff are hard to tell apart
+ * - Recognition issues, listed like upload warnings
+ * - Accept the result, or go back and upload another file
+ *
+ * Props:
+ * - review: Result of POST /scores/:scoreId/recognize
+ * - accepted: Whether the result has been accepted (hides the buttons)
+ * - onAccept: Callback when the user accepts the result
+ * - onBack: Callback when the user goes back to the upload step
+ * - disabled: Disable the buttons
+ */
+
+import React from 'react';
+import { CheckCircle, ArrowLeft } from 'lucide-react';
+import { RecognitionReview as Review, ScorePage } from '../../lib/types';
+import { Box } from '../../lib/raster';
+import { describeKey } from '../../lib/score-model';
+import { Button } from './ui/button';
+import { Chip } from './ui/chip';
+
+export interface RecognitionReviewProps {
+  review: Review;
+  accepted?: boolean;
+  onAccept: () => void;
+  onBack: () => void;
+  disabled?: boolean;
+}
+
+export function RecognitionReview({
+  review,
+  accepted = false,
+  onAccept,
+  onBack,
+  disabled = false,
+}: RecognitionReviewProps) {
+  const { summary, pages, lowConfidence, ambiguousVoices, validation } = review;
+  const warnings = validation.warnings ?? [];
+  
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Chip label={describeKey(summary.key)} variant="primary" />
+        <Chip label={`${summary.time.beats}/${summary.time.beatType} time`} variant="primary" />
+        <Chip label={`${summary.partCount} part${summary.partCount !== 1 ? 's' : ''}`} />
+        <Chip label={`${summary.measureCount} measure${summary.measureCount !== 1 ? 's' : ''}`} />
+        {pages.length > 1 && <Chip label={`${pages.length} pages`} />}
+      </div>
+      
+      {warnings.length > 0 && (
+        <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg">
+          <p className="text-sm font-medium text-orange-800">Check these before converting</p>
+          <ul className="text-sm text-orange-700 mt-1 list-disc pl-5 space-y-0.5">
+            {warnings.map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      
+      {pages.length > 0 && (
+        <div className="max-h-[40rem] overflow-y-auto space-y-4 bg-gray-100 rounded-lg p-4">
+          {pages.map((page, index) => (
+            <ReviewPage
+              key={page.number}
+              page={page}
+              measures={lowConfidence.filter(measure => measure.page === index)}
+              ambiguous={ambiguousVoices.filter(measure => measure.page === index)}
+              pageCount={pages.length}
+            />
+          ))}
+        </div>
+      )}
+      
+      {accepted ? (
+        <div className="flex items-center gap-2 text-green-600">
+          <CheckCircle className="w-5 h-5" />
+          <span>Recognition accepted</span>
+        </div>
+      ) : (
+        <div className="flex flex-col sm:flex-row gap-3 justify-end">
+          <Button variant="outline" onClick={onBack} disabled={disabled}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Upload a different file
+          </Button>
+          <Button variant="primary" onClick={onAccept} disabled={disabled}>
+            Looks right, continue
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * One page image with boxes over its doubtful measures: orange where the
+ * reading is unsure, purple where the voices are. Boxes are placed in
+ * percentages of the page so they follow the image as it scales.
+ */
+function ReviewPage({
+  page,
+  measures,
+  ambiguous,
+  pageCount,
+}: {
+  page: ScorePage;
+  measures: Review['lowConfidence'];
+  ambiguous: Review['ambiguousVoices'];
+  pageCount: number;
+}) {
+  const place = (box: Box) => ({
+    left: `${(box.x / page.width) * 100}%`,
+    top: `${(box.y / page.height) * 100}%`,
+    width: `${(box.width / page.width) * 100}%`,
+    height: `${(box.height / page.height) * 100}%`,
+  });
+  
+  return (
+    <figure>
+      <div className="relative">
+        <img src={page.url} alt={`Page ${page.number}`} className="w-full bg-white shadow-sm" />
+        {measures.map(measure => (
+          <div
+            key={measure.index}
+            className="absolute border-2 border-orange-500 bg-orange-400/20 rounded-sm"
+            style={place(measure.box)}
+            title={`Measure ${measure.number}: ${Math.round(measure.confidence * 100)}% confident`}
+          >
+            <span className="absolute -top-5 left-0 bg-orange-500 text-white text-xs px-1 rounded">
+              m. {measure.number}
+            </span>
+          </div>
+        ))}
+        {ambiguous.filter(measure => measure.box).map(measure => (
+          <div
+            key={`voices-${measure.index}-${measure.staff}`}
+            className="absolute border-2 border-dashed border-purple-500 bg-purple-400/10 rounded-sm"
+            style={place(measure.box!)}
+            title={`Measure ${measure.number}: ${measure.reasons.join('; ')}`}
+          >
+            <span className="absolute -bottom-5 left-0 bg-purple-500 text-white text-xs px-1 rounded">
+              m. {measure.number} voices
+            </span>
+          </div>
+        ))}
+      </div>
+      {pageCount > 1 && (
+        <figcaption className="text-xs text-gray-500 text-center mt-1">
+          Page {page.number} of {pageCount}
+        </figcaption>
+      )}
+    </figure>
+  );
+}
@@ -0,0 +1,249 @@
+/**
+ * Revision History Component
+ *
+ * Lists the saved revisions of a score's model, compares two of them
+ * measure by measure, and restores an older one.
+ *
+ * Features:
+ * - Revisions newest first, with where each came from and its key, time
+ *   and measure count
+ * - Which conversions were rendered from each revision
+ * - Measure-by-measure comparison of any two revisions
+ * - Restore an older revision (saved as a new revision)
+ *
+ * Props:
+ * - score: The score whose history is shown
+ * - revisions: Result of GET /scores/:scoreId/revisions, oldest first
+ * - diff: Result of the last comparison, with the revisions compared
+ * - onCompare: Callback to compare two revisions
+ * - onRestore: Callback to restore a revision
+ * - onClose: Callback to close the history
+ * - loading: Show a loading state
+ * - busy: Disable the buttons while a request runs
+ */
+
+import React, { useEffect, useState } from 'react';
+import { History, Loader2, RotateCcw, X } from 'lucide-react';
+import { Score, ScoreRevision } from '../../lib/types';
+import { ScoreModelSource, describeKey } from '../../lib/score-model';
+import { ScoreDiff, countChangedMeasures } from '../../lib/score-diff';
+import { formatRelativeTime } from '../../lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Chip } from './ui/chip';
+
+export interface RevisionComparison {
+  from: number;
+  to: number;
+  diff: ScoreDiff;
+}
+
+export interface RevisionHistoryProps {
+  score: Score;
+  revisions: ScoreRevision[];
+  diff: RevisionComparison | null;
+  onCompare: (from: number, to: number) => void;
+  onRestore: (revision: number) => void;
+  onClose: () => void;
+  loading?: boolean;
+  busy?: boolean;
+}
+
+const SOURCE_LABELS: Record<ScoreModelSource, string> = {
+  omr: 'Recognized',
+  musicxml: 'MusicXML',
+  editor: 'Edited',
+};
+
+const selectClass = 'px-2 py-1 border rounded bg-white text-sm disabled:opacity-50';
+
+export function RevisionHistory({
+  score,
+  revisions,
+  diff,
+  onCompare,
+  onRestore,
+  onClose,
+  loading = false,
+  busy = false,
+}: RevisionHistoryProps) {
+  const current = revisions[revisions.length - 1]?.number;
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  
+  // Compare the latest revision with the one before it by default
+  useEffect(() => {
+    setFrom(revisions.length > 1 ? revisions[revisions.length - 2].number : null);
+    setTo(current ?? null);
+  }, [revisions]);
+  
+  const conversionsOf = (revision: number) =>
+    (score.conversions ?? []).filter(conversion => conversion.revision === revision).length;
+  
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2 truncate">
+            <History className="w-5 h-5 text-blue-600 shrink-0" />
+            <span className="truncate">Revisions of {score.fileName}</span>
+          </CardTitle>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-700"
+            aria-label="Close revision history"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center gap-2 text-gray-600">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Loading revisions...
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            This score has not been read yet. Its first revision is saved when it is recognized or converted.
+          </p>
+        ) : (
+          <>
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {[...revisions].reverse().map(revision => {
+                const conversions = conversionsOf(revision.number);
+                
+                return (
+                  <li key={revision.number} className="p-3 flex flex-col sm:flex-row sm:items-center gap-3">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium text-gray-900">Revision {revision.number}</span>
+                        {revision.number === current && <Chip label="current" variant="success" size="sm" />}
+                        <Chip label={SOURCE_LABELS[revision.source]} size="sm" />
+                        {revision.restoredFrom !== undefined && (
+                          <Chip label={`restored from ${revision.restoredFrom}`} variant="primary" size="sm" />
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {formatRelativeTime(revision.createdAt)}
+                        {' • '}
+                        {describeKey(revision.summary.key)} • {revision.summary.time.beats}/{revision.summary.time.beatType}
+                        {' • '}
+                        {revision.summary.measureCount} measure{revision.summary.measureCount !== 1 ? 's' : ''}
+                        {conversions > 0 && ` • ${conversions} conversion${conversions !== 1 ? 's' : ''}`}
+                      </p>
+                    </div>
+                    {revision.number !== current && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busy}
+                        onClick={() => {
+                          if (confirm(`Make revision ${revision.number} current again? Later revisions stay in the history.`)) {
+                            onRestore(revision.number);
+                          }
+                        }}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+            
+            {revisions.length > 1 && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-gray-700">Compare revision</span>
+                  <select
+                    aria-label="Older revision"
+                    value={from ?? ''}
+                    onChange={(e) => setFrom(parseInt(e.target.value))}
+                    disabled={busy}
+                    className={selectClass}
+                  >
+                    {revisions.map(revision => (
+                      <option key={revision.number} value={revision.number}>{revision.number}</option>
+                    ))}
+                  </select>
+                  <span className="text-gray-700">with</span>
+                  <select
+                    aria-label="Newer revision"
+                    value={to ?? ''}
+                    onChange={(e) => setTo(parseInt(e.target.value))}
+                    disabled={busy}
+                    className={selectClass}
+                  >
+                    {revisions.map(revision => (
+                      <option key={revision.number} value={revision.number}>{revision.number}</option>
+                    ))}
+                  </select>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={busy || from === null || to === null || from === to}
+                    onClick={() => onCompare(from!, to!)}
+                  >
+                    Compare
+                  </Button>
+                </div>
+                
+                {diff && <RevisionDiff comparison={diff} />}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Measures that differ between two revisions, grouped by part
+ */
+function RevisionDiff({ comparison }: { comparison: RevisionComparison }) {
+  const { from, to, diff } = comparison;
+  const changed = countChangedMeasures(diff);
+  
+  if (changed === 0 && diff.partsAdded.length === 0 && diff.partsRemoved.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Revisions {from} and {to} contain the same music.
+      </p>
+    );
+  }
+  
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-900">
+        {changed} measure{changed !== 1 ? 's' : ''} differ between revisions {from} and {to}
+      </p>
+      {diff.partsAdded.length > 0 && (
+        <p className="text-sm text-green-700">Parts added: {diff.partsAdded.join(', ')}</p>
+      )}
+      {diff.partsRemoved.length > 0 && (
+        <p className="text-sm text-red-700">Parts removed: {diff.partsRemoved.join(', ')}</p>
+      )}
+      <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg text-sm">
+        {diff.measures.map(measure => (
+          <li key={`${measure.partId}-${measure.index}`} className="px-3 py-2 flex flex-wrap items-center gap-2">
+            <span className="font-medium text-gray-700 w-16">m. {measure.number}</span>
+            <span className="text-gray-500">{measure.partName}</span>
+            {measure.kind === 'changed' ? (
+              <span className="text-gray-900">{measure.changes.join(', ')}</span>
+            ) : (
+              <Chip
+                label={measure.kind === 'added' ? 'added' : 'removed'}
+                variant={measure.kind === 'added' ? 'success' : 'warning'}
+                size="sm"
+              />
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,158 +1,245 @@
 /**
  * SATB Voice Selector Component
- * 
- * Controls for Soprano, Alto, Tenor, Bass choir voices.
- * 
+ *
+ * Controls for the voices of a choir, from four-part SATB to divided
+ * choirs such as SSAA, TTBB, SSATB or SSAATTBB.
+ *
  * Features:
+ * - Detect the voices from the score, or add, rename and remove them
+ * - Voice type (the sound) and singing range per voice
  * - Solo individual voices
  * - Mute/unmute voices
  * - Volume control per voice
  * - Visual feedback for active voices
- * 
+ *
  * Props:
- * - config: Current SATB configuration
- * - onChange: Callback when configuration changes
+ * - voices: Choir voices, top voice first
+ * - onChange: Callback when the voices change
+ * - model: Score model, for detecting the voices and naming what each sings
  * - disabled: Disable all controls
- * 
+ *
  * State:
  * Each voice has: enabled (mute/unmute), solo, volume (0-100)
  */
 
 import React from 'react';
-import { Volume2, VolumeX, Music2 } from 'lucide-react';
-import { SATBConfig } from '../../lib/types';
+import { Volume2, VolumeX, Music2, Plus, Trash2, Wand2 } from 'lucide-react';
+import { ChoirVoice, VoiceSettings } from '../../lib/types';
+import { ScoreModel, describePitch, midiToPitch } from '../../lib/score-model';
+import { PartSource } from '../../lib/performance';
+import { getInstrumentById } from '../../lib/instruments';
+import {
+  DEFAULT_VOICE_SETTINGS,
+  MAX_CHOIR_VOICES,
+  MAX_VOICE_NAME_LENGTH,
+  VOICE_TYPES,
+  createChoirVoice,
+  detectChoirVoices,
+  nextVoiceId,
+  voiceTypeRange,
+} from '../../lib/voices';
 import { cn } from '../../lib/utils';
 import { Button } from './ui/button';
 
 export interface SATBSelectorProps {
-  config: SATBConfig;
-  onChange: (config: SATBConfig) => void;
+  voices: ChoirVoice[];
+  onChange: (voices: ChoirVoice[]) => void;
+  model?: ScoreModel | null;
   disabled?: boolean;
 }
 
-const VOICES = [
-  { id: 'soprano', label: 'Soprano', color: 'blue' },
-  { id: 'alto', label: 'Alto', color: 'purple' },
-  { id: 'tenor', label: 'Tenor', color: 'green' },
-  { id: 'bass', label: 'Bass', color: 'orange' },
-] as const;
+const VOICE_COLORS: Record<string, string> = {
+  soprano: 'blue',
+  alto: 'purple',
+  tenor: 'green',
+  'bass-voice': 'orange',
+};
 
-export function SATBSelector({ config, onChange, disabled = false }: SATBSelectorProps) {
-  function handleToggleEnabled(voiceId: keyof SATBConfig) {
-    onChange({
-      ...config,
-      [voiceId]: {
-        ...config[voiceId],
-        enabled: !config[voiceId].enabled,
-      },
-    });
+// Notes offered for a voice's range, C1 to C7
+const RANGE_NOTES = Array.from({ length: 73 }, (_, index) => 24 + index);
+
+export function SATBSelector({ voices, onChange, model, disabled = false }: SATBSelectorProps) {
+  function updateVoice(voiceId: string, changes: Partial<ChoirVoice>) {
+    onChange(voices.map(voice => (voice.id === voiceId ? { ...voice, ...changes } : voice)));
+  }
+  
+  function updateSettings(voiceId: string, changes: Partial<VoiceSettings>) {
+    onChange(voices.map(voice => (
+      voice.id === voiceId ? { ...voice, settings: { ...voice.settings, ...changes } } : voice
+    )));
+  }
+  
+  function handleToggleSolo(voiceId: string) {
+    // Solo one voice at a time
+    const soloing = !voices.find(voice => voice.id === voiceId)?.settings.solo;
+    onChange(voices.map(voice => ({
+      ...voice,
+      settings: { ...voice.settings, solo: soloing && voice.id === voiceId },
+    })));
+  }
+  
+  function handleTypeChange(voiceId: string, instrumentId: string) {
+    // A new voice type brings its usual range
+    updateVoice(voiceId, { instrumentId, range: voiceTypeRange(instrumentId) });
+  }
+  
+  function handleAddVoice() {
+    const type = voices[voices.length - 1]?.instrumentId ?? VOICE_TYPES[0];
+    onChange([...voices, createChoirVoice(nextVoiceId(voices), `Voice ${voices.length + 1}`, type)]);
   }
   
-  function handleToggleSolo(voiceId: keyof SATBConfig) {
-    const newConfig = { ...config };
-    
-    // If this voice is already solo, unsolo it
-    if (config[voiceId].solo) {
-      newConfig[voiceId] = { ...newConfig[voiceId], solo: false };
-    } else {
-      // Solo this voice and unsolo all others
-      VOICES.forEach(voice => {
-        newConfig[voice.id] = {
-          ...newConfig[voice.id],
-          solo: voice.id === voiceId,
-        };
-      });
-    }
-    
-    onChange(newConfig);
+  function handleRemoveVoice(voiceId: string) {
+    onChange(voices.filter(voice => voice.id !== voiceId));
   }
   
-  function handleVolumeChange(voiceId: keyof SATBConfig, volume: number) {
-    onChange({
-      ...config,
-      [voiceId]: {
-        ...config[voiceId],
-        volume,
-      },
-    });
+  function handleDetect() {
+    if (!model) return;
+    const detected = detectChoirVoices(model);
+    if (detected.length > 0) onChange(detected.slice(0, MAX_CHOIR_VOICES));
   }
   
   function handleResetAll() {
-    const resetConfig: SATBConfig = {
-      soprano: { enabled: true, solo: false, volume: 100 },
-      alto: { enabled: true, solo: false, volume: 100 },
-      tenor: { enabled: true, solo: false, volume: 100 },
-      bass: { enabled: true, solo: false, volume: 100 },
-    };
-    onChange(resetConfig);
+    onChange(voices.map(voice => ({ ...voice, settings: { ...DEFAULT_VOICE_SETTINGS } })));
   }
   
-  const anySolo = VOICES.some(voice => config[voice.id].solo);
+  const anySolo = voices.some(voice => voice.settings.solo);
   
   return (
     <div className="space-y-4">
       {/* Header */}
-      <div className="flex items-center justify-between">
+      <div className="flex items-center justify-between gap-4">
         <div>
           <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
             <Music2 className="w-5 h-5" />
-            SATB Voice Controls
+            Choir Voice Controls
           </h3>
           <p className="text-sm text-gray-600 mt-1">
-            Manage choir voices: solo, mute, or adjust volume
+            Name the choir's voices, then solo, mute, or adjust volume
           </p>
         </div>
         
-        <Button 
-          variant="outline" 
-          size="sm"
-          onClick={handleResetAll}
-          disabled={disabled}
-        >
-          Reset All
-        </Button>
+        <div className="flex flex-wrap justify-end gap-2">
+          {model && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDetect}
+              disabled={disabled}
+            >
+              <Wand2 className="w-4 h-4 mr-2" />
+              Detect from Score
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleResetAll}
+            disabled={disabled}
+          >
+            Reset All
+          </Button>
+        </div>
       </div>
       
       {/* Voice Controls */}
       <div className="space-y-3">
-        {VOICES.map(voice => {
-          const voiceConfig = config[voice.id];
-          const isActive = voiceConfig.enabled && (!anySolo || voiceConfig.solo);
+        {voices.map(voice => {
+          const settings = voice.settings;
+          const color = VOICE_COLORS[voice.instrumentId] ?? 'gray';
+          const isActive = settings.enabled && (!anySolo || settings.solo);
+          const sings = voice.source && model ? describeSource(model, voice.source) : null;
           
           return (
             <div
               key={voice.id}
               className={cn(
-                'border-2 rounded-lg p-4 transition-all',
-                isActive ? `border-${voice.color}-500 bg-${voice.color}-50` : 'border-gray-200 bg-white',
-                !voiceConfig.enabled && 'opacity-50'
+                'border-2 rounded-lg p-4 transition-all space-y-3',
+                isActive ? `border-${color}-500 bg-${color}-50` : 'border-gray-200 bg-white',
+                !settings.enabled && 'opacity-50'
               )}
             >
-              <div className="flex items-center gap-4">
-                {/* Voice Label */}
-                <div className="w-24">
-                  <p className={cn(
-                    'font-semibold',
-                    isActive ? `text-${voice.color}-700` : 'text-gray-700'
-                  )}>
-                    {voice.label}
-                  </p>
-                </div>
+              {/* Name, Voice Type and Range */}
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="text"
+                  value={voice.name}
+                  onChange={(e) => updateVoice(voice.id, { name: e.target.value })}
+                  maxLength={MAX_VOICE_NAME_LENGTH}
+                  disabled={disabled}
+                  aria-label="Voice name"
+                  className={cn(
+                    'w-36 px-2 py-1 border rounded-lg bg-white font-semibold',
+                    isActive ? `text-${color}-700` : 'text-gray-700'
+                  )}
+                />
+                
+                <select
+                  value={voice.instrumentId}
+                  onChange={(e) => handleTypeChange(voice.id, e.target.value)}
+                  disabled={disabled}
+                  aria-label={`Voice type of ${voice.name}`}
+                  className="px-2 py-1 border rounded-lg bg-white text-sm"
+                >
+                  {VOICE_TYPES.map(type => (
+                    <option key={type} value={type}>
+                      {getInstrumentById(type)?.name ?? type}
+                    </option>
+                  ))}
+                </select>
+                
+                <span className="flex items-center gap-1 text-sm text-gray-600">
+                  <select
+                    value={voice.range.low}
+                    onChange={(e) => updateVoice(voice.id, { range: { ...voice.range, low: parseInt(e.target.value) } })}
+                    disabled={disabled}
+                    aria-label={`Lowest note of ${voice.name}`}
+                    className="px-2 py-1 border rounded-lg bg-white"
+                  >
+                    {RANGE_NOTES.filter(note => note <= voice.range.high).map(note => (
+                      <option key={note} value={note}>{describePitch(midiToPitch(note))}</option>
+                    ))}
+                  </select>
+                  –
+                  <select
+                    value={voice.range.high}
+                    onChange={(e) => updateVoice(voice.id, { range: { ...voice.range, high: parseInt(e.target.value) } })}
+                    disabled={disabled}
+                    aria-label={`Highest note of ${voice.name}`}
+                    className="px-2 py-1 border rounded-lg bg-white"
+                  >
+                    {RANGE_NOTES.filter(note => note >= voice.range.low).map(note => (
+                      <option key={note} value={note}>{describePitch(midiToPitch(note))}</option>
+                    ))}
+                  </select>
+                </span>
                 
+                {sings && <span className="text-sm text-gray-500">sings {sings}</span>}
+                
+                <button
+                  onClick={() => handleRemoveVoice(voice.id)}
+                  disabled={disabled || voices.length <= 1}
+                  className="ml-auto p-2 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                  aria-label={`Remove ${voice.name}`}
+                >
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </button>
+              </div>
+              
+              <div className="flex items-center gap-4">
                 {/* Mute/Unmute Button */}
                 <button
-                  onClick={() => handleToggleEnabled(voice.id)}
+                  onClick={() => updateSettings(voice.id, { enabled: !settings.enabled })}
                   disabled={disabled}
                   className={cn(
                     'p-2 rounded-lg transition-colors',
-                    voiceConfig.enabled 
-                      ? 'bg-green-100 text-green-700 hover:bg-green-200' 
+                    settings.enabled
+                      ? 'bg-green-100 text-green-700 hover:bg-green-200'
                       : 'bg-red-100 text-red-700 hover:bg-red-200',
                     disabled && 'opacity-50 cursor-not-allowed'
                   )}
-                  aria-label={voiceConfig.enabled ? 'Mute' : 'Unmute'}
+                  aria-label={settings.enabled ? 'Mute' : 'Unmute'}
                 >
-                  {voiceConfig.enabled ? (
+                  {settings.enabled ? (
                     <Volume2 className="w-5 h-5" />
                   ) : (
                     <VolumeX className="w-5 h-5" />
@@ -162,16 +249,16 @@ export function SATBSelector({ config, onChange, disabled = false }: SATBSelecto
                 {/* Solo Button */}
                 <button
                   onClick={() => handleToggleSolo(voice.id)}
-                  disabled={disabled || !voiceConfig.enabled}
+                  disabled={disabled || !settings.enabled}
                   className={cn(
                     'px-4 py-2 rounded-lg text-sm font-medium transition-colors',
-                    voiceConfig.solo 
-                      ? `bg-${voice.color}-600 text-white` 
+                    settings.solo
+                      ? `bg-${color}-600 text-white`
                       : 'bg-gray-100 text-gray-700 hover:bg-gray-200',
-                    (disabled || !voiceConfig.enabled) && 'opacity-50 cursor-not-allowed'
+                    (disabled || !settings.enabled) && 'opacity-50 cursor-not-allowed'
                   )}
                 >
-                  {voiceConfig.solo ? 'Solo On' : 'Solo'}
+                  {settings.solo ? 'Solo On' : 'Solo'}
                 </button>
                 
                 {/* Volume Slider */}
@@ -180,17 +267,17 @@ export function SATBSelector({ config, onChange, disabled = false }: SATBSelecto
                     type="range"
                     min="0"
                     max="100"
-                    value={voiceConfig.volume}
-                    onChange={(e) => handleVolumeChange(voice.id, parseInt(e.target.value))}
-                    disabled={disabled || !voiceConfig.enabled}
+                    value={settings.volume}
+                    onChange={(e) => updateSettings(voice.id, { volume: parseInt(e.target.value) })}
+                    disabled={disabled || !settings.enabled}
                     className={cn(
                       'flex-1 h-2 rounded-lg appearance-none cursor-pointer',
-                      `accent-${voice.color}-600`,
-                      (disabled || !voiceConfig.enabled) && 'opacity-50 cursor-not-allowed'
+                      `accent-${color}-600`,
+                      (disabled || !settings.enabled) && 'opacity-50 cursor-not-allowed'
                     )}
                   />
                   <span className="text-sm text-gray-600 w-12 text-right">
-                    {voiceConfig.volume}%
+                    {settings.volume}%
                   </span>
                 </div>
               </div>
@@ -199,12 +286,22 @@ export function SATBSelector({ config, onChange, disabled = false }: SATBSelecto
         })}
       </div>
       
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleAddVoice}
+        disabled={disabled || voices.length >= MAX_CHOIR_VOICES}
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add Voice
+      </Button>
+      
       {/* Status Summary */}
       <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
         <p className="text-sm text-gray-700">
           <strong>Active Voices:</strong>{' '}
-          {VOICES.filter(voice => config[voice.id].enabled && (!anySolo || config[voice.id].solo))
-            .map(voice => voice.label)
+          {voices.filter(voice => voice.settings.enabled && (!anySolo || voice.settings.solo))
+            .map(voice => voice.name)
             .join(', ') || 'None'}
         </p>
         {anySolo && (
@@ -212,7 +309,24 @@ export function SATBSelector({ config, onChange, disabled = false }: SATBSelecto
             🎵 Solo mode active
           </p>
         )}
+        {voices.some(voice => !voice.source) && (
+          <p className="text-sm text-gray-600 mt-1">
+            Voices without a detected line sing the score's parts (or staves and voices) in order.
+          </p>
+        )}
       </div>
     </div>
   );
 }
+
+/**
+ * The line a voice sings, e.g. "Choir, staff 1, voice 2"
+ */
+function describeSource(model: ScoreModel, source: PartSource): string {
+  const part = model.parts.find(item => item.id === source.partId);
+  return [
+    part?.name || source.partId,
+    ...(source.staff !== undefined && (part?.staves ?? 1) > 1 ? [`staff ${source.staff}`] : []),
+    ...(source.voice !== undefined ? [`voice ${source.voice}`] : []),
+  ].join(', ');
+}
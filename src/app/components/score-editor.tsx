@@ -0,0 +1,163 @@
+/**
+ * Score Editor Component
+ *
+ * Notation editor for correcting a recognized score before (or after)
+ * converting it. The user picks a measure in the notation, fixes it in the
+ * measure form below, and saves the result as a new score revision.
+ *
+ * Features:
+ * - Notation view per part, with doubtful measures tinted
+ * - Measure form for pitches, accidentals, durations, ties and key/time
+ * - Undo, discard, and validation before saving
+ *
+ * Props:
+ * - model: The saved score model; the draft starts over when it changes
+ * - onSave: Called with the edited model; resolves true once saved
+ * - saving: Whether a save is in progress
+ * - disabled: Disable editing
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Undo2 } from 'lucide-react';
+import { ScoreModel, validateScoreModel } from '../../lib/score-model';
+import { NotationView } from './notation-view';
+import { MeasureEditor } from './measure-editor';
+import { Button } from './ui/button';
+
+export interface ScoreEditorProps {
+  model: ScoreModel;
+  onSave: (model: ScoreModel) => Promise<boolean>;
+  saving?: boolean;
+  disabled?: boolean;
+}
+
+const MAX_LISTED_WARNINGS = 5;
+
+export function ScoreEditor({ model, onSave, saving = false, disabled = false }: ScoreEditorProps) {
+  const [draft, setDraft] = useState(model);
+  const [history, setHistory] = useState<ScoreModel[]>([]);
+  const [partIndex, setPartIndex] = useState(0);
+  const [selectedMeasure, setSelectedMeasure] = useState<number | null>(null);
+  const [selectedEvent, setSelectedEvent] = useState<number | null>(null);
+  
+  useEffect(() => {
+    setDraft(model);
+    setHistory([]);
+    setPartIndex(index => Math.min(index, model.parts.length - 1));
+  }, [model]);
+  
+  const validation = validateScoreModel(draft);
+  const changed = history.length > 0;
+  const locked = disabled || saving;
+  
+  function handleChange(edited: ScoreModel) {
+    setHistory(previous => [...previous, draft]);
+    setDraft(edited);
+  }
+  
+  function handleUndo() {
+    setDraft(history[history.length - 1]);
+    setHistory(previous => previous.slice(0, -1));
+  }
+  
+  function handleDiscard() {
+    setDraft(model);
+    setHistory([]);
+  }
+  
+  async function handleSave() {
+    if (await onSave(draft)) {
+      setHistory([]);
+    }
+  }
+  
+  function handleSelect(measure: number, event?: number) {
+    setSelectedMeasure(measure);
+    setSelectedEvent(event ?? null);
+  }
+  
+  return (
+    <div className="space-y-4">
+      {draft.parts.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {draft.parts.map((part, index) => (
+            <Button
+              key={part.id}
+              variant={index === partIndex ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => {
+                setPartIndex(index);
+                setSelectedEvent(null);
+              }}
+            >
+              {part.name || part.id}
+            </Button>
+          ))}
+        </div>
+      )}
+      
+      <div className="max-h-[32rem] overflow-y-auto border border-gray-200 rounded-lg p-3 bg-white">
+        <NotationView
+          model={draft}
+          partIndex={partIndex}
+          selectedMeasure={selectedMeasure}
+          selectedEvent={selectedEvent}
+          onSelect={locked ? undefined : handleSelect}
+        />
+      </div>
+      
+      {selectedMeasure === null ? (
+        <p className="text-sm text-gray-500">
+          Click a measure to correct it. Measures tinted orange were read with low confidence.
+        </p>
+      ) : selectedMeasure < draft.parts[partIndex].measures.length && (
+        <MeasureEditor
+          model={draft}
+          partIndex={partIndex}
+          measureIndex={selectedMeasure}
+          selectedEvent={selectedEvent}
+          onSelectEvent={setSelectedEvent}
+          onChange={handleChange}
+          disabled={locked}
+        />
+      )}
+      
+      {!validation.valid && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm font-medium text-red-800">These changes cannot be saved</p>
+          <ul className="text-sm text-red-600 mt-1 list-disc pl-5 space-y-0.5">
+            {validation.errors.slice(0, MAX_LISTED_WARNINGS).map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      
+      {validation.warnings.length > 0 && (
+        <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg">
+          <ul className="text-sm text-orange-700 list-disc pl-5 space-y-0.5">
+            {validation.warnings.slice(0, MAX_LISTED_WARNINGS).map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+            {validation.warnings.length > MAX_LISTED_WARNINGS && (
+              <li>and {validation.warnings.length - MAX_LISTED_WARNINGS} more</li>
+            )}
+          </ul>
+        </div>
+      )}
+      
+      <div className="flex flex-col sm:flex-row gap-3 justify-end">
+        <Button variant="ghost" onClick={handleUndo} disabled={!changed || locked}>
+          <Undo2 className="w-4 h-4 mr-2" />
+          Undo
+        </Button>
+        <Button variant="outline" onClick={handleDiscard} disabled={!changed || locked}>
+          Discard changes
+        </Button>
+        <Button variant="primary" onClick={handleSave} disabled={!changed || !validation.valid || locked}>
+          {saving ? 'Saving...' : 'Save as new revision'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@
  * - scores: Array of score objects with conversions
  * - onScoreSelect: Callback when score is clicked
  * - onScoreDelete: Callback to delete a score
+ * - onScoreHistory: Callback to show a score's revision history
  * - loading: Show loading state
  * 
  * API Integration:
@@ -22,17 +23,19 @@
  */
 
 import React from 'react';
-import { FileImage, Music, Trash2, Play, Download, Clock } from 'lucide-react';
-import { Score } from '../../lib/types';
+import { FileImage, Music, Trash2, Play, Download, Clock, History } from 'lucide-react';
+import { Conversion, Score } from '../../lib/types';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Chip } from './ui/chip';
 import { formatRelativeTime, formatFileSize } from '../../lib/utils';
+import { isMusicXmlType } from '../../lib/score-formats';
 
 export interface ScoreLibraryProps {
   scores: Score[];
   onScoreSelect: (score: Score) => void;
   onScoreDelete: (scoreId: string) => void;
+  onScoreHistory?: (score: Score) => void;
   loading?: boolean;
 }
 
@@ -40,6 +43,7 @@ export function ScoreLibrary({
   scores,
   onScoreSelect,
   onScoreDelete,
+  onScoreHistory,
   loading = false,
 }: ScoreLibraryProps) {
   if (loading) {
@@ -93,11 +97,22 @@ export function ScoreLibrary({
                 alt={score.fileName}
                 className="w-full h-full object-cover"
               />
+            ) : score.pages && score.pages.length > 0 ? (
+              <>
+                <img
+                  src={score.pages[0].url}
+                  alt={score.fileName}
+                  className="w-full h-full object-cover object-top"
+                />
+                <span className="absolute bottom-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
+                  PDF • {score.pages.length} page{score.pages.length !== 1 ? 's' : ''}
+                </span>
+              </>
             ) : (
               <div className="w-full h-full flex items-center justify-center">
                 <FileImage className="w-16 h-16 text-gray-400" />
                 <span className="absolute bottom-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
-                  PDF
+                  {isMusicXmlType(score.fileType) ? 'MusicXML' : 'PDF'}
                 </span>
               </div>
             )}
@@ -120,6 +135,12 @@ export function ScoreLibrary({
               {formatRelativeTime(score.uploadedAt)}
               <span className="mx-1">•</span>
               {formatFileSize(score.fileSize)}
+              {score.revision !== undefined && (
+                <>
+                  <span className="mx-1">•</span>
+                  Revision {score.revision}
+                </>
+              )}
             </div>
           </CardHeader>
           
@@ -139,9 +160,10 @@ export function ScoreLibrary({
                       size="sm"
                     />
                     <span className="text-xs text-gray-600 truncate">
-                      {conversion.instruments.length} instrument{conversion.instruments.length > 1 ? 's' : ''}
+                      {describePerformers(conversion)}
                       {' • '}
                       {conversion.tempo} BPM
+                      {conversion.revision !== undefined && ` • revision ${conversion.revision}`}
                     </span>
                   </div>
                 ))}
@@ -161,6 +183,18 @@ export function ScoreLibrary({
               Open
             </Button>
             
+            {onScoreHistory && score.model && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onScoreHistory(score)}
+                aria-label="Revision history"
+                title="Revision history"
+              >
+                <History className="w-4 h-4" />
+              </Button>
+            )}
+            
             <Button
               variant="outline"
               size="sm"
@@ -178,3 +212,16 @@ export function ScoreLibrary({
     </div>
   );
 }
+
+/**
+ * Who performs a conversion, e.g. "4 voices + 1 instrument"
+ */
+function describePerformers(conversion: Conversion): string {
+  const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+  return [
+    ...(conversion.voices?.length ? [count(conversion.voices.length, 'voice')] : []),
+    ...(conversion.instruments.length > 0 || !conversion.voices?.length
+      ? [count(conversion.instruments.length, 'instrument')]
+      : []),
+  ].join(' + ');
+}
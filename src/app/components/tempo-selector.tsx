@@ -0,0 +1,137 @@
+/**
+ * Tempo Selector Component
+ *
+ * Controls for the tempo a conversion plays at.
+ *
+ * Features:
+ * - Tempo slider and number input (quarter notes per minute)
+ * - Follow the score's tempo changes, scaled to the chosen opening tempo,
+ *   or play the whole score at one steady tempo
+ * - Shows the score's marked opening tempo and the tempo changes that will
+ *   be played, when the score is known
+ *
+ * Props:
+ * - tempo: Opening tempo (or the steady tempo)
+ * - mode: How the tempo applies to the score's tempo map
+ * - onTempoChange: Callback when the tempo changes
+ * - onModeChange: Callback when the mode changes
+ * - model: Score model, used to preview the tempo map
+ * - disabled: Disable all controls
+ */
+
+import React, { useMemo } from 'react';
+import { TempoMode } from '../../lib/types';
+import { ScoreModel } from '../../lib/score-model';
+import {
+  MAX_TEMPO,
+  MIN_TEMPO,
+  buildTempoMap,
+  describeTempoEntry,
+  scoreOpeningTempo,
+} from '../../lib/tempo-map';
+
+export interface TempoSelectorProps {
+  tempo: number;
+  mode: TempoMode;
+  onTempoChange: (tempo: number) => void;
+  onModeChange: (mode: TempoMode) => void;
+  model?: ScoreModel | null;
+  disabled?: boolean;
+}
+
+// Changes listed before the rest are summarized
+const PREVIEW_LIMIT = 6;
+
+export function TempoSelector({
+  tempo,
+  mode,
+  onTempoChange,
+  onModeChange,
+  model,
+  disabled = false,
+}: TempoSelectorProps) {
+  const opening = useMemo(() => (model ? scoreOpeningTempo(model) : null), [model]);
+  const changes = useMemo(
+    () => (model && mode === 'scale' ? buildTempoMap(model, tempo, mode).slice(1) : []),
+    [model, tempo, mode],
+  );
+  
+  function handleTempoInput(value: string) {
+    const next = parseInt(value);
+    if (!isNaN(next)) onTempoChange(next);
+  }
+  
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-4">
+        <input
+          type="range"
+          min={MIN_TEMPO}
+          max={MAX_TEMPO}
+          value={tempo}
+          onChange={(e) => handleTempoInput(e.target.value)}
+          disabled={disabled}
+          aria-label="Tempo"
+          className="flex-1"
+        />
+        <input
+          type="number"
+          min={MIN_TEMPO}
+          max={MAX_TEMPO}
+          value={tempo}
+          onChange={(e) => handleTempoInput(e.target.value)}
+          disabled={disabled}
+          aria-label="Tempo in BPM"
+          className="w-20 px-3 py-2 border rounded-lg"
+        />
+      </div>
+      
+      <label className="block">
+        <span className="block text-xs text-gray-500 mb-1">Tempo changes</span>
+        <select
+          value={mode}
+          onChange={(e) => onModeChange(e.target.value as TempoMode)}
+          disabled={disabled}
+          className="w-full px-3 py-2 border rounded-lg bg-white disabled:opacity-50"
+        >
+          <option value="scale">Follow the score, starting at this tempo</option>
+          <option value="override">Play the whole score at this tempo</option>
+        </select>
+      </label>
+      
+      {opening !== null && (
+        <p className="text-sm text-gray-600">
+          The score is marked ♩ = {Math.round(opening)} at the start
+          {mode === 'scale' && Math.round(opening) !== tempo && ` (playing at ${Math.round((tempo / opening) * 100)}%)`}.
+          {Math.round(opening) !== tempo && (
+            <button
+              type="button"
+              onClick={() => onTempoChange(Math.min(MAX_TEMPO, Math.max(MIN_TEMPO, Math.round(opening))))}
+              disabled={disabled}
+              className="ml-2 text-blue-600 hover:underline disabled:opacity-50"
+            >
+              Use the marked tempo
+            </button>
+          )}
+        </p>
+      )}
+      
+      {mode === 'override' ? (
+        <p className="text-sm text-gray-600">
+          Tempo markings, gradual changes and fermatas in the score are not played.
+        </p>
+      ) : changes.length > 0 && (
+        <ul className="text-sm text-gray-600 space-y-1">
+          {changes.slice(0, PREVIEW_LIMIT).map(entry => (
+            <li key={`${entry.tick}-${entry.kind}`}>
+              <span className="font-medium text-gray-700">m. {entry.measure}</span> {describeTempoEntry(entry)}
+            </li>
+          ))}
+          {changes.length > PREVIEW_LIMIT && (
+            <li className="text-gray-500">and {changes.length - PREVIEW_LIMIT} more tempo changes</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * Transposition Selector Component
+ *
+ * Controls for playing a score in another key.
+ *
+ * Features:
+ * - Shift by semitones, or pick the key to move to
+ * - Extra octave shift up or down
+ * - Shows the interval and the new key for the score, when it is known
+ *
+ * Props:
+ * - value: Current transposition request
+ * - onChange: Callback when the transposition changes
+ * - model: Score model, used to show the resulting key
+ * - disabled: Disable all controls
+ */
+
+import React from 'react';
+import { Transposition } from '../../lib/types';
+import { ScoreModel, describeKey, resolveMeasureAttributes } from '../../lib/score-model';
+import {
+  MAX_TRANSPOSE_OCTAVES,
+  MAX_TRANSPOSE_SEMITONES,
+  describeTransposition,
+  resolveTransposition,
+} from '../../lib/transposition';
+
+export interface TranspositionSelectorProps {
+  value: Transposition;
+  onChange: (value: Transposition) => void;
+  model?: ScoreModel | null;
+  disabled?: boolean;
+}
+
+const SEMITONES = Array.from({ length: MAX_TRANSPOSE_SEMITONES * 2 + 1 }, (_, i) => MAX_TRANSPOSE_SEMITONES - i);
+const OCTAVES = Array.from({ length: MAX_TRANSPOSE_OCTAVES * 2 + 1 }, (_, i) => MAX_TRANSPOSE_OCTAVES - i);
+const FIFTHS = Array.from({ length: 15 }, (_, i) => i - 7);
+
+const selectClass = 'w-full px-3 py-2 border rounded-lg bg-white disabled:opacity-50';
+
+export function TranspositionSelector({
+  value,
+  onChange,
+  model,
+  disabled = false,
+}: TranspositionSelectorProps) {
+  const byKey = value.targetKey !== undefined;
+  const octaves = value.octaves ?? 0;
+  const firstPart = model?.parts[0];
+  const mode = firstPart?.measures.length ? resolveMeasureAttributes(firstPart)[0].key.mode : 'major';
+  const transposed = byKey || (value.semitones ?? 0) !== 0 || octaves !== 0;
+  
+  function withOctaves(next: Transposition): Transposition {
+    return octaves !== 0 ? { ...next, octaves } : next;
+  }
+  
+  function handleMethodChange(method: string) {
+    if (method === 'key') {
+      const current = firstPart?.measures.length ? resolveMeasureAttributes(firstPart)[0].key.fifths : 0;
+      onChange(withOctaves({ targetKey: current }));
+    } else {
+      onChange(withOctaves({}));
+    }
+  }
+  
+  function handleOctavesChange(next: number) {
+    const { octaves: _octaves, ...rest } = value;
+    onChange(next !== 0 ? { ...rest, octaves: next } : rest);
+  }
+  
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="block">
+          <span className="block text-xs text-gray-500 mb-1">Transpose by</span>
+          <select
+            value={byKey ? 'key' : 'semitones'}
+            onChange={(e) => handleMethodChange(e.target.value)}
+            disabled={disabled}
+            className={selectClass}
+          >
+            <option value="semitones">Semitones</option>
+            <option value="key">Target key</option>
+          </select>
+        </label>
+        
+        {byKey ? (
+          <label className="block">
+            <span className="block text-xs text-gray-500 mb-1">Key</span>
+            <select
+              value={value.targetKey}
+              onChange={(e) => onChange(withOctaves({ targetKey: parseInt(e.target.value) }))}
+              disabled={disabled}
+              className={selectClass}
+            >
+              {FIFTHS.map(fifths => (
+                <option key={fifths} value={fifths}>{describeKey({ fifths, mode })}</option>
+              ))}
+            </select>
+          </label>
+        ) : (
+          <label className="block">
+            <span className="block text-xs text-gray-500 mb-1">Semitones</span>
+            <select
+              value={value.semitones ?? 0}
+              onChange={(e) => {
+                const semitones = parseInt(e.target.value);
+                onChange(withOctaves(semitones !== 0 ? { semitones } : {}));
+              }}
+              disabled={disabled}
+              className={selectClass}
+            >
+              {SEMITONES.map(semitones => (
+                <option key={semitones} value={semitones}>
+                  {semitones === 0 ? 'None' : `${semitones > 0 ? '+' : ''}${semitones}`}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        
+        <label className="block">
+          <span className="block text-xs text-gray-500 mb-1">Octaves</span>
+          <select
+            value={octaves}
+            onChange={(e) => handleOctavesChange(parseInt(e.target.value))}
+            disabled={disabled}
+            className={selectClass}
+          >
+            {OCTAVES.map(count => (
+              <option key={count} value={count}>
+                {count === 0 ? 'None' : `${count > 0 ? '+' : ''}${count}`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      
+      {transposed && (
+        <p className="text-sm text-gray-600">
+          {describeTransposition(model ? { ...value, ...resolveTransposition(model, value) } : value)}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 /**
  * Upload Area Component
  * 
- * Drag-and-drop file upload area for sheet music images/PDFs.
+ * Drag-and-drop file upload area for sheet music images/PDFs and MusicXML.
  * 
  * Features:
  * - Drag and drop support
@@ -21,8 +21,13 @@
  */
 
 import React, { useState, useRef } from 'react';
-import { Upload, FileImage, AlertCircle } from 'lucide-react';
+import { Upload, FileImage, FileText, AlertCircle } from 'lucide-react';
 import { cn, formatFileSize } from '../../lib/utils';
+import {
+  SCORE_FILE_ACCEPT,
+  SCORE_FILE_FORMATS_LABEL,
+  detectScoreFileFormat,
+} from '../../lib/score-formats';
 
 export interface UploadAreaProps {
   onFileSelect: (file: File) => void;
@@ -37,16 +42,16 @@ export function UploadArea({
 }: UploadAreaProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [preview, setPreview] = useState<string | null>(null);
+  const [musicXmlName, setMusicXmlName] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  const acceptedTypes = ['image/jpeg', 'image/png', 'image/jpg', 'application/pdf'];
   const maxSizeBytes = maxSizeMB * 1024 * 1024;
   
   function validateFile(file: File): string | null {
     // Check file type
-    if (!acceptedTypes.includes(file.type)) {
-      return 'Invalid file type. Please upload JPG, PNG, or PDF files only.';
+    if (!detectScoreFileFormat(file.name, file.type)) {
+      return 'Invalid file type. Please upload JPG, PNG, PDF, or MusicXML files only.';
     }
     
     // Check file size
@@ -67,15 +72,17 @@ export function UploadArea({
     }
     
     // Show preview for images
-    if (file.type.startsWith('image/')) {
+    const format = detectScoreFileFormat(file.name, file.type);
+    if (format === 'image') {
       const reader = new FileReader();
       reader.onload = (e) => {
         setPreview(e.target?.result as string);
       };
       reader.readAsDataURL(file);
     } else {
-      setPreview(null); // PDF files don't show preview
+      setPreview(null); // PDF and MusicXML files don't show preview
     }
+    setMusicXmlName(format === 'musicxml' || format === 'mxl' ? file.name : null);
     
     onFileSelect(file);
   }
@@ -135,7 +142,7 @@ export function UploadArea({
         <input
           ref={fileInputRef}
           type="file"
-          accept={acceptedTypes.join(',')}
+          accept={SCORE_FILE_ACCEPT}
           onChange={handleFileInputChange}
           className="hidden"
           disabled={disabled}
@@ -152,6 +159,19 @@ export function UploadArea({
               Click or drag a new file to replace
             </p>
           </div>
+        ) : musicXmlName ? (
+          <div className="space-y-4">
+            <FileText className="w-12 h-12 text-blue-600 mx-auto" />
+            <div>
+              <p className="text-lg font-medium text-gray-900">{musicXmlName}</p>
+              <p className="text-sm text-gray-500 mt-1">
+                MusicXML score – notation is read directly, no scanning needed
+              </p>
+            </div>
+            <p className="text-sm text-gray-600">
+              Click or drag a new file to replace
+            </p>
+          </div>
         ) : (
           <div className="space-y-4">
             <div className="flex justify-center">
@@ -172,7 +192,7 @@ export function UploadArea({
             </div>
             
             <div className="text-xs text-gray-400">
-              <p>Supported formats: JPG, PNG, PDF</p>
+              <p>Supported formats: {SCORE_FILE_FORMATS_LABEL}</p>
               <p>Maximum size: {maxSizeMB}MB</p>
             </div>
           </div>
@@ -4,7 +4,7 @@
  * Educational content about:
  * - How the conversion works
  * - Supported instruments
- * - SATB playback features
+ * - Choir playback features
  * - Best practices for sheet music uploads
  * - FAQ
  */
@@ -25,8 +25,8 @@ export function HelpPage() {
       answer: 'The conversion accuracy depends on the quality of your input. Clear, well-lit photos or high-quality scans produce the best results. Complex notation (like ornaments or non-standard symbols) may require manual verification.',
     },
     {
-      question: 'Can I adjust individual voice volumes in SATB mode?',
-      answer: 'Yes! In SATB mode, you can control each voice independently: mute/unmute, solo, and adjust volume from 0-100%.',
+      question: 'Can I adjust individual voice volumes in choir mode?',
+      answer: 'Yes! In choir mode, you can control each voice independently: mute/unmute, solo, and adjust volume from 0-100%.',
     },
     {
       question: 'What percussion instruments are available?',
@@ -90,6 +90,7 @@ export function HelpPage() {
               <ol className="list-decimal list-inside space-y-2 ml-4">
                 <li><strong>Image Analysis:</strong> We detect staff lines, note heads, stems, clefs, and other musical symbols.</li>
                 <li><strong>Symbol Recognition:</strong> Each element is identified and converted to a digital music format (MusicXML/MIDI).</li>
+                <li><strong>Review:</strong> You check the detected key, time signature and measures, with doubtful measures highlighted on the page, before converting.</li>
                 <li><strong>Instrument Mapping:</strong> Your selected instruments are mapped to appropriate sound fonts.</li>
                 <li><strong>Audio Synthesis:</strong> The music is rendered as audio using high-quality synthesis engines.</li>
                 <li><strong>Delivery:</strong> You receive playable audio (MP3) and editable MIDI files.</li>
@@ -97,9 +98,9 @@ export function HelpPage() {
               
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mt-4">
                 <p className="text-sm text-blue-900">
-                  <strong>💡 Note:</strong> This is a prototype implementation. In production, this would integrate 
-                  with services like Audiveris, PhotoScore API, or custom ML models for OMR, and FluidSynth or 
-                  cloud-based synthesis for audio generation.
+                  <strong>💡 Note:</strong> The built-in recognizer reads clean, printed music on single-line
+                  staves from PNG or JPEG images, and marks measures it is unsure of. Handwritten, photographed
+                  or multi-staff scores read best when exported as MusicXML from your notation software.
                 </p>
               </div>
             </div>
@@ -167,13 +168,15 @@ export function HelpPage() {
         {/* SATB Info */}
         <Card className="mb-8">
           <CardHeader>
-            <CardTitle>SATB Choir Mode</CardTitle>
+            <CardTitle>Choir Mode</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-4 text-gray-700">
               <p>
-                SATB (Soprano, Alto, Tenor, Bass) mode is designed for choral scores. 
-                You can control each voice part independently:
+                Choir mode is designed for choral scores, from SATB (Soprano, Alto, Tenor, Bass)
+                to divided choirs such as SSAA, TTBB or SSAATTBB. The voices are detected from
+                the score, and you can add, rename or remove them. You can control each voice
+                part independently:
               </p>
               
               <ul className="list-disc list-inside space-y-2 ml-4">
@@ -183,6 +186,19 @@ export function HelpPage() {
                 <li><strong>Full Mix:</strong> Play all enabled voices together</li>
               </ul>
               
+              <p>
+                Hymnals and other closed scores print two voices on each staff, soprano and alto
+                on the treble staff and tenor and bass on the bass staff. Choir mode splits these
+                shared staves into one voice each, so you can still hear the soprano alone. Measures
+                where the voices are hard to tell apart are marked in the recognition review.
+              </p>
+              
+              <p>
+                Anthems with organ or piano need both at once: choose Choir & Accompaniment,
+                pick the parts the choir sings, and the instruments play the rest. The mixer on the
+                playback page shows the voices and the accompaniment together.
+              </p>
+              
               <p className="text-sm text-gray-600 italic">
                 Perfect for learning your choir part or understanding how voices interact!
               </p>
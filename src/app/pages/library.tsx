@@ -7,10 +7,15 @@
  * - List all uploaded scores
  * - Show conversion history
  * - Quick actions (play, delete, reconvert)
+ * - Revision history per score: compare two revisions measure by measure
+ *   and restore an older one
  * - Empty state for new users
  * 
  * API Integration:
  * - GET /library - Fetch all scores and conversions
+ * - GET /scores/:scoreId/revisions - List a score's revisions
+ * - GET /scores/:scoreId/revisions/diff - Compare two revisions
+ * - POST /scores/:scoreId/revisions/:revision/restore - Restore a revision
  * - DELETE /scores/:scoreId - Delete score
  */
 
@@ -18,14 +23,22 @@ import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router';
 import { Loader2 } from 'lucide-react';
 import { ScoreLibrary } from '../components/score-library';
+import { RevisionComparison, RevisionHistory } from '../components/revision-history';
 import { apiCall } from '../../lib/supabase';
-import { Score } from '../../lib/types';
+import { Score, ScoreRevision } from '../../lib/types';
 import { toast } from 'sonner';
 
 export function LibraryPage() {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [scores, setScores] = useState<Score[]>([]);
+  const [historyScoreId, setHistoryScoreId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<ScoreRevision[]>([]);
+  const [loadingRevisions, setLoadingRevisions] = useState(false);
+  const [comparison, setComparison] = useState<RevisionComparison | null>(null);
+  const [historyBusy, setHistoryBusy] = useState(false);
+  
+  const historyScore = scores.find(score => score.id === historyScoreId) ?? null;
   
   useEffect(() => {
     loadLibrary();
@@ -59,6 +72,78 @@ export function LibraryPage() {
     }
   }
   
+  async function handleScoreHistory(score: Score) {
+    setHistoryScoreId(score.id);
+    setRevisions([]);
+    setComparison(null);
+    setLoadingRevisions(true);
+    
+    try {
+      const response = await apiCall(`/scores/${score.id}/revisions`);
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load revisions');
+      }
+      
+      setRevisions(data.revisions);
+    } catch (error: any) {
+      console.error('Revisions load error:', error);
+      toast.error(error.message || 'Failed to load revisions');
+    } finally {
+      setLoadingRevisions(false);
+    }
+  }
+  
+  async function handleCompare(from: number, to: number) {
+    if (!historyScoreId) return;
+    setHistoryBusy(true);
+    
+    try {
+      const response = await apiCall(`/scores/${historyScoreId}/revisions/diff?from=${from}&to=${to}`);
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to compare revisions');
+      }
+      
+      setComparison(data);
+    } catch (error: any) {
+      console.error('Compare error:', error);
+      toast.error(error.message || 'Failed to compare revisions');
+    } finally {
+      setHistoryBusy(false);
+    }
+  }
+  
+  async function handleRestore(revision: number) {
+    if (!historyScore) return;
+    setHistoryBusy(true);
+    
+    try {
+      const response = await apiCall(`/scores/${historyScore.id}/revisions/${revision}/restore`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.validation?.errors?.[0] ?? data.error ?? 'Failed to restore revision');
+      }
+      
+      toast.success(`Revision ${revision} restored as revision ${data.revision.number}`);
+      setScores(scores.map(score => score.id === historyScore.id
+        ? { ...score, model: data.summary, revision: data.revision.number }
+        : score));
+      setRevisions([...revisions, data.revision]);
+      setComparison(null);
+    } catch (error: any) {
+      console.error('Restore error:', error);
+      toast.error(error.message || 'Failed to restore revision');
+    } finally {
+      setHistoryBusy(false);
+    }
+  }
+  
   async function handleScoreDelete(scoreId: string) {
     try {
       const response = await apiCall(`/scores/${scoreId}`, {
@@ -74,6 +159,9 @@ export function LibraryPage() {
       
       // Remove from local state
       setScores(scores.filter(s => s.id !== scoreId));
+      if (historyScoreId === scoreId) {
+        setHistoryScoreId(null);
+      }
     } catch (error: any) {
       console.error('Delete error:', error);
       toast.error(error.message || 'Failed to delete score');
@@ -104,10 +192,24 @@ export function LibraryPage() {
           </p>
         </div>
         
+        {historyScore && (
+          <RevisionHistory
+            score={historyScore}
+            revisions={revisions}
+            diff={comparison}
+            onCompare={handleCompare}
+            onRestore={handleRestore}
+            onClose={() => setHistoryScoreId(null)}
+            loading={loadingRevisions}
+            busy={historyBusy}
+          />
+        )}
+        
         <ScoreLibrary
           scores={scores}
           onScoreSelect={handleScoreSelect}
           onScoreDelete={handleScoreDelete}
+          onScoreHistory={handleScoreHistory}
           loading={false}
         />
       </div>
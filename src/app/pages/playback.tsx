@@ -4,8 +4,17 @@
  * Audio playback interface for converted scores.
  * 
  * Features:
- * - Display score preview
- * - Playback controls
+ * - Display score preview (the image, or each rendered page of a PDF)
+ * - Notation editor for correcting the score (saved as a new revision that
+ *   the next conversion uses)
+ * - Playback controls, showing the written measure being played (repeats
+ *   and jumps included); the score is played live in the page when its
+ *   notes can be loaded, with the renderer's SoundFont when there is one,
+ *   otherwise the rendered audio file is played
+ * - Live mixer with a strip per instrument or voice; the mix can be saved as
+ *   the conversion's default
+ * - Learning tracks of a choir conversion, grouped by voice, switched with
+ *   one click
  * - Instrument/voice toggle
  * - Download options
  * - Regenerate with different settings
@@ -13,16 +22,32 @@
  * Route: /playback/:conversionId
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router';
 import { ArrowLeft, RefreshCw, Loader2 } from 'lucide-react';
 import { PlaybackControls } from '../components/playback-controls';
+import { MixerPanel } from '../components/mixer-panel';
+import { LearningTrackPicker } from '../components/learning-track-picker';
+import { ScoreEditor } from '../components/score-editor';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Chip } from '../components/ui/chip';
 import { apiCall } from '../../lib/supabase';
-import { Conversion, Score } from '../../lib/types';
-import { INSTRUMENTS } from '../../lib/instruments';
+import { Conversion, LearningTrack, Score, TrackMix } from '../../lib/types';
+import { ScoreModel, describeKey, summarizeScoreModel } from '../../lib/score-model';
+import { SoundFont, parseSoundFont } from '../../lib/soundfont';
+import { INSTRUMENTS, getInstrumentById } from '../../lib/instruments';
+import { assignableParts } from '../../lib/orchestration';
+import { AUDIO_FORMATS, DEFAULT_AUDIO_FORMAT } from '../../lib/audio-encoding';
+import { describeTransposition } from '../../lib/transposition';
+import { describeTempoEntry } from '../../lib/tempo-map';
+import { learningTrackVariants } from '../../lib/learning-tracks';
+import {
+  PlaybackEngine,
+  conversionPlaybackScore,
+  defaultTrackMix,
+  isPlaybackEngineSupported,
+} from '../../lib/playback-engine';
 import { toast } from 'sonner';
 
 export function PlaybackPage() {
@@ -32,6 +57,19 @@ export function PlaybackPage() {
   const [loading, setLoading] = useState(true);
   const [conversion, setConversion] = useState<Conversion | null>(null);
   const [score, setScore] = useState<Score | null>(null);
+  const [scoreModel, setScoreModel] = useState<ScoreModel | null>(null);
+  const [performedModel, setPerformedModel] = useState<ScoreModel | null>(null);
+  const [soundFont, setSoundFont] = useState<SoundFont | null>(null);
+  const [engine, setEngine] = useState<PlaybackEngine | null>(null);
+  // Tempo chosen in the playback controls, which applies while playing live
+  const [liveTempo, setLiveTempo] = useState<number | null>(null);
+  const [mix, setMix] = useState<Record<string, TrackMix>>({});
+  const [savedMix, setSavedMix] = useState<Record<string, TrackMix> | undefined>(undefined);
+  const [savingMix, setSavingMix] = useState(false);
+  const [learningTrackId, setLearningTrackId] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [savingModel, setSavingModel] = useState(false);
+  const [savedRevision, setSavedRevision] = useState<number | null>(null);
   
   useEffect(() => {
     if (conversionId) {
@@ -49,6 +87,7 @@ export function PlaybackPage() {
       }
       
       setConversion(data);
+      setSavedMix(data.mix);
       
       // Load score data
       const scoreResponse = await apiCall(`/library`);
@@ -58,6 +97,27 @@ export function PlaybackPage() {
       if (scoreData) {
         setScore(scoreData);
       }
+      
+      // Load the score's current model for the notation editor (absent until recognized)
+      const modelResponse = await apiCall(`/scores/${data.scoreId}/model`);
+      if (modelResponse.ok) {
+        const modelData = await modelResponse.json();
+        setScoreModel(modelData.model);
+      }
+      
+      // The notes as converted, for live playback; without them the rendered
+      // audio file is played
+      if (data.status === 'completed') {
+        const [performanceResponse, font] = await Promise.all([
+          apiCall(`/conversions/${id}/performance`),
+          loadSoundFont(),
+        ]);
+        setSoundFont(font);
+        if (performanceResponse.ok) {
+          const performanceData = await performanceResponse.json();
+          setPerformedModel(performanceData.model);
+        }
+      }
     } catch (error: any) {
       console.error('Load error:', error);
       toast.error('Failed to load conversion');
@@ -66,13 +126,75 @@ export function PlaybackPage() {
     }
   }
   
+  const playbackScore = useMemo(
+    () => (performedModel && conversion ? conversionPlaybackScore(performedModel, conversion, soundFont) : null),
+    [performedModel, conversion, soundFont],
+  );
+  const mixChanged = playbackScore !== null &&
+    JSON.stringify(mix) !== JSON.stringify(defaultTrackMix(playbackScore.tracks, savedMix));
+  
+  // Start from the conversion's saved mix, or the one it was made with
+  useEffect(() => {
+    if (playbackScore) {
+      setMix(defaultTrackMix(playbackScore.tracks, conversion?.mix));
+    }
+  }, [playbackScore]);
+  
+  const learningTrack = conversion?.learningTrackFiles?.find(track => track.id === learningTrackId);
+  
+  // Live playback switches learning tracks by mixing the voices; otherwise
+  // the rendered file of the learning track is played
+  function handleSelectLearningTrack(id: string | null) {
+    setLearningTrackId(id);
+    if (!playbackScore || !conversion) return;
+    
+    const variant = id
+      ? learningTrackVariants(playbackScore.tracks, conversion.learningTracks).find(item => item.id === id)
+      : undefined;
+    setMix(variant
+      ? { ...defaultTrackMix(playbackScore.tracks), ...variant.mix }
+      : defaultTrackMix(playbackScore.tracks, savedMix));
+  }
+  
+  function handleMixChange(next: Record<string, TrackMix>) {
+    setMix(next);
+    setLearningTrackId(null);
+  }
+  
+  async function handleSaveMix() {
+    if (!conversion) return;
+    setSavingMix(true);
+    
+    try {
+      const response = await apiCall(`/conversions/${conversion.id}/mix`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mix }),
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save mix');
+      }
+      
+      setSavedMix(data.mix);
+      toast.success('Mix saved as the default for this conversion');
+    } catch (error: any) {
+      console.error('Save mix error:', error);
+      toast.error(error.message || 'Failed to save mix');
+    } finally {
+      setSavingMix(false);
+    }
+  }
+  
   async function handleDownloadAudio() {
     if (!conversion?.audioUrl) return;
     
     try {
       const link = document.createElement('a');
       link.href = conversion.audioUrl;
-      link.download = `${score?.fileName || 'score'}_audio.mp3`;
+      const extension = AUDIO_FORMATS[conversion.audioFormat ?? DEFAULT_AUDIO_FORMAT].extension;
+      link.download = `${score?.fileName || 'score'}_audio.${extension}`;
       link.click();
       
       toast.success('Audio download started');
@@ -98,9 +220,78 @@ export function PlaybackPage() {
     }
   }
   
+  async function handleDownloadStems() {
+    if (!conversion?.stemsPath) return;
+    
+    try {
+      const response = await apiCall(`/conversions/${conversion.id}/stems`);
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to download stems');
+      }
+      
+      const link = document.createElement('a');
+      link.href = data.url;
+      link.download = `${score?.fileName || 'score'}_stems.zip`;
+      link.click();
+      
+      toast.success('Stems download started');
+    } catch (error: any) {
+      console.error('Download error:', error);
+      toast.error(error.message || 'Failed to download stems');
+    }
+  }
+  
+  async function handleDownloadLearningTrack(track: LearningTrack) {
+    if (!conversion) return;
+    
+    try {
+      const link = document.createElement('a');
+      link.href = track.url;
+      const extension = AUDIO_FORMATS[conversion.audioFormat ?? DEFAULT_AUDIO_FORMAT].extension;
+      link.download = `${score?.fileName || 'score'}_${track.id}.${extension}`;
+      link.click();
+      
+      toast.success('Learning track download started');
+    } catch (error) {
+      console.error('Download error:', error);
+      toast.error('Failed to download learning track');
+    }
+  }
+  
+  async function handleSaveModel(model: ScoreModel): Promise<boolean> {
+    if (!conversion) return false;
+    setSavingModel(true);
+    
+    try {
+      const response = await apiCall(`/scores/${conversion.scoreId}/model`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model }),
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.validation?.errors?.[0] ?? data.error ?? 'Failed to save corrections');
+      }
+      
+      setScoreModel(data.model);
+      setSavedRevision(data.revision.number);
+      toast.success(`Corrections saved as revision ${data.revision.number}`);
+      return true;
+    } catch (error: any) {
+      console.error('Save model error:', error);
+      toast.error(error.message || 'Failed to save corrections');
+      return false;
+    } finally {
+      setSavingModel(false);
+    }
+  }
+  
   function handleReconvert() {
-    if (score) {
-      navigate(`/upload`);
+    if (conversion) {
+      navigate(`/upload?from=${conversion.id}`);
     }
   }
   
@@ -139,6 +330,18 @@ export function PlaybackPage() {
     .map(id => INSTRUMENTS.find(inst => inst.id === id)?.name)
     .filter(Boolean);
   
+  const modelSummary = scoreModel ? summarizeScoreModel(scoreModel) : null;
+  
+  // Repeats or jumps were played when the audio leaves the written order
+  const unrolled = conversion.measureSequence?.some((measure, position) => measure.index !== position) ?? false;
+  
+  // The tempo map as heard: live playback follows the tempo control
+  const speed = engine && liveTempo && conversion.tempo > 0 ? liveTempo / conversion.tempo : 1;
+  
+  const partNames = new Map(
+    (scoreModel ? assignableParts(scoreModel) : []).map(part => [`${part.partId}-${part.staff ?? 0}`, part.name])
+  );
+  
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -169,6 +372,24 @@ export function PlaybackPage() {
                   className="w-full max-h-96 object-contain bg-gray-100 rounded-lg"
                 />
               )}
+              
+              {/* PDF pages, once they have been rendered for recognition */}
+              {!score.fileType.startsWith('image/') && score.pages && score.pages.length > 0 && (
+                <div className="max-h-[40rem] overflow-y-auto space-y-4 bg-gray-100 rounded-lg p-4">
+                  {score.pages.map(page => (
+                    <figure key={page.number}>
+                      <img
+                        src={page.url}
+                        alt={`${score.fileName}, page ${page.number}`}
+                        className="w-full bg-white shadow-sm"
+                      />
+                      <figcaption className="text-xs text-gray-500 text-center mt-1">
+                        Page {page.number} of {score.pages!.length}
+                      </figcaption>
+                    </figure>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
@@ -191,6 +412,17 @@ export function PlaybackPage() {
                 />
               </div>
               
+              {conversion.voices && conversion.voices.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">Voices</p>
+                  <div className="flex flex-wrap gap-2">
+                    {conversion.voices.map(voice => (
+                      <Chip key={voice.id} label={voice.name} variant="primary" />
+                    ))}
+                  </div>
+                </div>
+              )}
+              
               {instrumentNames.length > 0 && (
                 <div>
                   <p className="text-sm font-medium text-gray-700 mb-2">Instruments</p>
@@ -202,14 +434,153 @@ export function PlaybackPage() {
                 </div>
               )}
               
+              {conversion.partAssignments && conversion.partAssignments.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-1">Parts</p>
+                  <ul className="text-sm text-gray-900 space-y-0.5">
+                    {conversion.partAssignments.map(assignment => {
+                      const key = `${assignment.partId}-${assignment.staff ?? 0}`;
+                      const names = assignment.instruments.map(id => getInstrumentById(id)?.name ?? id);
+                      return (
+                        <li key={key}>
+                          {partNames.get(key) ?? assignment.partId}
+                          {' → '}
+                          {names.length > 0 ? names.join(', ') : <span className="text-gray-500">not played</span>}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+              
               <div>
                 <p className="text-sm font-medium text-gray-700">Tempo</p>
-                <p className="text-gray-900">{conversion.tempo} BPM</p>
+                <p className="text-gray-900">
+                  {Math.round(conversion.tempo * speed)} BPM
+                  {conversion.tempoMode === 'override' && <span className="text-gray-500"> throughout</span>}
+                </p>
+                {conversion.tempoMap && conversion.tempoMap.length > 1 && (
+                  <ul className="text-sm text-gray-900 space-y-0.5 mt-1 max-h-40 overflow-y-auto">
+                    {conversion.tempoMap.slice(1).map(entry => (
+                      <li key={`${entry.tick}-${entry.kind}`}>
+                        <span className="text-gray-500">m. {entry.measure}</span> {describeTempoEntry(entry, speed)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
+              
+              {conversion.measureSequence && (conversion.skipRepeats || unrolled) && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700">Repeats</p>
+                  <p className="text-gray-900">
+                    {conversion.skipRepeats ? 'Skipped' : 'Played'}
+                    <span className="text-gray-500">
+                      {' '}• {conversion.measureSequence.length} measure{conversion.measureSequence.length !== 1 ? 's' : ''} as heard
+                    </span>
+                  </p>
+                </div>
+              )}
+              
+              {conversion.transposition && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700">Transposition</p>
+                  <p className="text-gray-900">{describeTransposition(conversion.transposition)}</p>
+                </div>
+              )}
+              
+              {conversion.revision !== undefined && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700">Score Revision</p>
+                  <p className="text-gray-900">
+                    Revision {conversion.revision}
+                    {score?.revision !== undefined && score.revision !== conversion.revision && (
+                      <span className="text-gray-500"> (the score is now at revision {score.revision})</span>
+                    )}
+                  </p>
+                </div>
+              )}
+              
+              {scoreModel && modelSummary && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700">Score</p>
+                  <p className="text-gray-900">
+                    {describeKey(modelSummary.key)} • {modelSummary.time.beats}/{modelSummary.time.beatType}
+                    {' • '}
+                    {modelSummary.measureCount} measure{modelSummary.measureCount !== 1 ? 's' : ''}
+                  </p>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {scoreModel.parts.map(part => (
+                      <Chip key={part.id} label={part.name || part.id} size="sm" />
+                    ))}
+                  </div>
+                </div>
+              )}
+              
+              {conversion.orchestration && conversion.orchestration.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-1">Automatic Orchestration</p>
+                  <ul className="text-sm list-disc pl-5 space-y-0.5">
+                    {conversion.orchestration.map((note, index) => (
+                      <li key={index} className={note.kind === 'compromise' ? 'text-orange-700' : 'text-gray-900'}>
+                        {note.message}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-gray-500 mt-1">Use Reconvert to change these assignments.</p>
+                </div>
+              )}
+              
+              {conversion.rangeWarnings && conversion.rangeWarnings.length > 0 && (
+                <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg">
+                  <p className="text-sm font-medium text-orange-800">Range warnings</p>
+                  <ul className="text-sm text-orange-700 mt-1 list-disc pl-5 space-y-0.5">
+                    {conversion.rangeWarnings.map((warning, index) => (
+                      <li key={index} className={warning.severity === 'unplayable' ? 'text-red-700' : undefined}>
+                        {warning.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
         
+        {/* Notation */}
+        {scoreModel && (
+          <Card className="mb-6">
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle>Notation</CardTitle>
+                <Button variant="outline" size="sm" onClick={() => setEditing(!editing)}>
+                  {editing ? 'Hide notation' : 'Correct notation'}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {savedRevision !== null && (
+                <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between gap-4">
+                  <p className="text-sm text-blue-800">
+                    Saved as revision {savedRevision}. This recording still uses the earlier notation.
+                  </p>
+                  <Button variant="primary" size="sm" onClick={handleReconvert}>
+                    Reconvert
+                  </Button>
+                </div>
+              )}
+              
+              {editing ? (
+                <ScoreEditor model={scoreModel} onSave={handleSaveModel} saving={savingModel} />
+              ) : (
+                <p className="text-sm text-gray-500">
+                  Notes read wrongly from the page can be corrected here without uploading the score again.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+        
         {/* Playback Controls */}
         {conversion.status === 'completed' && (
           <Card>
@@ -218,10 +589,53 @@ export function PlaybackPage() {
             </CardHeader>
             <CardContent>
               <PlaybackControls
-                audioUrl={conversion.audioUrl}
+                audioUrl={learningTrack?.url ?? conversion.audioUrl}
+                score={playbackScore}
+                mix={mix}
+                onEngineChange={setEngine}
+                onTempoChange={setLiveTempo}
+                measures={conversion.measureSequence}
                 initialTempo={conversion.tempo}
                 onDownloadAudio={handleDownloadAudio}
                 onDownloadMidi={handleDownloadMidi}
+                onDownloadStems={conversion.stemsPath ? handleDownloadStems : undefined}
+              />
+            </CardContent>
+          </Card>
+        )}
+        
+        {/* Learning Tracks */}
+        {conversion.status === 'completed' && conversion.learningTrackFiles && conversion.learningTrackFiles.length > 0 && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Learning Tracks</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LearningTrackPicker
+                tracks={conversion.learningTrackFiles}
+                selectedId={learningTrackId}
+                onSelect={handleSelectLearningTrack}
+                onDownload={handleDownloadLearningTrack}
+              />
+            </CardContent>
+          </Card>
+        )}
+        
+        {/* Mixer, when the score is played live */}
+        {conversion.status === 'completed' && playbackScore && playbackScore.tracks.length > 0 && isPlaybackEngineSupported() && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Mixer</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <MixerPanel
+                tracks={playbackScore.tracks}
+                mix={mix}
+                onChange={handleMixChange}
+                levels={engine?.levels}
+                onSave={handleSaveMix}
+                saving={savingMix}
+                changed={mixChanged}
               />
             </CardContent>
           </Card>
@@ -265,3 +679,24 @@ export function PlaybackPage() {
     </div>
   );
 }
+
+/**
+ * The SoundFont the renderer plays, so live playback sounds like the
+ * rendered file; null when none has been uploaded or it cannot be read,
+ * and the synthesized instruments play instead
+ */
+async function loadSoundFont(): Promise<SoundFont | null> {
+  try {
+    const response = await apiCall('/soundfont');
+    if (!response.ok) return null;
+    
+    const { url } = await response.json();
+    const file = await fetch(url);
+    if (!file.ok) return null;
+    
+    return parseSoundFont(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    console.error('SoundFont load error:', error);
+    return null;
+  }
+}
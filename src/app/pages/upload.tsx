@@ -3,55 +3,271 @@
  * 
  * Main conversion workflow:
  * 1. Upload sheet music
- * 2. Preview detected notation
- * 3. Select instruments or SATB configuration
+ * 2. Review detected notation (key, time, parts, measures, the measures
+ *    read with low confidence and those whose voices are hard to tell
+ *    apart), correct it in the notation editor if needed,
+ *    then accept it or go back
+ * 3. Select instruments, choir voices (splitting staves that two voices
+ *    share, as hymnals print them), or both, with the choir singing the
+ *    vocal parts and instruments playing the accompaniment; choose which
+ *    instruments play each detected part; set the tempo (following the
+ *    score's tempo changes or steady), whether repeats are played, and
+ *    optionally transpose to another key
  * 4. Initiate conversion
- * 5. Monitor conversion status
+ * 5. Monitor conversion status until it completes or fails, polling less
+ *    often the longer it runs
  * 6. Navigate to playback when complete
  * 
  * API Integration Points:
  * - POST /scores/upload - Upload file
+ * - POST /scores/:scoreId/recognize - Recognized notation for review
+ * - GET /scores/:scoreId/model - Detected parts for the part mapping
+ * - PUT /scores/:scoreId/model - Save corrections as a new score revision
  * - POST /scores/:scoreId/convert - Start conversion
  * - GET /conversions/:conversionId - Poll conversion status
+ * 
+ * Opened as /upload?from=:conversionId (Reconvert), the page starts from
+ * that conversion's score and settings, part mapping included, with the
+ * review already accepted.
  */
 
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router';
 import { Loader2, CheckCircle, AlertCircle } from 'lucide-react';
 import { UploadArea } from '../components/upload-area';
 import { InstrumentSelector } from '../components/instrument-selector';
 import { SATBSelector } from '../components/satb-selector';
+import { PartMapping } from '../components/part-mapping';
+import { RecognitionReview } from '../components/recognition-review';
+import { ScoreEditor } from '../components/score-editor';
+import { TranspositionSelector } from '../components/transposition-selector';
+import { TempoSelector } from '../components/tempo-selector';
 import { Button } from '../components/ui/button';
+import { Chip } from '../components/ui/chip';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { apiCall } from '../../lib/supabase';
-import { SATBConfig, Conversion } from '../../lib/types';
+import {
+  ChoirVoice,
+  Conversion,
+  ConversionStage,
+  UploadValidation,
+  AudioFormat,
+  PartAssignment,
+  OrchestrationNote,
+  RecognitionReview as Review,
+  Transposition,
+  TempoMode,
+  LearningTrackOptions,
+} from '../../lib/types';
+import { ScoreModel, selectParts } from '../../lib/score-model';
+import { AssignablePart, assignableParts, orchestrate } from '../../lib/orchestration';
+import { AUDIO_FORMATS, DEFAULT_AUDIO_FORMAT } from '../../lib/audio-encoding';
+import { DEFAULT_TEMPO, MAX_TEMPO, MIN_TEMPO, scoreOpeningTempo } from '../../lib/tempo-map';
+import { hasRepeats } from '../../lib/repeats';
+import { defaultChoirVoices, detectChoirVoices, isVocalPart, sungPartIds } from '../../lib/voices';
+import { separateVoices } from '../../lib/voice-separation';
 import { toast } from 'sonner';
 
-type ConversionMode = 'instruments' | 'satb';
+// 'mixed' is a choir with instruments accompanying it
+type ConversionMode = 'instruments' | 'satb' | 'mixed';
+
+const STAGE_LABELS: Record<ConversionStage, string> = {
+  'recognize': 'Recognizing notation',
+  'build-model': 'Building score',
+  'write-midi': 'Writing MIDI',
+  'render-audio': 'Rendering audio',
+  'upload': 'Saving files',
+  'learning-tracks': 'Rendering learning tracks',
+};
+
+// Status polls start at FIRST_POLL_MS apart and back off to MAX_POLL_MS, as
+// retries and learning tracks can keep a conversion running for many minutes
+const FIRST_POLL_MS = 1000;
+const MAX_POLL_MS = 15000;
 
 export function UploadPage() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   
   // Upload state
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
   const [scoreId, setScoreId] = useState<string | null>(null);
   const [scoreUrl, setScoreUrl] = useState<string | null>(null);
+  const [uploadValidation, setUploadValidation] = useState<UploadValidation | null>(null);
+  // Remounts the upload area to clear its preview when going back
+  const [uploadKey, setUploadKey] = useState(0);
+  
+  // Recognition review
+  const [review, setReview] = useState<Review | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  const [reviewAccepted, setReviewAccepted] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [savingModel, setSavingModel] = useState(false);
   
   // Conversion configuration
   const [mode, setMode] = useState<ConversionMode>('instruments');
   const [selectedInstruments, setSelectedInstruments] = useState<string[]>([]);
-  const [satbConfig, setSatbConfig] = useState<SATBConfig>({
-    soprano: { enabled: true, solo: false, volume: 100 },
-    alto: { enabled: true, solo: false, volume: 100 },
-    tenor: { enabled: true, solo: false, volume: 100 },
-    bass: { enabled: true, solo: false, volume: 100 },
-  });
-  const [tempo, setTempo] = useState(120);
+  const [scoreModel, setScoreModel] = useState<ScoreModel | null>(null);
+  const [partAssignments, setPartAssignments] = useState<PartAssignment[]>([]);
+  // Automatic assignments are left to the server, which records its reasoning
+  const [autoAssigned, setAutoAssigned] = useState(true);
+  const [orchestrationNotes, setOrchestrationNotes] = useState<OrchestrationNote[]>([]);
+  const [voices, setVoices] = useState<ChoirVoice[]>(defaultChoirVoices);
+  // Parts the choir sings in mixed mode; the instruments play the others
+  const [sungParts, setSungParts] = useState<string[]>([]);
+  // Split staves shared by two voices before taking the choir voices
+  const [splitStaves, setSplitStaves] = useState(true);
+  const [tempo, setTempo] = useState(DEFAULT_TEMPO);
+  const [tempoMode, setTempoMode] = useState<TempoMode>('scale');
+  const [skipRepeats, setSkipRepeats] = useState(false);
+  const [audioFormat, setAudioFormat] = useState<AudioFormat>(DEFAULT_AUDIO_FORMAT);
+  const [stems, setStems] = useState(false);
+  // Learning tracks for SATB conversions; null when not wanted
+  const [learningTracks, setLearningTracks] = useState<LearningTrackOptions | null>(null);
+  const [transposition, setTransposition] = useState<Transposition>({});
   
   // Conversion status
   const [converting, setConverting] = useState(false);
   const [conversionId, setConversionId] = useState<string | null>(null);
+  const [conversionStage, setConversionStage] = useState<ConversionStage | null>(null);
+  const [conversionAttempts, setConversionAttempts] = useState(0);
+  const pollTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  
+  // Stop polling when leaving the page
+  useEffect(() => () => {
+    if (pollTimer.current) clearTimeout(pollTimer.current);
+  }, []);
+  
+  useEffect(() => {
+    const fromConversion = searchParams.get('from');
+    if (fromConversion) {
+      loadPreviousSettings(fromConversion);
+    }
+  }, [searchParams]);
+  
+  async function loadPreviousSettings(id: string) {
+    try {
+      const response = await apiCall(`/conversions/${id}`);
+      const data: Conversion = await response.json();
+      
+      if (!response.ok) {
+        throw new Error('Failed to load conversion');
+      }
+      
+      setScoreId(data.scoreId);
+      setReviewAccepted(true);
+      setTempo(data.tempo);
+      setTempoMode(data.tempoMode ?? 'scale');
+      setSkipRepeats(data.skipRepeats ?? false);
+      setAudioFormat(data.audioFormat ?? DEFAULT_AUDIO_FORMAT);
+      setStems(data.stems ?? false);
+      if (data.transposition) {
+        const { semitones, targetKey, octaves } = data.transposition;
+        setTransposition({ semitones, targetKey, octaves });
+      }
+      const previousMode: ConversionMode = data.voices?.length
+        ? (data.instruments.length > 0 ? 'mixed' : 'satb')
+        : 'instruments';
+      setMode(previousMode);
+      setSelectedInstruments(data.instruments);
+      if (data.voices?.length) {
+        setVoices(data.voices);
+        setSplitStaves(data.separateVoices ?? false);
+        setLearningTracks(data.learningTracks ?? null);
+      }
+      
+      const model = await loadScoreModel(data.scoreId);
+      // A mixed conversion's choir keeps its parts; otherwise mixed mode
+      // starts from the parts that look vocal
+      const sung = model ? (previousMode === 'mixed' ? sungPartIds(model, data) : vocalPartIds(model)) : [];
+      setSungParts(sung);
+      if (model && data.partAssignments) {
+        setPartAssignments(data.partAssignments);
+        setAutoAssigned(false);
+        setOrchestrationNotes(data.orchestration ?? []);
+      } else if (model) {
+        applyOrchestration(splitByRole(model, previousMode, sung).played, data.instruments);
+      }
+    } catch (error: any) {
+      console.error('Load error:', error);
+      toast.error('Failed to load the previous conversion settings');
+    }
+  }
+  
+  /**
+   * Score model for part mapping, or null until the score has one
+   * (scanned scores only have one once they are recognized)
+   */
+  async function loadScoreModel(id: string): Promise<ScoreModel | null> {
+    const response = await apiCall(`/scores/${id}/model`);
+    if (!response.ok) {
+      setScoreModel(null);
+      return null;
+    }
+    
+    const data: { model: ScoreModel } = await response.json();
+    setScoreModel(data.model);
+    return data.model;
+  }
+  
+  function applyOrchestration(model: ScoreModel, instrumentIds: string[]) {
+    const orchestration = orchestrate(model, instrumentIds);
+    setPartAssignments(orchestration.assignments);
+    setOrchestrationNotes(instrumentIds.length > 0 ? orchestration.notes : []);
+    setAutoAssigned(true);
+  }
+  
+  function handleInstrumentsChange(instrumentIds: string[]) {
+    setSelectedInstruments(instrumentIds);
+    if (scoreModel) {
+      applyOrchestration(splitByRole(scoreModel, mode, sungParts).played, instrumentIds);
+    }
+  }
+  
+  function handleModeChange(next: ConversionMode) {
+    setMode(next);
+    // Going in or out of mixed mode changes the parts the choir and the
+    // instruments take, so both are worked out again
+    if (scoreModel && (next === 'mixed') !== (mode === 'mixed')) {
+      const roles = splitByRole(scoreModel, next, sungParts);
+      applyOrchestration(roles.played, selectedInstruments);
+      detectVoices(roles.sung, splitStaves);
+    }
+  }
+  
+  function handleToggleSungPart(partId: string) {
+    const next = sungParts.includes(partId)
+      ? sungParts.filter(id => id !== partId)
+      : [...sungParts, partId];
+    setSungParts(next);
+    if (scoreModel) {
+      const roles = splitByRole(scoreModel, mode, next);
+      applyOrchestration(roles.played, selectedInstruments);
+      detectVoices(roles.sung, splitStaves);
+    }
+  }
+  
+  function handleAssignmentsChange(assignments: PartAssignment[]) {
+    setPartAssignments(assignments);
+    setOrchestrationNotes([]);
+    setAutoAssigned(false);
+  }
+  
+  function detectVoices(model: ScoreModel, split: boolean) {
+    const detected = detectChoirVoices(split ? separateVoices(model).model : model);
+    if (detected.length > 0) {
+      setVoices(detected);
+    }
+  }
+  
+  function handleSplitStavesChange(split: boolean) {
+    setSplitStaves(split);
+    // The voices' lines change with the split, so they are detected again
+    if (scoreModel) {
+      detectVoices(splitByRole(scoreModel, mode, sungParts).sung, split);
+    }
+  }
   
   async function handleFileSelect(file: File) {
     setSelectedFile(file);
@@ -60,6 +276,10 @@ export function UploadPage() {
   
   async function handleUpload(file: File) {
     setUploading(true);
+    setUploadValidation(null);
+    setScoreModel(null);
+    setReview(null);
+    setReviewAccepted(false);
     
     try {
       const formData = new FormData();
@@ -72,6 +292,11 @@ export function UploadPage() {
       
       const data = await response.json();
       
+      // Unreadable MusicXML comes back with the parser's errors and warnings
+      if (data.validation) {
+        setUploadValidation(data.validation);
+      }
+      
       if (!response.ok) {
         throw new Error(data.error || 'Upload failed');
       }
@@ -79,6 +304,13 @@ export function UploadPage() {
       setScoreId(data.scoreId);
       setScoreUrl(data.url);
       toast.success('Sheet music uploaded successfully!');
+      
+      if (data.validation?.warnings?.length) {
+        toast.warning(`Imported with ${data.validation.warnings.length} warning(s)`);
+      }
+      
+      setUploading(false);
+      await loadReview(data.scoreId);
     } catch (error: any) {
       console.error('Upload error:', error);
       toast.error(error.message || 'Failed to upload file');
@@ -87,27 +319,147 @@ export function UploadPage() {
     }
   }
   
+  /**
+   * Recognize the uploaded score (scanned scores are read here, once) and
+   * show the result for review
+   */
+  async function loadReview(id: string) {
+    setReviewing(true);
+    
+    try {
+      const response = await apiCall(`/scores/${id}/recognize`, { method: 'POST' });
+      const data = await response.json();
+      
+      // Unreadable images and PDFs come back with what went wrong
+      if (data.validation) {
+        setUploadValidation(data.validation);
+      }
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Recognition failed');
+      }
+      
+      setReview(data.review);
+      
+      const model = await loadScoreModel(id);
+      if (model) {
+        const sung = vocalPartIds(model);
+        setSungParts(sung);
+        const roles = splitByRole(model, mode, sung);
+        applyOrchestration(roles.played, selectedInstruments);
+        
+        detectVoices(roles.sung, splitStaves);
+        
+        // Start from the tempo the score is marked with
+        const opening = scoreOpeningTempo(model);
+        if (opening !== null) {
+          setTempo(Math.min(MAX_TEMPO, Math.max(MIN_TEMPO, Math.round(opening))));
+        }
+      }
+    } catch (error: any) {
+      console.error('Recognition error:', error);
+      toast.error(error.message || 'Failed to recognize the score');
+    } finally {
+      setReviewing(false);
+    }
+  }
+  
+  /**
+   * Save notation corrections as a new revision, then refresh the review
+   * and (unless the user assigned parts by hand) the orchestration
+   */
+  async function handleSaveModel(model: ScoreModel): Promise<boolean> {
+    if (!scoreId) return false;
+    setSavingModel(true);
+    
+    try {
+      const response = await apiCall(`/scores/${scoreId}/model`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model }),
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.validation?.errors?.[0] ?? data.error ?? 'Failed to save corrections');
+      }
+      
+      setScoreModel(data.model);
+      if (autoAssigned) {
+        applyOrchestration(splitByRole(data.model, mode, sungParts).played, selectedInstruments);
+      }
+      toast.success(`Corrections saved as revision ${data.revision.number}`);
+      
+      const reviewResponse = await apiCall(`/scores/${scoreId}/recognize`, { method: 'POST' });
+      if (reviewResponse.ok) {
+        setReview((await reviewResponse.json()).review);
+      }
+      return true;
+    } catch (error: any) {
+      console.error('Save model error:', error);
+      toast.error(error.message || 'Failed to save corrections');
+      return false;
+    } finally {
+      setSavingModel(false);
+    }
+  }
+  
+  function handleReviewBack() {
+    setSelectedFile(null);
+    setScoreId(null);
+    setScoreUrl(null);
+    setUploadValidation(null);
+    setReview(null);
+    setReviewAccepted(false);
+    setEditing(false);
+    setScoreModel(null);
+    setPartAssignments([]);
+    setOrchestrationNotes([]);
+    setUploadKey(key => key + 1);
+  }
+  
   async function handleConvert() {
     if (!scoreId) {
       toast.error('Please upload a score first');
       return;
     }
     
-    if (mode === 'instruments' && selectedInstruments.length === 0) {
-      toast.error('Please select at least one instrument');
+    if (mode !== 'satb' && !hasInstruments) {
+      toast.error(scoreParts ? 'Please assign an instrument to at least one part' : 'Please select at least one instrument');
+      return;
+    }
+    
+    if (mode === 'mixed' && sungParts.length === 0) {
+      toast.error('Please choose at least one part for the choir to sing');
+      return;
+    }
+    
+    if (mode !== 'instruments' && voices.some(voice => !voice.name.trim())) {
+      toast.error('Please give every voice a name');
       return;
     }
     
     setConverting(true);
+    setConversionStage(null);
+    setConversionAttempts(0);
     
     try {
       const response = await apiCall(`/scores/${scoreId}/convert`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          instruments: mode === 'instruments' ? selectedInstruments : [],
-          satbConfig: mode === 'satb' ? satbConfig : undefined,
+          instruments: mode !== 'satb' ? selectedInstruments : [],
+          partAssignments: mode !== 'satb' && scoreParts && !autoAssigned ? partAssignments : undefined,
+          voices: mode !== 'instruments' ? voices : undefined,
+          sungParts: mode === 'mixed' ? sungParts : undefined,
+          separateVoices: (mode !== 'instruments' && splitStaves) || undefined,
           tempo,
+          tempoMode,
+          skipRepeats: skipRepeats || undefined,
+          audioFormat,
+          stems: stems || undefined,
+          learningTracks: mode !== 'instruments' && learningTracks ? learningTracks : undefined,
+          transposition: Object.values(transposition).some(value => value !== undefined) ? transposition : undefined,
         }),
       });
       
@@ -129,46 +481,68 @@ export function UploadPage() {
     }
   }
   
-  async function pollConversionStatus(id: string) {
-    const maxAttempts = 30; // 30 seconds max
-    let attempts = 0;
-    
-    const interval = setInterval(async () => {
-      attempts++;
-      
+  function pollConversionStatus(id: string, delay = FIRST_POLL_MS) {
+    pollTimer.current = setTimeout(async () => {
       try {
         const response = await apiCall(`/conversions/${id}`);
-        const data: Conversion = await response.json();
+        const data = await response.json();
         
-        if (data.status === 'completed') {
-          clearInterval(interval);
+        if (response.status === 404) {
           setConverting(false);
-          toast.success('Conversion complete!');
+          toast.error(data.error || 'The conversion no longer exists');
+          return;
+        }
+        
+        if (response.ok) {
+          const conversion: Conversion = data;
+          setConversionStage(conversion.stage ?? null);
+          setConversionAttempts(conversion.attempts ?? 0);
           
-          // Navigate to playback page
-          setTimeout(() => {
-            navigate(`/playback/${id}`);
-          }, 1000);
-        } else if (data.status === 'failed') {
-          clearInterval(interval);
-          setConverting(false);
-          toast.error('Conversion failed: ' + (data.error || 'Unknown error'));
-        } else if (attempts >= maxAttempts) {
-          clearInterval(interval);
-          setConverting(false);
-          toast.error('Conversion timeout. Please check library later.');
+          if (conversion.status === 'completed') {
+            setConverting(false);
+            toast.success('Conversion complete!');
+            
+            // Navigate to playback page
+            setTimeout(() => {
+              navigate(`/playback/${id}`);
+            }, 1000);
+            return;
+          }
+          
+          if (conversion.status === 'failed') {
+            setConverting(false);
+            toast.error('Conversion failed: ' + (conversion.error || 'Unknown error'));
+            return;
+          }
         }
       } catch (error) {
+        // A failed poll is tried again at the next one
         console.error('Polling error:', error);
-        clearInterval(interval);
-        setConverting(false);
       }
-    }, 1000);
+      
+      pollConversionStatus(id, Math.min(delay * 1.5, MAX_POLL_MS));
+    }, delay);
   }
   
-  const canConvert = scoreId && (
-    (mode === 'instruments' && selectedInstruments.length > 0) ||
-    (mode === 'satb')
+  const roles = useMemo(
+    () => (scoreModel ? splitByRole(scoreModel, mode, sungParts) : null),
+    [scoreModel, mode, sungParts],
+  );
+  const scoreParts: AssignablePart[] | null = roles ? assignableParts(roles.played) : null;
+  // The model the choir voices sing from
+  const choirModel = useMemo(
+    () => (roles && splitStaves ? separateVoices(roles.sung).model : roles?.sung ?? null),
+    [roles, splitStaves],
+  );
+  
+  const hasInstruments = scoreParts
+    ? partAssignments.some(assignment => assignment.instruments.length > 0)
+    : selectedInstruments.length > 0;
+  
+  const canConvert = scoreId && reviewAccepted && (
+    (mode === 'instruments' && hasInstruments) ||
+    (mode === 'satb') ||
+    (mode === 'mixed' && hasInstruments && sungParts.length > 0)
   );
   
   return (
@@ -177,7 +551,7 @@ export function UploadPage() {
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900">Convert Sheet Music</h1>
           <p className="text-gray-600 mt-2">
-            Upload your score, choose instruments or voices, and generate audio.
+            Upload your score, choose instruments, voices or both, and generate audio.
           </p>
         </div>
         
@@ -193,7 +567,11 @@ export function UploadPage() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <UploadArea onFileSelect={handleFileSelect} disabled={uploading || converting} />
+              <UploadArea
+                key={uploadKey}
+                onFileSelect={handleFileSelect}
+                disabled={uploading || reviewing || converting}
+              />
               
               {uploading && (
                 <div className="mt-4 flex items-center gap-2 text-blue-600">
@@ -208,24 +586,112 @@ export function UploadPage() {
                   <span>Upload complete!</span>
                 </div>
               )}
+              
+              {uploadValidation?.errors && uploadValidation.errors.length > 0 && (
+                <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <div className="flex gap-2">
+                    <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                    <div className="flex-1">
+                      <p className="text-sm font-medium text-red-800">
+                        {uploadValidation.error || 'The file could not be read'}
+                      </p>
+                      <ul className="text-sm text-red-600 mt-1 list-disc pl-5 space-y-0.5">
+                        {uploadValidation.errors.map((message, index) => (
+                          <li key={index}>{message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </div>
+              )}
+              
+              {uploadValidation?.warnings && uploadValidation.warnings.length > 0 && (
+                <div className="mt-4 p-3 bg-orange-50 border border-orange-200 rounded-lg">
+                  <p className="text-sm font-medium text-orange-800">Import warnings</p>
+                  <ul className="text-sm text-orange-700 mt-1 list-disc pl-5 space-y-0.5">
+                    {uploadValidation.warnings.map((message, index) => (
+                      <li key={index}>{message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </CardContent>
           </Card>
           
-          {/* Step 2: Select Mode */}
-          {scoreId && (
+          {/* Step 2: Review */}
+          {scoreId && (reviewing || review) && (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <div className="w-8 h-8 rounded-full bg-blue-600 text-white flex items-center justify-center text-sm font-bold">
                     2
                   </div>
+                  Review Recognized Notation
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {reviewing ? (
+                  <div className="flex items-center gap-2 text-blue-600">
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                    <span>Reading the notation...</span>
+                  </div>
+                ) : review && (
+                  <>
+                    <RecognitionReview
+                      review={review}
+                      accepted={reviewAccepted}
+                      onAccept={() => setReviewAccepted(true)}
+                      onBack={handleReviewBack}
+                      disabled={converting || savingModel}
+                    />
+                    
+                    {scoreModel && (
+                      <div className="mt-6 pt-6 border-t border-gray-200">
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <h3 className="text-sm font-medium text-gray-700">Notation</h3>
+                            <p className="text-sm text-gray-500 mt-1">
+                              Wrong notes? Correct them here; saving keeps the original as an earlier revision.
+                            </p>
+                          </div>
+                          <Button variant="outline" size="sm" onClick={() => setEditing(!editing)}>
+                            {editing ? 'Hide notation' : 'Correct notation'}
+                          </Button>
+                        </div>
+                        
+                        {editing && (
+                          <div className="mt-4">
+                            <ScoreEditor
+                              model={scoreModel}
+                              onSave={handleSaveModel}
+                              saving={savingModel}
+                              disabled={converting}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
+          
+          {/* Step 3: Select Mode */}
+          {scoreId && reviewAccepted && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <div className="w-8 h-8 rounded-full bg-blue-600 text-white flex items-center justify-center text-sm font-bold">
+                    3
+                  </div>
                   Choose Playback Mode
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="flex gap-4">
                   <button
-                    onClick={() => setMode('instruments')}
+                    onClick={() => handleModeChange('instruments')}
                     className={`flex-1 p-4 border-2 rounded-lg text-left transition-all ${
                       mode === 'instruments'
                         ? 'border-blue-600 bg-blue-50'
@@ -240,7 +706,7 @@ export function UploadPage() {
                   </button>
                   
                   <button
-                    onClick={() => setMode('satb')}
+                    onClick={() => handleModeChange('satb')}
                     className={`flex-1 p-4 border-2 rounded-lg text-left transition-all ${
                       mode === 'satb'
                         ? 'border-blue-600 bg-blue-50'
@@ -248,9 +714,24 @@ export function UploadPage() {
                     }`}
                     disabled={converting}
                   >
-                    <h3 className="font-semibold text-lg mb-1">SATB Choir</h3>
+                    <h3 className="font-semibold text-lg mb-1">Choir</h3>
+                    <p className="text-sm text-gray-600">
+                      SATB or divided choir voices, detected from the score
+                    </p>
+                  </button>
+                  
+                  <button
+                    onClick={() => handleModeChange('mixed')}
+                    className={`flex-1 p-4 border-2 rounded-lg text-left transition-all ${
+                      mode === 'mixed'
+                        ? 'border-blue-600 bg-blue-50'
+                        : 'border-gray-300 hover:border-blue-400'
+                    }`}
+                    disabled={converting}
+                  >
+                    <h3 className="font-semibold text-lg mb-1">Choir & Accompaniment</h3>
                     <p className="text-sm text-gray-600">
-                      Soprano, Alto, Tenor, Bass voice controls
+                      Choir voices for the vocal parts, instruments for organ or piano
                     </p>
                   </button>
                 </div>
@@ -258,63 +739,206 @@ export function UploadPage() {
             </Card>
           )}
           
-          {/* Step 3: Configure */}
-          {scoreId && (
+          {/* Step 4: Configure */}
+          {scoreId && reviewAccepted && (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <div className="w-8 h-8 rounded-full bg-blue-600 text-white flex items-center justify-center text-sm font-bold">
-                    3
+                    4
                   </div>
                   Configure Playback
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                {mode === 'instruments' ? (
-                  <InstrumentSelector
-                    selectedInstruments={selectedInstruments}
-                    onSelectionChange={setSelectedInstruments}
-                    mode="ensemble"
-                  />
-                ) : (
-                  <SATBSelector
-                    config={satbConfig}
-                    onChange={setSatbConfig}
-                    disabled={converting}
-                  />
+                {mode === 'mixed' && scoreModel && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium text-gray-700">Sung Parts</h3>
+                    <p className="text-sm text-gray-500">
+                      The choir sings the selected parts and the instruments play the others.
+                      Parts with lyrics or a voice's name start out selected.
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {scoreModel.parts.map(part => (
+                        <Chip
+                          key={part.id}
+                          label={part.name || part.id}
+                          variant="primary"
+                          selected={sungParts.includes(part.id)}
+                          onSelect={() => handleToggleSungPart(part.id)}
+                          disabled={converting}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+                
+                {mode !== 'instruments' && (
+                  <div className={mode === 'mixed' ? 'mt-6 pt-6 border-t border-gray-200' : undefined}>
+                    <SATBSelector
+                      voices={voices}
+                      onChange={setVoices}
+                      model={choirModel}
+                      disabled={converting}
+                    />
+                    
+                    <div className="mt-6 pt-6 border-t border-gray-200 space-y-2">
+                      <h3 className="text-sm font-medium text-gray-700">Shared Staves</h3>
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={splitStaves}
+                          onChange={(e) => handleSplitStavesChange(e.target.checked)}
+                          disabled={converting}
+                          className="rounded"
+                        />
+                        Split staves that two voices share, as hymnals print soprano and alto together, into one voice each
+                      </label>
+                    </div>
+                    
+                    <div className="mt-6 pt-6 border-t border-gray-200 space-y-2">
+                      <h3 className="text-sm font-medium text-gray-700">Learning Tracks</h3>
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={learningTracks !== null}
+                          onChange={(e) => setLearningTracks(e.target.checked ? {} : null)}
+                          disabled={converting}
+                          className="rounded"
+                        />
+                        Also make learning tracks: each voice prominent, each voice missing, and all parts balanced
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-700 ml-6">
+                        <input
+                          type="checkbox"
+                          checked={learningTracks?.panned ?? false}
+                          onChange={(e) => setLearningTracks({ panned: e.target.checked || undefined })}
+                          disabled={converting || learningTracks === null}
+                          className="rounded"
+                        />
+                        Pan the prominent voice left and everything else right
+                      </label>
+                    </div>
+                  </div>
+                )}
+                
+                {mode !== 'satb' && (
+                  <div className={mode === 'mixed' ? 'mt-6 pt-6 border-t border-gray-200' : undefined}>
+                    <InstrumentSelector
+                      selectedInstruments={selectedInstruments}
+                      onSelectionChange={handleInstrumentsChange}
+                      mode="ensemble"
+                    />
+                    
+                    {scoreParts && (
+                      <div className="mt-6 pt-6 border-t border-gray-200">
+                        <h3 className="text-sm font-medium text-gray-700">Part Assignments</h3>
+                        <p className="text-sm text-gray-500 mt-1 mb-3">
+                          Selected instruments are matched to the parts by range. Change who plays
+                          each part, double it on more instruments, or drop it. Changing the
+                          selection above starts the assignments over.
+                        </p>
+                        <PartMapping
+                          parts={scoreParts}
+                          assignments={partAssignments}
+                          onChange={handleAssignmentsChange}
+                          disabled={converting}
+                        />
+                        
+                        {orchestrationNotes.length > 0 && (
+                          <ul className="mt-3 text-sm list-disc pl-5 space-y-0.5">
+                            {orchestrationNotes.map((note, index) => (
+                              <li
+                                key={index}
+                                className={note.kind === 'compromise' ? 'text-orange-700' : 'text-gray-600'}
+                              >
+                                {note.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                  </div>
                 )}
                 
                 <div className="mt-6 pt-6 border-t border-gray-200">
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Tempo (BPM)
                   </label>
-                  <div className="flex items-center gap-4">
-                    <input
-                      type="range"
-                      min="40"
-                      max="240"
-                      value={tempo}
-                      onChange={(e) => setTempo(parseInt(e.target.value))}
-                      disabled={converting}
-                      className="flex-1"
-                    />
+                  <TempoSelector
+                    tempo={tempo}
+                    mode={tempoMode}
+                    onTempoChange={setTempo}
+                    onModeChange={setTempoMode}
+                    model={scoreModel}
+                    disabled={converting}
+                  />
+                </div>
+                
+                {scoreModel && hasRepeats(scoreModel) && (
+                  <div className="mt-6">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Repeats
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={skipRepeats}
+                        onChange={(e) => setSkipRepeats(e.target.checked)}
+                        disabled={converting}
+                        className="rounded"
+                      />
+                      Skip repeats (play each section once; D.C. and D.S. are still followed)
+                    </label>
+                  </div>
+                )}
+                
+                <div className="mt-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Transposition
+                  </label>
+                  <TranspositionSelector
+                    value={transposition}
+                    onChange={setTransposition}
+                    model={scoreModel}
+                    disabled={converting}
+                  />
+                </div>
+                
+                <div className="mt-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Audio Format
+                  </label>
+                  <select
+                    value={audioFormat}
+                    onChange={(e) => setAudioFormat(e.target.value as AudioFormat)}
+                    disabled={converting}
+                    className="w-full px-3 py-2 border rounded-lg bg-white"
+                  >
+                    {(Object.keys(AUDIO_FORMATS) as AudioFormat[]).map(format => (
+                      <option key={format} value={format}>
+                        {AUDIO_FORMATS[format].label}
+                      </option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 mt-3">
                     <input
-                      type="number"
-                      min="40"
-                      max="240"
-                      value={tempo}
-                      onChange={(e) => setTempo(parseInt(e.target.value))}
+                      type="checkbox"
+                      checked={stems}
+                      onChange={(e) => setStems(e.target.checked)}
                       disabled={converting}
-                      className="w-20 px-3 py-2 border rounded-lg"
+                      className="rounded"
                     />
-                  </div>
+                    Also export stems (one WAV per part, as a ZIP)
+                  </label>
                 </div>
               </CardContent>
             </Card>
           )}
           
-          {/* Step 4: Convert */}
-          {scoreId && (
+          {/* Step 5: Convert */}
+          {scoreId && reviewAccepted && (
             <Card>
               <CardContent className="p-6">
                 <Button
@@ -337,7 +961,13 @@ export function UploadPage() {
                 {converting && (
                   <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <p className="text-sm text-blue-800">
-                      🎵 Analyzing notation and generating audio... This usually takes 5-15 seconds.
+                      🎵 {conversionStage ? `${STAGE_LABELS[conversionStage]}...` : 'Queued...'}
+                      {conversionAttempts > 1 && ` (attempt ${conversionAttempts})`}
+                    </p>
+                    <p className="text-xs text-blue-600 mt-1">
+                      Analyzing notation and generating audio usually takes 5-15 seconds;
+                      long scores and learning tracks take longer. You can leave this page
+                      and open the conversion from your library once it is done.
                     </p>
                   </div>
                 )}
@@ -349,3 +979,27 @@ export function UploadPage() {
     </div>
   );
 }
+
+/**
+ * The parts the choir sings and the parts the instruments play: in mixed
+ * mode each takes its share of the score, otherwise both have all of it
+ */
+function splitByRole(
+  model: ScoreModel,
+  mode: ConversionMode,
+  sungParts: string[],
+): { sung: ScoreModel; played: ScoreModel } {
+  if (mode !== 'mixed') return { sung: model, played: model };
+  return {
+    sung: selectParts(model, sungParts),
+    played: selectParts(model, model.parts.filter(part => !sungParts.includes(part.id)).map(part => part.id)),
+  };
+}
+
+/**
+ * Parts that look written for voices, which mixed mode starts with the
+ * choir singing
+ */
+function vocalPartIds(model: ScoreModel): string[] {
+  return model.parts.filter(isVocalPart).map(part => part.id);
+}
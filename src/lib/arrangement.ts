@@ -0,0 +1,182 @@
+/**
+ * Arrangement
+ *
+ * Decides which notes of the score each output track plays. A conversion
+ * assigns instruments to parts, lists instruments for automatic
+ * orchestration (./orchestration.ts), lists choir voices (./voices.ts), or
+ * does both: a choir sings its parts while the instruments accompany it.
+ * All become a list of tracks, each with the part/staff/voice sources it
+ * plays, the instrument that sounds it and its mix settings. The MIDI
+ * writer and the audio renderers consume the same track list.
+ */
+
+import type { ChoirVoice, Conversion, InstrumentRange, PartAssignment, TrackMix } from './types.ts';
+import { type ScoreModel, selectParts } from './score-model.ts';
+import type { PartSource } from './performance.ts';
+import { getInstrumentById } from './instruments.ts';
+import { type Orchestration, orchestrate } from './orchestration.ts';
+import { choirVoiceRange, defaultVoiceLayers, sungPartIds } from './voices.ts';
+
+/**
+ * One output track
+ */
+export interface ArrangementTrack {
+  id: string;
+  name: string;
+  instrumentId: string;
+  // Id of the choir voice the track sings
+  voice?: string;
+  // Singing range of a choir voice, checked instead of the instrument's
+  range?: InstrumentRange;
+  sources: PartSource[];
+  gain: number;
+  // Stereo position from -1 (left) to 1 (right)
+  pan: number;
+  muted: boolean;
+}
+
+// More tracks than any arrangement makes, to bound a saved mix
+const MAX_MIX_TRACKS = 128;
+
+/**
+ * Tracks for a conversion. Part assignments give one track per part and
+ * instrument; a plain instrument list is orchestrated automatically first;
+ * a choir gives one track per voice. A choir with instruments sings its
+ * parts and the instruments play the rest, the choir's tracks first.
+ */
+export function buildArrangement(
+  model: ScoreModel,
+  conversion: Pick<Conversion, 'instruments' | 'partAssignments' | 'voices' | 'sungParts'>,
+): ArrangementTrack[] {
+  const voiceTracks = conversion.voices?.length
+    ? choirTracks(selectParts(model, sungPartIds(model, conversion)), conversion.voices)
+    : [];
+  if (conversion.partAssignments?.length) {
+    return [...voiceTracks, ...assignedTracks(model, conversion.partAssignments)];
+  }
+  if (conversion.instruments.length > 0) {
+    return [...voiceTracks, ...assignedTracks(model, orchestrateAccompaniment(model, conversion).assignments)];
+  }
+  return voiceTracks;
+}
+
+/**
+ * Automatic orchestration of a conversion's instruments over the parts its
+ * choir does not sing (the whole score when it has no choir)
+ */
+export function orchestrateAccompaniment(
+  model: ScoreModel,
+  conversion: Pick<Conversion, 'instruments' | 'partAssignments' | 'voices' | 'sungParts'>,
+): Orchestration {
+  const sung = sungPartIds(model, conversion);
+  const played = model.parts.filter(part => !sung.includes(part.id)).map(part => part.id);
+  return orchestrate(selectParts(model, played), conversion.instruments);
+}
+
+/**
+ * Tracks that should sound, honoring mute and solo
+ */
+export function audibleTracks(tracks: ArrangementTrack[]): ArrangementTrack[] {
+  return tracks.filter(track => !track.muted && track.sources.length > 0);
+}
+
+/**
+ * Whether a value is a list of known instrument ids
+ */
+export function isInstrumentList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(id => typeof id === 'string' && getInstrumentById(id) !== undefined);
+}
+
+/**
+ * Whether a value is a well-formed list of part assignments naming known
+ * instruments
+ */
+export function isPartAssignmentList(value: unknown): value is PartAssignment[] {
+  return Array.isArray(value) && value.every(item =>
+    typeof item?.partId === 'string' &&
+    (item.staff === undefined || (Number.isInteger(item.staff) && item.staff > 0)) &&
+    isInstrumentList(item.instruments)
+  );
+}
+
+/**
+ * Whether a value is a well-formed mix: settings by track id, with volume
+ * from 0 to 1 and pan from -1 to 1
+ */
+export function isTrackMixMap(value: unknown): value is Record<string, TrackMix> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const entries = Object.values(value as Record<string, unknown>);
+  return entries.length <= MAX_MIX_TRACKS && entries.every(item => {
+    const settings = item as Partial<TrackMix> | null;
+    return typeof settings?.volume === 'number' && settings.volume >= 0 && settings.volume <= 1 &&
+      typeof settings.pan === 'number' && settings.pan >= -1 && settings.pan <= 1 &&
+      typeof settings.muted === 'boolean' &&
+      typeof settings.solo === 'boolean';
+  });
+}
+
+/**
+ * Instruments used by a set of assignments, in first-use order
+ */
+export function assignedInstruments(assignments: PartAssignment[]): string[] {
+  return [...new Set(assignments.flatMap(assignment => assignment.instruments))];
+}
+
+/**
+ * One track per assigned instrument of each part; dropped parts are silent
+ */
+function assignedTracks(model: ScoreModel, assignments: PartAssignment[]): ArrangementTrack[] {
+  const entries = assignments.flatMap(assignment => {
+    const part = model.parts.find(item => item.id === assignment.partId);
+    const partName = part?.name || assignment.partId;
+    const label = assignment.staff ? `${partName} staff ${assignment.staff}` : partName;
+    const source: PartSource = {
+      partId: assignment.partId,
+      ...(assignment.staff !== undefined && { staff: assignment.staff }),
+    };
+    return [...new Set(assignment.instruments)].map(instrumentId => ({ instrumentId, label, source }));
+  });
+  
+  return entries.map(({ instrumentId, label, source }, index) => ({
+    id: `${source.partId}${source.staff ? `-${source.staff}` : ''}:${instrumentId}`,
+    name: `${getInstrumentById(instrumentId)?.name ?? instrumentId} (${label})`,
+    instrumentId,
+    sources: [source],
+    gain: 1,
+    pan: spreadPan(index, entries.length),
+    muted: false,
+  }));
+}
+
+/**
+ * One track per choir voice. Voices sing the line they name; the others
+ * take the score's lines in order: a part each in open scores, or each
+ * staff and notated voice in closed scores (S/A on one staff, T/B on
+ * another).
+ */
+function choirTracks(model: ScoreModel, voices: ChoirVoice[]): ArrangementTrack[] {
+  const layers = defaultVoiceLayers(model, voices.length);
+  const soloing = voices.some(voice => voice.settings.solo);
+  
+  return voices.map((voice, index) => {
+    const source = voice.source ?? layers[index];
+    return {
+      id: voice.id,
+      name: voice.name,
+      instrumentId: voice.instrumentId,
+      voice: voice.id,
+      range: choirVoiceRange(voice),
+      sources: source ? [source] : [],
+      gain: voice.settings.volume / 100,
+      pan: spreadPan(index, voices.length),
+      muted: !voice.settings.enabled || (soloing && !voice.settings.solo),
+    };
+  });
+}
+
+/**
+ * Seat tracks across the stereo field in score order, like an ensemble on stage
+ */
+function spreadPan(index: number, count: number): number {
+  return count > 1 ? Math.round((index / (count - 1) - 0.5) * 100) / 100 : 0;
+}
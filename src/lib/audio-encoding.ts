@@ -0,0 +1,379 @@
+/**
+ * Audio Encoding
+ *
+ * Encoders for rendered audio that need no native code: 16-bit PCM WAV and
+ * lossless FLAC in an Ogg container. MP3 needs an encoder library and is
+ * handled by the edge function (see server/audio_encoders.tsx).
+ *
+ * Output depends only on the samples, so identical renders encode to
+ * identical bytes.
+ */
+
+import type { AudioFormat } from './types.ts';
+import type { RenderedAudio } from './audio-render.ts';
+
+export const AUDIO_FORMATS: Record<AudioFormat, { label: string; contentType: string; extension: string }> = {
+  wav: { label: 'WAV (uncompressed)', contentType: 'audio/wav', extension: 'wav' },
+  mp3: { label: 'MP3', contentType: 'audio/mpeg', extension: 'mp3' },
+  ogg: { label: 'FLAC (Ogg, lossless)', contentType: 'audio/ogg; codecs=flac', extension: 'ogg' },
+};
+
+export const DEFAULT_AUDIO_FORMAT: AudioFormat = 'wav';
+
+/**
+ * Convert float samples to interleaved-ready 16-bit channels
+ */
+export function toInt16(audio: RenderedAudio): [Int16Array, Int16Array] {
+  const convert = (samples: Float32Array) => {
+    const output = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      output[i] = Math.round(Math.max(-1, Math.min(1, samples[i])) * 32767);
+    }
+    return output;
+  };
+  return [convert(audio.left), convert(audio.right)];
+}
+
+/**
+ * 16-bit stereo PCM WAV
+ */
+export function encodeWav(audio: RenderedAudio): Uint8Array {
+  const [left, right] = toInt16(audio);
+  const dataSize = left.length * 4;
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+  
+  writeAscii(bytes, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(bytes, 8, 'WAVE');
+  writeAscii(bytes, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 2, true);
+  view.setUint32(24, audio.sampleRate, true);
+  view.setUint32(28, audio.sampleRate * 4, true);
+  view.setUint16(32, 4, true);
+  view.setUint16(34, 16, true);
+  writeAscii(bytes, 36, 'data');
+  view.setUint32(40, dataSize, true);
+  
+  for (let i = 0, offset = 44; i < left.length; i++, offset += 4) {
+    view.setInt16(offset, left[i], true);
+    view.setInt16(offset + 2, right[i], true);
+  }
+  
+  return bytes;
+}
+
+// ============================================================================
+// OGG FLAC
+// ============================================================================
+
+const FLAC_BLOCK_SIZE = 4096;
+const OGG_SERIAL = 0x53545331;
+const VENDOR = 'sheet-to-sound';
+
+const FLAC_SAMPLE_RATE_CODES: Record<number, number> = {
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+  96000: 0b1011,
+};
+
+/**
+ * Lossless stereo FLAC in an Ogg container (Ogg FLAC mapping 1.0)
+ */
+export function encodeOggFlac(audio: RenderedAudio): Uint8Array {
+  const [left, right] = toInt16(audio);
+  const totalSamples = left.length;
+  const pages: Uint8Array[] = [];
+  let sequence = 0;
+  
+  // First packet: mapping header, "fLaC" and STREAMINFO
+  const streamInfo = new BitWriter();
+  streamInfo.write(FLAC_BLOCK_SIZE, 16);
+  streamInfo.write(FLAC_BLOCK_SIZE, 16);
+  streamInfo.write(0, 24);
+  streamInfo.write(0, 24);
+  streamInfo.write(audio.sampleRate, 20);
+  streamInfo.write(2 - 1, 3);
+  streamInfo.write(16 - 1, 5);
+  streamInfo.write(Math.floor(totalSamples / 2 ** 32), 4);
+  streamInfo.write(totalSamples >>> 0, 32);
+  for (let i = 0; i < 4; i++) streamInfo.write(0, 32);
+  const streamInfoBytes = streamInfo.bytes();
+  
+  const identification = concat([
+    new Uint8Array([0x7f, ...asciiBytes('FLAC'), 1, 0, 0, 1]),
+    asciiBytes('fLaC'),
+    metadataBlockHeader(0, false, streamInfoBytes.length),
+    streamInfoBytes,
+  ]);
+  pages.push(oggPage([identification], 0, sequence++, 0x02));
+  
+  // Second packet: VORBIS_COMMENT with the vendor string and no comments
+  const vendor = new TextEncoder().encode(VENDOR);
+  const comment = new Uint8Array(8 + vendor.length);
+  new DataView(comment.buffer).setUint32(0, vendor.length, true);
+  comment.set(vendor, 4);
+  pages.push(oggPage([concat([metadataBlockHeader(4, true, comment.length), comment])], 0, sequence++, 0));
+  
+  // Audio: one FLAC frame per page
+  const frameCount = Math.ceil(totalSamples / FLAC_BLOCK_SIZE);
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * FLAC_BLOCK_SIZE;
+    const end = Math.min(totalSamples, start + FLAC_BLOCK_SIZE);
+    const packet = encodeFlacFrame(left.subarray(start, end), right.subarray(start, end), frame, audio.sampleRate);
+    pages.push(oggPage([packet], end, sequence++, frame === frameCount - 1 ? 0x04 : 0));
+  }
+  if (frameCount === 0) {
+    pages.push(oggPage([], 0, sequence++, 0x04));
+  }
+  
+  return concat(pages);
+}
+
+function metadataBlockHeader(type: number, last: boolean, length: number): Uint8Array {
+  return new Uint8Array([(last ? 0x80 : 0) | type, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]);
+}
+
+function encodeFlacFrame(left: Int16Array, right: Int16Array, frameNumber: number, sampleRate: number): Uint8Array {
+  const blockSize = left.length;
+  const rateCode = FLAC_SAMPLE_RATE_CODES[sampleRate] ?? 0;
+  const writer = new BitWriter();
+  
+  writer.write(0b11111111111110, 14);
+  writer.write(0, 1);
+  writer.write(0, 1);
+  writer.write(blockSize === FLAC_BLOCK_SIZE ? 0b1100 : 0b0111, 4);
+  writer.write(rateCode, 4);
+  writer.write(0b1000, 4);
+  writer.write(0b100, 3);
+  writer.write(0, 1);
+  for (const byte of utf8Number(frameNumber)) writer.write(byte, 8);
+  if (blockSize !== FLAC_BLOCK_SIZE) writer.write(blockSize - 1, 16);
+  writer.write(crc8(writer.bytes()), 8);
+  
+  // Left/side stereo decorrelation; the side channel needs one extra bit
+  const side = new Int32Array(blockSize);
+  for (let i = 0; i < blockSize; i++) side[i] = left[i] - right[i];
+  writeFixedSubframe(writer, Int32Array.from(left), 16);
+  writeFixedSubframe(writer, side, 17);
+  
+  writer.align();
+  const frame = writer.bytes();
+  const crc = crc16(frame);
+  return concat([frame, new Uint8Array([crc >> 8, crc & 0xff])]);
+}
+
+/**
+ * FIXED subframe with the best predictor order (0-4) and Rice-coded residual
+ */
+function writeFixedSubframe(writer: BitWriter, samples: Int32Array, bitsPerSample: number) {
+  const order = Math.min(bestFixedOrder(samples), samples.length);
+  const residual = fixedResidual(samples, order);
+  
+  writer.write(0, 1);
+  writer.write(0b001000 | order, 6);
+  writer.write(0, 1);
+  for (let i = 0; i < order; i++) writer.writeSigned(samples[i], bitsPerSample);
+  
+  // Residual: Rice coding, partition order 0
+  let sum = 0;
+  for (const value of residual) sum += value < 0 ? -2 * value - 1 : 2 * value;
+  const mean = residual.length > 0 ? sum / residual.length : 0;
+  const parameter = Math.min(14, mean > 1 ? Math.floor(Math.log2(mean)) : 0);
+  
+  writer.write(0b00, 2);
+  writer.write(0, 4);
+  writer.write(parameter, 4);
+  for (const value of residual) {
+    const folded = value < 0 ? -2 * value - 1 : 2 * value;
+    writer.writeUnary(folded >>> parameter);
+    if (parameter > 0) writer.write(folded & ((1 << parameter) - 1), parameter);
+  }
+}
+
+function bestFixedOrder(samples: Int32Array): number {
+  let bestOrder = 0;
+  let bestCost = Infinity;
+  for (let order = 0; order <= 4; order++) {
+    let cost = 0;
+    for (const value of fixedResidual(samples, order)) cost += Math.abs(value);
+    if (cost < bestCost) {
+      bestCost = cost;
+      bestOrder = order;
+    }
+  }
+  return bestOrder;
+}
+
+function fixedResidual(samples: Int32Array, order: number): Int32Array {
+  const residual = new Int32Array(Math.max(0, samples.length - order));
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = s[i - 1]; break;
+      case 2: prediction = 2 * s[i - 1] - s[i - 2]; break;
+      case 3: prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3]; break;
+      case 4: prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4]; break;
+    }
+    residual[i - order] = s[i] - prediction;
+  }
+  return residual;
+}
+
+/**
+ * FLAC's UTF-8-style variable length frame number
+ */
+function utf8Number(value: number): number[] {
+  if (value < 0x80) return [value];
+  const bytes: number[] = [];
+  let remaining = value;
+  // Each continuation byte carries 6 bits and takes one bit from the lead byte
+  do {
+    bytes.unshift(0x80 | (remaining & 0x3f));
+    remaining = Math.floor(remaining / 64);
+  } while (remaining >= 0x40 >> bytes.length);
+  const lead = (0xff << (7 - bytes.length)) & 0xff;
+  return [lead | remaining, ...bytes];
+}
+
+/**
+ * One Ogg page holding complete packets
+ */
+function oggPage(packets: Uint8Array[], granule: number, sequence: number, flags: number): Uint8Array {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    let size = packet.length;
+    while (size >= 255) {
+      lacing.push(255);
+      size -= 255;
+    }
+    lacing.push(size);
+  }
+  
+  const body = concat(packets);
+  const page = new Uint8Array(27 + lacing.length + body.length);
+  const view = new DataView(page.buffer);
+  page.set(asciiBytes('OggS'), 0);
+  page[4] = 0;
+  page[5] = flags;
+  view.setUint32(6, granule >>> 0, true);
+  view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, OGG_SERIAL, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  page.set(body, 27 + lacing.length);
+  view.setUint32(22, oggCrc(page), true);
+  
+  return page;
+}
+
+/**
+ * MSB-first bit packer
+ */
+class BitWriter {
+  private buffer = new Uint8Array(1024);
+  private length = 0;
+  private current = 0;
+  private filled = 0;
+  
+  write(value: number, bits: number) {
+    for (let bit = bits - 1; bit >= 0; bit--) {
+      this.pushBit(Math.floor(value / 2 ** bit) & 1);
+    }
+  }
+  
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + 2 ** bits : value, bits);
+  }
+  
+  writeUnary(zeros: number) {
+    for (let i = 0; i < zeros; i++) this.pushBit(0);
+    this.pushBit(1);
+  }
+  
+  align() {
+    while (this.filled !== 0) this.pushBit(0);
+  }
+  
+  bytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+  
+  private pushBit(bit: number) {
+    this.current = (this.current << 1) | bit;
+    if (++this.filled === 8) {
+      if (this.length === this.buffer.length) {
+        const grown = new Uint8Array(this.buffer.length * 2);
+        grown.set(this.buffer);
+        this.buffer = grown;
+      }
+      this.buffer[this.length++] = this.current;
+      this.current = 0;
+      this.filled = 0;
+    }
+  }
+}
+
+const CRC8_TABLE = buildCrcTable(0x07, 8);
+const CRC16_TABLE = buildCrcTable(0x8005, 16);
+const OGG_CRC_TABLE = buildCrcTable(0x04c11db7, 32);
+
+function buildCrcTable(polynomial: number, width: number): Uint32Array {
+  const table = new Uint32Array(256);
+  const top = 2 ** (width - 1);
+  const mask = 2 ** width - 1;
+  for (let i = 0; i < 256; i++) {
+    let crc = i * 2 ** (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc >= top ? ((crc - top) * 2) ^ polynomial : crc * 2;
+      crc = (crc >>> 0) % (mask + 1);
+    }
+    table[i] = crc;
+  }
+  return table;
+}
+
+function crc8(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) crc = CRC8_TABLE[crc ^ byte];
+  return crc;
+}
+
+function crc16(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ byte];
+  return crc;
+}
+
+function oggCrc(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  return crc;
+}
+
+function writeAscii(bytes: Uint8Array, offset: number, text: string) {
+  bytes.set(asciiBytes(text), offset);
+}
+
+function asciiBytes(text: string): Uint8Array {
+  return Uint8Array.from(text, char => char.charCodeAt(0));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
@@ -0,0 +1,469 @@
+/**
+ * Offline Audio Renderer
+ *
+ * Synthesizes a stereo mix of an arrangement without any external service,
+ * so it runs in the edge function as well as in the browser. When a
+ * SoundFont is supplied, instruments with a matching preset are played from
+ * its samples. Everything else falls back to a small additive-synthesis patch
+ * per instrument family (harmonic wavetable, envelope, vibrato); unpitched
+ * percussion uses filtered noise with optional tones. The page's live
+ * playback engine (./playback-engine.ts) plays the same samples and patches.
+ *
+ * Rendering is deterministic: there is no randomness beyond a seeded noise
+ * generator and no dependence on the clock, so the same score and settings
+ * always produce the same samples and therefore the same encoded bytes.
+ */
+
+import type { InstrumentCategory } from './types.ts';
+import type { ScoreModel } from './score-model.ts';
+import { type ArrangementTrack, audibleTracks } from './arrangement.ts';
+import { getInstrumentById } from './instruments.ts';
+import {
+  type SoundFont,
+  type InstrumentVoice,
+  voiceForInstrument,
+  regionsFor,
+  renderRegion,
+} from './soundfont.ts';
+import {
+  type TempoChange,
+  createTempoClock,
+  performNotes,
+  scoreTimeline,
+} from './performance.ts';
+
+export const DEFAULT_SAMPLE_RATE = 44100;
+
+/**
+ * Rendered stereo audio, samples in the range -1..1
+ */
+export interface RenderedAudio {
+  sampleRate: number;
+  left: Float32Array;
+  right: Float32Array;
+}
+
+export interface RenderOptions {
+  sampleRate?: number;
+  soundFont?: SoundFont | null;
+}
+
+/**
+ * Synthesis settings for one kind of sound
+ */
+export interface SynthPatch {
+  // Relative amplitude of partials 1, 2, 3, ...
+  harmonics: number[];
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+  // Decays away instead of holding while the note is held
+  percussive?: boolean;
+  vibrato?: { rate: number; depth: number; delay: number };
+  // Unpitched: noise brightness (0..1) and fixed tone frequencies
+  noise?: { brightness: number; tones?: number[] };
+  gain: number;
+}
+
+const TABLE_SIZE = 2048;
+// Level of sampled instruments relative to the synthesized patches
+export const SAMPLER_GAIN = 0.7;
+// Longest release tail rendered after the last note, in seconds
+const MAX_RELEASE = 4;
+// Peak level of the final mix, just under full scale
+const HEADROOM = 0.89;
+
+const CATEGORY_PATCHES: Record<InstrumentCategory, SynthPatch> = {
+  strings: {
+    harmonics: [1, 0.5, 0.33, 0.25, 0.2, 0.16, 0.14, 0.12, 0.1, 0.08],
+    attack: 0.08, decay: 0.2, sustain: 0.85, release: 0.25,
+    vibrato: { rate: 5.5, depth: 0.12, delay: 0.25 },
+    gain: 0.5,
+  },
+  woodwinds: {
+    harmonics: [1, 0.1, 0.4, 0.05, 0.2, 0.03, 0.1],
+    attack: 0.05, decay: 0.1, sustain: 0.9, release: 0.12,
+    vibrato: { rate: 5, depth: 0.06, delay: 0.3 },
+    gain: 0.55,
+  },
+  brass: {
+    harmonics: [1, 0.8, 0.6, 0.5, 0.4, 0.3, 0.22, 0.16, 0.1],
+    attack: 0.06, decay: 0.15, sustain: 0.8, release: 0.15,
+    gain: 0.45,
+  },
+  percussion: {
+    harmonics: [1, 0, 0.3, 0, 0.1],
+    attack: 0.002, decay: 1.2, sustain: 0, release: 0.3,
+    percussive: true,
+    gain: 0.6,
+  },
+  keyboards: {
+    harmonics: [1, 0.6, 0.25, 0.2, 0.1, 0.08, 0.05],
+    attack: 0.005, decay: 1.8, sustain: 0, release: 0.2,
+    percussive: true,
+    gain: 0.55,
+  },
+  voices: {
+    harmonics: [1, 0.45, 0.2, 0.12, 0.05],
+    attack: 0.1, decay: 0.2, sustain: 0.9, release: 0.2,
+    vibrato: { rate: 5.2, depth: 0.2, delay: 0.35 },
+    gain: 0.5,
+  },
+};
+
+const NOISE_PATCH: SynthPatch = {
+  harmonics: [1],
+  attack: 0.001, decay: 0.15, sustain: 0, release: 0.05,
+  percussive: true,
+  noise: { brightness: 0.6 },
+  gain: 0.6,
+};
+
+const INSTRUMENT_PATCHES: Record<string, Partial<SynthPatch>> = {
+  'organ': { attack: 0.02, decay: 0.05, sustain: 1, release: 0.1, percussive: false, harmonics: [1, 0.8, 0.5, 0.4, 0.2, 0.3, 0.1, 0.2] },
+  'harpsichord': { decay: 1.2, harmonics: [1, 0.9, 0.8, 0.6, 0.5, 0.4, 0.3, 0.25, 0.2] },
+  'celesta': { decay: 0.9, harmonics: [1, 0, 0.1] },
+  'harp': { attack: 0.003, decay: 1.5, sustain: 0, percussive: true, vibrato: undefined },
+  'guitar': { attack: 0.003, decay: 1.2, sustain: 0, percussive: true, vibrato: undefined },
+  'flute': { harmonics: [1, 0.2, 0.08, 0.03] },
+  'piccolo': { harmonics: [1, 0.15, 0.05] },
+  'timpani': { decay: 1.6, harmonics: [1, 0.5, 0.25, 0.1] },
+  'glockenspiel': { decay: 1.5, harmonics: [1, 0, 0, 0.2] },
+  'vibraphone': { decay: 2.5, vibrato: { rate: 6, depth: 0.05, delay: 0 } },
+  'tubular-bells': { decay: 3, harmonics: [1, 0.6, 0.4, 0.3, 0.2] },
+  'snare-drum': { noise: { brightness: 0.8, tones: [190] }, decay: 0.18 },
+  'bass-drum': { noise: { brightness: 0.1, tones: [55] }, decay: 0.4, gain: 0.9 },
+  'toms': { noise: { brightness: 0.2, tones: [110] }, decay: 0.3 },
+  'bongos': { noise: { brightness: 0.3, tones: [320] }, decay: 0.15 },
+  'congas': { noise: { brightness: 0.25, tones: [200] }, decay: 0.25 },
+  'cymbals': { noise: { brightness: 1 }, decay: 1.5, gain: 0.35 },
+  'tam-tam': { noise: { brightness: 0.5, tones: [70, 113, 167] }, decay: 3, gain: 0.45 },
+  'triangle': { noise: { brightness: 1, tones: [2800, 4100] }, decay: 1.5, gain: 0.3 },
+  'cowbell': { noise: { brightness: 0.2, tones: [560, 845] }, decay: 0.3 },
+  'wood-block': { noise: { brightness: 0.2, tones: [850] }, decay: 0.06 },
+  'claves': { noise: { brightness: 0.1, tones: [2500] }, decay: 0.05 },
+  'castanets': { noise: { brightness: 0.7, tones: [1800] }, decay: 0.05 },
+  'tambourine': { noise: { brightness: 0.95, tones: [5200] }, decay: 0.25, gain: 0.4 },
+  'maracas': { noise: { brightness: 0.9 }, decay: 0.07, gain: 0.4 },
+  'shaker': { noise: { brightness: 0.9 }, decay: 0.1, gain: 0.4 },
+  'cabasa': { noise: { brightness: 0.85 }, decay: 0.09, gain: 0.4 },
+  'guiro': { noise: { brightness: 0.6 }, decay: 0.2, gain: 0.4 },
+};
+
+/**
+ * Render every audible track of an arrangement to a stereo mix, playing
+ * the tempo changes of the conversion's tempo map
+ */
+export function renderArrangement(
+  model: ScoreModel,
+  tracks: ArrangementTrack[],
+  tempo: TempoChange[],
+  options: RenderOptions = {},
+): RenderedAudio {
+  const render = prepareRender(model, tracks, tempo, options);
+  const mix = emptyAudio(render);
+  render.audible.forEach((_, trackIndex) => renderTrack(render, trackIndex, mix));
+  applyGain(mix, headroomGain(mix));
+  return mix;
+}
+
+/**
+ * Render the mix and then each audible track on its own ("stems"). Every
+ * stem has the length of the mix and the gain that brought the mix within
+ * the headroom, so the stems add up to the mix. Tracks are rendered once
+ * for the mix and again one at a time, handing each stem to `onStem` and
+ * waiting for it before rendering the next, so a caller that writes each
+ * stem out holds only one in memory.
+ */
+export async function renderStems(
+  model: ScoreModel,
+  tracks: ArrangementTrack[],
+  tempo: TempoChange[],
+  onStem: (track: ArrangementTrack, audio: RenderedAudio) => Promise<void> | void,
+  options: RenderOptions = {},
+): Promise<RenderedAudio> {
+  const render = prepareRender(model, tracks, tempo, options);
+  const mix = emptyAudio(render);
+  render.audible.forEach((_, trackIndex) => renderTrack(render, trackIndex, mix));
+  const gain = headroomGain(mix);
+  applyGain(mix, gain);
+  
+  for (const [trackIndex, track] of render.audible.entries()) {
+    const stem = emptyAudio(render);
+    renderTrack(render, trackIndex, stem);
+    applyGain(stem, gain);
+    await onStem(track, stem);
+  }
+  
+  return mix;
+}
+
+/**
+ * Everything shared by the tracks of one render
+ */
+interface RenderContext {
+  model: ScoreModel;
+  sampleRate: number;
+  timeline: ReturnType<typeof scoreTimeline>;
+  clock: (tick: number) => number;
+  audible: ArrangementTrack[];
+  patches: SynthPatch[];
+  voices: (InstrumentVoice | undefined)[];
+  soundFont?: SoundFont | null;
+  length: number;
+}
+
+function prepareRender(
+  model: ScoreModel,
+  tracks: ArrangementTrack[],
+  tempo: TempoChange[],
+  options: RenderOptions,
+): RenderContext {
+  const sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+  const timeline = scoreTimeline(model);
+  const clock = createTempoClock(tempo, model.divisions);
+  
+  const audible = audibleTracks(tracks);
+  const patches = audible.map(track => patchFor(track.instrumentId));
+  const voices = audible.map(track =>
+    options.soundFont ? voiceForInstrument(options.soundFont, track.instrumentId) : undefined);
+  const tail = Math.min(MAX_RELEASE, Math.max(1, ...audible.map((_, index) => {
+    const patch = patches[index];
+    const voice = voices[index];
+    return voice
+      ? Math.max(0, ...voice.preset.regions.map(region => region.envelope.release))
+      : patch.release + (patch.percussive ? patch.decay : 0);
+  })));
+  const length = Math.ceil((clock(timeline.totalTicks) + tail) * sampleRate);
+  
+  return { model, sampleRate, timeline, clock, audible, patches, voices, soundFont: options.soundFont, length };
+}
+
+function emptyAudio(render: RenderContext): RenderedAudio {
+  return {
+    sampleRate: render.sampleRate,
+    left: new Float32Array(render.length),
+    right: new Float32Array(render.length),
+  };
+}
+
+/**
+ * Add one audible track into a buffer
+ */
+function renderTrack(render: RenderContext, trackIndex: number, output: RenderedAudio) {
+  const { model, timeline, clock, sampleRate, length } = render;
+  const { left, right } = output;
+  const track = render.audible[trackIndex];
+  const voice = render.voices[trackIndex];
+  if (voice && render.soundFont) {
+    renderSampledTrack(render.soundFont, voice, model, track, timeline, clock, sampleRate, left, right);
+    return;
+  }
+  
+  const patch = render.patches[trackIndex];
+  // Equal-power pan
+  const angle = ((track.pan + 1) / 2) * (Math.PI / 2);
+  const leftGain = Math.cos(angle) * track.gain * patch.gain;
+  const rightGain = Math.sin(angle) * track.gain * patch.gain;
+  const noise = createNoise(trackIndex + 1);
+  
+  for (const note of performNotes(model, track.sources, timeline)) {
+    const start = clock(note.tick);
+    const end = clock(note.tick + note.duration);
+    const amplitude = (note.velocity / 127) ** 1.5;
+    
+    renderNote(patch, note.midi, start, end, amplitude, sampleRate, noise, (index, value) => {
+      if (index < length) {
+        left[index] += value * leftGain;
+        right[index] += value * rightGain;
+      }
+    });
+  }
+}
+
+/**
+ * Gain that scales a mix down (never up) so its loudest sample sits at the
+ * headroom level
+ */
+function headroomGain(audio: RenderedAudio): number {
+  let peak = 0;
+  for (let i = 0; i < audio.left.length; i++) {
+    peak = Math.max(peak, Math.abs(audio.left[i]), Math.abs(audio.right[i]));
+  }
+  return peak > HEADROOM ? HEADROOM / peak : 1;
+}
+
+function applyGain(audio: RenderedAudio, gain: number) {
+  if (gain === 1) return;
+  for (let i = 0; i < audio.left.length; i++) {
+    audio.left[i] *= gain;
+    audio.right[i] *= gain;
+  }
+}
+
+function renderSampledTrack(
+  font: SoundFont,
+  voice: InstrumentVoice,
+  model: ScoreModel,
+  track: ArrangementTrack,
+  timeline: ReturnType<typeof scoreTimeline>,
+  clock: (tick: number) => number,
+  sampleRate: number,
+  left: Float32Array,
+  right: Float32Array,
+) {
+  const length = left.length;
+  
+  for (const note of performNotes(model, track.sources, timeline)) {
+    const start = clock(note.tick);
+    const held = Math.max(clock(note.tick + note.duration) - start, 0.02);
+    const first = Math.round(start * sampleRate);
+    const key = voice.drumKey ?? note.midi;
+    
+    for (const region of regionsFor(voice.preset, key, note.velocity)) {
+      const pan = Math.max(-1, Math.min(1, track.pan + region.pan));
+      const angle = ((pan + 1) / 2) * (Math.PI / 2);
+      const leftGain = Math.cos(angle) * track.gain * SAMPLER_GAIN;
+      const rightGain = Math.sin(angle) * track.gain * SAMPLER_GAIN;
+      
+      renderRegion(font, region, key, note.velocity, held, sampleRate, (index, value) => {
+        const target = first + index;
+        if (target < length) {
+          left[target] += value * leftGain;
+          right[target] += value * rightGain;
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Synthesized sound of an instrument: its family's patch with any
+ * instrument-specific changes
+ */
+export function patchFor(instrumentId: string): SynthPatch {
+  const instrument = getInstrumentById(instrumentId);
+  const override = INSTRUMENT_PATCHES[instrumentId];
+  const base = override?.noise ? NOISE_PATCH : CATEGORY_PATCHES[instrument?.category ?? 'keyboards'];
+  return { ...base, ...override };
+}
+
+function renderNote(
+  patch: SynthPatch,
+  midi: number,
+  start: number,
+  end: number,
+  amplitude: number,
+  sampleRate: number,
+  noise: () => number,
+  write: (index: number, value: number) => void,
+) {
+  const frequency = 440 * 2 ** ((midi - 69) / 12);
+  const held = Math.max(end - start, 0.02);
+  const duration = patch.percussive
+    ? Math.min(held + patch.release, patch.attack + patch.decay * 4)
+    : held + patch.release;
+  const first = Math.round(start * sampleRate);
+  const count = Math.ceil(duration * sampleRate);
+  
+  const table = patch.noise ? null : wavetable(patch.harmonics, Math.floor(sampleRate / 2 / frequency));
+  const tones = patch.noise?.tones ?? [];
+  const brightness = patch.noise?.brightness ?? 0;
+  let phase = 0;
+  let filtered = 0;
+  
+  for (let i = 0; i < count; i++) {
+    const t = i / sampleRate;
+    const level = envelope(patch, t, held) * amplitude;
+    if (level <= 0) continue;
+    
+    let sample = 0;
+    if (table) {
+      let step = frequency;
+      if (patch.vibrato && t > patch.vibrato.delay) {
+        const depth = Math.min(1, (t - patch.vibrato.delay) / 0.3) * patch.vibrato.depth;
+        step *= 2 ** ((depth * Math.sin(2 * Math.PI * patch.vibrato.rate * t)) / 12);
+      }
+      phase = (phase + (step * TABLE_SIZE) / sampleRate) % TABLE_SIZE;
+      sample = table[Math.floor(phase)];
+    } else {
+      // One-pole low-pass; brighter noise passes more high frequencies
+      filtered += (noise() - filtered) * (0.05 + brightness * 0.95);
+      sample = filtered;
+      for (const tone of tones) {
+        sample += Math.sin(2 * Math.PI * tone * t) * (1 - brightness * 0.5);
+      }
+      sample /= 1 + tones.length;
+    }
+    
+    write(first + i, sample * level);
+  }
+}
+
+/**
+ * Envelope level at time t into a note held for `held` seconds
+ */
+function envelope(patch: SynthPatch, t: number, held: number): number {
+  const { attack, decay, sustain, release } = patch;
+  let level: number;
+  
+  if (t < attack) {
+    level = t / attack;
+  } else if (patch.percussive) {
+    level = Math.exp(-(t - attack) / (decay / 3));
+  } else if (t < attack + decay) {
+    level = 1 - (1 - sustain) * ((t - attack) / decay);
+  } else {
+    level = sustain;
+  }
+  
+  if (t > held) {
+    level *= Math.max(0, 1 - (t - held) / release);
+  }
+  return level;
+}
+
+const tableCache = new Map<string, Float32Array>();
+
+/**
+ * Single-cycle table of the patch's harmonics, limited to the partials
+ * below the Nyquist frequency so high notes do not alias
+ */
+function wavetable(harmonics: number[], maxPartial: number): Float32Array {
+  const partials = Math.max(1, Math.min(harmonics.length, maxPartial));
+  const key = `${harmonics.join(',')}:${partials}`;
+  const cached = tableCache.get(key);
+  if (cached) return cached;
+  
+  const table = new Float32Array(TABLE_SIZE);
+  let peak = 0;
+  for (let i = 0; i < TABLE_SIZE; i++) {
+    let value = 0;
+    for (let h = 0; h < partials; h++) {
+      value += harmonics[h] * Math.sin((2 * Math.PI * (h + 1) * i) / TABLE_SIZE);
+    }
+    table[i] = value;
+    peak = Math.max(peak, Math.abs(value));
+  }
+  for (let i = 0; i < TABLE_SIZE; i++) {
+    table[i] /= peak || 1;
+  }
+  
+  tableCache.set(key, table);
+  return table;
+}
+
+/**
+ * Seeded white noise (mulberry32) in the range -1..1
+ */
+function createNoise(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (((t ^ (t >>> 14)) >>> 0) / 4294967296) * 2 - 1;
+  };
+}
@@ -3,76 +3,171 @@
  * 
  * Comprehensive list of orchestral and ensemble instruments
  * including full percussion section.
+ * 
+ * Each instrument carries its General MIDI sound: a program (and bank) for
+ * pitched instruments, or a key on the channel-10 drum kit for unpitched
+ * percussion. The MIDI writer and the audio renderers both read it through
+ * the lookup helpers below.
+ * 
+ * Castanets and shaker only exist in the GM2 drum kit, so MIDI files play
+ * their nearest GM1 drum key instead; a SoundFont with the GM2 keys plays
+ * those. General MIDI has no tam-tam, which plays the Chinese cymbal, or a
+ * crash cymbal where a SoundFont lacks it. Tubular bells fall back to
+ * vibraphone where a SoundFont lacks program 14.
+ * 
+ * Pitched instruments also carry their playable range at sounding pitch,
+ * the interval their parts are transposed by and the clef they are written
+ * in. Score models hold sounding pitches; written ranges are derived.
  */
 
-import { Instrument } from './types';
+import type {
+  GeneralMidiSound,
+  Instrument,
+  InstrumentRange,
+  PitchRange,
+  TranspositionInterval,
+} from './types.ts';
+import { type Step, describePitch, midiToPitch, pitchToMidi } from './score-model.ts';
+
+/**
+ * Bank used for drum kits in SoundFonts (MIDI channel 10 in files)
+ */
+export const GM_DRUM_BANK = 128;
+
+// Drum keys of the General MIDI Level 1 percussion map
+const GM1_DRUM_KEYS = { low: 35, high: 81 };
+
+function program(number: number, bank = 0): GeneralMidiSound {
+  return { kind: 'program', program: number, bank };
+}
+
+function drum(key: number): GeneralMidiSound {
+  return { kind: 'drum', key };
+}
+
+// Ranges are written as note names at sounding pitch, e.g. 'Bb3'
+function range(extremeLow: string, comfortableLow: string, comfortableHigh: string, extremeHigh: string): InstrumentRange {
+  return {
+    comfortable: { low: noteNumber(comfortableLow), high: noteNumber(comfortableHigh) },
+    extreme: { low: noteNumber(extremeLow), high: noteNumber(extremeHigh) },
+  };
+}
+
+function noteNumber(name: string): number {
+  const match = /^([A-G])(#|b)?(\d)$/.exec(name);
+  if (!match) throw new Error(`Invalid note name: ${name}`);
+  const alter = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  return pitchToMidi({ step: match[1] as Step, alter, octave: Number(match[3]) });
+}
+
+function interval(diatonic: number, chromatic: number): TranspositionInterval {
+  return { diatonic, chromatic };
+}
+
+const OCTAVE_UP = interval(7, 12);
+const OCTAVE_DOWN = interval(-7, -12);
 
 export const INSTRUMENTS: Instrument[] = [
   // STRINGS
-  { id: 'violin', name: 'Violin', category: 'strings' },
-  { id: 'viola', name: 'Viola', category: 'strings' },
-  { id: 'cello', name: 'Cello', category: 'strings' },
-  { id: 'double-bass', name: 'Double Bass', category: 'strings' },
-  { id: 'harp', name: 'Harp', category: 'strings' },
-  { id: 'guitar', name: 'Guitar', category: 'strings' },
+  { id: 'violin', name: 'Violin', category: 'strings', gm: program(40), clef: 'treble',
+    range: range('G3', 'G3', 'A6', 'A7') },
+  { id: 'viola', name: 'Viola', category: 'strings', gm: program(41), clef: 'alto',
+    range: range('C3', 'C3', 'D5', 'E6') },
+  { id: 'cello', name: 'Cello', category: 'strings', gm: program(42), clef: 'bass',
+    range: range('C2', 'C2', 'A4', 'A5') },
+  { id: 'double-bass', name: 'Double Bass', category: 'strings', gm: program(43), clef: 'bass',
+    range: range('E1', 'E1', 'G3', 'G4'), transposition: OCTAVE_DOWN },
+  { id: 'harp', name: 'Harp', category: 'strings', gm: program(46), clef: 'grand',
+    range: range('C1', 'C2', 'C7', 'G7') },
+  { id: 'guitar', name: 'Guitar', category: 'strings', gm: program(24), clef: 'treble-8vb',
+    range: range('E2', 'E2', 'E5', 'B5'), transposition: OCTAVE_DOWN },
   
   // WOODWINDS
-  { id: 'flute', name: 'Flute', category: 'woodwinds' },
-  { id: 'piccolo', name: 'Piccolo', category: 'woodwinds' },
-  { id: 'oboe', name: 'Oboe', category: 'woodwinds' },
-  { id: 'english-horn', name: 'English Horn', category: 'woodwinds' },
-  { id: 'clarinet', name: 'Clarinet', category: 'woodwinds' },
-  { id: 'bass-clarinet', name: 'Bass Clarinet', category: 'woodwinds' },
-  { id: 'bassoon', name: 'Bassoon', category: 'woodwinds' },
-  { id: 'contrabassoon', name: 'Contrabassoon', category: 'woodwinds' },
-  { id: 'saxophone', name: 'Saxophone', category: 'woodwinds' },
+  { id: 'flute', name: 'Flute', category: 'woodwinds', gm: program(73), clef: 'treble',
+    range: range('C4', 'D4', 'A6', 'D7') },
+  { id: 'piccolo', name: 'Piccolo', category: 'woodwinds', gm: program(72), clef: 'treble',
+    range: range('D5', 'D5', 'A7', 'C8'), transposition: OCTAVE_UP },
+  { id: 'oboe', name: 'Oboe', category: 'woodwinds', gm: program(68), clef: 'treble',
+    range: range('Bb3', 'C4', 'E6', 'A6') },
+  { id: 'english-horn', name: 'English Horn', category: 'woodwinds', gm: program(69), clef: 'treble',
+    range: range('E3', 'E3', 'G5', 'C6'), transposition: interval(-4, -7) },
+  { id: 'clarinet', name: 'Clarinet', category: 'woodwinds', gm: program(71), clef: 'treble',
+    range: range('D3', 'D3', 'Bb5', 'Bb6'), transposition: interval(-1, -2) },
+  { id: 'bass-clarinet', name: 'Bass Clarinet', category: 'woodwinds', gm: program(71), clef: 'treble',
+    range: range('Bb1', 'D2', 'C5', 'F5'), transposition: interval(-8, -14) },
+  { id: 'bassoon', name: 'Bassoon', category: 'woodwinds', gm: program(70), clef: 'bass',
+    range: range('Bb1', 'C2', 'G4', 'E5') },
+  { id: 'contrabassoon', name: 'Contrabassoon', category: 'woodwinds', gm: program(70), clef: 'bass',
+    range: range('Bb0', 'C1', 'G3', 'C4'), transposition: OCTAVE_DOWN },
+  { id: 'saxophone', name: 'Saxophone', category: 'woodwinds', gm: program(65), clef: 'treble',
+    range: range('Db3', 'Db3', 'Ab5', 'Eb6'), transposition: interval(-5, -9) },
   
   // BRASS
-  { id: 'trumpet', name: 'Trumpet', category: 'brass' },
-  { id: 'french-horn', name: 'French Horn', category: 'brass' },
-  { id: 'trombone', name: 'Trombone', category: 'brass' },
-  { id: 'tuba', name: 'Tuba', category: 'brass' },
-  { id: 'euphonium', name: 'Euphonium', category: 'brass' },
+  { id: 'trumpet', name: 'Trumpet', category: 'brass', gm: program(56), clef: 'treble',
+    range: range('E3', 'E3', 'G5', 'D6'), transposition: interval(-1, -2) },
+  { id: 'french-horn', name: 'French Horn', category: 'brass', gm: program(60), clef: 'treble',
+    range: range('B1', 'F2', 'C5', 'F5'), transposition: interval(-4, -7) },
+  { id: 'trombone', name: 'Trombone', category: 'brass', gm: program(57), clef: 'bass',
+    range: range('E2', 'E2', 'Bb4', 'F5') },
+  { id: 'tuba', name: 'Tuba', category: 'brass', gm: program(58), clef: 'bass',
+    range: range('D1', 'F1', 'Bb3', 'F4') },
+  { id: 'euphonium', name: 'Euphonium', category: 'brass', gm: program(58), clef: 'bass',
+    range: range('Bb1', 'E2', 'Bb4', 'F5') },
   
   // PERCUSSION - Pitched
-  { id: 'timpani', name: 'Timpani', category: 'percussion' },
-  { id: 'xylophone', name: 'Xylophone', category: 'percussion' },
-  { id: 'marimba', name: 'Marimba', category: 'percussion' },
-  { id: 'vibraphone', name: 'Vibraphone', category: 'percussion' },
-  { id: 'glockenspiel', name: 'Glockenspiel', category: 'percussion' },
-  { id: 'tubular-bells', name: 'Tubular Bells', category: 'percussion' },
+  { id: 'timpani', name: 'Timpani', category: 'percussion', gm: program(47), clef: 'bass',
+    range: range('D2', 'D2', 'A3', 'C4') },
+  { id: 'xylophone', name: 'Xylophone', category: 'percussion', gm: program(13), clef: 'treble',
+    range: range('F4', 'F4', 'C8', 'C8'), transposition: OCTAVE_UP },
+  { id: 'marimba', name: 'Marimba', category: 'percussion', gm: program(12), clef: 'grand',
+    range: range('A1', 'C2', 'C7', 'C7') },
+  { id: 'vibraphone', name: 'Vibraphone', category: 'percussion', gm: program(11), clef: 'treble',
+    range: range('F3', 'F3', 'F6', 'F6') },
+  { id: 'glockenspiel', name: 'Glockenspiel', category: 'percussion', gm: program(9), clef: 'treble',
+    range: range('G5', 'G5', 'C8', 'C8'), transposition: interval(14, 24) },
+  { id: 'tubular-bells', name: 'Tubular Bells', category: 'percussion', gm: program(14), gmFallback: program(11), clef: 'treble',
+    range: range('C4', 'C4', 'F5', 'G5') },
   
   // PERCUSSION - Unpitched (including requested instruments)
-  { id: 'snare-drum', name: 'Snare Drum', category: 'percussion' },
-  { id: 'bass-drum', name: 'Bass Drum', category: 'percussion' },
-  { id: 'cymbals', name: 'Cymbals', category: 'percussion' },
-  { id: 'tambourine', name: 'Tambourine', category: 'percussion' },
-  { id: 'tam-tam', name: 'Tam-Tam (Gong)', category: 'percussion' },
-  { id: 'cowbell', name: 'Cowbell', category: 'percussion' },
-  { id: 'triangle', name: 'Triangle', category: 'percussion' },
-  { id: 'wood-block', name: 'Wood Block', category: 'percussion' },
-  { id: 'claves', name: 'Claves', category: 'percussion' },
-  { id: 'castanets', name: 'Castanets', category: 'percussion' },
-  { id: 'maracas', name: 'Maracas', category: 'percussion' },
-  { id: 'guiro', name: 'Guiro', category: 'percussion' },
-  { id: 'cabasa', name: 'Cabasa', category: 'percussion' },
-  { id: 'shaker', name: 'Shaker', category: 'percussion' },
-  { id: 'bongos', name: 'Bongos', category: 'percussion' },
-  { id: 'congas', name: 'Congas', category: 'percussion' },
-  { id: 'toms', name: 'Tom-Toms', category: 'percussion' },
+  { id: 'snare-drum', name: 'Snare Drum', category: 'percussion', gm: drum(38), clef: 'percussion' },
+  { id: 'bass-drum', name: 'Bass Drum', category: 'percussion', gm: drum(35), clef: 'percussion' },
+  { id: 'cymbals', name: 'Cymbals', category: 'percussion', gm: drum(49), clef: 'percussion' },
+  { id: 'tambourine', name: 'Tambourine', category: 'percussion', gm: drum(54), clef: 'percussion' },
+  { id: 'tam-tam', name: 'Tam-Tam (Gong)', category: 'percussion', gm: drum(52), gmFallback: drum(49), clef: 'percussion' },
+  { id: 'cowbell', name: 'Cowbell', category: 'percussion', gm: drum(56), clef: 'percussion' },
+  { id: 'triangle', name: 'Triangle', category: 'percussion', gm: drum(81), clef: 'percussion' },
+  { id: 'wood-block', name: 'Wood Block', category: 'percussion', gm: drum(76), clef: 'percussion' },
+  { id: 'claves', name: 'Claves', category: 'percussion', gm: drum(75), clef: 'percussion' },
+  { id: 'castanets', name: 'Castanets', category: 'percussion', gm: drum(85), gmFallback: drum(75), clef: 'percussion' },
+  { id: 'maracas', name: 'Maracas', category: 'percussion', gm: drum(70), clef: 'percussion' },
+  { id: 'guiro', name: 'Guiro', category: 'percussion', gm: drum(73), clef: 'percussion' },
+  { id: 'cabasa', name: 'Cabasa', category: 'percussion', gm: drum(69), clef: 'percussion' },
+  { id: 'shaker', name: 'Shaker', category: 'percussion', gm: drum(82), gmFallback: drum(70), clef: 'percussion' },
+  { id: 'bongos', name: 'Bongos', category: 'percussion', gm: drum(60), clef: 'percussion' },
+  { id: 'congas', name: 'Congas', category: 'percussion', gm: drum(63), clef: 'percussion' },
+  { id: 'toms', name: 'Tom-Toms', category: 'percussion', gm: drum(47), clef: 'percussion' },
   
   // KEYBOARDS
-  { id: 'piano', name: 'Piano', category: 'keyboards' },
-  { id: 'organ', name: 'Organ', category: 'keyboards' },
-  { id: 'harpsichord', name: 'Harpsichord', category: 'keyboards' },
-  { id: 'celesta', name: 'Celesta', category: 'keyboards' },
+  { id: 'piano', name: 'Piano', category: 'keyboards', gm: program(0), clef: 'grand',
+    range: range('A0', 'A0', 'C8', 'C8') },
+  { id: 'organ', name: 'Organ', category: 'keyboards', gm: program(19), clef: 'grand',
+    range: range('C1', 'C2', 'G6', 'C7') },
+  { id: 'harpsichord', name: 'Harpsichord', category: 'keyboards', gm: program(6), clef: 'grand',
+    range: range('F1', 'F1', 'F6', 'F6') },
+  { id: 'celesta', name: 'Celesta', category: 'keyboards', gm: program(8), clef: 'grand',
+    range: range('C4', 'C4', 'C8', 'C8'), transposition: OCTAVE_UP },
   
   // VOICES (for non-SATB individual parts)
-  { id: 'soprano', name: 'Soprano', category: 'voices' },
-  { id: 'alto', name: 'Alto', category: 'voices' },
-  { id: 'tenor', name: 'Tenor', category: 'voices' },
-  { id: 'bass-voice', name: 'Bass', category: 'voices' },
-  { id: 'choir', name: 'Mixed Choir', category: 'voices' },
+  { id: 'soprano', name: 'Soprano', category: 'voices', gm: program(52), clef: 'treble',
+    range: range('B3', 'C4', 'A5', 'E6') },
+  { id: 'alto', name: 'Alto', category: 'voices', gm: program(52), clef: 'treble',
+    range: range('E3', 'G3', 'D5', 'F5') },
+  { id: 'tenor', name: 'Tenor', category: 'voices', gm: program(52), clef: 'treble-8vb',
+    range: range('B2', 'C3', 'A4', 'C5'), transposition: OCTAVE_DOWN },
+  { id: 'bass-voice', name: 'Bass', category: 'voices', gm: program(52), clef: 'bass',
+    range: range('D2', 'F2', 'D4', 'F4') },
+  { id: 'choir', name: 'Mixed Choir', category: 'voices', gm: program(52), clef: 'grand',
+    range: range('D2', 'F2', 'A5', 'E6') },
 ];
 
 /**
@@ -89,6 +184,59 @@ export function getInstrumentById(id: string): Instrument | undefined {
   return INSTRUMENTS.find(inst => inst.id === id);
 }
 
+/**
+ * General MIDI sounds for an instrument, preferred sound first
+ */
+export function getGeneralMidiSounds(id: string): GeneralMidiSound[] {
+  const instrument = getInstrumentById(id);
+  if (!instrument) return [];
+  return instrument.gmFallback ? [instrument.gm, instrument.gmFallback] : [instrument.gm];
+}
+
+/**
+ * Whether a sound exists in General MIDI Level 1: any program in bank 0,
+ * or a drum key of the GM1 percussion map
+ */
+export function isGeneralMidi1Sound(sound: GeneralMidiSound): boolean {
+  if (sound.kind === 'drum') return sound.key >= GM1_DRUM_KEYS.low && sound.key <= GM1_DRUM_KEYS.high;
+  return sound.bank === 0;
+}
+
+/**
+ * Whether an instrument is played on the drum channel rather than by pitch
+ */
+export function isUnpitchedInstrument(id: string): boolean {
+  return getInstrumentById(id)?.gm.kind === 'drum';
+}
+
+/**
+ * Sounding range of an instrument, or undefined for unpitched instruments
+ */
+export function getSoundingRange(id: string): InstrumentRange | undefined {
+  return getInstrumentById(id)?.range;
+}
+
+/**
+ * Range of an instrument as written in its part
+ */
+export function getWrittenRange(id: string): InstrumentRange | undefined {
+  const instrument = getInstrumentById(id);
+  if (!instrument?.range) return undefined;
+  const shift = -(instrument.transposition?.chromatic ?? 0);
+  const { comfortable, extreme } = instrument.range;
+  return {
+    comfortable: { low: comfortable.low + shift, high: comfortable.high + shift },
+    extreme: { low: extreme.low + shift, high: extreme.high + shift },
+  };
+}
+
+/**
+ * Range as note names, e.g. "G3–A7"
+ */
+export function describeRange(range: PitchRange): string {
+  return `${describePitch(midiToPitch(range.low))}–${describePitch(midiToPitch(range.high))}`;
+}
+
 /**
  * Instrument categories for filtering
  */
@@ -0,0 +1,120 @@
+/**
+ * Learning Tracks
+ *
+ * Rehearsal mixes of a choir conversion, the way choirs use them to learn
+ * their parts: for each voice, one mix with that voice prominent and the
+ * others in the background, and one with that voice left out to sing along
+ * to; plus one with all voices balanced. Panned tracks put the prominent
+ * voice on the left and the rest of the choir on the right, so a singer can
+ * favour either side with the balance control. An accompaniment plays in
+ * every learning track, in the background with the rest of the choir.
+ *
+ * Each learning track is a mix of the conversion's tracks, so the
+ * playback page can switch between them live as well as play the rendered
+ * files.
+ */
+
+import type { LearningTrackKind, LearningTrackOptions, TrackMix } from './types.ts';
+import type { ArrangementTrack } from './arrangement.ts';
+import type { ScoreModel } from './score-model.ts';
+import type { TempoChange } from './performance.ts';
+import { type RenderOptions, type RenderedAudio, renderArrangement } from './audio-render.ts';
+
+/**
+ * One learning track before it is rendered
+ */
+export interface LearningTrackVariant {
+  id: string;
+  kind: LearningTrackKind;
+  // Voice track a prominent or missing variant is about
+  track?: ArrangementTrack;
+  mix: Record<string, TrackMix>;
+}
+
+// Level of the other voices and the accompaniment under a prominent voice,
+// relative to their own
+const BACKGROUND_VOLUME = 0.3;
+
+/**
+ * Learning tracks of a choir arrangement: all parts balanced, then each
+ * voice prominent and missing, in score order. Only tracks that are heard in
+ * the conversion take part; there are none for fewer than two voices.
+ */
+export function learningTrackVariants(
+  tracks: ArrangementTrack[],
+  options: LearningTrackOptions = {},
+): LearningTrackVariant[] {
+  const heard = tracks.filter(track => track.sources.length > 0 && !track.muted);
+  const voices = heard.filter(track => track.voice);
+  if (voices.length < 2) return [];
+
+  const mixOf = (settings: (track: ArrangementTrack) => Partial<TrackMix>) => Object.fromEntries(
+    heard.map(track => [
+      track.id,
+      { volume: track.gain, pan: track.pan, muted: false, solo: false, ...settings(track) },
+    ]),
+  );
+
+  return [
+    { id: 'balanced', kind: 'balanced', mix: mixOf(() => ({})) },
+    ...voices.flatMap((focus): LearningTrackVariant[] => [
+      {
+        id: `${focus.id}-prominent`,
+        kind: 'prominent',
+        track: focus,
+        mix: mixOf(track => {
+          const prominent = track.id === focus.id;
+          return {
+            volume: prominent ? track.gain : track.gain * BACKGROUND_VOLUME,
+            ...(options.panned && { pan: prominent ? -1 : 1 }),
+          };
+        }),
+      },
+      {
+        id: `${focus.id}-missing`,
+        kind: 'missing',
+        track: focus,
+        mix: mixOf(track => ({ muted: track.id === focus.id })),
+      },
+    ]),
+  ];
+}
+
+/**
+ * Render every learning track of an arrangement, handing each to `onVariant`
+ * as soon as it is ready and waiting for it before rendering the next, so
+ * only one is held in memory at a time
+ */
+export async function renderLearningTracks(
+  model: ScoreModel,
+  tracks: ArrangementTrack[],
+  tempo: TempoChange[],
+  options: LearningTrackOptions,
+  onVariant: (variant: LearningTrackVariant, audio: RenderedAudio) => Promise<void> | void,
+  renderOptions: RenderOptions = {},
+) {
+  for (const variant of learningTrackVariants(tracks, options)) {
+    await onVariant(variant, renderArrangement(model, mixedTracks(tracks, variant.mix), tempo, renderOptions));
+  }
+}
+
+/**
+ * Whether a value is a well-formed set of learning track options
+ */
+export function isLearningTrackOptions(value: unknown): value is LearningTrackOptions {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const { panned } = value as Record<string, unknown>;
+  return panned === undefined || typeof panned === 'boolean';
+}
+
+/**
+ * Tracks with a mix applied; tracks the mix leaves out are silent
+ */
+function mixedTracks(tracks: ArrangementTrack[], mix: Record<string, TrackMix>): ArrangementTrack[] {
+  return tracks.map(track => {
+    const settings = mix[track.id];
+    return settings
+      ? { ...track, gain: settings.volume, pan: settings.pan, muted: settings.muted }
+      : { ...track, muted: true };
+  });
+}
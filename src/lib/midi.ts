@@ -0,0 +1,176 @@
+/**
+ * MIDI Writer
+ *
+ * Writes a Standard MIDI File (Type 1) for a conversion. Track 1 is the
+ * conductor track with the title, tempo changes and time/key signatures;
+ * every audible arrangement track follows with its name, General MIDI
+ * program, volume, pan and notes. Unpitched percussion plays its drum key
+ * on channel 10 whatever pitch is notated. Files may be played by GM1
+ * synthesizers, so an instrument whose preferred sound is GM2-only uses its
+ * GM1 fallback.
+ */
+
+import {
+  type ScoreModel,
+  resolveMeasureAttributes,
+} from './score-model.ts';
+import { type ArrangementTrack, audibleTracks } from './arrangement.ts';
+import { type TempoChange, performNotes, scoreTimeline } from './performance.ts';
+import { getGeneralMidiSounds, isGeneralMidi1Sound } from './instruments.ts';
+
+export const MIDI_CONTENT_TYPE = 'audio/midi';
+
+/**
+ * Ticks per quarter note in written files
+ */
+export const MIDI_PPQ = 480;
+
+const DRUM_CHANNEL = 9;
+
+// Events at the same tick are written in this order
+const EVENT_ORDER = { meta: 0, control: 1, program: 2, noteOff: 3, noteOn: 4 };
+
+interface TrackEvent {
+  tick: number;
+  order: number;
+  data: number[];
+}
+
+/**
+ * Encode a score as a Type 1 Standard MIDI File, with the tempo changes of
+ * the conversion's tempo map in the conductor track
+ */
+export function writeMidiFile(model: ScoreModel, tracks: ArrangementTrack[], tempo: TempoChange[]): Uint8Array {
+  const timeline = scoreTimeline(model);
+  const toMidiTicks = (ticks: number) => Math.round((ticks * MIDI_PPQ) / model.divisions);
+  const chunks: number[][] = [];
+  
+  // Conductor track
+  const conductor: TrackEvent[] = [];
+  if (model.title) {
+    conductor.push(metaEvent(0, 0x03, textBytes(model.title)));
+  }
+  for (const change of tempo) {
+    const microseconds = Math.round(60_000_000 / change.bpm);
+    conductor.push(metaEvent(toMidiTicks(change.tick), 0x51, [
+      (microseconds >> 16) & 0xff,
+      (microseconds >> 8) & 0xff,
+      microseconds & 0xff,
+    ]));
+  }
+  const firstPart = model.parts[0];
+  if (firstPart) {
+    // Signatures are compared by value: measures may carry equal copies
+    let previous: ReturnType<typeof resolveMeasureAttributes>[number] | undefined;
+    resolveMeasureAttributes(firstPart).forEach((attributes, index) => {
+      const tick = toMidiTicks(timeline.measureStarts[index]);
+      const { time, key } = attributes;
+      if (!previous || previous.time.beats !== time.beats || previous.time.beatType !== time.beatType) {
+        conductor.push(metaEvent(tick, 0x58, [
+          time.beats,
+          Math.round(Math.log2(time.beatType)),
+          24,
+          8,
+        ]));
+      }
+      if (!previous || previous.key.fifths !== key.fifths || previous.key.mode !== key.mode) {
+        conductor.push(metaEvent(tick, 0x59, [
+          key.fifths & 0xff,
+          key.mode === 'minor' ? 1 : 0,
+        ]));
+      }
+      previous = attributes;
+    });
+  }
+  chunks.push(encodeTrack(conductor));
+  
+  // One track per audible arrangement track
+  let nextChannel = 0;
+  for (const track of audibleTracks(tracks)) {
+    const sounds = getGeneralMidiSounds(track.instrumentId);
+    const sound = sounds.find(isGeneralMidi1Sound) ?? sounds[0] ?? { kind: 'program', program: 0, bank: 0 };
+    let channel = DRUM_CHANNEL;
+    if (sound.kind === 'program') {
+      channel = nextChannel;
+      nextChannel = (nextChannel + 1) % 16;
+      if (nextChannel === DRUM_CHANNEL) nextChannel++;
+    }
+    
+    const events: TrackEvent[] = [
+      metaEvent(0, 0x03, textBytes(track.name)),
+      { tick: 0, order: EVENT_ORDER.control, data: [0xb0 | channel, 7, clampByte(track.gain * 100)] },
+      { tick: 0, order: EVENT_ORDER.control, data: [0xb0 | channel, 10, clampByte(64 + track.pan * 63)] },
+    ];
+    if (sound.kind === 'program') {
+      if (sound.bank > 0) {
+        events.push({ tick: 0, order: EVENT_ORDER.control, data: [0xb0 | channel, 0, (sound.bank >> 7) & 0x7f] });
+        events.push({ tick: 0, order: EVENT_ORDER.control, data: [0xb0 | channel, 32, sound.bank & 0x7f] });
+      }
+      events.push({ tick: 0, order: EVENT_ORDER.program, data: [0xc0 | channel, sound.program] });
+    }
+    
+    for (const note of performNotes(model, track.sources, timeline)) {
+      const key = sound.kind === 'drum' ? sound.key : clampByte(note.midi);
+      const start = toMidiTicks(note.tick);
+      const end = Math.max(start + 1, toMidiTicks(note.tick + note.duration));
+      events.push({ tick: start, order: EVENT_ORDER.noteOn, data: [0x90 | channel, key, Math.max(1, clampByte(note.velocity))] });
+      events.push({ tick: end, order: EVENT_ORDER.noteOff, data: [0x80 | channel, key, 64] });
+    }
+    
+    chunks.push(encodeTrack(events));
+  }
+  
+  const header = [
+    ...asciiBytes('MThd'),
+    ...uint32(6),
+    0x00, 0x01,
+    (chunks.length >> 8) & 0xff, chunks.length & 0xff,
+    (MIDI_PPQ >> 8) & 0xff, MIDI_PPQ & 0xff,
+  ];
+  
+  return new Uint8Array([...header, ...chunks.flat()]);
+}
+
+function metaEvent(tick: number, type: number, data: number[]): TrackEvent {
+  return { tick, order: EVENT_ORDER.meta, data: [0xff, type, ...variableLength(data.length), ...data] };
+}
+
+function encodeTrack(events: TrackEvent[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const body: number[] = [];
+  let lastTick = 0;
+  
+  for (const event of sorted) {
+    body.push(...variableLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  }
+  body.push(0x00, 0xff, 0x2f, 0x00);
+  
+  return [...asciiBytes('MTrk'), ...uint32(body.length), ...body];
+}
+
+function variableLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  value >>= 7;
+  while (value > 0) {
+    bytes.unshift((value & 0x7f) | 0x80);
+    value >>= 7;
+  }
+  return bytes;
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function asciiBytes(text: string): number[] {
+  return Array.from(text, char => char.charCodeAt(0));
+}
+
+function textBytes(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+function clampByte(value: number): number {
+  return Math.max(0, Math.min(127, Math.round(value)));
+}
@@ -0,0 +1,704 @@
+/**
+ * MusicXML Import
+ *
+ * Converts uncompressed (.musicxml, .xml) and compressed (.mxl) MusicXML into
+ * the shared score model: parts, measures, voices, stems, dynamics, tempo
+ * markings, lyrics, repeats and navigation marks (segno, coda, Fine,
+ * D.C./D.S.). Scores imported this way skip optical recognition.
+ *
+ * Both score-partwise and score-timewise documents are accepted. Problems
+ * that make the file unusable are reported as errors; anything skipped or
+ * approximated along the way is reported as a warning.
+ */
+
+import { XmlElement, child, childText, children, parseXml } from './xml.ts';
+import { isZip, readZip } from './zip.ts';
+import {
+  Accidental,
+  Clef,
+  DynamicMarking,
+  KeySignature,
+  Lyric,
+  NOTE_VALUE_QUARTERS,
+  NoteValue,
+  SCORE_MODEL_VERSION,
+  ScoreEvent,
+  ScoreMeasure,
+  ScoreModel,
+  ScorePart,
+  Step,
+  TimeSignature,
+  validateScoreModel,
+} from './score-model.ts';
+
+/**
+ * Result of importing a MusicXML file. `model` is null when there are errors.
+ */
+export interface MusicXmlImport {
+  model: ScoreModel | null;
+  errors: string[];
+  warnings: string[];
+}
+
+// Larger common divisions are rounded instead of kept exact
+const MAX_DIVISIONS = 20160;
+const MAX_WARNINGS = 20;
+
+const NOTE_TYPES: Record<string, NoteValue> = {
+  whole: 'whole',
+  half: 'half',
+  quarter: 'quarter',
+  eighth: 'eighth',
+  '16th': '16th',
+  '32nd': '32nd',
+  '64th': '64th',
+};
+
+const DYNAMICS: Record<string, DynamicMarking> = {
+  pppp: 'ppp', ppp: 'ppp', pp: 'pp', p: 'p', mp: 'mp',
+  mf: 'mf', f: 'f', ff: 'ff', fff: 'fff', ffff: 'fff',
+  sf: 'sf', sfz: 'sfz', sffz: 'sfz', fz: 'sfz', rf: 'sfz', rfz: 'sfz',
+  fp: 'fp', sfp: 'fp', sfpp: 'fp', pf: 'p',
+};
+
+const ACCIDENTALS: Record<string, Accidental> = {
+  'sharp': 'sharp',
+  'flat': 'flat',
+  'natural': 'natural',
+  'double-sharp': 'double-sharp',
+  'sharp-sharp': 'double-sharp',
+  'flat-flat': 'flat-flat',
+};
+
+const DEFAULT_CLEF_LINES: Record<string, number> = { G: 2, F: 4, C: 3, percussion: 3 };
+
+/**
+ * Import MusicXML bytes, unpacking .mxl archives first
+ */
+export async function importMusicXml(bytes: Uint8Array): Promise<MusicXmlImport> {
+  let source: string;
+
+  try {
+    source = isZip(bytes) ? await readMxlArchive(bytes) : decodeText(bytes);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { model: null, errors: [`Could not open the MusicXML file: ${message}`], warnings: [] };
+  }
+
+  return parseMusicXml(source);
+}
+
+/**
+ * Extract the main score document from a compressed .mxl archive
+ */
+export async function readMxlArchive(bytes: Uint8Array): Promise<string> {
+  const files = await readZip(bytes);
+
+  // META-INF/container.xml names the root file
+  const container = files.get('META-INF/container.xml');
+  if (container) {
+    const rootfiles = child(parseXml(decodeText(container)), 'rootfiles');
+    const path = child(rootfiles, 'rootfile')?.attributes['full-path'];
+    const rootfile = path ? files.get(path) : undefined;
+    if (rootfile) {
+      return decodeText(rootfile);
+    }
+  }
+
+  for (const [path, data] of files) {
+    if (!path.startsWith('META-INF/') && /\.(musicxml|xml)$/i.test(path)) {
+      return decodeText(data);
+    }
+  }
+
+  throw new Error('The archive does not contain a MusicXML score');
+}
+
+/**
+ * Parse a MusicXML document into a score model
+ */
+export function parseMusicXml(source: string): MusicXmlImport {
+  const errors: string[] = [];
+  const warnings = new WarningList();
+
+  let root: XmlElement;
+  try {
+    root = parseXml(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { model: null, errors: [`The file is not valid XML: ${message}`], warnings: [] };
+  }
+
+  if (root.name === 'score-timewise') {
+    root = timewiseToPartwise(root);
+  } else if (root.name !== 'score-partwise') {
+    return {
+      model: null,
+      errors: [`Not a MusicXML score (found <${root.name}> instead of <score-partwise>)`],
+      warnings: [],
+    };
+  }
+
+  const partElements = children(root, 'part');
+  if (partElements.length === 0) {
+    return { model: null, errors: ['The score contains no parts'], warnings: [] };
+  }
+
+  const partInfo = new Map<string, { name: string; abbreviation?: string }>();
+  for (const scorePart of children(child(root, 'part-list'), 'score-part')) {
+    partInfo.set(scorePart.attributes.id, {
+      name: childText(scorePart, 'part-name') ?? '',
+      abbreviation: childText(scorePart, 'part-abbreviation') || undefined,
+    });
+  }
+
+  const divisions = commonDivisions(root, warnings);
+  const parts: ScorePart[] = [];
+
+  partElements.forEach((partElement, index) => {
+    const id = partElement.attributes.id || `P${index + 1}`;
+    const info = partInfo.get(id);
+    if (!info) {
+      warnings.add(`Part ${id} is missing from the part list`);
+    }
+
+    const part = parsePart(partElement, id, info?.name || `Part ${index + 1}`, divisions, warnings);
+    part.abbreviation = info?.abbreviation;
+
+    if (part.measures.length === 0) {
+      errors.push(`Part "${part.name}" has no measures`);
+    }
+    parts.push(part);
+  });
+
+  const composer = children(child(root, 'identification'), 'creator')
+    .find(creator => creator.attributes.type === 'composer')?.text.trim();
+
+  const model: ScoreModel = {
+    version: SCORE_MODEL_VERSION,
+    source: 'musicxml',
+    title: childText(child(root, 'work'), 'work-title') || childText(root, 'movement-title') || undefined,
+    composer: composer || undefined,
+    divisions,
+    parts,
+  };
+
+  const validation = validateScoreModel(model);
+  errors.push(...validation.errors);
+  validation.warnings.forEach(warning => warnings.add(warning));
+
+  return {
+    model: errors.length === 0 ? model : null,
+    errors,
+    warnings: warnings.list(),
+  };
+}
+
+/**
+ * Collects warnings without repeating the same message for every measure
+ */
+class WarningList {
+  private messages = new Set<string>();
+
+  add(message: string) {
+    this.messages.add(message);
+  }
+
+  list(): string[] {
+    const all = [...this.messages];
+    if (all.length <= MAX_WARNINGS) return all;
+    return [...all.slice(0, MAX_WARNINGS), `...and ${all.length - MAX_WARNINGS} more warnings`];
+  }
+}
+
+/**
+ * Ticks per quarter that represent every part's <divisions> exactly
+ */
+function commonDivisions(root: XmlElement, warnings: WarningList): number {
+  const values = new Set<number>();
+  for (const part of children(root, 'part')) {
+    for (const measure of children(part, 'measure')) {
+      for (const attributes of children(measure, 'attributes')) {
+        const value = parseInt(childText(attributes, 'divisions') ?? '', 10);
+        if (value > 0) values.add(value);
+      }
+    }
+  }
+
+  let result = 1;
+  for (const value of values) {
+    result = (result * value) / gcd(result, value);
+  }
+
+  if (result > MAX_DIVISIONS) {
+    warnings.add('Some note durations were rounded to fit a common time grid');
+    return Math.max(...values);
+  }
+  return result;
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+function parsePart(
+  partElement: XmlElement,
+  id: string,
+  name: string,
+  modelDivisions: number,
+  warnings: WarningList,
+): ScorePart {
+  const part: ScorePart = { id, name, staves: 1, measures: [] };
+  let divisions = 0;
+  let previousNumber = 0;
+  // Ending bracket started in an earlier measure and not yet closed
+  let openEnding: number[] | undefined;
+
+  for (const measureElement of children(partElement, 'measure')) {
+    const parsedNumber = parseInt(measureElement.attributes.number ?? '', 10);
+    const number = Number.isNaN(parsedNumber) ? previousNumber + 1 : parsedNumber;
+    previousNumber = number;
+
+    const measure: ScoreMeasure = { number, events: [] };
+    if (measureElement.attributes.implicit === 'yes') {
+      measure.implicit = true;
+    }
+    if (openEnding) {
+      measure.ending = openEnding;
+    }
+
+    let cursor = 0;
+    let chordOffset = 0;
+    const toTicks = (value: string | undefined) => {
+      if (!divisions) {
+        warnings.add(`Part "${name}" does not declare <divisions>; assuming 1 per quarter note`);
+        divisions = 1;
+      }
+      return Math.round((parseFloat(value ?? '0') || 0) * (modelDivisions / divisions));
+    };
+
+    for (const element of measureElement.children) {
+      switch (element.name) {
+        case 'attributes': {
+          const value = parseInt(childText(element, 'divisions') ?? '', 10);
+          if (value > 0) divisions = value;
+          readAttributes(element, measure, part, cursor > 0, name, warnings);
+          break;
+        }
+
+        case 'note': {
+          const isChord = Boolean(child(element, 'chord'));
+          const isGrace = Boolean(child(element, 'grace'));
+          const duration = isGrace ? 0 : toTicks(childText(element, 'duration'));
+          const offset = isChord ? chordOffset : cursor;
+
+          if (!child(element, 'cue')) {
+            const event = readNote(element, offset, duration, name, warnings);
+            if (event) {
+              part.staves = Math.max(part.staves, event.staff);
+              measure.events.push(event);
+            }
+          }
+
+          if (!isChord && !isGrace) {
+            chordOffset = cursor;
+            cursor += duration;
+          }
+          break;
+        }
+
+        case 'backup':
+          cursor = Math.max(0, cursor - toTicks(childText(element, 'duration')));
+          break;
+
+        case 'forward':
+          cursor += toTicks(childText(element, 'duration'));
+          break;
+
+        case 'direction': {
+          const offset = Math.max(0, cursor + toTicks(childText(element, 'offset')));
+          measure.events.push(...readDirection(element, offset, warnings));
+          readNavigation(element, measure);
+          break;
+        }
+
+        case 'sound': {
+          const tempo = parseFloat(element.attributes.tempo ?? '');
+          if (tempo > 0) {
+            measure.events.push({ type: 'tempo', offset: cursor, staff: 1, bpm: tempo, beatUnit: 'quarter' });
+          }
+          readSoundNavigation(element, measure);
+          break;
+        }
+
+        case 'barline':
+          openEnding = readBarline(element, measure, openEnding);
+          break;
+      }
+    }
+
+    measure.events = measure.events
+      .map((event, index) => ({ event, index }))
+      .sort((a, b) => a.event.offset - b.event.offset || a.index - b.index)
+      .map(({ event }) => event);
+    part.measures.push(measure);
+  }
+
+  return part;
+}
+
+function readAttributes(
+  element: XmlElement,
+  measure: ScoreMeasure,
+  part: ScorePart,
+  midMeasure: boolean,
+  partName: string,
+  warnings: WarningList,
+) {
+  const staves = parseInt(childText(element, 'staves') ?? '', 10);
+  if (staves > 0) part.staves = staves;
+
+  const keyElement = child(element, 'key');
+  if (keyElement && childText(keyElement, 'fifths') !== undefined) {
+    const key: KeySignature = {
+      fifths: Math.max(-7, Math.min(7, parseInt(childText(keyElement, 'fifths')!, 10) || 0)),
+      mode: childText(keyElement, 'mode') === 'minor' ? 'minor' : 'major',
+    };
+    measure.key = key;
+  } else if (keyElement) {
+    warnings.add(`Part "${partName}" uses a non-traditional key signature; treated as C major`);
+    measure.key = { fifths: 0, mode: 'major' };
+  }
+
+  const timeElement = child(element, 'time');
+  if (timeElement && child(timeElement, 'senza-misura')) {
+    warnings.add(`Part "${partName}" has unmeasured (senza misura) passages; bar lengths follow the notes`);
+  } else if (timeElement) {
+    // Composite signatures such as 3+2/8 add up their numerators
+    const beats = (childText(timeElement, 'beats') ?? '')
+      .split('+')
+      .reduce((sum, value) => sum + (parseInt(value, 10) || 0), 0);
+    const beatType = parseInt(childText(timeElement, 'beat-type') ?? '', 10);
+    if (beats > 0 && [1, 2, 4, 8, 16, 32].includes(beatType)) {
+      const time: TimeSignature = { beats, beatType };
+      measure.time = time;
+    } else {
+      warnings.add(`Part "${partName}" has an unreadable time signature in measure ${measure.number}`);
+    }
+  }
+
+  for (const clefElement of children(element, 'clef')) {
+    let sign = childText(clefElement, 'sign') ?? 'G';
+    if (!(sign in DEFAULT_CLEF_LINES)) {
+      warnings.add(`Part "${partName}" uses a ${sign} clef; read as treble clef`);
+      sign = 'G';
+    }
+    const clef: Clef = {
+      staff: parseInt(clefElement.attributes.number ?? '1', 10) || 1,
+      sign: sign as Clef['sign'],
+      line: parseInt(childText(clefElement, 'line') ?? '', 10) || DEFAULT_CLEF_LINES[sign],
+    };
+    const octaveChange = parseInt(childText(clefElement, 'clef-octave-change') ?? '', 10);
+    if (octaveChange) clef.octaveChange = octaveChange;
+
+    measure.clefs = [...(measure.clefs ?? []).filter(existing => existing.staff !== clef.staff), clef];
+  }
+
+  if (midMeasure && (keyElement || timeElement)) {
+    warnings.add(`Part "${partName}" changes key or time in the middle of measure ${measure.number}; applied from the start of the measure`);
+  }
+}
+
+function readNote(
+  element: XmlElement,
+  offset: number,
+  duration: number,
+  partName: string,
+  warnings: WarningList,
+): ScoreEvent | null {
+  const voice = parseInt(childText(element, 'voice') ?? '', 10) || 1;
+  const staff = parseInt(childText(element, 'staff') ?? '', 10) || 1;
+  const typeName = childText(element, 'type');
+  const value = typeName ? NOTE_TYPES[typeName] : undefined;
+  const dots = children(element, 'dot').length;
+
+  const restElement = child(element, 'rest');
+  const fermata = child(child(element, 'notations'), 'fermata') !== undefined;
+
+  if (restElement) {
+    if (duration === 0) return null;
+    return {
+      type: 'rest',
+      offset,
+      staff,
+      voice,
+      duration,
+      ...(value && { value }),
+      ...(dots > 0 && { dots }),
+      ...(restElement.attributes.measure === 'yes' && { measureRest: true }),
+      ...(fermata && { fermata: true }),
+    };
+  }
+
+  const pitchElement = child(element, 'pitch');
+  const unpitched = child(element, 'unpitched');
+  const stepText = pitchElement ? childText(pitchElement, 'step') : childText(unpitched, 'display-step');
+  const octaveText = pitchElement ? childText(pitchElement, 'octave') : childText(unpitched, 'display-octave');
+
+  if (!stepText || !'CDEFGAB'.includes(stepText) || octaveText === undefined) {
+    warnings.add(`Part "${partName}" has notes without a readable pitch; they were skipped`);
+    return null;
+  }
+
+  const tieTypes = new Set([
+    ...children(element, 'tie').map(tie => tie.attributes.type),
+    ...children(child(element, 'notations'), 'tied').map(tie => tie.attributes.type),
+  ]);
+  const tie = tieTypes.has('start') && tieTypes.has('stop')
+    ? 'continue'
+    : tieTypes.has('start') ? 'start' : tieTypes.has('stop') ? 'stop' : undefined;
+
+  const accidental = ACCIDENTALS[childText(element, 'accidental') ?? ''];
+  const stemText = childText(element, 'stem');
+  const stem = stemText === 'up' || stemText === 'down' ? stemText : undefined;
+  const lyrics = children(element, 'lyric')
+    .map((lyric, index): Lyric | null => {
+      const text = children(lyric, 'text').map(part => part.text).join('‿');
+      if (!text) return null;
+      const syllabic = childText(lyric, 'syllabic') as Lyric['syllabic'];
+      return {
+        verse: parseInt(lyric.attributes.number ?? '', 10) || index + 1,
+        text,
+        ...(syllabic && { syllabic }),
+      };
+    })
+    .filter((lyric): lyric is Lyric => lyric !== null);
+
+  return {
+    type: 'note',
+    offset,
+    staff,
+    voice,
+    duration,
+    pitch: {
+      step: stepText as Step,
+      alter: parseFloat(childText(pitchElement, 'alter') ?? '0') || 0,
+      octave: parseInt(octaveText, 10),
+    },
+    ...(value && { value }),
+    ...(dots > 0 && { dots }),
+    ...(accidental && { accidental }),
+    ...(tie && { tie }),
+    ...(stem && { stem }),
+    ...(child(element, 'grace') && { grace: true }),
+    ...(fermata && { fermata: true }),
+    ...(lyrics.length > 0 && { lyrics }),
+  };
+}
+
+function readDirection(element: XmlElement, offset: number, warnings: WarningList): ScoreEvent[] {
+  const staff = parseInt(childText(element, 'staff') ?? '', 10) || 1;
+  const events: ScoreEvent[] = [];
+  const words: string[] = [];
+  let metronomeBpm: number | undefined;
+  let modulation: number | undefined;
+
+  for (const directionType of children(element, 'direction-type')) {
+    for (const item of directionType.children) {
+      switch (item.name) {
+        case 'dynamics':
+          for (const mark of item.children) {
+            const marking = DYNAMICS[mark.name];
+            if (marking) {
+              events.push({ type: 'dynamic', offset, staff, marking });
+            } else {
+              warnings.add(`Dynamic marking "${mark.text.trim() || mark.name}" is not supported and was skipped`);
+            }
+          }
+          break;
+
+        case 'wedge': {
+          const kind = item.attributes.type;
+          if (kind === 'crescendo' || kind === 'diminuendo' || kind === 'stop') {
+            events.push({ type: 'wedge', offset, staff, kind });
+          }
+          break;
+        }
+
+        case 'metronome': {
+          const unit = NOTE_TYPES[childText(item, 'beat-unit') ?? ''];
+          const perMinute = parseFloat(childText(item, 'per-minute') ?? '');
+          if (unit && perMinute > 0) {
+            // Store as quarter notes per minute, including dotted beat units
+            const dotFactor = child(item, 'beat-unit-dot') ? 1.5 : 1;
+            metronomeBpm = perMinute * NOTE_VALUE_QUARTERS[unit] * dotFactor;
+          } else {
+            modulation = readMetricRelation(item) ?? modulation;
+          }
+          break;
+        }
+
+        case 'words':
+          if (item.text.trim()) words.push(item.text.trim());
+          break;
+      }
+    }
+  }
+
+  const soundTempo = parseFloat(child(element, 'sound')?.attributes.tempo ?? '');
+  const bpm = soundTempo > 0 ? soundTempo : metronomeBpm;
+
+  if (bpm) {
+    events.push({
+      type: 'tempo',
+      offset,
+      staff,
+      bpm: Math.round(bpm * 100) / 100,
+      beatUnit: 'quarter',
+      ...(words.length > 0 && { text: words.join(' ') }),
+    });
+  } else if (modulation) {
+    events.push({
+      type: 'tempo',
+      offset,
+      staff,
+      modulation: Math.round(modulation * 1000) / 1000,
+      ...(words.length > 0 && { text: words.join(' ') }),
+    });
+  } else if (words.length > 0) {
+    events.push({ type: 'words', offset, staff, text: words.join(' ') });
+  }
+
+  return events;
+}
+
+/**
+ * Repeat and ending of a barline. Returns the ending bracket still open
+ * after it, which continues over the following measures.
+ */
+function readBarline(element: XmlElement, measure: ScoreMeasure, openEnding?: number[]): number[] | undefined {
+  const repeat = child(element, 'repeat');
+  if (repeat?.attributes.direction === 'forward') {
+    measure.repeatStart = true;
+  } else if (repeat?.attributes.direction === 'backward') {
+    measure.repeatEnd = Math.min(10, Math.max(2, parseInt(repeat.attributes.times ?? '', 10) || 2));
+  }
+  if (child(element, 'segno')) measure.segno = true;
+  if (child(element, 'coda')) measure.coda = true;
+
+  const ending = child(element, 'ending');
+  if (!ending) return openEnding;
+
+  const numbers = (ending.attributes.number ?? '')
+    .split(/[,\s]+/)
+    .map(number => parseInt(number, 10))
+    .filter(number => number > 0);
+  if (ending.attributes.type === 'start') {
+    if (numbers.length > 0) measure.ending = numbers;
+    return numbers.length > 0 ? numbers : undefined;
+  }
+  // stop or discontinue closes the bracket at the end of this measure
+  if (numbers.length > 0 && !measure.ending) measure.ending = numbers;
+  return undefined;
+}
+
+/**
+ * Segno, coda, Fine, To Coda and D.C./D.S. marks of a direction, from its
+ * symbols, its <sound> or its words
+ */
+function readNavigation(element: XmlElement, measure: ScoreMeasure) {
+  let segno = false;
+  let coda = false;
+  let toCoda = false;
+  for (const directionType of children(element, 'direction-type')) {
+    segno = segno || Boolean(child(directionType, 'segno'));
+    coda = coda || Boolean(child(directionType, 'coda'));
+    for (const words of children(directionType, 'words')) {
+      const text = words.text.trim().toLowerCase().replace(/\s+/g, ' ');
+      if (/^(d\.? ?c\.?|da capo)( |$)/.test(text)) measure.jump = 'da-capo';
+      else if (/^(d\.? ?s\.?|dal segno)( |$)/.test(text)) measure.jump = 'dal-segno';
+      else if (text === 'fine') measure.fine = true;
+      else if (/^(to|al) coda\b/.test(text)) toCoda = true;
+      else if (text === 'coda') coda = true;
+    }
+  }
+
+  const sound = child(element, 'sound');
+  if (sound) {
+    toCoda = toCoda || sound.attributes.tocoda !== undefined;
+    readSoundNavigation(sound, measure);
+  }
+
+  if (segno) measure.segno = true;
+  // A coda sign beside "To Coda" marks where to leave, not the coda itself
+  if (toCoda) measure.toCoda = true;
+  else if (coda) measure.coda = true;
+}
+
+function readSoundNavigation(sound: XmlElement, measure: ScoreMeasure) {
+  const { segno, coda, tocoda, dacapo, dalsegno, fine } = sound.attributes;
+  if (segno !== undefined) measure.segno = true;
+  if (coda !== undefined) measure.coda = true;
+  if (tocoda !== undefined) measure.toCoda = true;
+  if (fine !== undefined) measure.fine = true;
+  if (dacapo === 'yes') measure.jump = 'da-capo';
+  if (dalsegno !== undefined) measure.jump = 'dal-segno';
+}
+
+/**
+ * Read a metric relation such as "♩ = ♩." (a <metronome> with two beat
+ * units and no per-minute) as the ratio of the new tempo to the old one
+ */
+function readMetricRelation(metronome: XmlElement): number | undefined {
+  const units: number[] = [];
+  for (const item of metronome.children) {
+    if (item.name === 'beat-unit') {
+      const unit = NOTE_TYPES[item.text.trim()];
+      if (!unit) return undefined;
+      units.push(NOTE_VALUE_QUARTERS[unit]);
+    } else if (item.name === 'beat-unit-dot' && units.length > 0) {
+      units[units.length - 1] *= 1.5;
+    }
+  }
+  // The old unit on the left lasts as long as the new unit on the right
+  return units.length === 2 ? units[1] / units[0] : undefined;
+}
+
+/**
+ * Rearrange <score-timewise> (measures containing parts) into the
+ * <score-partwise> layout (parts containing measures)
+ */
+function timewiseToPartwise(root: XmlElement): XmlElement {
+  const parts = new Map<string, XmlElement>();
+
+  for (const measure of children(root, 'measure')) {
+    for (const partInMeasure of children(measure, 'part')) {
+      const id = partInMeasure.attributes.id;
+      if (!parts.has(id)) {
+        parts.set(id, { name: 'part', attributes: { id }, children: [], text: '' });
+      }
+      parts.get(id)!.children.push({
+        name: 'measure',
+        attributes: measure.attributes,
+        children: partInMeasure.children,
+        text: '',
+      });
+    }
+  }
+
+  return {
+    name: 'score-partwise',
+    attributes: root.attributes,
+    children: [...root.children.filter(item => item.name !== 'measure'), ...parts.values()],
+    text: '',
+  };
+}
+
+/**
+ * Decode XML bytes, honouring a UTF-16 byte order mark
+ */
+function decodeText(bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  return new TextDecoder('utf-8').decode(bytes);
+}
@@ -0,0 +1,323 @@
+/**
+ * Notation Glyphs
+ *
+ * Simple vector drawings of the music symbols that optical recognition
+ * reads: clefs, noteheads, flags, accidentals, rests and time signature
+ * digits. The fixture generator engraves test images with them, the
+ * recognizer rasterizes them at the detected staff size as templates to
+ * match symbols against, and the notation editor draws them as SVG.
+ *
+ * Glyph coordinates are in staff spaces, with y pointing down. x = 0 is the
+ * left edge of the glyph; y = 0 is its anchor, described for each glyph.
+ */
+
+import {
+  type BinaryImage,
+  type GrayImage,
+  type Point,
+  binarize,
+  connectedComponents,
+  createBinaryImage,
+  createGrayImage,
+  cropBinary,
+  fillEllipse,
+  fillPolygon,
+  strokePath,
+  unionBox,
+} from './raster.ts';
+
+export type GlyphPart =
+  | { kind: 'stroke'; points: Point[]; width: number }
+  | { kind: 'ellipse'; cx: number; cy: number; rx: number; ry: number; angle?: number; hole?: { rx: number; ry: number; angle?: number } }
+  | { kind: 'polygon'; points: Point[] };
+
+export interface Glyph {
+  parts: GlyphPart[];
+}
+
+export type GlyphName =
+  | 'treble-clef'
+  | 'bass-clef'
+  | 'alto-clef'
+  | 'notehead-black'
+  | 'notehead-half'
+  | 'notehead-whole'
+  | 'flag-up'
+  | 'flag-down'
+  | 'dot'
+  | 'sharp'
+  | 'flat'
+  | 'natural'
+  | 'whole-rest'
+  | 'half-rest'
+  | 'quarter-rest'
+  | 'eighth-rest'
+  | '16th-rest'
+  | 'common-time'
+  | 'cut-time'
+  | TimeDigit;
+
+export type TimeDigit = `digit-${0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9}`;
+
+// Outline points of a circular arc, for the curved parts of glyphs
+function arc(cx: number, cy: number, radius: number, from: number, to: number, steps = 12): Point[] {
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = from + ((to - from) * i) / steps;
+    return [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)] as Point;
+  });
+}
+
+// A slanted accidental bar centred on y, rising to the right
+function slantedBar(left: number, right: number, y: number, rise: number, thickness: number): GlyphPart {
+  const half = thickness / 2;
+  return {
+    kind: 'polygon',
+    points: [[left, y + rise / 2 - half], [right, y - rise / 2 - half], [right, y - rise / 2 + half], [left, y + rise / 2 + half]],
+  };
+}
+
+function stroke(width: number, ...points: Point[]): GlyphPart {
+  return { kind: 'stroke', points, width };
+}
+
+const DIGIT_STROKE = 0.34;
+
+// Clefs are anchored on the line they name; rests on the middle staff line;
+// accidentals and noteheads on the pitch they belong to; digits at their top
+export const GLYPHS: Record<GlyphName, Glyph> = {
+  'treble-clef': {
+    parts: [stroke(0.22,
+      [0.35, 1.9], [0.55, 2.25], [0.95, 2.3], [1.2, 2.0], [1.15, 1.0], [1.05, -1.0], [0.95, -2.5],
+      [1.0, -3.5], [1.3, -4.3], [1.55, -3.9], [1.4, -3.1], [0.9, -2.3], [0.4, -1.4], [0.15, -0.4],
+      [0.3, 0.5], [0.9, 0.95], [1.6, 0.8], [1.85, 0.1], [1.6, -0.5], [1.05, -0.55], [0.75, -0.15], [0.95, 0.3],
+    )],
+  },
+  'bass-clef': {
+    parts: [
+      { kind: 'ellipse', cx: 0.3, cy: 0, rx: 0.3, ry: 0.3 },
+      stroke(0.24, [0.2, -0.1], [0.4, -0.65], [0.9, -0.95], [1.5, -0.8], [1.8, -0.2], [1.6, 0.8], [1.0, 1.7], [0.15, 2.4]),
+      { kind: 'ellipse', cx: 2.2, cy: -0.5, rx: 0.17, ry: 0.17 },
+      { kind: 'ellipse', cx: 2.2, cy: 0.5, rx: 0.17, ry: 0.17 },
+    ],
+  },
+  'alto-clef': {
+    parts: [
+      { kind: 'polygon', points: [[0, -2], [0.42, -2], [0.42, 2], [0, 2]] },
+      { kind: 'polygon', points: [[0.58, -2], [0.74, -2], [0.74, 2], [0.58, 2]] },
+      stroke(0.24, [0.7, -0.05], [1.05, -0.6], [1.25, -1.35], [1.55, -1.95], [2.0, -1.85], [2.1, -1.35], [1.8, -1.05]),
+      stroke(0.24, [0.7, 0.05], [1.05, 0.6], [1.25, 1.35], [1.55, 1.95], [2.0, 1.85], [2.1, 1.35], [1.8, 1.05]),
+    ],
+  },
+  'notehead-black': {
+    parts: [{ kind: 'ellipse', cx: 0.62, cy: 0, rx: 0.64, ry: 0.43, angle: -0.35 }],
+  },
+  'notehead-half': {
+    parts: [{ kind: 'ellipse', cx: 0.62, cy: 0, rx: 0.64, ry: 0.43, angle: -0.35, hole: { rx: 0.52, ry: 0.2, angle: -0.6 } }],
+  },
+  'notehead-whole': {
+    parts: [{ kind: 'ellipse', cx: 0.82, cy: 0, rx: 0.82, ry: 0.46, hole: { rx: 0.38, ry: 0.3, angle: 1.0 } }],
+  },
+  // Anchored at the end of the stem, drawn to its right
+  'flag-up': {
+    parts: [stroke(0.24, [0, 0], [0.15, 0.5], [0.7, 1.0], [0.95, 1.7], [0.8, 2.3])],
+  },
+  'flag-down': {
+    parts: [stroke(0.24, [0, 0], [0.15, -0.5], [0.7, -1.0], [0.95, -1.7], [0.8, -2.3])],
+  },
+  'dot': {
+    parts: [{ kind: 'ellipse', cx: 0.2, cy: 0, rx: 0.2, ry: 0.2 }],
+  },
+  'sharp': {
+    parts: [
+      stroke(0.14, [0.3, -1.25], [0.3, 1.1]),
+      stroke(0.14, [0.75, -1.1], [0.75, 1.25]),
+      slantedBar(0, 1.05, -0.45, 0.25, 0.32),
+      slantedBar(0, 1.05, 0.45, 0.25, 0.32),
+    ],
+  },
+  'flat': {
+    parts: [
+      stroke(0.15, [0.12, -1.9], [0.12, 0.45]),
+      stroke(0.2, [0.12, 0], [0.45, -0.35], [0.75, -0.35], [0.87, -0.1], [0.6, 0.2], [0.12, 0.45]),
+    ],
+  },
+  'natural': {
+    parts: [
+      stroke(0.14, [0.15, -1.4], [0.15, 0.55]),
+      stroke(0.14, [0.7, -0.55], [0.7, 1.4]),
+      slantedBar(0.15, 0.7, -0.35, 0.16, 0.3),
+      slantedBar(0.15, 0.7, 0.35, 0.16, 0.3),
+    ],
+  },
+  // Hangs from the fourth line, one space above the middle line
+  'whole-rest': {
+    parts: [{ kind: 'polygon', points: [[0, -1], [1.2, -1], [1.2, -0.5], [0, -0.5]] }],
+  },
+  'half-rest': {
+    parts: [{ kind: 'polygon', points: [[0, -0.5], [1.2, -0.5], [1.2, 0], [0, 0]] }],
+  },
+  'quarter-rest': {
+    parts: [
+      stroke(0.28, [0.35, -1.45], [0.85, -0.75], [0.4, -0.15], [0.85, 0.5]),
+      stroke(0.22, [0.85, 0.5], [0.45, 0.55], [0.35, 0.9], [0.6, 1.3]),
+    ],
+  },
+  'eighth-rest': {
+    parts: [
+      { kind: 'ellipse', cx: 0.32, cy: -0.45, rx: 0.24, ry: 0.22 },
+      stroke(0.15, [0.3, -0.3], [0.6, -0.25], [0.95, -0.6]),
+      stroke(0.17, [0.95, -0.6], [0.45, 1.0]),
+    ],
+  },
+  '16th-rest': {
+    parts: [
+      { kind: 'ellipse', cx: 0.52, cy: -0.45, rx: 0.24, ry: 0.22 },
+      stroke(0.15, [0.5, -0.3], [0.8, -0.25], [1.15, -0.6]),
+      { kind: 'ellipse', cx: 0.27, cy: 0.45, rx: 0.24, ry: 0.22 },
+      stroke(0.15, [0.25, 0.6], [0.55, 0.65], [0.8, 0.35]),
+      stroke(0.17, [1.15, -0.6], [0.4, 1.7]),
+    ],
+  },
+  // Centred on the middle line
+  'common-time': {
+    parts: [stroke(0.34, ...arc(0.95, 0, 0.92, -0.9, -Math.PI * 2 + 0.9, 16))],
+  },
+  'cut-time': {
+    parts: [
+      stroke(0.34, ...arc(0.95, 0, 0.92, -0.9, -Math.PI * 2 + 0.9, 16)),
+      stroke(0.16, [0.95, -1.5], [0.95, 1.5]),
+    ],
+  },
+  'digit-0': {
+    parts: [{ kind: 'ellipse', cx: 0.62, cy: 1, rx: 0.55, ry: 0.95, hole: { rx: 0.24, ry: 0.62 } }],
+  },
+  'digit-1': {
+    parts: [stroke(DIGIT_STROKE, [0.3, 0.45], [0.7, 0.1], [0.7, 1.9]), stroke(DIGIT_STROKE, [0.3, 1.9], [1.1, 1.9])],
+  },
+  'digit-2': {
+    parts: [stroke(DIGIT_STROKE, [0.15, 0.5], [0.35, 0.15], [0.7, 0.05], [1.05, 0.25], [1.1, 0.65], [0.8, 1.1], [0.15, 1.85], [1.15, 1.85])],
+  },
+  'digit-3': {
+    parts: [
+      stroke(DIGIT_STROKE, [0.15, 0.3], [0.6, 0.08], [1.0, 0.3], [0.95, 0.7], [0.55, 0.95]),
+      stroke(DIGIT_STROKE, [0.55, 0.95], [1.05, 1.2], [1.05, 1.65], [0.6, 1.92], [0.12, 1.7]),
+    ],
+  },
+  'digit-4': {
+    parts: [stroke(DIGIT_STROKE, [0.85, 1.9], [0.85, 0.1], [0.1, 1.35], [1.2, 1.35])],
+  },
+  'digit-5': {
+    parts: [stroke(DIGIT_STROKE, [1.05, 0.12], [0.25, 0.12], [0.2, 0.85], [0.65, 0.75], [1.05, 1.0], [1.1, 1.5], [0.75, 1.88], [0.15, 1.75])],
+  },
+  'digit-6': {
+    parts: [stroke(DIGIT_STROKE, [1.0, 0.2], [0.55, 0.1], [0.2, 0.6], [0.15, 1.35], [0.4, 1.85], [0.85, 1.85], [1.1, 1.45], [0.95, 1.05], [0.55, 0.95], [0.18, 1.2])],
+  },
+  'digit-7': {
+    parts: [stroke(DIGIT_STROKE, [0.1, 0.12], [1.1, 0.12], [0.5, 1.9])],
+  },
+  'digit-8': {
+    parts: [
+      { kind: 'ellipse', cx: 0.62, cy: 0.5, rx: 0.45, ry: 0.43, hole: { rx: 0.17, ry: 0.15 } },
+      { kind: 'ellipse', cx: 0.62, cy: 1.42, rx: 0.52, ry: 0.5, hole: { rx: 0.2, ry: 0.18 } },
+    ],
+  },
+  'digit-9': {
+    parts: [stroke(DIGIT_STROKE, [0.15, 1.8], [0.55, 1.9], [0.95, 1.4], [1.05, 0.65], [0.8, 0.15], [0.4, 0.15], [0.12, 0.55], [0.25, 0.95], [0.65, 1.05], [1.02, 0.8])],
+  },
+};
+
+/**
+ * Extent of a glyph in staff spaces, relative to its anchor
+ */
+export function glyphBounds(name: GlyphName): { left: number; top: number; right: number; bottom: number } {
+  let [left, top, right, bottom] = [Infinity, Infinity, -Infinity, -Infinity];
+  const include = (x: number, y: number, margin: number) => {
+    left = Math.min(left, x - margin);
+    right = Math.max(right, x + margin);
+    top = Math.min(top, y - margin);
+    bottom = Math.max(bottom, y + margin);
+  };
+  for (const part of GLYPHS[name].parts) {
+    if (part.kind === 'stroke') part.points.forEach(([x, y]) => include(x, y, part.width / 2));
+    else if (part.kind === 'polygon') part.points.forEach(([x, y]) => include(x, y, 0));
+    else include(part.cx, part.cy, Math.max(part.rx, part.ry));
+  }
+  return { left, top, right, bottom };
+}
+
+/**
+ * Draw a glyph with its anchor at (x, y) pixels, `space` pixels per staff space
+ */
+export function drawGlyph(image: GrayImage, name: GlyphName, x: number, y: number, space: number) {
+  const at = ([px, py]: Point): Point => [x + px * space, y + py * space];
+  for (const part of GLYPHS[name].parts) {
+    if (part.kind === 'stroke') {
+      strokePath(image, part.points.map(at), part.width * space);
+    } else if (part.kind === 'polygon') {
+      fillPolygon(image, part.points.map(at));
+    } else {
+      const [cx, cy] = at([part.cx, part.cy]);
+      const hole = part.hole && { rx: part.hole.rx * space, ry: part.hole.ry * space, angle: part.hole.angle };
+      fillEllipse(image, cx, cy, part.rx * space, part.ry * space, part.angle ?? 0, hole);
+    }
+  }
+}
+
+/**
+ * Rasterize a glyph at a staff size and crop it to its ink, as a template
+ * for matching scanned symbols
+ */
+export function renderGlyphMask(name: GlyphName, space: number): BinaryImage {
+  const bounds = glyphBounds(name);
+  const margin = 2;
+  const image = createGrayImage(
+    Math.ceil((bounds.right - bounds.left) * space) + margin * 2,
+    Math.ceil((bounds.bottom - bounds.top) * space) + margin * 2,
+  );
+  drawGlyph(image, name, margin - bounds.left * space, margin - bounds.top * space, space);
+
+  const binary = binarize(image, 128);
+  const pieces = connectedComponents(binary);
+  if (pieces.length === 0) return createBinaryImage(1, 1);
+  return cropBinary(binary, pieces.map(piece => piece.box).reduce(unionBox));
+}
+
+/**
+ * SVG path data for a glyph, in staff spaces around its anchor: one path to
+ * fill (with the even-odd rule, so note head holes stay open) and the lines
+ * to stroke with round caps and joins
+ */
+export function glyphSvgPaths(name: GlyphName): { fill: string; strokes: { d: string; width: number }[] } {
+  const outline = (points: Point[]) =>
+    'M' + points.map(([x, y]) => `${round(x)} ${round(y)}`).join('L') + 'Z';
+  let fill = '';
+  const strokes: { d: string; width: number }[] = [];
+  for (const part of GLYPHS[name].parts) {
+    if (part.kind === 'stroke') {
+      strokes.push({ d: 'M' + part.points.map(([x, y]) => `${round(x)} ${round(y)}`).join('L'), width: part.width });
+    } else if (part.kind === 'polygon') {
+      fill += outline(part.points);
+    } else {
+      fill += outline(ellipsePoints(part.cx, part.cy, part.rx, part.ry, part.angle ?? 0));
+      if (part.hole) {
+        fill += outline(ellipsePoints(part.cx, part.cy, part.hole.rx, part.hole.ry, part.hole.angle ?? part.angle ?? 0));
+      }
+    }
+  }
+  return { fill, strokes };
+}
+
+function ellipsePoints(cx: number, cy: number, rx: number, ry: number, angle: number, steps = 24): Point[] {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return Array.from({ length: steps }, (_, i) => {
+    const t = (2 * Math.PI * i) / steps;
+    const u = rx * Math.cos(t);
+    const v = ry * Math.sin(t);
+    return [cx + u * cos - v * sin, cy + u * sin + v * cos] as Point;
+  });
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
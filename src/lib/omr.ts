@@ -0,0 +1,1220 @@
+/**
+ * Optical Music Recognition
+ *
+ * Reads clean, printed, single-staff music from page images into the shared
+ * score model. Every staff is read as the next system of a single part, so
+ * systems continue across page breaks. Each page is read on its own (steps
+ * 1–4) and the pages are then assembled in order (step 5):
+ *
+ * 1. Binarize the image and find staves: groups of five evenly spaced rows
+ *    that are mostly ink
+ * 2. Erase staff and ledger lines, keeping the pixels of symbols that cross
+ *    them
+ * 3. Split the remaining ink into connected components and give each to the
+ *    nearest staff
+ * 4. Classify components by their geometry (barlines, clefs, noteheads,
+ *    stems, beams, flags, dots and block rests) or by matching them against
+ *    glyph templates (accidentals, other rests and time signatures)
+ * 5. Read pitches from staff positions, the clef, the key signature and
+ *    accidentals (which last to the end of the measure), and durations from
+ *    heads, flags, beams and dots
+ *
+ * Each measure gets a confidence between 0 and 1 from how well its symbols
+ * were recognized and whether its notes fill the time signature, so that
+ * doubtful measures can be reviewed. Two voices on one staff are read where
+ * their notes share a column with stems in opposite directions (see
+ * ./voice-separation.ts). Skewed or handwritten pages, more voices on one
+ * staff, tuplets, ties, slurs, dynamics and text are not recognized.
+ */
+
+import {
+  type Box,
+  type BinaryImage,
+  type Component,
+  type GrayImage,
+  binarize,
+  boxesTouch,
+  connectedComponents,
+  createBinaryImage,
+  cropBinary,
+  inkInBox,
+  unionBox,
+} from './raster.ts';
+import { type GlyphName, renderGlyphMask } from './notation-glyphs.ts';
+import {
+  type Accidental,
+  type Clef,
+  DEFAULT_TIME,
+  type KeySignature,
+  type NoteValue,
+  SCORE_MODEL_VERSION,
+  type ScoreEvent,
+  type ScoreMeasure,
+  type ScoreModel,
+  type Step,
+  type TimeSignature,
+  clefBottomLine,
+  keySignatureAlter,
+  measureTicks,
+  noteValueTicks,
+} from './score-model.ts';
+
+/**
+ * Measures below this confidence should be checked by a person
+ */
+export const LOW_CONFIDENCE = 0.7;
+
+/**
+ * Size of a recognized page, in pixels
+ */
+export interface RecognizedPage {
+  width: number;
+  height: number;
+}
+
+/**
+ * Position of a staff on its page, in pixels
+ */
+export interface RecognizedStaff {
+  page: number;
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+  space: number;
+}
+
+/**
+ * Where a measure of the model was read from, and how sure the reading is.
+ * `page` and `system` count from 0 across the whole score.
+ */
+export interface RecognizedMeasure {
+  index: number;
+  number: number;
+  page: number;
+  system: number;
+  box: Box;
+  confidence: number;
+}
+
+/**
+ * Result of recognizing a score. `model` is null when no music was found.
+ */
+export interface RecognitionResult {
+  model: ScoreModel | null;
+  pages: RecognizedPage[];
+  staves: RecognizedStaff[];
+  measures: RecognizedMeasure[];
+  warnings: string[];
+}
+
+/**
+ * The symbols read from one page, before they are assembled into measures.
+ * Keeping only this (not the pixels) lets long scores be read page by page.
+ */
+export interface PageReading {
+  width: number;
+  height: number;
+  staves: Staff[];
+  symbols: StaffSymbol[][];
+}
+
+interface Staff extends RecognizedStaff {
+  // Centre rows of the five lines, top to bottom
+  lines: number[];
+  thickness: number;
+}
+
+interface Head {
+  x: number;
+  y: number;
+  left: number;
+  right: number;
+  hollow: boolean;
+  accidental?: Accidental;
+}
+
+type StaffSymbol =
+  | { kind: 'barline'; box: Box; confidence: number }
+  | { kind: 'clef'; box: Box; clef: Clef; confidence: number }
+  | { kind: 'note'; box: Box; heads: Head[]; value: NoteValue; dots: number; stem?: 'up' | 'down'; confidence: number }
+  | { kind: 'rest'; box: Box; value: NoteValue; dots: number; confidence: number }
+  | { kind: 'accidental'; box: Box; accidental: 'sharp' | 'flat' | 'natural'; y: number; confidence: number }
+  | { kind: 'digit'; box: Box; digit: number; confidence: number }
+  | { kind: 'time'; box: Box; time: TimeSignature; confidence: number }
+  | { kind: 'dot'; box: Box; confidence: number }
+  | { kind: 'unknown'; box: Box; confidence: number };
+
+type Template = { name: GlyphName; mask: BinaryImage };
+
+// Ticks per quarter note in recognized models: enough for dotted 16ths and 32nds
+const DIVISIONS = 8;
+
+const TEMPLATE_GLYPHS: GlyphName[] = [
+  'sharp', 'flat', 'natural',
+  'quarter-rest', 'eighth-rest', '16th-rest',
+  'common-time', 'cut-time',
+  ...Array.from({ length: 10 }, (_, digit) => `digit-${digit}` as GlyphName),
+];
+
+// Lowest template score accepted as a match
+const MIN_TEMPLATE_SCORE = 0.55;
+
+// Confidence given to ink that could not be read as any symbol
+const UNKNOWN_CONFIDENCE = 0.3;
+
+const STEPS: Step[] = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const ACCIDENTAL_ALTER = { sharp: 1, flat: -1, natural: 0 };
+
+/**
+ * Recognize the music on a single page image
+ */
+export function recognizeScore(image: GrayImage): RecognitionResult {
+  return assembleScore([readPage(image)]);
+}
+
+/**
+ * Find the staves on a page and classify the symbols on each
+ */
+export function readPage(image: GrayImage, pageIndex = 0): PageReading {
+  const binary = binarize(image);
+  const staves = findStaves(binary, pageIndex);
+  const reading: PageReading = { width: image.width, height: image.height, staves, symbols: [] };
+  if (staves.length === 0) return reading;
+
+  const clean = removeStaffLines(binary, staves);
+  const space = median(staves.map(staff => staff.space));
+  const components = connectedComponents(clean, Math.max(4, Math.round(0.04 * space * space)));
+  const templates = TEMPLATE_GLYPHS.map(name => ({ name, mask: renderGlyphMask(name, space) }));
+  const byStaff = assignToStaves(components, staves);
+
+  reading.symbols = staves.map((staff, index) => {
+    const symbols = mergeStemlessChords(classifyStaff(byStaff[index], staff, templates, clean), staff);
+    const attached = new Set([...attachAccidentals(symbols, staff), ...attachDots(symbols, staff)]);
+    return symbols.filter(symbol => !attached.has(symbol));
+  });
+  return reading;
+}
+
+/**
+ * Join the staves of one or more pages, in order, into a single part. Clef,
+ * key and time signature carry over from one system and page to the next.
+ */
+export function assembleScore(pages: PageReading[]): RecognitionResult {
+  const staves = pages.flatMap(page => page.staves);
+  const result: RecognitionResult = {
+    model: null,
+    pages: pages.map(({ width, height }) => ({ width, height })),
+    staves: staves.map(({ page, top, bottom, left, right, space }) => ({ page, top, bottom, left, right, space })),
+    measures: [],
+    warnings: [],
+  };
+  if (staves.length === 0) {
+    result.warnings.push(pages.length > 1 ? 'No staves were found on any page' : 'No staves were found on the page');
+    return result;
+  }
+  if (pages.length > 1) {
+    pages.forEach((page, index) => {
+      if (page.staves.length === 0) result.warnings.push(`No staves were found on page ${index + 1}`);
+    });
+  }
+  const staffSymbols = pages.flatMap(page => page.symbols);
+
+  const measures: ScoreMeasure[] = [];
+  let clef: Clef | null = null;
+  let key: KeySignature | null = null;
+  let time: TimeSignature | null = null;
+  let missingClef = false;
+  let unknownCount = 0;
+
+  staves.forEach((staff, system) => {
+    let current = newMeasure();
+    let start = staff.left;
+    let headerDone = false;
+    const keyAccidentals: StaffSymbol[] = [];
+    const digits: Extract<StaffSymbol, { kind: 'digit' }>[] = [];
+
+    const closeMeasure = (end: number) => {
+      if (current.events.length === 0 && current.symbols.length === 0) return;
+      measures.push(current.measure);
+      const score = current.symbols.length > 0 ? mean(current.symbols.map(symbol => symbol.confidence)) : 0.5;
+      result.measures.push({
+        index: measures.length - 1,
+        number: 0,
+        page: staff.page,
+        system,
+        box: {
+          x: Math.round(start),
+          y: Math.round(staff.top - 2 * staff.space),
+          width: Math.round(end - start),
+          height: Math.round(staff.bottom - staff.top + 4 * staff.space),
+        },
+        confidence: score,
+      });
+      current = newMeasure();
+      start = end;
+    };
+
+    for (const symbol of staffSymbols[system]) {
+      const measureEmpty = current.events.length === 0;
+      switch (symbol.kind) {
+        case 'clef':
+          if (!measureEmpty) {
+            current.symbols.push({ ...symbol, confidence: UNKNOWN_CONFIDENCE });
+            unknownCount++;
+            break;
+          }
+          if (!sameClef(clef, symbol.clef)) {
+            clef = symbol.clef;
+            current.measure.clefs = [symbol.clef];
+          }
+          current.symbols.push(symbol);
+          break;
+
+        case 'accidental':
+          if (measureEmpty && digits.length === 0) {
+            keyAccidentals.push(symbol);
+            current.symbols.push(symbol);
+          } else {
+            current.symbols.push({ ...symbol, confidence: UNKNOWN_CONFIDENCE });
+            unknownCount++;
+          }
+          break;
+
+        case 'digit':
+        case 'time':
+          if (!measureEmpty) {
+            current.symbols.push({ ...symbol, confidence: UNKNOWN_CONFIDENCE });
+            unknownCount++;
+            break;
+          }
+          if (symbol.kind === 'time') {
+            current.pendingTime = symbol.time;
+          } else {
+            digits.push(symbol);
+          }
+          current.symbols.push(symbol);
+          break;
+
+        case 'barline':
+          // A barline at the very start of a staff only joins systems
+          if (symbol.box.x - staff.left < staff.space) break;
+          closeMeasure(symbol.box.x + symbol.box.width / 2);
+          break;
+
+        case 'note':
+        case 'rest':
+          if (!headerDone || measureEmpty) {
+            ({ key, time } = applyHeader(current, keyAccidentals, digits, key, time, !headerDone));
+            if (!clef) {
+              clef = { staff: 1, sign: 'G', line: 2 };
+              current.measure.clefs = [clef];
+              missingClef = true;
+            }
+            headerDone = true;
+            keyAccidentals.length = 0;
+            digits.length = 0;
+          }
+          addEvent(current, symbol, clef!, key!, staff);
+          current.symbols.push(symbol);
+          break;
+
+        default:
+          current.symbols.push({ ...symbol, confidence: UNKNOWN_CONFIDENCE });
+          unknownCount++;
+      }
+    }
+    closeMeasure(staff.right);
+  });
+
+  if (measures.length === 0) {
+    result.warnings.push(`No notes or rests were found on the ${pages.length > 1 ? 'pages' : 'page'}`);
+    return result;
+  }
+  if (missingClef) result.warnings.push('No clef was found at the start of the music; assuming treble clef');
+  if (!measures.some(measure => measure.time)) {
+    result.warnings.push('No time signature was found; assuming 4/4');
+    measures[0].time = DEFAULT_TIME;
+  }
+  if (unknownCount > 0) {
+    result.warnings.push(`${unknownCount} ${unknownCount === 1 ? 'symbol' : 'symbols'} could not be recognized`);
+  }
+
+  finishMeasures(measures, result);
+
+  result.model = {
+    version: SCORE_MODEL_VERSION,
+    source: 'omr',
+    divisions: DIVISIONS,
+    parts: [{ id: 'P1', name: 'Part 1', staves: 1, measures }],
+  };
+  return result;
+}
+
+interface MeasureInProgress {
+  measure: ScoreMeasure;
+  events: ScoreEvent[];
+  symbols: StaffSymbol[];
+  // Alterations written in the measure so far, by diatonic step number
+  alterations: Map<number, number>;
+  pendingTime?: TimeSignature;
+  offset: number;
+  // Notes with opposite stems (and rests) standing in one column start
+  // together, and the next column starts when the shortest of them ends
+  column?: { box: Box; offset: number; shortest: number; stems: Set<string> };
+}
+
+function newMeasure(): MeasureInProgress {
+  const events: ScoreEvent[] = [];
+  return { measure: { number: 0, events }, events, symbols: [], alterations: new Map(), offset: 0 };
+}
+
+/**
+ * Read the key and time signature written before the first note of a
+ * measure. At the start of a staff, a missing key signature means C major.
+ */
+function applyHeader(
+  current: MeasureInProgress,
+  keyAccidentals: StaffSymbol[],
+  digits: Extract<StaffSymbol, { kind: 'digit' }>[],
+  key: KeySignature | null,
+  time: TimeSignature | null,
+  staffStart: boolean,
+): { key: KeySignature; time: TimeSignature | null } {
+  if (keyAccidentals.length > 0 || staffStart) {
+    const sharps = keyAccidentals.filter(symbol => symbol.kind === 'accidental' && symbol.accidental === 'sharp').length;
+    const flats = keyAccidentals.filter(symbol => symbol.kind === 'accidental' && symbol.accidental === 'flat').length;
+    const fifths = Math.min(7, sharps >= flats ? sharps : 0) - Math.min(7, flats > sharps ? flats : 0);
+    if (sharps > 0 && flats > 0) {
+      for (const symbol of keyAccidentals) symbol.confidence = Math.min(symbol.confidence, 0.5);
+    }
+    if (!key || key.fifths !== fifths) {
+      key = { fifths, mode: 'major' };
+      current.measure.key = key;
+    }
+  }
+
+  let newTime = current.pendingTime ?? null;
+  if (!newTime && digits.length > 0) {
+    const middle = median(digits.map(digit => digit.box.y + digit.box.height / 2));
+    const numberFrom = (row: typeof digits) =>
+      Number(row.sort((a, b) => a.box.x - b.box.x).map(digit => digit.digit).join(''));
+    const top = digits.filter(digit => digit.box.y + digit.box.height / 2 < middle);
+    const bottom = digits.filter(digit => digit.box.y + digit.box.height / 2 >= middle);
+    const beats = numberFrom(top);
+    const beatType = numberFrom(bottom);
+    if (top.length > 0 && bottom.length > 0 && beats > 0 && [1, 2, 4, 8, 16, 32].includes(beatType)) {
+      newTime = { beats, beatType };
+    } else {
+      for (const digit of digits) digit.confidence = UNKNOWN_CONFIDENCE;
+    }
+  }
+  if (newTime && (!time || time.beats !== newTime.beats || time.beatType !== newTime.beatType)) {
+    time = newTime;
+    current.measure.time = newTime;
+  }
+
+  return { key: key!, time };
+}
+
+function addEvent(
+  current: MeasureInProgress,
+  symbol: Extract<StaffSymbol, { kind: 'note' | 'rest' }>,
+  clef: Clef,
+  key: KeySignature,
+  staff: Staff,
+) {
+  const duration = noteValueTicks(symbol.value, DIVISIONS, symbol.dots);
+  const column = current.column;
+  const stem = symbol.kind === 'note' ? symbol.stem : undefined;
+  const together = column !== undefined && !(stem && column.stems.has(stem)) &&
+    symbol.box.x < column.box.x + column.box.width && column.box.x < symbol.box.x + symbol.box.width;
+  const offset = together ? column.offset : current.offset;
+  const stems = new Set(together ? column.stems : []);
+  if (stem) stems.add(stem);
+  current.column = together
+    ? { box: unionBox(column.box, symbol.box), offset, shortest: Math.min(column.shortest, duration), stems }
+    : { box: symbol.box, offset, shortest: duration, stems };
+  current.offset = offset + current.column.shortest;
+
+  if (symbol.kind === 'rest') {
+    current.events.push({
+      type: 'rest',
+      offset,
+      staff: 1,
+      voice: 1,
+      duration,
+      value: symbol.value,
+      ...(symbol.dots > 0 && { dots: symbol.dots }),
+    });
+    return;
+  }
+
+  const dots = symbol.dots;
+  const bottomLine = clefBottomLine(clef);
+  const notes = symbol.heads.map(head => {
+    const position = Math.round((staff.lines[4] - head.y) / (staff.space / 2));
+    const diatonic = bottomLine + position;
+    const step = STEPS[((diatonic % 7) + 7) % 7];
+    if (head.accidental) current.alterations.set(diatonic, ACCIDENTAL_ALTER[head.accidental as keyof typeof ACCIDENTAL_ALTER]);
+    const alter = current.alterations.get(diatonic) ?? keySignatureAlter(key, step);
+    return {
+      type: 'note' as const,
+      offset,
+      staff: 1,
+      voice: 1,
+      duration,
+      pitch: { step, alter, octave: Math.floor(diatonic / 7) },
+      value: symbol.value,
+      ...(dots > 0 && { dots }),
+      ...(head.accidental && { accidental: head.accidental }),
+      ...(symbol.stem && { stem: symbol.stem }),
+    };
+  });
+  notes.sort((a, b) => a.pitch.octave * 7 + STEPS.indexOf(a.pitch.step) - (b.pitch.octave * 7 + STEPS.indexOf(b.pitch.step)));
+  current.events.push(...notes);
+}
+
+/**
+ * Number measures, mark a short first measure as a pickup, turn lone whole
+ * rests into measure rests and lower the confidence of measures whose notes
+ * do not fill the time signature
+ */
+function finishMeasures(measures: ScoreMeasure[], result: RecognitionResult) {
+  let time = DEFAULT_TIME;
+  let number = 1;
+  let wrongLength = 0;
+
+  measures.forEach((measure, index) => {
+    time = measure.time ?? time;
+    const capacity = measureTicks(time, DIVISIONS);
+    const rests = measure.events.filter(event => event.type === 'rest');
+    if (measure.events.length === 1 && rests.length === 1 && rests[0].type === 'rest' && rests[0].value === 'whole') {
+      rests[0].duration = capacity;
+      rests[0].measureRest = true;
+    }
+
+    const length = measure.events.reduce((end, event) =>
+      'duration' in event ? Math.max(end, event.offset + event.duration) : end, 0);
+    let fit = 1;
+    if (index === 0 && length < capacity && length > 0) {
+      measure.implicit = true;
+      fit = 0.9;
+    } else if (index === measures.length - 1 && length < capacity && measures[0].implicit) {
+      fit = 0.9;
+    } else if (length !== capacity) {
+      fit = 0.5;
+      wrongLength++;
+    }
+
+    measure.number = measure.implicit ? 0 : number++;
+    const recognized = result.measures[index];
+    recognized.number = measure.number;
+    recognized.confidence = Math.round(recognized.confidence * fit * 100) / 100;
+    measure.confidence = recognized.confidence;
+  });
+
+  if (wrongLength > 0) {
+    result.warnings.push(`${wrongLength} ${wrongLength === 1 ? 'measure does' : 'measures do'} not match the time signature`);
+  }
+}
+
+/**
+ * Find staves: groups of five evenly spaced, thin rows with a long run of
+ * ink. Line thickness and spacing are first estimated from the most common
+ * vertical runs of ink and paper, so that short staves are found too.
+ */
+function findStaves(image: BinaryImage, page: number): Staff[] {
+  const { width, height, data } = image;
+  const inkRuns = new Map<number, number>();
+  const gapRuns = new Map<number, number>();
+  for (let x = 0; x < width; x++) {
+    let run = 0;
+    let ink = false;
+    let sawInk = false;
+    for (let y = 0; y <= height; y++) {
+      const value = y < height && data[y * width + x] === 1;
+      if (value === ink) {
+        run++;
+        continue;
+      }
+      // Only count paper between two pieces of ink
+      if (ink) inkRuns.set(run, (inkRuns.get(run) ?? 0) + 1);
+      else if (sawInk && y < height) gapRuns.set(run, (gapRuns.get(run) ?? 0) + 1);
+      sawInk ||= ink;
+      ink = value;
+      run = 1;
+    }
+  }
+  const thickness = mostCommon(inkRuns);
+  const space = thickness + mostCommon(gapRuns);
+  if (thickness === 0 || space < 4) return [];
+
+  const lines: { y: number; thickness: number }[] = [];
+  const isLineRow = (y: number) => longestRowRun(image, y) >= 6 * space;
+  for (let y = 0; y < height; y++) {
+    if (!isLineRow(y)) continue;
+    const first = y;
+    while (y + 1 < height && isLineRow(y + 1)) y++;
+    if (y - first + 1 <= thickness * 2 + 1) lines.push({ y: (first + y) / 2, thickness: y - first + 1 });
+  }
+
+  const staves: Staff[] = [];
+  for (let i = 0; i + 5 <= lines.length; i++) {
+    const group = lines.slice(i, i + 5);
+    const gaps = group.slice(1).map((line, index) => line.y - group[index].y);
+    const staffSpace = mean(gaps);
+    if (gaps.some(gap => Math.abs(gap - staffSpace) > Math.max(1.5, staffSpace * 0.15))) continue;
+
+    const rows = group.map(line => Math.round(line.y));
+    const [left, right] = staffExtent(image, rows);
+    staves.push({
+      page,
+      lines: group.map(line => line.y),
+      thickness: median(group.map(line => line.thickness)),
+      space: staffSpace,
+      top: group[0].y,
+      bottom: group[4].y,
+      left,
+      right,
+    });
+    i += 4;
+  }
+  return staves;
+}
+
+function longestRowRun(image: BinaryImage, y: number): number {
+  let longest = 0;
+  let run = 0;
+  for (let x = 0; x < image.width; x++) {
+    run = image.data[y * image.width + x] ? run + 1 : 0;
+    if (run > longest) longest = run;
+  }
+  return longest;
+}
+
+/**
+ * Leftmost and rightmost columns where at least four of the five line rows
+ * are ink, allowing for small breaks
+ */
+function staffExtent(image: BinaryImage, rows: number[]): [number, number] {
+  let best: [number, number] = [0, 0];
+  let start = -1;
+  let gap = 0;
+  for (let x = 0; x <= image.width; x++) {
+    const inked = x < image.width && rows.filter(y => image.data[y * image.width + x]).length >= 4;
+    if (inked) {
+      if (start < 0) start = x;
+      gap = 0;
+    } else if (start >= 0 && ++gap > 2) {
+      const end = x - gap;
+      if (end - start > best[1] - best[0]) best = [start, end];
+      start = -1;
+      gap = 0;
+    }
+  }
+  return best;
+}
+
+/**
+ * Erase staff lines, and ledger lines above and below each staff, wherever
+ * nothing crosses them
+ */
+function removeStaffLines(image: BinaryImage, staves: Staff[]): BinaryImage {
+  const out = { ...image, data: image.data.slice() };
+  const { width, height } = image;
+  const isInk = (x: number, y: number) => y >= 0 && y < height && out.data[y * width + x] === 1;
+
+  for (const staff of staves) {
+    const ledgers = Array.from({ length: 6 }, (_, k) => [
+      staff.lines[0] - (k + 1) * staff.space,
+      staff.lines[4] + (k + 1) * staff.space,
+    ]).flat();
+    for (const center of [...staff.lines, ...ledgers]) {
+      const bandTop = Math.round(center - (staff.thickness - 1) / 2);
+      const bandBottom = bandTop + staff.thickness - 1;
+      if (bandBottom < 0 || bandTop >= height) continue;
+
+      for (let x = Math.max(0, staff.left - 1); x <= Math.min(width - 1, staff.right + 1); x++) {
+        let inked = -1;
+        for (let y = bandTop - 1; y <= bandBottom + 1; y++) {
+          if (isInk(x, y)) {
+            inked = y;
+            break;
+          }
+        }
+        if (inked < 0) continue;
+
+        let runTop = inked;
+        let runBottom = inked;
+        while (isInk(x, runTop - 1)) runTop--;
+        while (isInk(x, runBottom + 1)) runBottom++;
+        if (runBottom - runTop + 1 <= staff.thickness + 1) {
+          for (let y = runTop; y <= runBottom; y++) out.data[y * width + x] = 0;
+        }
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Give each component to the staff it is nearest to, dropping ink far from
+ * any staff (titles, page numbers)
+ */
+function assignToStaves(components: Component[], staves: Staff[]): Component[][] {
+  const byStaff = staves.map(() => [] as Component[]);
+  for (const component of components) {
+    const center = component.box.y + component.box.height / 2;
+    let best = -1;
+    let bestDistance = Infinity;
+    staves.forEach((staff, index) => {
+      const distance = center < staff.top ? staff.top - center : center > staff.bottom ? center - staff.bottom : 0;
+      if (distance < bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    });
+    const staff = staves[best];
+    const within = component.box.x + component.box.width >= staff.left - staff.space &&
+      component.box.x <= staff.right + staff.space;
+    if (bestDistance <= 5 * staff.space && within) byStaff[best].push(component);
+  }
+  return byStaff;
+}
+
+function classifyComponent(component: Component, staff: Staff, templates: Template[], image: BinaryImage): StaffSymbol[] {
+  const { box, mask } = component;
+  const s = staff.space;
+  const w = box.width / s;
+  const h = box.height / s;
+  const fill = component.pixels / (box.width * box.height);
+  const bottom = box.y + box.height;
+
+  // Barlines: thin, solid and exactly as tall as the staff
+  if (w <= 0.75 && fill >= 0.8 && Math.abs(box.y - staff.top) <= 0.5 * s && Math.abs(bottom - staff.bottom) <= 0.5 * s) {
+    return [{ kind: 'barline', box, confidence: 1 }];
+  }
+
+  // The two numbers of a time signature often touch at the middle line
+  const spansStaff = Math.abs(box.y - staff.top) <= 0.5 * s && Math.abs(bottom - staff.bottom) <= 0.5 * s;
+  if (spansStaff && w >= 0.8 && w <= 3) {
+    const digits = splitTimeSignature(component, staff, templates);
+    if (digits) return digits;
+  }
+
+  // Clefs come first on a staff
+  if (box.x < staff.left + 4 * s) {
+    const clef = classifyClef(component, staff);
+    if (clef) return [clef];
+  }
+
+  // The stroke through cut time looks like a stem, so time symbols go before notes
+  if (Math.abs(box.y + box.height / 2 - staff.lines[2]) <= 0.5 * s && h <= 3.6) {
+    const match = matchTemplate(mask, templates.filter(item => item.name === 'common-time' || item.name === 'cut-time'));
+    if (match && match.score >= 0.8) {
+      const time = match.name === 'common-time' ? { beats: 4, beatType: 4 } : { beats: 2, beatType: 2 };
+      return [{ kind: 'time', box, time, confidence: 1 }];
+    }
+  }
+
+  const notes = readNoteGroup(component, staff);
+  if (notes.length > 0) return notes;
+
+  // A stemless whole note (or a stack of them)
+  if (w >= 1.3 && w <= 2.1 && h >= 0.7 && fill < 0.75) {
+    const heads = readHeads(box, mask, staff);
+    if (heads && heads.every(head => isHollow(image, head, staff))) {
+      return [{ kind: 'note', box, heads: heads.map(head => ({ ...head, hollow: true })), value: 'whole', dots: 0, confidence: 1 }];
+    }
+  }
+
+  if (w <= 0.65 && h <= 0.65 && w >= 0.2 && h >= 0.2 && fill >= 0.55) {
+    return [{ kind: 'dot', box, confidence: 1 }];
+  }
+
+  // Whole rests hang from the fourth line, half rests sit on the middle line
+  if (w >= 0.9 && w <= 1.6 && h >= 0.3 && h <= 0.75 && fill >= 0.85) {
+    const hanging = Math.abs(box.y - staff.lines[1]);
+    const sitting = Math.abs(bottom - staff.lines[2]);
+    return [{ kind: 'rest', box, value: hanging < sitting ? 'whole' : 'half', dots: 0, confidence: 1 }];
+  }
+
+  const match = matchTemplate(mask, templates);
+  if (match) {
+    const confidence = Math.min(1, match.score / 0.8);
+    if (match.name === 'sharp' || match.name === 'flat' || match.name === 'natural') {
+      // Flats are centred on their bowl, near the bottom of the glyph
+      const y = match.name === 'flat' ? bottom - 0.55 * s : box.y + box.height / 2;
+      return [{ kind: 'accidental', box, accidental: match.name, y, confidence }];
+    }
+    if (match.name === 'quarter-rest' || match.name === 'eighth-rest' || match.name === '16th-rest') {
+      const value: NoteValue = match.name === 'quarter-rest' ? 'quarter' : match.name === 'eighth-rest' ? 'eighth' : '16th';
+      return [{ kind: 'rest', box, value, dots: 0, confidence }];
+    }
+    if (match.name === 'common-time' || match.name === 'cut-time') {
+      const time = match.name === 'common-time' ? { beats: 4, beatType: 4 } : { beats: 2, beatType: 2 };
+      return [{ kind: 'time', box, time, confidence }];
+    }
+    const insideStaff = box.y >= staff.top - 0.5 * s && bottom <= staff.bottom + 0.5 * s;
+    if (insideStaff) {
+      return [{ kind: 'digit', box, digit: Number(match.name.slice('digit-'.length)), confidence }];
+    }
+  }
+
+  return [{ kind: 'unknown', box, confidence: UNKNOWN_CONFIDENCE }];
+}
+
+/**
+ * Classify the components of a staff, sorted left to right. Removing staff
+ * lines can cut a symbol in two (a whole note hanging from a line loses its
+ * top), so touching pieces that mean nothing alone are tried together.
+ */
+function classifyStaff(components: Component[], staff: Staff, templates: Template[], image: BinaryImage): StaffSymbol[] {
+  const s = staff.space;
+  const entries = components.map(component => ({ component, symbols: classifyComponent(component, staff, templates, image) }));
+  const unknown = (entry: (typeof entries)[number]) => entry.symbols.every(symbol => symbol.kind === 'unknown');
+
+  for (let i = 0; i < entries.length; i++) {
+    if (!unknown(entries[i])) continue;
+    for (let j = i + 1; j < entries.length; j++) {
+      if (!unknown(entries[j]) || !boxesTouch(entries[i].component.box, entries[j].component.box, 0.25 * s)) continue;
+      const joined = joinComponents(entries[i].component, entries[j].component);
+      const symbols = classifyComponent(joined, staff, templates, image);
+      if (symbols.every(symbol => symbol.kind === 'unknown')) continue;
+      entries[i] = { component: joined, symbols };
+      entries.splice(j, 1);
+      break;
+    }
+  }
+  return entries.flatMap(entry => entry.symbols).sort((a, b) => a.box.x - b.box.x);
+}
+
+function joinComponents(a: Component, b: Component): Component {
+  const box = unionBox(a.box, b.box);
+  const mask = createBinaryImage(box.width, box.height);
+  for (const { box: part, mask: partMask } of [a, b]) {
+    for (let y = 0; y < part.height; y++) {
+      for (let x = 0; x < part.width; x++) {
+        if (partMask.data[y * part.width + x]) mask.data[(part.y - box.y + y) * box.width + (part.x - box.x + x)] = 1;
+      }
+    }
+  }
+  return { box, pixels: a.pixels + b.pixels, mask };
+}
+
+/**
+ * Read a component spanning the staff as a time signature, one number above
+ * the middle line and one below. Returns null unless every piece is a digit.
+ */
+function splitTimeSignature(component: Component, staff: Staff, templates: Template[]): StaffSymbol[] | null {
+  const { box, mask } = component;
+  const split = Math.round(staff.lines[2] - box.y);
+  if (split <= 0 || split >= box.height) return null;
+  const digitTemplates = templates.filter(template => template.name.startsWith('digit-'));
+
+  const symbols: StaffSymbol[] = [];
+  for (const half of [{ y: 0, height: split }, { y: split, height: box.height - split }]) {
+    const pieces = connectedComponents(cropBinary(mask, { x: 0, ...half, width: box.width }), 2);
+    if (pieces.length === 0) return null;
+    for (const piece of pieces) {
+      const match = matchTemplate(piece.mask, digitTemplates);
+      if (!match) return null;
+      symbols.push({
+        kind: 'digit',
+        box: { ...piece.box, x: box.x + piece.box.x, y: box.y + half.y + piece.box.y },
+        digit: Number(match.name.slice('digit-'.length)),
+        confidence: Math.min(1, match.score / 0.8),
+      });
+    }
+  }
+  return symbols;
+}
+
+function classifyClef(component: Component, staff: Staff): StaffSymbol | null {
+  const { box, mask } = component;
+  const s = staff.space;
+  const h = box.height / s;
+  const w = box.width / s;
+  const center = box.y + box.height / 2;
+  const longestRun = Math.max(...columnRuns(mask).map(run => run.length)) / box.height;
+
+  if (h >= 5.2 && h <= 8 && w >= 1.2 && w <= 3) {
+    return { kind: 'clef', box, clef: { staff: 1, sign: 'G', line: 2 }, confidence: 1 };
+  }
+  if (h >= 3.6 && h <= 4.8 && longestRun >= 0.85 && Math.abs(center - staff.lines[2]) <= 0.6 * s) {
+    return { kind: 'clef', box, clef: { staff: 1, sign: 'C', line: 3 }, confidence: 1 };
+  }
+  if (h >= 2.8 && h <= 4 && w >= 1.4 && w <= 2.6 && longestRun < 0.6 && Math.abs(box.y - staff.top) <= 0.6 * s) {
+    return { kind: 'clef', box, clef: { staff: 1, sign: 'F', line: 4 }, confidence: 1 };
+  }
+  return null;
+}
+
+interface Stem {
+  x: number;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Read the notes in a component made of noteheads joined by stems, beams
+ * and flags. Returns nothing when the component has no stem with a head.
+ */
+function readNoteGroup(component: Component, staff: Staff): StaffSymbol[] {
+  const { box, mask } = component;
+  const s = staff.space;
+  const runs = columnRuns(mask);
+
+  // Stems: narrow groups of columns with a long vertical run
+  const stems: Stem[] = [];
+  for (let x = 0; x < mask.width; x++) {
+    if (runs[x].length < 2.2 * s) continue;
+    const first = x;
+    while (x + 1 < mask.width && runs[x + 1].length >= 2.2 * s) x++;
+    if (x - first + 1 > 0.4 * s) continue;
+    const top = Math.min(...runs.slice(first, x + 1).map(run => run.start));
+    const bottom = Math.max(...runs.slice(first, x + 1).map(run => run.start + run.length));
+    stems.push({ x: box.x + (first + x + 1) / 2, left: box.x + first, right: box.x + x + 1, top: box.y + top, bottom: box.y + bottom });
+  }
+  if (stems.length === 0) return [];
+
+  // Heads are what is left of the component without its stems
+  const rest = { ...mask, data: mask.data.slice() };
+  for (const stem of stems) {
+    for (let x = stem.left - box.x; x < stem.right - box.x; x++) {
+      const run = runs[x];
+      for (let y = run.start; y < run.start + run.length; y++) rest.data[y * mask.width + x] = 0;
+    }
+  }
+
+  const candidates = new Map<Stem, Box[]>();
+  const pieces = new Map<Box, BinaryImage>();
+  for (const piece of rejoinSplitHeads(connectedComponents(rest, Math.round(0.2 * s * s)), s)) {
+    const pieceBox = { ...piece.box, x: piece.box.x + box.x, y: piece.box.y + box.y };
+    const w = pieceBox.width / s;
+    if (w < 0.95 || w > 1.8 || pieceBox.height < 0.6 * s) continue;
+    // A piece of beam bridges two stems; a head touches only its own
+    const touches = (x: number) => stems.some(item =>
+      Math.abs(item.x - x) <= 0.3 * s && pieceBox.y < item.bottom && pieceBox.y + pieceBox.height > item.top);
+    if (touches(pieceBox.x) && touches(pieceBox.x + pieceBox.width)) continue;
+    const centerX = pieceBox.x + pieceBox.width / 2;
+    const centerY = pieceBox.y + pieceBox.height / 2;
+    const stem = stems
+      .filter(item =>
+        item.x >= pieceBox.x - 0.35 * s && item.x <= pieceBox.x + pieceBox.width + 0.35 * s &&
+        centerY >= item.top - 0.7 * s && centerY <= item.bottom + 0.7 * s)
+      .sort((a, b) => Math.abs(a.x - centerX) - Math.abs(b.x - centerX))[0];
+    if (!stem) continue;
+    candidates.set(stem, [...(candidates.get(stem) ?? []), pieceBox]);
+    pieces.set(pieceBox, piece.mask);
+  }
+
+  const byStem = new Map<Stem, Head[]>();
+  for (const [stem, boxes] of candidates) {
+    // Heads stick out past one end of their stem (unlike flags and beamlets),
+    // or stack on a head that does
+    const accepted: Box[] = [];
+    const gap = (piece: Box, y: number) => Math.max(0, piece.y - y, y - (piece.y + piece.height));
+    const pastEnd = (piece: Box) => piece.y <= stem.top - 0.2 * s || piece.y + piece.height >= stem.bottom + 0.2 * s;
+    let added = true;
+    while (added) {
+      added = false;
+      for (const piece of boxes) {
+        if (accepted.includes(piece)) continue;
+        const near = pastEnd(piece) ||
+          accepted.some(other => gap(piece, other.y) <= 0.3 * s || gap(piece, other.y + other.height) <= 0.3 * s);
+        if (!near) continue;
+        accepted.push(piece);
+        added = true;
+      }
+    }
+
+    for (const piece of accepted) {
+      const heads = readHeads(piece, pieces.get(piece)!, staff);
+      if (!heads) continue;
+      for (const head of heads) {
+        head.hollow = isHollow(rest, { ...head, x: head.x - box.x, y: head.y - box.y }, staff);
+      }
+      byStem.set(stem, [...(byStem.get(stem) ?? []), ...heads]);
+    }
+  }
+
+  const symbols: StaffSymbol[] = [];
+  for (const stem of stems) {
+    const heads = byStem.get(stem);
+    if (!heads) continue;
+    const stemUp = Math.abs(stem.bottom - Math.max(...heads.map(head => head.y))) <
+      Math.abs(stem.top - Math.min(...heads.map(head => head.y)));
+    const hooks = countHooks(mask, box, stem, heads, stemUp, s);
+    const hollow = heads.filter(head => head.hollow).length;
+    const isHalf = hollow * 2 > heads.length;
+    const value: NoteValue = isHalf ? 'half' : (['quarter', 'eighth', '16th', '32nd'] as NoteValue[])[Math.min(hooks, 3)];
+    const mixed = hollow > 0 && hollow < heads.length;
+    const confidence = (isHalf && hooks > 0) || hooks > 3 || mixed ? 0.5 : 1;
+    const left = Math.min(stem.left, ...heads.map(head => head.left));
+    const right = Math.max(stem.right, ...heads.map(head => head.right));
+    symbols.push({
+      kind: 'note',
+      box: { x: left, y: stem.top, width: right - left, height: stem.bottom - stem.top },
+      heads,
+      value,
+      dots: 0,
+      stem: stemUp ? 'up' : 'down',
+      confidence,
+    });
+  }
+  return symbols;
+}
+
+/**
+ * Rejoin the two halves of a hollow head cut apart by removing its stem,
+ * which happens when the stem meets a slanted head at its thin sides
+ */
+function rejoinSplitHeads(pieces: Component[], s: number): Component[] {
+  const joined = pieces.slice();
+  for (let i = 0; i < joined.length; i++) {
+    for (let j = i + 1; j < joined.length; j++) {
+      const [a, b] = [joined[i].box, joined[j].box];
+      const overlap = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+      if (a.width >= 0.95 * s || b.width >= 0.95 * s || unionBox(a, b).width > 1.8 * s) continue;
+      if (!boxesTouch(a, b, 0.4 * s) || overlap < 0.5 * Math.min(a.height, b.height)) continue;
+      joined[i] = joinComponents(joined[i], joined[j]);
+      joined.splice(j, 1);
+      j = i;
+    }
+  }
+  return joined;
+}
+
+/**
+ * Split a piece of ink into noteheads stacked a third apart
+ */
+function readHeads(box: Box, mask: BinaryImage, staff: Staff): Head[] | null {
+  const s = staff.space;
+  const count = Math.max(1, Math.round((box.height / s - 0.9) / 1) + 1);
+  if (count > 6 || mask.width === 0) return null;
+  const first = count > 1 ? box.y + 0.45 * s : box.y + box.height / 2;
+  const step = count > 1 ? (box.height - 0.9 * s) / (count - 1) : 0;
+  const heads = Array.from({ length: count }, (_, index) => ({
+    x: box.x + box.width / 2,
+    y: first + index * step,
+    left: box.x,
+    right: box.x + box.width,
+    hollow: false,
+  }));
+  // Even a hollow head is mostly ink; curved strokes such as flags are not
+  const solid = heads.every(head => {
+    const area = { x: 0, y: Math.round(head.y - box.y - 0.4 * s), width: mask.width, height: Math.round(0.8 * s) };
+    return inkInBox(mask, area) / (area.width * area.height) >= 0.4;
+  });
+  return solid ? heads : null;
+}
+
+function isHollow(image: BinaryImage, head: Head, staff: Staff): boolean {
+  const s = staff.space;
+  const probe = { x: head.x - 0.2 * s, y: head.y - 0.1 * s, width: 0.4 * s, height: 0.2 * s };
+  const area = Math.max(1, Math.round(probe.width) * Math.round(probe.height));
+  return inkInBox(image, probe) / area < 0.5;
+}
+
+/**
+ * Count beams or flags at the far end of a stem: the number of separate ink
+ * runs just beside the stem, on whichever side has more
+ */
+function countHooks(mask: BinaryImage, box: Box, stem: Stem, heads: Head[], stemUp: boolean, s: number): number {
+  const [from, to] = stemUp
+    ? [stem.top, Math.min(stem.top + 2.2 * s, Math.min(...heads.map(head => head.y)) - 0.8 * s)]
+    : [Math.max(stem.bottom - 2.2 * s, Math.max(...heads.map(head => head.y)) + 0.8 * s), stem.bottom];
+  const minRun = Math.max(2, 0.15 * s);
+
+  const countAt = (x: number) => {
+    const column = Math.round(x - box.x);
+    if (column < 0 || column >= mask.width) return 0;
+    let count = 0;
+    let run = 0;
+    for (let y = Math.round(from - box.y); y <= Math.round(to - box.y); y++) {
+      if (y >= 0 && y < mask.height && mask.data[y * mask.width + column]) {
+        run++;
+      } else {
+        if (run >= minRun) count++;
+        run = 0;
+      }
+    }
+    return run >= minRun ? count + 1 : count;
+  };
+
+  const reach = 0.35 * s;
+  return Math.max(countAt(stem.left - reach), countAt(stem.right + reach));
+}
+
+/**
+ * Longest vertical run of ink in each column
+ */
+function columnRuns(mask: BinaryImage): { start: number; length: number }[] {
+  return Array.from({ length: mask.width }, (_, x) => {
+    let best = { start: 0, length: 0 };
+    let start = -1;
+    for (let y = 0; y <= mask.height; y++) {
+      const ink = y < mask.height && mask.data[y * mask.width + x];
+      if (ink && start < 0) start = y;
+      if (!ink && start >= 0) {
+        if (y - start > best.length) best = { start, length: y - start };
+        start = -1;
+      }
+    }
+    return best;
+  });
+}
+
+/**
+ * Best template for a symbol, scored by the overlap of the symbol scaled
+ * onto the template and by how alike their proportions are
+ */
+function matchTemplate(mask: BinaryImage, templates: Template[]): { name: GlyphName; score: number } | null {
+  let best: { name: GlyphName; score: number } | null = null;
+  for (const template of templates) {
+    const ratio = mask.height / template.mask.height;
+    if (ratio < 0.75 || ratio > 1.33) continue;
+
+    const { width, height, data } = template.mask;
+    let both = 0;
+    let total = 0;
+    for (let y = 0; y < height; y++) {
+      const sy = Math.min(mask.height - 1, Math.floor(((y + 0.5) * mask.height) / height));
+      for (let x = 0; x < width; x++) {
+        const sx = Math.min(mask.width - 1, Math.floor(((x + 0.5) * mask.width) / width));
+        const a = mask.data[sy * mask.width + sx];
+        const b = data[y * width + x];
+        both += a & b;
+        total += a + b;
+      }
+    }
+    const aspect = (mask.width / mask.height) / (width / height);
+    const score = (total > 0 ? (2 * both) / total : 0) * Math.sqrt(Math.min(aspect, 1 / aspect));
+    if (score >= MIN_TEMPLATE_SCORE && (!best || score > best.score)) best = { name: template.name, score };
+  }
+  return best;
+}
+
+/**
+ * Stemless heads stacked in thirds do not touch, so each is read as its own
+ * whole note. Join those in the same column into one chord.
+ */
+function mergeStemlessChords(symbols: StaffSymbol[], staff: Staff): StaffSymbol[] {
+  const s = staff.space;
+  const merged: StaffSymbol[] = [];
+  for (const symbol of symbols) {
+    const chord = symbol.kind === 'note' && symbol.value === 'whole'
+      ? merged.find(other => other.kind === 'note' && other.value === 'whole' &&
+        Math.abs(other.box.x - symbol.box.x) <= 0.3 * s &&
+        symbol.heads.every(head => other.heads.some(item => Math.abs(item.y - head.y) <= 1.2 * s)))
+      : undefined;
+    if (chord?.kind === 'note' && symbol.kind === 'note') {
+      chord.heads.push(...symbol.heads);
+      chord.box = unionBox(chord.box, symbol.box);
+      chord.confidence = Math.min(chord.confidence, symbol.confidence);
+    } else {
+      merged.push(symbol);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Give accidentals to the notehead just to their right at the same height.
+ * Returns the accidentals that were attached.
+ */
+function attachAccidentals(symbols: StaffSymbol[], staff: Staff): StaffSymbol[] {
+  const s = staff.space;
+  const heads = symbols.flatMap(symbol => symbol.kind === 'note' ? symbol.heads : []);
+  const attached: StaffSymbol[] = [];
+  for (const symbol of symbols) {
+    if (symbol.kind !== 'accidental') continue;
+    const right = symbol.box.x + symbol.box.width;
+    const head = heads
+      .filter(item => !item.accidental && item.left - right >= -0.3 * s && item.left - right <= 1.5 * s &&
+        Math.abs(item.y - symbol.y) <= 0.5 * s)
+      .sort((a, b) => a.left - b.left)[0];
+    if (head) {
+      head.accidental = symbol.accidental;
+      attached.push(symbol);
+    }
+  }
+  return attached;
+}
+
+/**
+ * Give augmentation dots to the note or rest on their left. Dots of bass
+ * clefs and staccato dots are absorbed too. Returns the absorbed dots.
+ */
+function attachDots(symbols: StaffSymbol[], staff: Staff): StaffSymbol[] {
+  const s = staff.space;
+  const attached: StaffSymbol[] = [];
+  // Columns of the dots already given to each note; the heads of a chord share them
+  const dotColumns = new Map<StaffSymbol, number[]>();
+  const dots = symbols.filter(symbol => symbol.kind === 'dot').sort((a, b) => a.box.x - b.box.x);
+
+  for (const dot of dots) {
+    const x = dot.box.x;
+    const y = dot.box.y + dot.box.height / 2;
+    const owner = symbols.find(symbol => {
+      const right = symbol.box.x + symbol.box.width;
+      if (symbol.kind === 'clef') {
+        return symbol.clef.sign === 'F' && x >= right - 0.3 * s && x <= right + s;
+      }
+      if (symbol.kind === 'note') {
+        const columns = dotColumns.get(symbol) ?? [];
+        const after = Math.max(...symbol.heads.map(head => head.right), ...columns);
+        return symbol.heads.some(head => Math.abs(head.y - y) <= 0.8 * s) &&
+          (columns.some(column => Math.abs(column - x) <= 0.3 * s) || (x - after >= -0.1 * s && x - after <= 1.3 * s));
+      }
+      if (symbol.kind === 'rest') {
+        const after = Math.max(right, ...(dotColumns.get(symbol) ?? []));
+        return y >= symbol.box.y - 0.5 * s && y <= symbol.box.y + symbol.box.height + 0.5 * s &&
+          x - after >= -0.1 * s && x - after <= 1.3 * s;
+      }
+      return false;
+    });
+    const staccato = symbols.some(symbol => symbol.kind === 'note' &&
+      symbol.heads.some(head => x + dot.box.width >= head.left && x <= head.right));
+    if (!owner && !staccato) continue;
+
+    attached.push(dot);
+    if (owner && (owner.kind === 'note' || owner.kind === 'rest')) {
+      const columns = dotColumns.get(owner) ?? [];
+      if (!columns.some(column => Math.abs(column - x) <= 0.3 * s)) {
+        dotColumns.set(owner, [...columns, x]);
+        owner.dots++;
+      }
+    }
+  }
+  return attached;
+}
+
+function sameClef(a: Clef | null, b: Clef): boolean {
+  return a !== null && a.sign === b.sign && a.line === b.line;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function mostCommon(counts: Map<number, number>): number {
+  let best = 0;
+  let bestCount = 0;
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
@@ -0,0 +1,269 @@
+/**
+ * Orchestration
+ *
+ * Works out which of the selected instruments play which parts when the user
+ * has picked instruments without assigning them. Parts (or single staves)
+ * and pitched instruments are both ordered from high to low, by the median
+ * pitch of the part and the middle of the instrument's comfortable range,
+ * and matched in that order. With more instruments than parts, neighbouring
+ * instruments double a part; with fewer, an instrument plays neighbouring
+ * parts divisi. Where the split could fall in several places, the one that
+ * leaves the fewest notes out of range wins.
+ *
+ * Unpitched percussion plays the percussion staves, or the rhythm of the
+ * lowest part when the score has none.
+ *
+ * Every decision is reported in the notes; decisions that leave notes out of
+ * range, combine parts or leave something unplayed are compromises.
+ */
+
+import type { Instrument, InstrumentRange, OrchestrationNote, PartAssignment } from './types.ts';
+import { type ScoreModel, describePitch, midiToPitch, resolveMeasureAttributes } from './score-model.ts';
+import { type PartSource, type ScoreTimeline, performNotes, scoreTimeline } from './performance.ts';
+import { describeRange, getInstrumentById } from './instruments.ts';
+
+/**
+ * A part, or one staff of a part, that instruments can be assigned to
+ */
+export interface AssignablePart {
+  partId: string;
+  staff?: number;
+  name: string;
+}
+
+/**
+ * Assignments chosen for a set of instruments, with the reasoning
+ */
+export interface Orchestration {
+  assignments: PartAssignment[];
+  notes: OrchestrationNote[];
+}
+
+interface PartProfile {
+  part: AssignablePart;
+  pitches: number[];
+  median: number;
+  percussion: boolean;
+  instruments: Instrument[];
+}
+
+// A note beyond the extreme range costs this many notes outside the comfortable range
+const UNPLAYABLE_WEIGHT = 10;
+
+// Cost per octave between a part's median pitch and the middle of an instrument's range
+const TESSITURA_WEIGHT = 0.25;
+
+/**
+ * The parts of a score as listed for assignment. Parts written on several
+ * staves (piano, closed-score choir) list each staff separately.
+ */
+export function assignableParts(model: ScoreModel): AssignablePart[] {
+  return model.parts.flatMap(part => {
+    const name = part.name || part.id;
+    if (part.staves <= 1) return [{ partId: part.id, name }];
+    return Array.from({ length: part.staves }, (_, index) => ({
+      partId: part.id,
+      staff: index + 1,
+      name: `${name} (staff ${index + 1})`,
+    }));
+  });
+}
+
+/**
+ * Assign instruments to the parts of a score by tessitura and range
+ */
+export function orchestrate(model: ScoreModel, instrumentIds: string[]): Orchestration {
+  const timeline = scoreTimeline(model);
+  const profiles = assignableParts(model).map(part => profilePart(model, part, timeline));
+  const instruments = [...new Set(instrumentIds)]
+    .map(id => getInstrumentById(id))
+    .filter((instrument): instrument is Instrument => instrument !== undefined);
+  const notes: OrchestrationNote[] = [];
+
+  const sounding = profiles.filter(profile => profile.pitches.length > 0);
+  const pitchedParts = sounding
+    .filter(profile => !profile.percussion)
+    .sort((a, b) => b.median - a.median);
+  const percussionParts = sounding.filter(profile => profile.percussion);
+  const pitched = instruments
+    .filter(instrument => instrument.range)
+    .sort((a, b) => rangeCenter(b.range!) - rangeCenter(a.range!));
+  const unpitched = instruments.filter(instrument => !instrument.range);
+
+  if (pitched.length > 0 && pitchedParts.length > 0) {
+    for (const group of matchInOrder(pitchedParts, pitched)) {
+      const partNames = listNames(group.parts.map(profile => profile.part.name));
+      if (group.parts.length > 1) {
+        notes.push(compromise(`${group.instruments[0].name} plays ${partNames} divisi, as there are fewer instruments than parts`));
+      } else if (group.instruments.length > 1) {
+        notes.push(choice(`${partNames} is doubled by ${listNames(group.instruments.map(instrument => instrument.name))}`));
+      } else {
+        notes.push(choice(`${group.instruments[0].name} plays ${partNames}`));
+      }
+
+      for (const profile of group.parts) {
+        for (const instrument of group.instruments) {
+          profile.instruments.push(instrument);
+          const problem = describeRangeProblem(profile, instrument);
+          if (problem) notes.push(compromise(problem));
+        }
+      }
+    }
+  }
+
+  unpitched.forEach((instrument, index) => {
+    if (percussionParts.length > 0) {
+      const profile = percussionParts[index % percussionParts.length];
+      profile.instruments.push(instrument);
+      notes.push(choice(`${instrument.name} plays ${profile.part.name}`));
+    } else if (pitchedParts.length > 0) {
+      const profile = pitchedParts[pitchedParts.length - 1];
+      profile.instruments.push(instrument);
+      notes.push(compromise(`${instrument.name} plays the rhythm of ${profile.part.name}, as the score has no percussion part`));
+    }
+  });
+
+  for (const profile of profiles) {
+    if (profile.pitches.length === 0) {
+      notes.push(choice(`${profile.part.name} has no notes and is not played`));
+    } else if (profile.instruments.length === 0) {
+      const missing = profile.percussion ? 'percussion' : 'pitched';
+      notes.push(compromise(`${profile.part.name} is not played, as no ${missing} instrument was selected`));
+    }
+  }
+  for (const instrument of instruments) {
+    if (!profiles.some(profile => profile.instruments.includes(instrument))) {
+      notes.push(compromise(`${instrument.name} has no part to play`));
+    }
+  }
+
+  return {
+    assignments: profiles.map(profile => ({
+      partId: profile.part.partId,
+      ...(profile.part.staff !== undefined && { staff: profile.part.staff }),
+      instruments: profile.instruments.map(instrument => instrument.id),
+    })),
+    notes,
+  };
+}
+
+function profilePart(model: ScoreModel, part: AssignablePart, timeline: ScoreTimeline): PartProfile {
+  const source: PartSource = { partId: part.partId, ...(part.staff !== undefined && { staff: part.staff }) };
+  const pitches = performNotes(model, [source], timeline)
+    .map(note => note.midi)
+    .sort((a, b) => a - b);
+
+  const scorePart = model.parts.find(item => item.id === part.partId);
+  const clef = scorePart && resolveMeasureAttributes(scorePart)[0]?.clefs
+    .find(item => item.staff === (part.staff ?? 1));
+
+  return {
+    part,
+    pitches,
+    median: pitches.length > 0 ? pitches[Math.floor(pitches.length / 2)] : 0,
+    percussion: clef?.sign === 'percussion',
+    instruments: [],
+  };
+}
+
+/**
+ * Pair parts and instruments, both ordered high to low, into groups where
+ * either the parts or the instruments are a single item
+ */
+function matchInOrder(
+  parts: PartProfile[],
+  instruments: Instrument[],
+): { parts: PartProfile[]; instruments: Instrument[] }[] {
+  if (instruments.length >= parts.length) {
+    const starts = partition(instruments.length, parts.length, (group, start, end) =>
+      instruments.slice(start, end).reduce((sum, instrument) => sum + fitCost(parts[group], instrument.range!), 0));
+    return parts.map((profile, group) => ({
+      parts: [profile],
+      instruments: instruments.slice(starts[group], starts[group + 1] ?? instruments.length),
+    }));
+  }
+
+  const starts = partition(parts.length, instruments.length, (group, start, end) =>
+    parts.slice(start, end).reduce((sum, profile) => sum + fitCost(profile, instruments[group].range!), 0));
+  return instruments.map((instrument, group) => ({
+    parts: parts.slice(starts[group], starts[group + 1] ?? parts.length),
+    instruments: [instrument],
+  }));
+}
+
+/**
+ * Split `count` ordered items into `groups` contiguous, non-empty groups at
+ * the lowest total cost. Returns the start index of each group.
+ */
+function partition(count: number, groups: number, cost: (group: number, start: number, end: number) => number): number[] {
+  // best[g][i]: cheapest way to split the first i items into g groups
+  const best = Array.from({ length: groups + 1 }, () => new Array<number>(count + 1).fill(Infinity));
+  const splits = Array.from({ length: groups + 1 }, () => new Array<number>(count + 1).fill(0));
+  best[0][0] = 0;
+
+  for (let group = 1; group <= groups; group++) {
+    for (let end = group; end <= count - (groups - group); end++) {
+      for (let start = group - 1; start < end; start++) {
+        const total = best[group - 1][start] + cost(group - 1, start, end);
+        if (total < best[group][end]) {
+          best[group][end] = total;
+          splits[group][end] = start;
+        }
+      }
+    }
+  }
+
+  const starts: number[] = [];
+  let end = count;
+  for (let group = groups; group > 0; group--) {
+    end = splits[group][end];
+    starts.unshift(end);
+  }
+  return starts;
+}
+
+/**
+ * How badly a part suits an instrument: the share of its notes outside the
+ * instrument's range, plus the distance between their tessituras
+ */
+function fitCost(profile: PartProfile, range: InstrumentRange): number {
+  let outside = 0;
+  for (const midi of profile.pitches) {
+    if (midi < range.extreme.low || midi > range.extreme.high) outside += UNPLAYABLE_WEIGHT;
+    else if (midi < range.comfortable.low || midi > range.comfortable.high) outside += 1;
+  }
+  const distance = Math.abs(profile.median - rangeCenter(range)) / 12;
+  return outside / profile.pitches.length + TESSITURA_WEIGHT * distance;
+}
+
+function rangeCenter(range: InstrumentRange): number {
+  return (range.comfortable.low + range.comfortable.high) / 2;
+}
+
+function describeRangeProblem(profile: PartProfile, instrument: Instrument): string | null {
+  const range = instrument.range!;
+  const unplayable = profile.pitches.filter(midi => midi < range.extreme.low || midi > range.extreme.high);
+  const uncomfortable = profile.pitches.filter(midi => midi < range.comfortable.low || midi > range.comfortable.high);
+  const [outside, bounds, label] = unplayable.length > 0
+    ? [unplayable, range.extreme, 'range']
+    : [uncomfortable, range.comfortable, 'comfortable range'];
+  if (outside.length === 0) return null;
+
+  const count = outside.length === 1 ? '1 note' : `${outside.length} notes`;
+  const extremes = [...new Set([outside[0], outside[outside.length - 1]])]
+    .map(midi => describePitch(midiToPitch(midi)))
+    .join(' to ');
+  return `${count} of ${profile.part.name} (${extremes}) ${outside.length === 1 ? 'lies' : 'lie'} outside the ${instrument.name}'s ${label} (${describeRange(bounds)})`;
+}
+
+function listNames(names: string[]): string {
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0] ?? '';
+}
+
+function choice(message: string): OrchestrationNote {
+  return { kind: 'choice', message };
+}
+
+function compromise(message: string): OrchestrationNote {
+  return { kind: 'compromise', message };
+}
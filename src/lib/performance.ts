@@ -0,0 +1,230 @@
+/**
+ * Performance
+ *
+ * Turns the notated score model into timed, playable events: absolute note
+ * start times with tied notes merged, velocities from dynamics, measure start
+ * positions and the clock for tempo changes (the changes themselves come
+ * from ./tempo-map.ts). The MIDI writer and the audio renderers all read the
+ * score through these functions so they agree on what is played.
+ *
+ * Times are absolute ticks from the start of the score, in the model's
+ * `divisions` per quarter note.
+ */
+
+import {
+  type DynamicMarking,
+  type ScoreModel,
+  type ScoreNote,
+  measureTicks,
+  pitchToMidi,
+  resolveMeasureAttributes,
+} from './score-model.ts';
+
+/**
+ * Which notes of the score a track plays. Staff and voice narrow the
+ * selection; leaving them out takes every staff or voice of the part.
+ */
+export interface PartSource {
+  partId: string;
+  staff?: number;
+  voice?: number;
+}
+
+/**
+ * A note as performed: absolute start and length in ticks
+ */
+export interface PerformedNote {
+  tick: number;
+  duration: number;
+  midi: number;
+  velocity: number;
+}
+
+/**
+ * Tempo in quarter notes per minute from a tick onwards
+ */
+export interface TempoChange {
+  tick: number;
+  bpm: number;
+}
+
+/**
+ * Where each measure starts, shared by all parts
+ */
+export interface ScoreTimeline {
+  measureStarts: number[];
+  totalTicks: number;
+}
+
+export const DEFAULT_VELOCITY = 80;
+
+const DYNAMIC_VELOCITIES: Record<DynamicMarking, number> = {
+  ppp: 24,
+  pp: 36,
+  p: 50,
+  mp: 64,
+  mf: 80,
+  f: 96,
+  ff: 110,
+  fff: 124,
+  sf: 112,
+  sfz: 116,
+  fp: 96,
+};
+
+// Accents that apply to a single note and do not change the running level
+const ACCENT_MARKINGS: DynamicMarking[] = ['sf', 'sfz'];
+
+/**
+ * Measure start ticks. Full measures take their time signature's length;
+ * pickup and other implicit measures take the length of their content.
+ */
+export function scoreTimeline(model: ScoreModel): ScoreTimeline {
+  const measureCount = Math.max(0, ...model.parts.map(part => part.measures.length));
+  const attributes = model.parts.map(part => resolveMeasureAttributes(part));
+  const measureStarts: number[] = [];
+  let tick = 0;
+
+  for (let index = 0; index < measureCount; index++) {
+    measureStarts.push(tick);
+
+    let nominal = 0;
+    let content = 0;
+    let implicit = false;
+    model.parts.forEach((part, partIndex) => {
+      const measure = part.measures[index];
+      if (!measure) return;
+
+      implicit = implicit || Boolean(measure.implicit);
+      nominal = Math.max(nominal, measureTicks(attributes[partIndex][index].time, model.divisions));
+      for (const event of measure.events) {
+        if (event.type === 'note' || event.type === 'rest') {
+          content = Math.max(content, event.offset + event.duration);
+        }
+      }
+    });
+
+    tick += implicit && content > 0 ? content : nominal;
+  }
+
+  return { measureStarts, totalTicks: tick };
+}
+
+/**
+ * Index of the measure containing a tick
+ */
+export function measureIndexAt(timeline: ScoreTimeline, tick: number): number {
+  let low = 0;
+  let high = timeline.measureStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (timeline.measureStarts[middle] <= tick) low = middle;
+    else high = middle - 1;
+  }
+  return Math.max(0, low);
+}
+
+/**
+ * Notes played by a set of sources, sorted by start time. Tied notes are
+ * merged into one; grace notes are skipped.
+ */
+export function performNotes(model: ScoreModel, sources: PartSource[], timeline = scoreTimeline(model)): PerformedNote[] {
+  const performed: PerformedNote[] = [];
+
+  for (const source of sources) {
+    const part = model.parts.find(item => item.id === source.partId);
+    if (!part) continue;
+
+    // Open ties keyed by MIDI note number
+    const openTies = new Map<number, PerformedNote>();
+    let level = DEFAULT_VELOCITY;
+
+    part.measures.forEach((measure, index) => {
+      const start = timeline.measureStarts[index];
+      const dynamics = measure.events
+        .filter(event => event.type === 'dynamic')
+        .sort((a, b) => a.offset - b.offset);
+
+      const notes = measure.events.filter((event): event is ScoreNote =>
+        event.type === 'note' &&
+        !event.grace &&
+        (source.staff === undefined || event.staff === source.staff) &&
+        (source.voice === undefined || event.voice === source.voice)
+      );
+
+      let nextDynamic = 0;
+      let accentOffset = -1;
+      let accentVelocity = level;
+      for (const note of notes.sort((a, b) => a.offset - b.offset)) {
+        let accent: number | null = null;
+        while (nextDynamic < dynamics.length && dynamics[nextDynamic].offset <= note.offset) {
+          const dynamic = dynamics[nextDynamic++];
+          if (!ACCENT_MARKINGS.includes(dynamic.marking)) {
+            level = DYNAMIC_VELOCITIES[dynamic.marking];
+          } else if (dynamic.offset === note.offset) {
+            accent = DYNAMIC_VELOCITIES[dynamic.marking];
+          }
+        }
+        // Chord notes share the accent of the first note at their offset
+        const velocity = accent ?? (accentOffset === note.offset ? accentVelocity : level);
+        if (accent !== null) {
+          accentOffset = note.offset;
+          accentVelocity = accent;
+        }
+
+        const midi = pitchToMidi(note.pitch);
+        const tick = start + note.offset;
+        const open = openTies.get(midi);
+
+        if (open && (note.tie === 'stop' || note.tie === 'continue') && open.tick + open.duration >= tick) {
+          open.duration = tick + note.duration - open.tick;
+          if (note.tie === 'stop') openTies.delete(midi);
+          continue;
+        }
+
+        const played: PerformedNote = { tick, duration: note.duration, midi, velocity };
+        performed.push(played);
+
+        if (note.tie === 'start' || note.tie === 'continue') {
+          openTies.set(midi, played);
+        } else {
+          openTies.delete(midi);
+        }
+      }
+
+      // A level set after the last note carries into the next measure
+      for (; nextDynamic < dynamics.length; nextDynamic++) {
+        const marking = dynamics[nextDynamic].marking;
+        if (!ACCENT_MARKINGS.includes(marking)) level = DYNAMIC_VELOCITIES[marking];
+      }
+    });
+  }
+
+  return performed.sort((a, b) => a.tick - b.tick || a.midi - b.midi);
+}
+
+/**
+ * Function converting absolute ticks to seconds under a list of tempo changes
+ */
+export function createTempoClock(changes: TempoChange[], divisions: number): (tick: number) => number {
+  const sorted = [...changes].sort((a, b) => a.tick - b.tick);
+  const segments: { tick: number; seconds: number; secondsPerTick: number }[] = [];
+  let seconds = 0;
+
+  sorted.forEach((change, index) => {
+    if (index > 0) {
+      const previous = segments[segments.length - 1];
+      seconds += (change.tick - previous.tick) * previous.secondsPerTick;
+    }
+    segments.push({ tick: change.tick, seconds, secondsPerTick: 60 / (change.bpm * divisions) });
+  });
+
+  return (tick: number) => {
+    let segment = segments[0];
+    for (const candidate of segments) {
+      if (candidate.tick > tick) break;
+      segment = candidate;
+    }
+    return segment ? segment.seconds + (tick - segment.tick) * segment.secondsPerTick : 0;
+  };
+}
@@ -0,0 +1,676 @@
+/**
+ * Playback Engine
+ *
+ * Plays a conversion in the page with the Web Audio API, straight from its
+ * score model rather than from the rendered audio file. Notes are scheduled
+ * a fraction of a second ahead of the audio clock, so tempo, transposition,
+ * the mix of each track and loop points take effect while the music plays;
+ * the rendered file is only needed for downloads.
+ *
+ * Instruments are played from the renderer's SoundFont when the page has
+ * loaded it, so live playback sounds like the rendered file: each region's
+ * sample plays from a buffer source, tuned, looped and enveloped as the
+ * offline sampler (./soundfont.ts) plays it, except that a region looping
+ * until release keeps looping through its release. Instruments without a
+ * preset use the synthesized patches of the offline renderer
+ * (./audio-render.ts), whose vibrato starts with the note here instead of
+ * after the patch's delay.
+ *
+ * Positions are seconds of the conversion as rendered, at its own tempo:
+ * the timeline of the audio file and of the measure sequence. A different
+ * speed moves through that timeline faster or slower.
+ */
+
+import type { Conversion, TrackMix } from './types.ts';
+import type { ScoreModel } from './score-model.ts';
+import { type ArrangementTrack, buildArrangement } from './arrangement.ts';
+import { SAMPLER_GAIN, type SynthPatch, patchFor } from './audio-render.ts';
+import {
+  type InstrumentVoice,
+  type SoundFont,
+  type SoundFontEnvelope,
+  type SoundFontRegion,
+  envelopeLevel,
+  regionsFor,
+  voiceForInstrument,
+} from './soundfont.ts';
+import { type TempoChange, createTempoClock, performNotes, scoreTimeline } from './performance.ts';
+import { buildTempoMap, tempoChanges } from './tempo-map.ts';
+
+/**
+ * What the engine plays: a conversion's model in performance order, its
+ * tracks, its tempo changes and the SoundFont to play them with
+ */
+export interface PlaybackScore {
+  model: ScoreModel;
+  tracks: ArrangementTrack[];
+  tempo: TempoChange[];
+  // Without one, every instrument uses its synthesized patch
+  soundFont?: SoundFont | null;
+}
+
+/**
+ * Section played over and over, in seconds of the conversion's timeline
+ */
+export interface PlaybackLoop {
+  start: number;
+  end: number;
+}
+
+export interface PlaybackEngineOptions {
+  // Called when playback reaches the end of the score
+  onEnded?: () => void;
+}
+
+export interface PlaybackEngine {
+  // Length of the score in seconds at the conversion's tempo
+  readonly duration: number;
+  isPlaying(): boolean;
+  currentTime(): number;
+  play(): Promise<void>;
+  pause(): void;
+  seek(seconds: number): void;
+  // Playback speed relative to the conversion's tempo
+  setSpeed(speed: number): void;
+  // Semitones above the conversion's key; unpitched percussion is unchanged
+  setTransposition(semitones: number): void;
+  setMix(mix: Record<string, TrackMix>): void;
+  setLoop(loop: PlaybackLoop | null): void;
+  // Peak level of each track's output just now, 0 to 1, by track id
+  levels(): Record<string, number>;
+  dispose(): void;
+}
+
+interface TimedNote {
+  track: number;
+  start: number;
+  end: number;
+  midi: number;
+  velocity: number;
+}
+
+/**
+ * Audio nodes of one track: notes feed its gain, which feeds its panner
+ */
+interface TrackChain {
+  track: ArrangementTrack;
+  // The SoundFont preset that plays the track, if any, else its patch
+  voice?: InstrumentVoice;
+  patch: SynthPatch;
+  gain: GainNode;
+  panner: StereoPannerNode;
+  // Taps the track after its gain, for the level meter
+  meter: AnalyserNode;
+  // Shared vibrato, in cents, connected to each note's detune
+  vibrato?: GainNode;
+}
+
+interface SoundingNote {
+  envelope: GainNode;
+  sources: AudioScheduledSourceNode[];
+  // Follows a change of transposition; unset for unpitched notes
+  retune?: (semitones: number, now: number) => void;
+  // The synthesized oscillator, fed by the track's vibrato
+  oscillator?: OscillatorNode;
+}
+
+/**
+ * The audio clock time at which playback was at a position of the timeline
+ */
+interface Anchor {
+  time: number;
+  position: number;
+}
+
+// How far ahead notes are scheduled, and how often the schedule is topped up
+const LOOKAHEAD = 0.15;
+const SCHEDULE_INTERVAL_MS = 40;
+// Level of the mix before the limiter, leaving room for several tracks
+const MASTER_GAIN = 0.5;
+// Time constant of mix and pitch changes, quick enough to sound immediate
+// without clicks
+const CHANGE_TIME = 0.01;
+// Samples the level meters look at, about 6 ms at 44.1 kHz
+const METER_SIZE = 256;
+const SHORTEST_NOTE = 0.02;
+const SHORTEST_LOOP = 0.1;
+
+/**
+ * Whether the browser can run the engine; otherwise the rendered audio file
+ * is played instead
+ */
+export function isPlaybackEngineSupported(): boolean {
+  return typeof AudioContext !== 'undefined';
+}
+
+/**
+ * Symbolic data for playing a completed conversion: the tracks it was
+ * arranged into (those with notes to play), the tempo map it recorded and
+ * the SoundFont it was rendered with, when the page could load it
+ */
+export function conversionPlaybackScore(
+  model: ScoreModel,
+  conversion: Pick<Conversion, 'instruments' | 'partAssignments' | 'voices' | 'sungParts' | 'tempo' | 'tempoMode' | 'tempoMap'>,
+  soundFont: SoundFont | null = null,
+): PlaybackScore {
+  const map = conversion.tempoMap ?? buildTempoMap(model, conversion.tempo, conversion.tempoMode);
+  return {
+    model,
+    tracks: buildArrangement(model, conversion).filter(track => track.sources.length > 0),
+    tempo: tempoChanges(map, model.divisions),
+    soundFont,
+  };
+}
+
+/**
+ * The mix each track starts with: as saved on the conversion, otherwise as
+ * it was converted
+ */
+export function defaultTrackMix(
+  tracks: ArrangementTrack[],
+  saved: Record<string, TrackMix> = {},
+): Record<string, TrackMix> {
+  return Object.fromEntries(tracks.map(track => [
+    track.id,
+    saved[track.id] ?? { volume: track.gain, pan: track.pan, muted: track.muted, solo: false },
+  ]));
+}
+
+/**
+ * Engine for one score. The audio context is created on the first call to
+ * play, since browsers only start audio after the user has interacted with
+ * the page.
+ */
+export function createPlaybackEngine(score: PlaybackScore, options: PlaybackEngineOptions = {}): PlaybackEngine {
+  const timeline = scoreTimeline(score.model);
+  const clock = createTempoClock(score.tempo, score.model.divisions);
+  const tracks = score.tracks.filter(track => track.sources.length > 0);
+  const duration = clock(timeline.totalTicks);
+  const notes: TimedNote[] = tracks
+    .flatMap((track, index) => performNotes(score.model, track.sources, timeline).map(note => ({
+      track: index,
+      start: clock(note.tick),
+      end: clock(note.tick + note.duration),
+      midi: note.midi,
+      velocity: note.velocity,
+    })))
+    .sort((a, b) => a.start - b.start);
+
+  let context: AudioContext | null = null;
+  let chains: TrackChain[] = [];
+  let noise: AudioBuffer | null = null;
+  const waves = new Map<SynthPatch['harmonics'], PeriodicWave>();
+  // SoundFont samples by their frames, shared by the regions that play them
+  const samples = new Map<string, AudioBuffer>();
+  const sounding = new Set<SoundingNote>();
+
+  let mix = defaultTrackMix(tracks);
+  let speed = 1;
+  let transposition = 0;
+  let loop: PlaybackLoop | null = null;
+  let playing = false;
+  // Where playback resumes while stopped
+  let position = 0;
+  // While playing: the current anchor, followed by the jump back to the
+  // start of the loop once it has been scheduled
+  let anchors: Anchor[] = [];
+  // Next note to schedule
+  let cursor = 0;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  function setupAudio(): AudioContext {
+    if (context) return context;
+    const audio = new AudioContext();
+    const master = audio.createGain();
+    master.gain.value = MASTER_GAIN;
+    master.connect(audio.createDynamicsCompressor()).connect(audio.destination);
+
+    chains = tracks.map(track => {
+      const voice = score.soundFont ? voiceForInstrument(score.soundFont, track.instrumentId) : undefined;
+      const patch = patchFor(track.instrumentId);
+      const gain = audio.createGain();
+      const panner = audio.createStereoPanner();
+      const meter = audio.createAnalyser();
+      meter.fftSize = METER_SIZE;
+      gain.connect(panner).connect(master);
+      gain.connect(meter);
+
+      let vibrato: GainNode | undefined;
+      if (!voice && patch.vibrato && !patch.noise) {
+        const lfo = audio.createOscillator();
+        lfo.frequency.value = patch.vibrato.rate;
+        vibrato = audio.createGain();
+        vibrato.gain.value = patch.vibrato.depth * 100;
+        lfo.connect(vibrato);
+        lfo.start();
+      }
+      return { track, voice, patch, gain, panner, meter, vibrato };
+    });
+
+    context = audio;
+    applyMix();
+    return audio;
+  }
+
+  function applyMix() {
+    if (!context) return;
+    const now = context.currentTime;
+    const soloing = tracks.some(track => mix[track.id]?.solo);
+
+    for (const chain of chains) {
+      const settings = mix[chain.track.id] ?? defaultTrackMix([chain.track])[chain.track.id];
+      const audible = !settings.muted && (!soloing || settings.solo);
+      chain.gain.gain.setTargetAtTime(audible ? Math.max(0, settings.volume) : 0, now, CHANGE_TIME);
+      chain.panner.pan.setTargetAtTime(Math.max(-1, Math.min(1, settings.pan)), now, CHANGE_TIME);
+    }
+  }
+
+  function positionAt(time: number): number {
+    let anchor = anchors[0];
+    for (const candidate of anchors) {
+      if (candidate.time > time) break;
+      anchor = candidate;
+    }
+    return anchor.position + (time - anchor.time) * speed;
+  }
+
+  function currentTime(): number {
+    if (!playing || !context) return position;
+    return Math.max(0, Math.min(duration, positionAt(context.currentTime)));
+  }
+
+  /**
+   * Index of the first note starting at or after a position
+   */
+  function noteIndexAt(seconds: number): number {
+    let low = 0;
+    let high = notes.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (notes[middle].start < seconds) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  }
+
+  function schedule() {
+    const audio = context!;
+    const horizon = audio.currentTime + LOOKAHEAD;
+    anchors = anchors.filter((anchor, index) => index === anchors.length - 1 || anchors[index + 1].time > audio.currentTime);
+
+    for (;;) {
+      const anchor = anchors[anchors.length - 1];
+      const timeOf = (seconds: number) => anchor.time + (seconds - anchor.position) / speed;
+      const end = loop ? loop.end : duration;
+      const until = Math.min(anchor.position + (horizon - anchor.time) * speed, end);
+
+      while (cursor < notes.length && notes[cursor].start < until) {
+        const note = notes[cursor++];
+        startNote(note, timeOf(note.start), loop ? Math.min(note.end, loop.end) : note.end);
+      }
+      if (until < end) return;
+
+      const boundary = timeOf(end);
+      if (!loop) {
+        if (audio.currentTime >= boundary) finish();
+        return;
+      }
+      anchors.push({ time: boundary, position: loop.start });
+      cursor = noteIndexAt(loop.start);
+    }
+  }
+
+  function startNote(note: TimedNote, when: number, end: number) {
+    const chain = chains[note.track];
+    const held = Math.max((end - note.start) / speed, SHORTEST_NOTE);
+    const voice = chain.voice
+      ? startSampledNote(chain, chain.voice, note, when, held)
+      : startSynthesizedNote(chain, note, when, held);
+    if (!voice) return;
+
+    let remaining = voice.sources.length;
+    const ended = () => {
+      if (--remaining > 0) return;
+      if (voice.oscillator) chain.vibrato?.disconnect(voice.oscillator.detune);
+      voice.envelope.disconnect();
+      sounding.delete(voice);
+    };
+    for (const source of voice.sources) source.onended = ended;
+    sounding.add(voice);
+  }
+
+  /**
+   * Play a note from the SoundFont regions of its key and velocity, as the
+   * offline sampler does; null when no region sounds
+   */
+  function startSampledNote(
+    chain: TrackChain,
+    sampled: InstrumentVoice,
+    note: TimedNote,
+    when: number,
+    held: number,
+  ): SoundingNote | null {
+    const audio = context!;
+    // Drums keep their key; pitched notes use the regions of the key they
+    // sound at
+    const key = sampled.drumKey ?? Math.max(0, Math.min(127, note.midi + transposition));
+    const regions = regionsFor(sampled.preset, key, note.velocity);
+    if (regions.length === 0) return null;
+
+    const envelope = audio.createGain();
+    envelope.connect(chain.gain);
+    const voice: SoundingNote = { envelope, sources: [] };
+    const tuned: [AudioBufferSourceNode, SoundFontRegion][] = [];
+
+    for (const region of regions) {
+      const source = audio.createBufferSource();
+      source.buffer = sampleBuffer(audio, score.soundFont!, region);
+      if (region.loop !== 'none' && region.loopEnd - region.loopStart > 1) {
+        source.loop = true;
+        source.loopStart = (region.loopStart - region.start) / region.sampleRate;
+        source.loopEnd = (region.loopEnd - region.start) / region.sampleRate;
+      }
+      source.playbackRate.value = playbackRate(region, key);
+
+      // Default SoundFont velocity curve, as in the offline sampler
+      const amplitude = (note.velocity / 127) ** 2 * 10 ** (-region.attenuation / 20) * SAMPLER_GAIN;
+      const level = audio.createGain();
+      shapeSampledEnvelope(level.gain, region.envelope, when, held, amplitude);
+      source.connect(level);
+      if (region.pan) {
+        const panner = audio.createStereoPanner();
+        panner.pan.value = region.pan;
+        level.connect(panner).connect(envelope);
+      } else {
+        level.connect(envelope);
+      }
+
+      source.start(when);
+      source.stop(when + held + region.envelope.release);
+      voice.sources.push(source);
+      tuned.push([source, region]);
+    }
+
+    if (sampled.drumKey === undefined) {
+      voice.retune = (semitones, now) => {
+        for (const [source, region] of tuned) {
+          source.playbackRate.setTargetAtTime(playbackRate(region, note.midi + semitones), now, CHANGE_TIME);
+        }
+      };
+    }
+    return voice;
+  }
+
+  function startSynthesizedNote(chain: TrackChain, note: TimedNote, when: number, held: number): SoundingNote {
+    const audio = context!;
+    const { patch } = chain;
+    const length = patch.percussive
+      ? Math.min(held + patch.release, patch.attack + patch.decay * 4)
+      : held + patch.release;
+    const tones = patch.noise?.tones ?? [];
+    const amplitude = ((note.velocity / 127) ** 1.5 * patch.gain) / (1 + tones.length);
+
+    const envelope = audio.createGain();
+    shapeEnvelope(envelope.gain, patch, when, held, amplitude);
+    envelope.connect(chain.gain);
+    const voice: SoundingNote = { envelope, sources: [] };
+
+    if (patch.noise) {
+      const brightness = patch.noise.brightness;
+      const filter = audio.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = 200 + brightness ** 2 * 15000;
+      filter.connect(envelope);
+
+      const source = audio.createBufferSource();
+      source.buffer = noiseBuffer(audio);
+      source.loop = true;
+      source.connect(filter);
+      voice.sources.push(source);
+
+      for (const frequency of tones) {
+        const tone = audio.createOscillator();
+        const level = audio.createGain();
+        tone.frequency.value = frequency;
+        level.gain.value = 1 - brightness * 0.5;
+        tone.connect(level).connect(envelope);
+        voice.sources.push(tone);
+      }
+    } else {
+      const oscillator = audio.createOscillator();
+      oscillator.setPeriodicWave(periodicWave(audio, patch.harmonics));
+      oscillator.frequency.value = frequency(note.midi + transposition);
+      oscillator.connect(envelope);
+      chain.vibrato?.connect(oscillator.detune);
+      voice.oscillator = oscillator;
+      voice.retune = (semitones, now) => {
+        oscillator.frequency.setTargetAtTime(frequency(note.midi + semitones), now, CHANGE_TIME);
+      };
+      voice.sources.push(oscillator);
+    }
+
+    for (const source of voice.sources) {
+      source.start(when);
+      source.stop(when + length);
+    }
+    return voice;
+  }
+
+  function silence() {
+    if (!context) return;
+    const now = context.currentTime;
+    for (const voice of sounding) {
+      voice.envelope.gain.cancelScheduledValues(now);
+      voice.envelope.gain.setTargetAtTime(0, now, CHANGE_TIME);
+      for (const source of voice.sources) source.stop(now + CHANGE_TIME * 5);
+    }
+  }
+
+  function periodicWave(audio: AudioContext, harmonics: number[]): PeriodicWave {
+    let wave = waves.get(harmonics);
+    if (!wave) {
+      const imag = new Float32Array([0, ...harmonics]);
+      wave = audio.createPeriodicWave(new Float32Array(imag.length), imag);
+      waves.set(harmonics, wave);
+    }
+    return wave;
+  }
+
+  /**
+   * A region's sample as an audio buffer at its own sample rate, which the
+   * context resamples as it plays
+   */
+  function sampleBuffer(audio: AudioContext, font: SoundFont, region: SoundFontRegion): AudioBuffer {
+    const id = `${region.start}:${region.end}:${region.sampleRate}`;
+    let buffer = samples.get(id);
+    if (!buffer) {
+      const data = font.sampleData.subarray(Math.max(0, region.start), Math.max(0, region.end));
+      buffer = audio.createBuffer(1, Math.max(1, data.length), region.sampleRate);
+      const channel = buffer.getChannelData(0);
+      for (let i = 0; i < data.length; i++) channel[i] = data[i] / 32768;
+      samples.set(id, buffer);
+    }
+    return buffer;
+  }
+
+  function noiseBuffer(audio: AudioContext): AudioBuffer {
+    if (!noise) {
+      noise = audio.createBuffer(1, audio.sampleRate, audio.sampleRate);
+      const samples = noise.getChannelData(0);
+      for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+    }
+    return noise;
+  }
+
+  /**
+   * Carry on from a position, dropping whatever was scheduled
+   */
+  function restart(from: number) {
+    silence();
+    anchors = [{ time: context!.currentTime, position: from }];
+    cursor = noteIndexAt(from);
+    schedule();
+  }
+
+  function stop() {
+    playing = false;
+    if (timer !== null) clearInterval(timer);
+    timer = null;
+  }
+
+  function finish() {
+    stop();
+    position = 0;
+    options.onEnded?.();
+  }
+
+  return {
+    duration,
+    isPlaying: () => playing,
+    currentTime,
+
+    async play() {
+      if (playing) return;
+      const audio = setupAudio();
+      await audio.resume();
+      playing = true;
+      restart(position < duration ? position : 0);
+      timer = setInterval(schedule, SCHEDULE_INTERVAL_MS);
+    },
+
+    pause() {
+      if (!playing) return;
+      position = currentTime();
+      stop();
+      silence();
+    },
+
+    seek(seconds: number) {
+      const target = Math.max(0, Math.min(duration, seconds));
+      if (playing) restart(target);
+      else position = target;
+    },
+
+    setSpeed(next: number) {
+      if (!(next > 0) || next === speed) return;
+      if (!playing || !context) {
+        speed = next;
+        return;
+      }
+      const now = context.currentTime;
+      const from = positionAt(now);
+      speed = next;
+      // A jump back to the loop start already scheduled would come at the
+      // wrong time, so the schedule is made again
+      if (anchors[anchors.length - 1].time > now) {
+        restart(from);
+      } else {
+        anchors = [{ time: now, position: from }];
+      }
+    },
+
+    setTransposition(semitones: number) {
+      transposition = semitones;
+      if (!context) return;
+      const now = context.currentTime;
+      for (const voice of sounding) voice.retune?.(semitones, now);
+    },
+
+    setMix(next: Record<string, TrackMix>) {
+      mix = next;
+      applyMix();
+    },
+
+    setLoop(next: PlaybackLoop | null) {
+      if (next) {
+        const start = Math.max(0, Math.min(next.start, duration - SHORTEST_LOOP));
+        loop = { start, end: Math.min(duration, Math.max(next.end, start + SHORTEST_LOOP)) };
+      } else {
+        loop = null;
+      }
+      if (!playing) return;
+      const current = currentTime();
+      restart(loop && current >= loop.end ? loop.start : current);
+    },
+
+    levels() {
+      const samples = new Float32Array(METER_SIZE);
+      return Object.fromEntries(chains.map(chain => {
+        chain.meter.getFloatTimeDomainData(samples);
+        let peak = 0;
+        for (const sample of samples) peak = Math.max(peak, Math.abs(sample));
+        return [chain.track.id, Math.min(1, peak)];
+      }));
+    },
+
+    dispose() {
+      stop();
+      silence();
+      context?.close();
+      context = null;
+      samples.clear();
+    },
+  };
+}
+
+/**
+ * Attack, decay to the sustain level (or away, for percussive patches) and
+ * release, as in the offline renderer's envelope
+ */
+function shapeEnvelope(gain: AudioParam, patch: SynthPatch, when: number, held: number, amplitude: number) {
+  const { attack, decay, sustain, release } = patch;
+  gain.setValueAtTime(0, when);
+  gain.linearRampToValueAtTime(amplitude * Math.min(1, held / attack), when + Math.min(attack, held));
+
+  if (held > attack) {
+    if (patch.percussive) {
+      gain.setTargetAtTime(0, when + attack, decay / 3);
+    } else {
+      const decayed = Math.min(1, (held - attack) / decay);
+      gain.linearRampToValueAtTime(amplitude * (1 - (1 - sustain) * decayed), when + Math.min(attack + decay, held));
+    }
+  }
+  gain.setTargetAtTime(0, when + held, release / 4);
+}
+
+/**
+ * Delay, attack, hold, decay to the sustain level and release of a
+ * SoundFont region, as in the offline sampler: the attack is linear, the
+ * decay and release linear in decibels
+ */
+function shapeSampledEnvelope(
+  gain: AudioParam,
+  envelope: SoundFontEnvelope,
+  when: number,
+  held: number,
+  amplitude: number,
+) {
+  const { delay, attack, hold, decay, release } = envelope;
+  const level = (t: number) => amplitude * envelopeLevel(envelope, Math.min(t, held));
+  gain.setValueAtTime(0, when);
+  gain.setValueAtTime(0, when + Math.min(delay, held));
+
+  if (held > delay) {
+    gain.linearRampToValueAtTime(level(delay + attack), when + Math.min(delay + attack, held));
+  }
+  if (held > delay + attack) {
+    gain.setValueAtTime(level(delay + attack), when + Math.min(delay + attack + hold, held));
+  }
+  if (held > delay + attack + hold) {
+    const end = delay + attack + hold + decay;
+    gain.exponentialRampToValueAtTime(Math.max(level(end), 1e-6), when + Math.min(end, held));
+  }
+  // Release falls 100 dB over the release time
+  gain.setTargetAtTime(0, when + held, Math.max(release, 0.001) / (5 * Math.LN10));
+}
+
+/**
+ * Playback rate that tunes a region's sample to a key
+ */
+function playbackRate(region: SoundFontRegion, key: number): number {
+  return 2 ** (((key - region.rootKey) * region.scaleTuning + region.tune) / 1200);
+}
+
+function frequency(midi: number): number {
+  return 440 * 2 ** ((midi - 69) / 12);
+}
@@ -0,0 +1,252 @@
+/**
+ * PNG Images
+ *
+ * Decodes PNG files to 8-bit RGBA pixels and encodes 8-bit grayscale PNGs.
+ * Used to read uploaded score images for recognition and to write the
+ * synthetic images in fixtures/omr. Image data is inflated and deflated with
+ * the platform's CompressionStream, available in browsers and in the Deno
+ * edge runtime. Interlaced images are not supported.
+ */
+
+export const PNG_CONTENT_TYPE = 'image/png';
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const COLOR_GRAY = 0;
+const COLOR_RGB = 2;
+const COLOR_PALETTE = 3;
+const COLOR_GRAY_ALPHA = 4;
+const COLOR_RGBA = 6;
+
+const CHANNELS: Record<number, number> = {
+  [COLOR_GRAY]: 1,
+  [COLOR_RGB]: 3,
+  [COLOR_PALETTE]: 1,
+  [COLOR_GRAY_ALPHA]: 2,
+  [COLOR_RGBA]: 4,
+};
+
+/**
+ * Decoded image: `data` holds RGBA bytes, row by row from the top
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Whether bytes start with the PNG signature
+ */
+export function isPng(bytes: Uint8Array): boolean {
+  return SIGNATURE.every((value, index) => bytes[index] === value);
+}
+
+/**
+ * Decode a PNG file
+ */
+export async function decodePng(bytes: Uint8Array): Promise<RgbaImage> {
+  if (!isPng(bytes)) throw new Error('Not a PNG file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const compressed: Uint8Array[] = [];
+
+  let offset = SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      const header = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      width = header.getUint32(0);
+      height = header.getUint32(4);
+      [bitDepth, colorType] = [data[8], data[9]];
+      if (data[12] !== 0) throw new Error('Interlaced PNG images are not supported');
+      if (CHANNELS[colorType] === undefined) throw new Error(`Unsupported PNG color type ${colorType}`);
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      compressed.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+  if (width === 0 || height === 0) throw new Error('PNG file has no image header');
+  if (colorType === COLOR_PALETTE && !palette) throw new Error('PNG palette is missing');
+
+  const raw = await inflate(concat(compressed));
+  const bitsPerPixel = CHANNELS[colorType] * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const pixelBytes = Math.max(1, bitsPerPixel >> 3);
+  if (raw.length < height * (stride + 1)) throw new Error('PNG image data is truncated');
+
+  const rgba = new Uint8Array(width * height * 4);
+  let previous: Uint8Array = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const start = y * (stride + 1);
+    const row = unfilter(raw[start], raw.subarray(start + 1, start + 1 + stride), previous, pixelBytes);
+    for (let x = 0; x < width; x++) {
+      writePixel(rgba, (y * width + x) * 4, row, x, colorType, bitDepth, palette, transparency);
+    }
+    previous = row;
+  }
+
+  return { width, height, data: rgba };
+}
+
+/**
+ * Encode 8-bit grayscale pixels (one byte per pixel, 0 is black)
+ */
+export async function encodeGrayPng(width: number, height: number, pixels: Uint8Array): Promise<Uint8Array> {
+  const raw = new Uint8Array(height * (width + 1));
+  for (let y = 0; y < height; y++) {
+    raw.set(pixels.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8;
+  header[9] = COLOR_GRAY;
+
+  return concat([
+    new Uint8Array(SIGNATURE),
+    chunk('IHDR', header),
+    chunk('IDAT', await deflate(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+function unfilter(filter: number, row: Uint8Array, previous: Uint8Array, pixelBytes: number): Uint8Array {
+  const out = new Uint8Array(row.length);
+  for (let i = 0; i < row.length; i++) {
+    const left = i >= pixelBytes ? out[i - pixelBytes] : 0;
+    const up = previous[i];
+    const upLeft = i >= pixelBytes ? previous[i - pixelBytes] : 0;
+    let predictor = 0;
+    switch (filter) {
+      case 0: break;
+      case 1: predictor = left; break;
+      case 2: predictor = up; break;
+      case 3: predictor = (left + up) >> 1; break;
+      case 4: predictor = paeth(left, up, upLeft); break;
+      default: throw new Error(`Invalid PNG filter type ${filter}`);
+    }
+    out[i] = (row[i] + predictor) & 0xff;
+  }
+  return out;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+function writePixel(
+  out: Uint8Array,
+  index: number,
+  row: Uint8Array,
+  x: number,
+  colorType: number,
+  bitDepth: number,
+  palette: Uint8Array | null,
+  transparency: Uint8Array | null,
+) {
+  const channels = CHANNELS[colorType];
+  const sample = (channel: number): number => {
+    const position = x * channels + channel;
+    if (bitDepth === 8) return row[position];
+    if (bitDepth === 16) return row[position * 2];
+    const perByte = 8 / bitDepth;
+    const shift = 8 - bitDepth * ((position % perByte) + 1);
+    const value = (row[Math.floor(position / perByte)] >> shift) & ((1 << bitDepth) - 1);
+    // Palette indices are used as they are; gray levels are scaled to 0-255
+    return colorType === COLOR_PALETTE ? value : Math.round((value * 255) / ((1 << bitDepth) - 1));
+  };
+
+  switch (colorType) {
+    case COLOR_GRAY:
+    case COLOR_GRAY_ALPHA: {
+      const gray = sample(0);
+      out.set([gray, gray, gray, colorType === COLOR_GRAY_ALPHA ? sample(1) : 255], index);
+      break;
+    }
+    case COLOR_RGB:
+      out.set([sample(0), sample(1), sample(2), 255], index);
+      break;
+    case COLOR_RGBA:
+      out.set([sample(0), sample(1), sample(2), sample(3)], index);
+      break;
+    case COLOR_PALETTE: {
+      const entry = sample(0);
+      out.set([
+        palette![entry * 3] ?? 0,
+        palette![entry * 3 + 1] ?? 0,
+        palette![entry * 3 + 2] ?? 0,
+        transparency?.[entry] ?? 255,
+      ], index);
+      break;
+    }
+  }
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(data.length + 12);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(Array.from(type, char => char.charCodeAt(0)), 4);
+  out.set(data, 8);
+  view.setUint32(data.length + 8, crc32(out.subarray(4, data.length + 8)));
+  return out;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,107 @@
+/**
+ * Range Check
+ *
+ * Finds passages an arrangement asks an instrument to play outside its
+ * range. Out-of-range notes in the same or neighbouring measures form one
+ * passage; a passage is 'unplayable' if any note lies beyond the extreme
+ * range and 'uncomfortable' if they only leave the comfortable range.
+ * Voices are checked the same way as instruments.
+ */
+
+import type { InstrumentRange, RangeWarning } from './types.ts';
+import { type ScoreModel, describePitch, midiToPitch } from './score-model.ts';
+import { type ArrangementTrack, audibleTracks } from './arrangement.ts';
+import { type ScoreTimeline, measureIndexAt, performNotes, scoreTimeline } from './performance.ts';
+import { describeRange, getInstrumentById } from './instruments.ts';
+
+interface Passage {
+  fromIndex: number;
+  toIndex: number;
+  severity: RangeWarning['severity'];
+  lowest?: number;
+  highest?: number;
+}
+
+/**
+ * Range warnings for every audible track, in track and measure order
+ */
+export function checkRanges(
+  model: ScoreModel,
+  tracks: ArrangementTrack[],
+  timeline: ScoreTimeline = scoreTimeline(model),
+): RangeWarning[] {
+  const warnings: RangeWarning[] = [];
+
+  for (const track of audibleTracks(tracks)) {
+    const range = track.range ?? getInstrumentById(track.instrumentId)?.range;
+    if (!range) continue;
+
+    const passages: Passage[] = [];
+    for (const note of performNotes(model, track.sources, timeline)) {
+      const severity = rangeSeverity(note.midi, range);
+      if (!severity) continue;
+
+      const index = measureIndexAt(timeline, note.tick);
+      let passage = passages[passages.length - 1];
+      if (!passage || index > passage.toIndex + 1) {
+        passage = { fromIndex: index, toIndex: index, severity };
+        passages.push(passage);
+      }
+      passage.toIndex = index;
+      if (severity === 'unplayable') passage.severity = severity;
+      if (note.midi < range.comfortable.low) {
+        passage.lowest = Math.min(passage.lowest ?? note.midi, note.midi);
+      } else {
+        passage.highest = Math.max(passage.highest ?? note.midi, note.midi);
+      }
+    }
+
+    const part = model.parts.find(item => item.id === track.sources[0]?.partId);
+    const measureNumber = (index: number) => part?.measures[index]?.number ?? index + 1;
+    for (const passage of passages) {
+      const fromMeasure = measureNumber(passage.fromIndex);
+      const toMeasure = measureNumber(passage.toIndex);
+      warnings.push({
+        trackId: track.id,
+        trackName: track.name,
+        instrumentId: track.instrumentId,
+        severity: passage.severity,
+        fromMeasure,
+        toMeasure,
+        ...(passage.lowest !== undefined && { lowest: passage.lowest }),
+        ...(passage.highest !== undefined && { highest: passage.highest }),
+        message: describePassage(track.name, range, passage, fromMeasure, toMeasure),
+      });
+    }
+  }
+
+  return warnings;
+}
+
+function rangeSeverity(midi: number, range: InstrumentRange): RangeWarning['severity'] | null {
+  if (midi < range.extreme.low || midi > range.extreme.high) return 'unplayable';
+  if (midi < range.comfortable.low || midi > range.comfortable.high) return 'uncomfortable';
+  return null;
+}
+
+function describePassage(
+  trackName: string,
+  range: InstrumentRange,
+  passage: Passage,
+  fromMeasure: number,
+  toMeasure: number,
+): string {
+  const measures = fromMeasure === toMeasure ? `measure ${fromMeasure}` : `measures ${fromMeasure}–${toMeasure}`;
+  const reach = [
+    passage.lowest !== undefined && `down to ${noteName(passage.lowest)}`,
+    passage.highest !== undefined && `up to ${noteName(passage.highest)}`,
+  ].filter(Boolean).join(' and ');
+  const [label, bounds] = passage.severity === 'unplayable'
+    ? ['playable', range.extreme]
+    : ['comfortable', range.comfortable];
+  return `${trackName}, ${measures}: goes ${reach}, outside its ${label} range (${describeRange(bounds)})`;
+}
+
+function noteName(midi: number): string {
+  return describePitch(midiToPitch(midi));
+}
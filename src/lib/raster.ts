@@ -0,0 +1,324 @@
+/**
+ * Raster Images
+ *
+ * Grayscale and binary bitmaps for optical music recognition: conversion
+ * from decoded RGBA pixels, global thresholding, connected components, and
+ * the anti-aliased drawing primitives used to render notation glyphs.
+ *
+ * Coordinates are in pixels with the origin at the top left. Gray values run
+ * from 0 (black) to 255 (white); binary images store 1 for ink.
+ */
+
+import type { RgbaImage } from './png.ts';
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface BinaryImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A connected group of ink pixels. `mask` is cropped to `box`.
+ */
+export interface Component {
+  box: Box;
+  pixels: number;
+  mask: BinaryImage;
+}
+
+export type Point = [number, number];
+
+// Sub-pixel samples per axis when measuring how much of a pixel a shape covers
+const SUPERSAMPLING = 4;
+
+export function createGrayImage(width: number, height: number, fill = 255): GrayImage {
+  return { width, height, data: new Uint8Array(width * height).fill(fill) };
+}
+
+export function createBinaryImage(width: number, height: number): BinaryImage {
+  return { width, height, data: new Uint8Array(width * height) };
+}
+
+/**
+ * Convert RGBA pixels to gray, compositing transparent areas onto white
+ */
+export function toGrayImage(image: RgbaImage): GrayImage {
+  const gray = createGrayImage(image.width, image.height);
+  for (let i = 0; i < gray.data.length; i++) {
+    const [r, g, b, a] = image.data.subarray(i * 4, i * 4 + 4);
+    const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+    gray.data[i] = Math.round(255 - ((255 - luma) * a) / 255);
+  }
+  return gray;
+}
+
+/**
+ * Otsu's threshold: the gray level that best separates ink from paper
+ */
+export function otsuThreshold(image: GrayImage): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of image.data) histogram[value]++;
+
+  const total = image.data.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let backgroundSum = 0;
+  let backgroundCount = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let value = 0; value < 256; value++) {
+    backgroundCount += histogram[value];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = total - backgroundCount;
+    if (foregroundCount === 0) break;
+    backgroundSum += value * histogram[value];
+    const meanDark = backgroundSum / backgroundCount;
+    const meanLight = (sum - backgroundSum) / foregroundCount;
+    const between = backgroundCount * foregroundCount * (meanDark - meanLight) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = value;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * Mark pixels at or below the threshold as ink
+ */
+export function binarize(image: GrayImage, threshold = otsuThreshold(image)): BinaryImage {
+  const binary = createBinaryImage(image.width, image.height);
+  for (let i = 0; i < image.data.length; i++) {
+    binary.data[i] = image.data[i] <= threshold ? 1 : 0;
+  }
+  return binary;
+}
+
+/**
+ * Find 8-connected groups of ink pixels, ignoring groups smaller than
+ * `minPixels`. Components are returned in reading order of their first pixel.
+ */
+export function connectedComponents(image: BinaryImage, minPixels = 1): Component[] {
+  const { width, height, data } = image;
+  const labels = new Int32Array(width * height);
+  const components: Component[] = [];
+  const stack: number[] = [];
+  let label = 0;
+
+  for (let start = 0; start < data.length; start++) {
+    if (!data[start] || labels[start]) continue;
+
+    label++;
+    const members: number[] = [];
+    let [minX, minY, maxX, maxY] = [width, height, 0, 0];
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      members.push(index);
+      const x = index % width;
+      const y = (index - x) / width;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const neighbour = ny * width + nx;
+          if (data[neighbour] && !labels[neighbour]) {
+            labels[neighbour] = label;
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+
+    if (members.length < minPixels) continue;
+    const box = { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+    const mask = createBinaryImage(box.width, box.height);
+    for (const index of members) {
+      const x = index % width;
+      const y = (index - x) / width;
+      mask.data[(y - minY) * box.width + (x - minX)] = 1;
+    }
+    components.push({ box, pixels: members.length, mask });
+  }
+
+  return components;
+}
+
+/**
+ * Copy the ink of a region into a new image
+ */
+export function cropBinary(image: BinaryImage, box: Box): BinaryImage {
+  const out = createBinaryImage(box.width, box.height);
+  for (let y = 0; y < box.height; y++) {
+    const sy = box.y + y;
+    if (sy < 0 || sy >= image.height) continue;
+    for (let x = 0; x < box.width; x++) {
+      const sx = box.x + x;
+      if (sx < 0 || sx >= image.width) continue;
+      out.data[y * box.width + x] = image.data[sy * image.width + sx];
+    }
+  }
+  return out;
+}
+
+/**
+ * Count the ink pixels in a region
+ */
+export function inkInBox(image: BinaryImage, box: Box): number {
+  let count = 0;
+  const x0 = Math.max(0, Math.floor(box.x));
+  const y0 = Math.max(0, Math.floor(box.y));
+  const x1 = Math.min(image.width, Math.ceil(box.x + box.width));
+  const y1 = Math.min(image.height, Math.ceil(box.y + box.height));
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) count += image.data[y * image.width + x];
+  }
+  return count;
+}
+
+/**
+ * Whether two boxes overlap or touch
+ */
+export function boxesTouch(a: Box, b: Box, margin = 0): boolean {
+  return a.x - margin <= b.x + b.width && b.x - margin <= a.x + a.width &&
+    a.y - margin <= b.y + b.height && b.y - margin <= a.y + a.height;
+}
+
+export function unionBox(a: Box, b: Box): Box {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+/**
+ * Darken the pixels covered by a shape. `inside` tests a point in pixel
+ * coordinates; `bounds` limits the pixels tested.
+ */
+export function fillShape(image: GrayImage, bounds: Box, inside: (x: number, y: number) => boolean) {
+  const x0 = Math.max(0, Math.floor(bounds.x));
+  const y0 = Math.max(0, Math.floor(bounds.y));
+  const x1 = Math.min(image.width, Math.ceil(bounds.x + bounds.width));
+  const y1 = Math.min(image.height, Math.ceil(bounds.y + bounds.height));
+  const step = 1 / SUPERSAMPLING;
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      let covered = 0;
+      for (let sy = 0; sy < SUPERSAMPLING; sy++) {
+        for (let sx = 0; sx < SUPERSAMPLING; sx++) {
+          if (inside(x + (sx + 0.5) * step, y + (sy + 0.5) * step)) covered++;
+        }
+      }
+      if (covered === 0) continue;
+      const value = Math.round(255 * (1 - covered / (SUPERSAMPLING * SUPERSAMPLING)));
+      const index = y * image.width + x;
+      if (value < image.data[index]) image.data[index] = value;
+    }
+  }
+}
+
+/**
+ * Fill an axis-aligned rectangle
+ */
+export function fillRect(image: GrayImage, box: Box) {
+  fillShape(image, box, (x, y) =>
+    x >= box.x && x < box.x + box.width && y >= box.y && y < box.y + box.height);
+}
+
+/**
+ * Fill an ellipse rotated by `angle` radians, optionally leaving an inner
+ * ellipse (with the same centre and rotation) empty
+ */
+export function fillEllipse(
+  image: GrayImage,
+  cx: number,
+  cy: number,
+  rx: number,
+  ry: number,
+  angle = 0,
+  hole?: { rx: number; ry: number; angle?: number },
+) {
+  const reach = Math.max(rx, ry);
+  const inEllipse = (x: number, y: number, a: number, b: number, rotation: number) => {
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const u = (x - cx) * cos + (y - cy) * sin;
+    const v = -(x - cx) * sin + (y - cy) * cos;
+    return (u * u) / (a * a) + (v * v) / (b * b) <= 1;
+  };
+  fillShape(image, { x: cx - reach, y: cy - reach, width: reach * 2, height: reach * 2 }, (x, y) =>
+    inEllipse(x, y, rx, ry, angle) && !(hole && inEllipse(x, y, hole.rx, hole.ry, hole.angle ?? angle)));
+}
+
+/**
+ * Draw a polyline with round joins and caps
+ */
+export function strokePath(image: GrayImage, points: Point[], width: number) {
+  const radius = width / 2;
+  for (let i = 0; i < points.length - 1; i++) {
+    const [ax, ay] = points[i];
+    const [bx, by] = points[i + 1];
+    const bounds = {
+      x: Math.min(ax, bx) - radius,
+      y: Math.min(ay, by) - radius,
+      width: Math.abs(bx - ax) + width,
+      height: Math.abs(by - ay) + width,
+    };
+    fillShape(image, bounds, (x, y) => distanceToSegment(x, y, ax, ay, bx, by) <= radius);
+  }
+}
+
+/**
+ * Fill a polygon (even-odd rule)
+ */
+export function fillPolygon(image: GrayImage, points: Point[]) {
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const bounds = {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
+  fillShape(image, bounds, (x, y) => {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const [xi, yi] = points[i];
+      const [xj, yj] = points[j];
+      if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+  });
+}
+
+function distanceToSegment(x: number, y: number, ax: number, ay: number, bx: number, by: number): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / lengthSquared));
+  return Math.hypot(x - (ax + t * dx), y - (ay + t * dy));
+}
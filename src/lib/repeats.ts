@@ -0,0 +1,245 @@
+/**
+ * Repeats
+ *
+ * Works out the order measures are played in: repeat barlines, first and
+ * second endings, D.C. and D.S. jumps, To Coda and Fine. The conversion
+ * unrolls the score into that order before the MIDI file and the audio are
+ * made, and records which written measure is heard when.
+ *
+ * Conventions followed:
+ * - A repeat goes back to the last forward repeat barline, or to the start
+ *   of the score, or to just after the previous repeat
+ * - Endings are played on the passes they are numbered for
+ * - After a D.C. or D.S., repeats are not taken again and only the last
+ *   ending is played; the music stops at Fine, or goes from To Coda to the
+ *   coda
+ *
+ * Navigation marks are read from every part, so a mark entered in only one
+ * part still applies to the whole score.
+ */
+
+import type { PlayedMeasure } from './types.ts';
+import { type ScoreMeasure, type ScoreModel, resolveMeasureAttributes } from './score-model.ts';
+import { type TempoChange, createTempoClock, scoreTimeline } from './performance.ts';
+
+export interface PerformanceOrderOptions {
+  // Play every section once, taking the last ending, but still follow
+  // D.C. and D.S. jumps
+  skipRepeats?: boolean;
+}
+
+type Navigation = Pick<
+  ScoreMeasure,
+  'repeatStart' | 'repeatEnd' | 'ending' | 'segno' | 'coda' | 'toCoda' | 'fine' | 'jump'
+>;
+
+// Guards against a malformed score looping for ever
+const MAX_PLAYS_PER_MEASURE = 16;
+
+/**
+ * Indexes of the written measures in the order they are played
+ */
+export function performanceOrder(model: ScoreModel, options: PerformanceOrderOptions = {}): number[] {
+  const marks = readNavigation(model);
+  const count = marks.length;
+  const lastEnding = lastEndings(marks);
+
+  const order: number[] = [];
+  let index = 0;
+  let sectionStart = 0;
+  let pass = 1;
+  let jumped = false;
+  let returning = false;
+
+  while (index < count && order.length < count * MAX_PLAYS_PER_MEASURE) {
+    const mark = marks[index];
+    const lastPassOnly = options.skipRepeats || jumped;
+
+    // A new section starts at a forward repeat or after a group of endings
+    if (!returning && (mark.repeatStart || (index > 0 && !mark.ending && marks[index - 1].ending))) {
+      sectionStart = index;
+      pass = 1;
+    }
+    returning = false;
+
+    if (mark.ending && !mark.ending.includes(lastPassOnly ? lastEnding[index] : pass)) {
+      index++;
+      continue;
+    }
+
+    order.push(index);
+
+    if (jumped && mark.fine) break;
+
+    if (jumped && mark.toCoda) {
+      const coda = marks.findIndex((candidate, position) => position > index && candidate.coda);
+      if (coda >= 0) {
+        index = coda;
+        continue;
+      }
+    }
+
+    if (mark.repeatEnd && !lastPassOnly) {
+      const times = Math.max(mark.repeatEnd, mark.ending ? lastEnding[index] : 0);
+      if (pass < times) {
+        pass++;
+        index = sectionStart;
+        returning = true;
+        continue;
+      }
+      sectionStart = index + 1;
+      pass = 1;
+    }
+
+    if (mark.jump && !jumped) {
+      jumped = true;
+      index = mark.jump === 'dal-segno' ? segnoBefore(marks, index) : 0;
+      sectionStart = index;
+      pass = 1;
+      returning = true;
+      continue;
+    }
+
+    index++;
+  }
+
+  return order;
+}
+
+/**
+ * Copy of a score with its measures in performance order. Measures keep
+ * their written numbers; the first measure after each jump states its key,
+ * time and clefs, since the measures before it in the copy may differ.
+ */
+export function unrollScoreModel(model: ScoreModel, order: number[]): ScoreModel {
+  const contiguous = order.every((index, position) => index === position) && order.length === measureCount(model);
+  if (contiguous) return model;
+
+  return {
+    ...model,
+    parts: model.parts.map(part => {
+      const attributes = resolveMeasureAttributes(part);
+      return {
+        ...part,
+        measures: order.flatMap((index, position) => {
+          const measure = part.measures[index];
+          if (!measure) return [];
+          if (position > 0 && order[position - 1] === index - 1) return [measure];
+          const { key, time, clefs } = attributes[index];
+          return [{ ...measure, key, time, clefs }];
+        }),
+      };
+    }),
+  };
+}
+
+/**
+ * When each measure of an unrolled score starts in the audio, under the
+ * conversion's tempo changes
+ */
+export function measureSequence(
+  performed: ScoreModel,
+  order: number[],
+  tempo: TempoChange[],
+): PlayedMeasure[] {
+  const timeline = scoreTimeline(performed);
+  const clock = createTempoClock(tempo, performed.divisions);
+  const numbers = performed.parts.find(part => part.measures.length === order.length)?.measures;
+
+  return order.map((index, position) => ({
+    index,
+    number: numbers?.[position].number ?? index + 1,
+    time: Math.round(clock(timeline.measureStarts[position]) * 1000) / 1000,
+  }));
+}
+
+/**
+ * The written measure heard at a time in the audio, and which time through
+ * it is (1 for the first)
+ */
+export function playedMeasureAt(
+  sequence: PlayedMeasure[],
+  seconds: number,
+): { measure: PlayedMeasure; pass: number } | null {
+  let position = -1;
+  while (position + 1 < sequence.length && sequence[position + 1].time <= seconds) position++;
+  if (position < 0) return null;
+
+  const measure = sequence[position];
+  const pass = sequence.slice(0, position + 1).filter(played => played.index === measure.index).length;
+  return { measure, pass };
+}
+
+/**
+ * The measure sequence as heard when the audio is played faster or slower
+ * than the conversion's tempo, by the ratio of the two
+ */
+export function measureSequenceAtSpeed(sequence: PlayedMeasure[], speed: number): PlayedMeasure[] {
+  if (speed === 1) return sequence;
+  return sequence.map(measure => ({ ...measure, time: measure.time / speed }));
+}
+
+/**
+ * Whether a score has any repeats or jumps to unroll
+ */
+export function hasRepeats(model: ScoreModel): boolean {
+  return readNavigation(model).some(mark => mark.repeatEnd || mark.ending || mark.jump);
+}
+
+/**
+ * Navigation marks of each measure, combined across parts
+ */
+function readNavigation(model: ScoreModel): Navigation[] {
+  return Array.from({ length: measureCount(model) }, (_, index) => {
+    const mark: Navigation = {};
+    for (const part of model.parts) {
+      const measure = part.measures[index];
+      if (!measure) continue;
+      if (measure.repeatStart) mark.repeatStart = true;
+      if (measure.repeatEnd) mark.repeatEnd = Math.max(mark.repeatEnd ?? 0, measure.repeatEnd);
+      if (measure.ending && !mark.ending) mark.ending = measure.ending;
+      if (measure.segno) mark.segno = true;
+      if (measure.coda) mark.coda = true;
+      if (measure.toCoda) mark.toCoda = true;
+      if (measure.fine) mark.fine = true;
+      if (measure.jump && !mark.jump) mark.jump = measure.jump;
+    }
+    return mark;
+  });
+}
+
+/**
+ * For measures under an ending, the highest ending number of their group
+ * of consecutive endings
+ */
+function lastEndings(marks: Navigation[]): number[] {
+  const result = marks.map(() => 0);
+  let start = 0;
+  while (start < marks.length) {
+    if (!marks[start].ending) {
+      start++;
+      continue;
+    }
+    let end = start;
+    while (end < marks.length && marks[end].ending) end++;
+    const last = Math.max(...marks.slice(start, end).flatMap(mark => mark.ending!));
+    result.fill(last, start, end);
+    start = end;
+  }
+  return result;
+}
+
+/**
+ * The segno a D.S. goes back to: the nearest one before the jump, or the
+ * start of the score when there is none
+ */
+function segnoBefore(marks: Navigation[], index: number): number {
+  for (let position = index; position >= 0; position--) {
+    if (marks[position].segno) return position;
+  }
+  return 0;
+}
+
+function measureCount(model: ScoreModel): number {
+  return Math.max(0, ...model.parts.map(part => part.measures.length));
+}
@@ -0,0 +1,227 @@
+/**
+ * Score Diff
+ *
+ * Measure-by-measure comparison of two revisions of a score model, shown in
+ * the library's revision history.
+ *
+ * Parts are matched by id and measures by position within their part.
+ * Timing is compared in quarter notes rather than ticks, so a model read by
+ * optical recognition and a MusicXML replacement with other `divisions`
+ * still line up. Recognition confidence is ignored: it says how a measure
+ * was read, not what it contains.
+ */
+
+import {
+  type KeySignature,
+  type MeasureAttributes,
+  type ScoreEvent,
+  type ScoreMeasure,
+  type ScoreModel,
+  type TimeSignature,
+  describeKey,
+  resolveMeasureAttributes,
+} from './score-model.ts';
+
+/**
+ * How one measure differs between two revisions
+ */
+export interface MeasureDiff {
+  partId: string;
+  partName: string;
+  // Position of the measure in its part, and its number as printed
+  index: number;
+  number: number;
+  kind: 'added' | 'removed' | 'changed';
+  // What changed, e.g. "2 notes changed" or "time 3/4 → 4/4"
+  changes: string[];
+}
+
+/**
+ * Differences between two revisions of a score model
+ */
+export interface ScoreDiff {
+  partsAdded: string[];
+  partsRemoved: string[];
+  measures: MeasureDiff[];
+}
+
+/**
+ * Compare two models measure by measure; `from` is the older revision
+ */
+export function diffScoreModels(from: ScoreModel, to: ScoreModel): ScoreDiff {
+  const fromParts = new Map(from.parts.map(part => [part.id, part]));
+  const toIds = new Set(to.parts.map(part => part.id));
+  const measures: MeasureDiff[] = [];
+
+  for (const part of to.parts) {
+    const previous = fromParts.get(part.id);
+    if (!previous) continue;
+
+    const before = resolveMeasureAttributes(previous);
+    const after = resolveMeasureAttributes(part);
+    const count = Math.max(previous.measures.length, part.measures.length);
+
+    for (let index = 0; index < count; index++) {
+      const old = previous.measures[index];
+      const current = part.measures[index];
+      const base = {
+        partId: part.id,
+        partName: part.name || part.id,
+        index,
+        number: (current ?? old).number,
+      };
+
+      if (!old) {
+        measures.push({ ...base, kind: 'added', changes: [] });
+      } else if (!current) {
+        measures.push({ ...base, kind: 'removed', changes: [] });
+      } else {
+        const changes = measureChanges(
+          old,
+          current,
+          before[index],
+          after[index],
+          from.divisions,
+          to.divisions,
+        );
+        if (changes.length > 0) {
+          measures.push({ ...base, kind: 'changed', changes });
+        }
+      }
+    }
+  }
+
+  return {
+    partsAdded: to.parts.filter(part => !fromParts.has(part.id)).map(part => part.name || part.id),
+    partsRemoved: from.parts.filter(part => !toIds.has(part.id)).map(part => part.name || part.id),
+    measures,
+  };
+}
+
+/**
+ * Number of measures that differ, across all parts
+ */
+export function countChangedMeasures(diff: ScoreDiff): number {
+  return new Set(diff.measures.map(measure => measure.index)).size;
+}
+
+function measureChanges(
+  old: ScoreMeasure,
+  current: ScoreMeasure,
+  before: MeasureAttributes,
+  after: MeasureAttributes,
+  oldDivisions: number,
+  divisions: number,
+): string[] {
+  const changes: string[] = [];
+
+  // Key, time and clefs are only reported where one of the revisions
+  // changes them, not in every measure that follows
+  if ((old.key || current.key) && !sameKey(before.key, after.key)) {
+    changes.push(`key ${describeKey(before.key)} → ${describeKey(after.key)}`);
+  }
+  if ((old.time || current.time) && !sameTime(before.time, after.time)) {
+    changes.push(`time ${describeTime(before.time)} → ${describeTime(after.time)}`);
+  }
+  if ((old.clefs || current.clefs) && JSON.stringify(before.clefs) !== JSON.stringify(after.clefs)) {
+    changes.push('clef changed');
+  }
+  if (JSON.stringify(navigation(old)) !== JSON.stringify(navigation(current))) {
+    changes.push('repeats or jumps changed');
+  }
+
+  const oldEvents = eventSignatures(old.events, oldDivisions);
+  const events = eventSignatures(current.events, divisions);
+  changes.push(
+    ...describeCounts('note', oldEvents.notes, events.notes),
+    ...describeCounts('rest', oldEvents.rests, events.rests),
+    ...describeCounts('marking', oldEvents.markings, events.markings),
+    ...describeCounts('lyric', oldEvents.lyrics, events.lyrics),
+  );
+
+  return changes;
+}
+
+/**
+ * Repeat barlines, endings and navigation marks of a measure
+ */
+function navigation(measure: ScoreMeasure) {
+  const { repeatStart, repeatEnd, ending, segno, coda, toCoda, fine, jump } = measure;
+  return [repeatStart, repeatEnd, ending, segno, coda, toCoda, fine, jump];
+}
+
+/**
+ * One string per event, equal when two events are musically the same
+ */
+function eventSignatures(events: ScoreEvent[], divisions: number) {
+  const quarters = (ticks: number) => Number((ticks / divisions).toFixed(4));
+  const signatures = { notes: [] as string[], rests: [] as string[], markings: [] as string[], lyrics: [] as string[] };
+
+  for (const event of events) {
+    const at = `${event.staff}:${quarters(event.offset)}`;
+    if (event.type === 'note') {
+      const { step, alter, octave } = event.pitch;
+      const place = `${at}:${event.voice}`;
+      signatures.notes.push([
+        place,
+        quarters(event.duration),
+        `${step}${alter}${octave}`,
+        event.accidental ?? '',
+        event.tie ?? '',
+        event.grace ? 'grace' : '',
+      ].join(':'));
+      for (const lyric of event.lyrics ?? []) {
+        signatures.lyrics.push(`${place}:${lyric.verse}:${lyric.text}:${lyric.syllabic ?? ''}`);
+      }
+    } else if (event.type === 'rest') {
+      signatures.rests.push(`${at}:${event.voice}:${quarters(event.duration)}`);
+    } else {
+      const { offset: _offset, staff: _staff, ...marking } = event;
+      signatures.markings.push(`${at}:${JSON.stringify(marking)}`);
+    }
+  }
+
+  return signatures;
+}
+
+/**
+ * Describe how two lists of signatures differ. A removed and an added event
+ * are paired up as one changed event.
+ */
+function describeCounts(noun: string, before: string[], after: string[]): string[] {
+  const remaining = new Map<string, number>();
+  for (const signature of before) {
+    remaining.set(signature, (remaining.get(signature) ?? 0) + 1);
+  }
+
+  let added = 0;
+  for (const signature of after) {
+    const count = remaining.get(signature) ?? 0;
+    if (count > 0) {
+      remaining.set(signature, count - 1);
+    } else {
+      added++;
+    }
+  }
+  const removed = [...remaining.values()].reduce((sum, count) => sum + count, 0);
+
+  const changed = Math.min(added, removed);
+  const plural = (count: number) => `${count} ${noun}${count !== 1 ? 's' : ''}`;
+  const descriptions: string[] = [];
+  if (changed > 0) descriptions.push(`${plural(changed)} changed`);
+  if (added > changed) descriptions.push(`${plural(added - changed)} added`);
+  if (removed > changed) descriptions.push(`${plural(removed - changed)} removed`);
+  return descriptions;
+}
+
+function sameKey(a: KeySignature, b: KeySignature): boolean {
+  return a.fifths === b.fifths && a.mode === b.mode;
+}
+
+function sameTime(a: TimeSignature, b: TimeSignature): boolean {
+  return a.beats === b.beats && a.beatType === b.beatType;
+}
+
+function describeTime(time: TimeSignature): string {
+  return `${time.beats}/${time.beatType}`;
+}
@@ -0,0 +1,406 @@
+/**
+ * Score Editing
+ *
+ * Corrections made in the notation editor: note pitches and written
+ * accidentals, durations, ties, notes turned into rests and back, chord
+ * notes, and key and time signature changes. Every function returns a new
+ * model and leaves the one passed in untouched.
+ *
+ * Pitches follow the written music: a note's alteration comes from its own
+ * accidental, an earlier accidental on the same line or space in the measure,
+ * or the key signature. Correcting a misread key therefore also corrects the
+ * notes that rely on it.
+ *
+ * Edited measures lose their recognition confidence, since a person has now
+ * checked them, and the model's source becomes 'editor'.
+ */
+
+import {
+  type Accidental,
+  type KeySignature,
+  type NoteValue,
+  type ScoreMeasure,
+  type ScoreModel,
+  type ScoreNote,
+  type ScoreRest,
+  type Step,
+  type TimeSignature,
+  clefBottomLine,
+  diatonicNumber,
+  diatonicPitch,
+  keySignatureAlter,
+  noteValueTicks,
+  resolveMeasureAttributes,
+} from './score-model.ts';
+
+/**
+ * Position of one event: part, measure and event indexes
+ */
+export interface EventAddress {
+  part: number;
+  measure: number;
+  event: number;
+}
+
+/**
+ * Notes of one staff and voice that start together (a single note is a
+ * chord of one), or a rest
+ */
+export interface MeasureChord {
+  staff: number;
+  voice: number;
+  offset: number;
+  duration: number;
+  grace: boolean;
+  rest: boolean;
+  // Event indexes in the measure, lowest note first
+  events: number[];
+}
+
+export const ACCIDENTAL_ALTER: Record<Accidental, number> = {
+  'flat-flat': -2,
+  'flat': -1,
+  'natural': 0,
+  'sharp': 1,
+  'double-sharp': 2,
+};
+
+/**
+ * Notes and rests of a measure grouped into chords, ordered by staff, voice
+ * and offset
+ */
+export function measureChords(measure: ScoreMeasure): MeasureChord[] {
+  const chords = new Map<string, MeasureChord>();
+  measure.events.forEach((event, index) => {
+    if (event.type !== 'note' && event.type !== 'rest') return;
+    const grace = event.type === 'note' && !!event.grace;
+    const key = `${event.staff}:${event.voice}:${event.offset}:${event.type === 'rest' ? `r${index}` : grace ? 'g' : 'n'}`;
+    const chord = chords.get(key);
+    if (chord) {
+      chord.events.push(index);
+      chord.duration = Math.max(chord.duration, event.duration);
+    } else {
+      chords.set(key, {
+        staff: event.staff,
+        voice: event.voice,
+        offset: event.offset,
+        duration: event.duration,
+        grace,
+        rest: event.type === 'rest',
+        events: [index],
+      });
+    }
+  });
+
+  const pitchOf = (index: number) => {
+    const event = measure.events[index];
+    return event.type === 'note' ? diatonicNumber(event.pitch) * 10 + event.pitch.alter : 0;
+  };
+  return [...chords.values()]
+    .map(chord => ({ ...chord, events: chord.events.sort((a, b) => pitchOf(a) - pitchOf(b)) }))
+    .sort((a, b) => a.staff - b.staff || a.voice - b.voice || a.offset - b.offset || Number(b.grace) - Number(a.grace));
+}
+
+/**
+ * The chord containing an event, if it is a note or rest
+ */
+export function chordAt(measure: ScoreMeasure, event: number): MeasureChord | undefined {
+  return measureChords(measure).find(chord => chord.events.includes(event));
+}
+
+/**
+ * Replace one measure of one part
+ */
+export function updateMeasure(
+  model: ScoreModel,
+  part: number,
+  measure: number,
+  change: (measure: ScoreMeasure) => ScoreMeasure,
+): ScoreModel {
+  return {
+    ...model,
+    source: 'editor',
+    parts: model.parts.map((current, partIndex) => partIndex !== part ? current : {
+      ...current,
+      measures: current.measures.map((existing, measureIndex) => {
+        if (measureIndex !== measure) return existing;
+        const { confidence: _confidence, ...edited } = change(existing);
+        return edited;
+      }),
+    }),
+  };
+}
+
+/**
+ * Move a note to another line or space and set its written accidental
+ * (undefined for none); the alteration follows from the key and the
+ * accidentals before it
+ */
+export function setNotePitch(
+  model: ScoreModel,
+  address: EventAddress,
+  step: Step,
+  octave: number,
+  accidental: Accidental | undefined,
+): ScoreModel {
+  const key = resolveMeasureAttributes(model.parts[address.part])[address.measure].key;
+  return updateMeasure(model, address.part, address.measure, measure => {
+    const events = measure.events.map((event, index) => {
+      if (index !== address.event || event.type !== 'note') return event;
+      const { accidental: _accidental, ...note } = event;
+      return { ...note, pitch: { step, octave, alter: event.pitch.alter }, ...(accidental && { accidental }) };
+    });
+    return { ...measure, events: spellMeasure(events, key) };
+  });
+}
+
+/**
+ * Give a note or rest, and the rest of its chord, a new written value; the
+ * events after it in the same voice move to make room
+ */
+export function setChordValue(model: ScoreModel, address: EventAddress, value: NoteValue, dots: number): ScoreModel {
+  const duration = noteValueTicks(value, model.divisions, dots);
+  return updateMeasure(model, address.part, address.measure, measure => {
+    const chord = chordAt(measure, address.event);
+    if (!chord) return measure;
+    const events = measure.events.map((event, index) => {
+      if (!chord.events.includes(index) || (event.type !== 'note' && event.type !== 'rest')) return event;
+      const { dots: _dots, measureRest: _measureRest, ...rest } = event as ScoreRest;
+      return { ...rest, value, duration: chord.grace ? 0 : duration, ...(dots > 0 && { dots }) } as ScoreNote | ScoreRest;
+    });
+    return reflowVoice({ ...measure, events }, chord.staff, chord.voice);
+  });
+}
+
+/**
+ * Tie a note to the same pitch in the next chord of its voice (in the next
+ * measure when it is the last one), or remove that tie
+ */
+export function setTie(model: ScoreModel, address: EventAddress, tied: boolean): ScoreModel {
+  const part = model.parts[address.part];
+  const measure = part.measures[address.measure];
+  const note = measure.events[address.event];
+  const chord = chordAt(measure, address.event);
+  if (!chord || note.type !== 'note') return model;
+
+  // The note the tie ends on
+  const chords = measureChords(measure).filter(other =>
+    other.staff === chord.staff && other.voice === chord.voice && !other.grace);
+  const next = chords.find(other => other.offset > chord.offset);
+  let target: { measure: number; event: number } | undefined;
+  const matching = (events: ScoreMeasure['events'], indexes: number[]) => indexes.find(index => {
+    const event = events[index];
+    return event.type === 'note' && diatonicNumber(event.pitch) === diatonicNumber(note.pitch);
+  });
+  if (next) {
+    const event = matching(measure.events, next.events);
+    if (event !== undefined) target = { measure: address.measure, event };
+  } else if (address.measure + 1 < part.measures.length) {
+    const following = part.measures[address.measure + 1];
+    const first = measureChords(following).find(other =>
+      other.staff === chord.staff && other.voice === chord.voice && !other.grace);
+    const event = first && matching(following.events, first.events);
+    if (event !== undefined) target = { measure: address.measure + 1, event };
+  }
+
+  let edited = updateMeasure(model, address.part, address.measure, current => ({
+    ...current,
+    events: current.events.map((event, index) =>
+      index === address.event && event.type === 'note' ? withTie(event, 'start', tied) : event),
+  }));
+  if (target) {
+    const { measure: targetMeasure, event: targetEvent } = target;
+    const key = resolveMeasureAttributes(edited.parts[address.part])[targetMeasure].key;
+    edited = updateMeasure(edited, address.part, targetMeasure, current => {
+      const events = current.events.map((event, index) => {
+        if (index !== targetEvent || event.type !== 'note') return event;
+        // A tied note sounds at the pitch it is tied from
+        const { accidental: _accidental, ...stopped } = withTie(event, 'stop', tied);
+        return tied ? { ...stopped, pitch: { ...note.pitch } } : withTie(event, 'stop', false);
+      });
+      return { ...current, events: tied ? events : spellMeasure(events, key) };
+    });
+  }
+  return edited;
+}
+
+/**
+ * Turn a note or chord into a rest of the same length, or a rest into a
+ * note on the middle line
+ */
+export function toggleRest(model: ScoreModel, address: EventAddress): ScoreModel {
+  const part = model.parts[address.part];
+  const attributes = resolveMeasureAttributes(part)[address.measure];
+
+  return updateMeasure(model, address.part, address.measure, measure => {
+    const chord = chordAt(measure, address.event);
+    if (!chord) return measure;
+    const first = measure.events[chord.events[0]] as ScoreNote | ScoreRest;
+    const common = {
+      offset: first.offset,
+      staff: first.staff,
+      voice: first.voice,
+      duration: chord.duration,
+      ...(first.value && { value: first.value }),
+      ...((first.dots ?? 0) > 0 && { dots: first.dots }),
+    };
+
+    let replacement: ScoreNote | ScoreRest;
+    if (chord.rest) {
+      const clef = attributes.clefs.find(candidate => candidate.staff === first.staff) ?? attributes.clefs[0];
+      const middle = diatonicPitch(clefBottomLine(clef) + 4);
+      replacement = {
+        type: 'note',
+        ...common,
+        duration: Math.max(1, common.duration),
+        pitch: { ...middle, alter: keySignatureAlter(attributes.key, middle.step) },
+      };
+    } else {
+      replacement = { type: 'rest', ...common, duration: Math.max(1, common.duration) };
+    }
+
+    const events = measure.events.flatMap((event, index) =>
+      index === chord.events[0] ? [replacement] : chord.events.includes(index) ? [] : [event]);
+    return { ...measure, events: spellMeasure(events, attributes.key) };
+  });
+}
+
+/**
+ * Add a note a third above the top of a chord
+ */
+export function addChordNote(model: ScoreModel, address: EventAddress): ScoreModel {
+  const key = resolveMeasureAttributes(model.parts[address.part])[address.measure].key;
+  return updateMeasure(model, address.part, address.measure, measure => {
+    const chord = chordAt(measure, address.event);
+    if (!chord || chord.rest) return measure;
+    const top = measure.events[chord.events[chord.events.length - 1]] as ScoreNote;
+    const pitch = diatonicPitch(diatonicNumber(top.pitch) + 2);
+    const { accidental: _accidental, tie: _tie, lyrics: _lyrics, ...base } = top;
+    const added: ScoreNote = { ...base, pitch: { ...pitch, alter: keySignatureAlter(key, pitch.step) } };
+    const events = [...measure.events];
+    events.splice(chord.events[chord.events.length - 1] + 1, 0, added);
+    return { ...measure, events: spellMeasure(events, key) };
+  });
+}
+
+/**
+ * Remove one note from a chord; the last note of a chord becomes a rest
+ */
+export function removeNote(model: ScoreModel, address: EventAddress): ScoreModel {
+  const measure = model.parts[address.part].measures[address.measure];
+  const chord = chordAt(measure, address.event);
+  if (!chord || chord.rest) return model;
+  if (chord.events.length === 1) return toggleRest(model, address);
+
+  return updateMeasure(model, address.part, address.measure, current => ({
+    ...current,
+    events: current.events.filter((_, index) => index !== address.event),
+  }));
+}
+
+/**
+ * Start a key signature at a measure in every part (null removes the
+ * change). Notes up to the next key change that have no accidental of their
+ * own take their alteration from the new key.
+ */
+export function setKeyChange(model: ScoreModel, measure: number, key: KeySignature | null): ScoreModel {
+  let edited = model;
+  model.parts.forEach((part, partIndex) => {
+    if (measure >= part.measures.length) return;
+    edited = updateMeasure(edited, partIndex, measure, current => {
+      const { key: _key, ...rest } = current;
+      return key ? { ...rest, key } : rest;
+    });
+
+    const attributes = resolveMeasureAttributes(edited.parts[partIndex]);
+    for (let index = measure; index < part.measures.length; index++) {
+      if (index > measure && part.measures[index].key) break;
+      edited = updateMeasure(edited, partIndex, index, current => ({
+        ...current,
+        events: spellMeasure(current.events, attributes[index].key),
+      }));
+    }
+  });
+  return edited;
+}
+
+/**
+ * Start a time signature at a measure in every part (null removes the
+ * change). The notes stay where they are; measures that no longer add up
+ * show up as validation warnings.
+ */
+export function setTimeChange(model: ScoreModel, measure: number, time: TimeSignature | null): ScoreModel {
+  let edited = model;
+  model.parts.forEach((part, partIndex) => {
+    if (measure >= part.measures.length) return;
+    edited = updateMeasure(edited, partIndex, measure, current => {
+      const { time: _time, ...rest } = current;
+      return time ? { ...rest, time } : rest;
+    });
+  });
+  return edited;
+}
+
+/**
+ * Re-derive note alterations from the written accidentals: a note's own
+ * accidental, else the last one on its line or space earlier in the
+ * measure, else the key. Notes tied from the previous measure keep theirs.
+ */
+function spellMeasure(events: ScoreMeasure['events'], key: KeySignature): ScoreMeasure['events'] {
+  const order = events
+    .map((event, index) => ({ event, index }))
+    .filter(({ event }) => event.type === 'note')
+    .sort((a, b) => a.event.offset - b.event.offset || a.index - b.index);
+  const spelled = [...events];
+  const written = new Map<string, number>();
+
+  for (const { event, index } of order) {
+    const note = event as ScoreNote;
+    const line = `${note.staff}:${diatonicNumber(note.pitch)}`;
+    let alter: number;
+    if (note.accidental) {
+      alter = ACCIDENTAL_ALTER[note.accidental];
+      written.set(line, alter);
+    } else if ((note.tie === 'stop' || note.tie === 'continue') && note.offset === 0) {
+      alter = note.pitch.alter;
+    } else {
+      alter = written.get(line) ?? keySignatureAlter(key, note.pitch.step);
+    }
+    if (alter !== note.pitch.alter) {
+      spelled[index] = { ...note, pitch: { ...note.pitch, alter } };
+    }
+  }
+  return spelled;
+}
+
+/**
+ * Lay the chords of one voice end to end from where the voice starts,
+ * after a duration change
+ */
+function reflowVoice(measure: ScoreMeasure, staff: number, voice: number): ScoreMeasure {
+  const chords = measureChords(measure).filter(chord => chord.staff === staff && chord.voice === voice);
+  if (chords.length === 0) return measure;
+
+  const offsets = new Map<number, number>();
+  let offset = chords[0].offset;
+  for (const chord of chords) {
+    chord.events.forEach(index => offsets.set(index, offset));
+    offset += chord.grace ? 0 : chord.duration;
+  }
+  return {
+    ...measure,
+    events: measure.events.map((event, index) =>
+      offsets.has(index) ? { ...event, offset: offsets.get(index)! } : event),
+  };
+}
+
+/**
+ * Add or remove one side of a note's tie
+ */
+function withTie(note: ScoreNote, side: 'start' | 'stop', on: boolean): ScoreNote {
+  const start = side === 'start' ? on : note.tie === 'start' || note.tie === 'continue';
+  const stop = side === 'stop' ? on : note.tie === 'stop' || note.tie === 'continue';
+  const { tie: _tie, ...rest } = note;
+  const tie = start && stop ? 'continue' : start ? 'start' : stop ? 'stop' : undefined;
+  return tie ? { ...rest, tie } : rest;
+}
@@ -0,0 +1,80 @@
+/**
+ * Score File Formats
+ *
+ * Upload formats accepted by the upload area and the /scores/upload route.
+ * Browsers report MusicXML inconsistently (often as an empty type or
+ * application/octet-stream), so the file extension decides the format.
+ */
+
+export type ScoreFileFormat = 'image' | 'pdf' | 'musicxml' | 'mxl';
+
+export const MUSICXML_MIME_TYPE = 'application/vnd.recordare.musicxml+xml';
+export const MXL_MIME_TYPE = 'application/vnd.recordare.musicxml';
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/jpg'];
+
+const EXTENSION_FORMATS: Record<string, ScoreFileFormat> = {
+  jpg: 'image',
+  jpeg: 'image',
+  png: 'image',
+  pdf: 'pdf',
+  musicxml: 'musicxml',
+  xml: 'musicxml',
+  mxl: 'mxl',
+};
+
+/**
+ * Value for an <input type="file"> accept attribute
+ */
+export const SCORE_FILE_ACCEPT = [
+  ...IMAGE_TYPES,
+  'application/pdf',
+  MUSICXML_MIME_TYPE,
+  MXL_MIME_TYPE,
+  '.musicxml',
+  '.xml',
+  '.mxl',
+].join(',');
+
+export const SCORE_FILE_FORMATS_LABEL = 'JPG, PNG, PDF, MusicXML (.musicxml, .xml, .mxl)';
+
+/**
+ * Work out the format of an uploaded file, or null if it is not accepted
+ */
+export function detectScoreFileFormat(fileName: string, mimeType: string): ScoreFileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  const byExtension = EXTENSION_FORMATS[extension];
+
+  if (byExtension === 'image') {
+    return IMAGE_TYPES.includes(mimeType) ? 'image' : null;
+  }
+  if (byExtension) {
+    return byExtension;
+  }
+  if (IMAGE_TYPES.includes(mimeType)) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType === MUSICXML_MIME_TYPE) return 'musicxml';
+  if (mimeType === MXL_MIME_TYPE) return 'mxl';
+  return null;
+}
+
+/**
+ * Whether a stored score is a single image (PNG or JPEG)
+ */
+export function isImageType(fileType: string): boolean {
+  return IMAGE_TYPES.includes(fileType);
+}
+
+/**
+ * Whether a stored score is a PDF
+ */
+export function isPdfType(fileType: string): boolean {
+  return fileType === 'application/pdf';
+}
+
+/**
+ * Whether a stored score is MusicXML (and needs no optical recognition)
+ */
+export function isMusicXmlType(fileType: string): boolean {
+  return fileType === MUSICXML_MIME_TYPE || fileType === MXL_MIME_TYPE;
+}
@@ -0,0 +1,743 @@
+/**
+ * Score Model
+ *
+ * Typed, serializable description of the music in a score: parts, staves,
+ * measures, notes, rests, key/time signatures, ties, dynamics and lyrics.
+ *
+ * Every importer (optical recognition, MusicXML) produces a ScoreModel and
+ * every exporter or renderer (MIDI, audio) consumes one. The server stores it
+ * as JSON alongside each Score, so the playback page and the converter read
+ * the same thing.
+ *
+ * Timing is expressed in ticks: `divisions` ticks make one quarter note, and
+ * every event carries its offset from the start of its measure.
+ */
+
+export const SCORE_MODEL_VERSION = 1;
+
+/**
+ * Where a score model came from
+ */
+export type ScoreModelSource = 'omr' | 'musicxml' | 'editor';
+
+/**
+ * A complete score
+ */
+export interface ScoreModel {
+  version: number;
+  source: ScoreModelSource;
+  title?: string;
+  composer?: string;
+  divisions: number;
+  parts: ScorePart[];
+}
+
+/**
+ * One part (instrument or voice), possibly spread over several staves
+ */
+export interface ScorePart {
+  id: string;
+  name: string;
+  abbreviation?: string;
+  staves: number;
+  measures: ScoreMeasure[];
+}
+
+/**
+ * One measure of one part. Key, time and clefs are only present where they
+ * change; use resolveMeasureAttributes() for the values in effect.
+ */
+export interface ScoreMeasure {
+  number: number;
+  implicit?: boolean;
+  key?: KeySignature;
+  time?: TimeSignature;
+  clefs?: Clef[];
+  events: ScoreEvent[];
+  // How sure optical recognition is of this measure, from 0 to 1
+  confidence?: number;
+  // Repeat barlines; repeatEnd is how many times the section is played
+  repeatStart?: boolean;
+  repeatEnd?: number;
+  // Numbers of the first/second ending bracket over the measure
+  ending?: number[];
+  // Segno and coda mark the start of the measure; Fine, To Coda and a
+  // D.C. or D.S. jump apply at its end (see ./repeats.ts)
+  segno?: boolean;
+  coda?: boolean;
+  toCoda?: boolean;
+  fine?: boolean;
+  jump?: MeasureJump;
+}
+
+export type MeasureJump = 'da-capo' | 'dal-segno';
+
+export interface KeySignature {
+  fifths: number;
+  mode: 'major' | 'minor';
+}
+
+export interface TimeSignature {
+  beats: number;
+  beatType: number;
+}
+
+export interface Clef {
+  staff: number;
+  sign: 'G' | 'F' | 'C' | 'percussion';
+  line: number;
+  octaveChange?: number;
+}
+
+export type Step = 'C' | 'D' | 'E' | 'F' | 'G' | 'A' | 'B';
+
+export interface Pitch {
+  step: Step;
+  alter: number;
+  octave: number;
+}
+
+export type NoteValue = 'whole' | 'half' | 'quarter' | 'eighth' | '16th' | '32nd' | '64th';
+
+export type Accidental = 'sharp' | 'flat' | 'natural' | 'double-sharp' | 'flat-flat';
+
+export type DynamicMarking =
+  | 'ppp' | 'pp' | 'p' | 'mp' | 'mf' | 'f' | 'ff' | 'fff'
+  | 'sf' | 'sfz' | 'fp';
+
+export interface Lyric {
+  verse: number;
+  text: string;
+  syllabic?: 'single' | 'begin' | 'middle' | 'end';
+}
+
+interface EventBase {
+  offset: number;
+  staff: number;
+}
+
+export interface ScoreNote extends EventBase {
+  type: 'note';
+  voice: number;
+  duration: number;
+  pitch: Pitch;
+  value?: NoteValue;
+  dots?: number;
+  accidental?: Accidental;
+  tie?: 'start' | 'stop' | 'continue';
+  // Stem direction as written; tells apart two voices sharing a staff
+  stem?: 'up' | 'down';
+  grace?: boolean;
+  fermata?: boolean;
+  lyrics?: Lyric[];
+}
+
+export interface ScoreRest extends EventBase {
+  type: 'rest';
+  voice: number;
+  duration: number;
+  value?: NoteValue;
+  dots?: number;
+  measureRest?: boolean;
+  fermata?: boolean;
+}
+
+export interface ScoreDynamic extends EventBase {
+  type: 'dynamic';
+  marking: DynamicMarking;
+}
+
+export interface ScoreWedge extends EventBase {
+  type: 'wedge';
+  kind: 'crescendo' | 'diminuendo' | 'stop';
+}
+
+export interface ScoreTempo extends EventBase {
+  type: 'tempo';
+  bpm?: number;
+  beatUnit?: NoteValue;
+  // Metric modulation: the new tempo as a multiple of the one before, e.g.
+  // 1.5 for "♩ = ♩." (the old quarter becomes the new dotted quarter)
+  modulation?: number;
+  text?: string;
+}
+
+export interface ScoreWords extends EventBase {
+  type: 'words';
+  text: string;
+}
+
+export type ScoreEvent =
+  | ScoreNote
+  | ScoreRest
+  | ScoreDynamic
+  | ScoreWedge
+  | ScoreTempo
+  | ScoreWords;
+
+/**
+ * Key, time and clefs in effect in a measure
+ */
+export interface MeasureAttributes {
+  key: KeySignature;
+  time: TimeSignature;
+  clefs: Clef[];
+}
+
+/**
+ * Short description of a stored model, kept on the Score record
+ */
+export interface ScoreModelSummary {
+  source: ScoreModelSource;
+  partCount: number;
+  measureCount: number;
+  key: KeySignature;
+  time: TimeSignature;
+  updatedAt: string;
+}
+
+/**
+ * Result of validateScoreModel
+ */
+export interface ScoreModelValidation {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export const DEFAULT_KEY: KeySignature = { fifths: 0, mode: 'major' };
+export const DEFAULT_TIME: TimeSignature = { beats: 4, beatType: 4 };
+
+const STEPS: Step[] = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const STEP_SEMITONES: Record<Step, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+const SHARP_ORDER: Step[] = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+const FLAT_ORDER: Step[] = ['B', 'E', 'A', 'D', 'G', 'C', 'F'];
+const SHARP_NAMES: Step[] = ['C', 'C', 'D', 'D', 'E', 'F', 'F', 'G', 'G', 'A', 'A', 'B'];
+const FLAT_NAMES: Step[] = ['C', 'D', 'D', 'E', 'E', 'F', 'G', 'G', 'A', 'A', 'B', 'B'];
+const MAJOR_KEY_NAMES = ['C♭', 'G♭', 'D♭', 'A♭', 'E♭', 'B♭', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F♯', 'C♯'];
+const MINOR_KEY_NAMES = ['A♭', 'E♭', 'B♭', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F♯', 'C♯', 'G♯', 'D♯', 'A♯'];
+
+export const NOTE_VALUE_QUARTERS: Record<NoteValue, number> = {
+  'whole': 4,
+  'half': 2,
+  'quarter': 1,
+  'eighth': 0.5,
+  '16th': 0.25,
+  '32nd': 0.125,
+  '64th': 0.0625,
+};
+
+/**
+ * Convert a pitch to a MIDI note number (middle C = 60)
+ */
+export function pitchToMidi(pitch: Pitch): number {
+  return (pitch.octave + 1) * 12 + STEP_SEMITONES[pitch.step] + pitch.alter;
+}
+
+/**
+ * Spell a MIDI note number, using flats in flat keys and sharps otherwise
+ */
+export function midiToPitch(midi: number, fifths = 0): Pitch {
+  const pitchClass = ((midi % 12) + 12) % 12;
+  const step = (fifths < 0 ? FLAT_NAMES : SHARP_NAMES)[pitchClass];
+  const alter = pitchClass - STEP_SEMITONES[step];
+  return { step, alter, octave: Math.floor(midi / 12) - 1 };
+}
+
+/**
+ * Human-readable pitch name in scientific notation, e.g. "F♯3"
+ */
+export function describePitch(pitch: Pitch): string {
+  const accidental = pitch.alter > 0 ? '♯'.repeat(pitch.alter) : '♭'.repeat(-pitch.alter);
+  return `${pitch.step}${accidental}${pitch.octave}`;
+}
+
+/**
+ * Human-readable key name, e.g. "E♭ major"
+ */
+export function describeKey(key: KeySignature): string {
+  const names = key.mode === 'minor' ? MINOR_KEY_NAMES : MAJOR_KEY_NAMES;
+  const name = names[Math.max(-7, Math.min(7, key.fifths)) + 7];
+  return `${name} ${key.mode}`;
+}
+
+/**
+ * Diatonic step number of a pitch (octave × 7 + step), ignoring its
+ * alteration; one step is half a staff space
+ */
+export function diatonicNumber(pitch: Pitch): number {
+  return pitch.octave * 7 + STEPS.indexOf(pitch.step);
+}
+
+/**
+ * Pitch at a diatonic step number
+ */
+export function diatonicPitch(diatonic: number, alter = 0): Pitch {
+  return { step: STEPS[((diatonic % 7) + 7) % 7], alter, octave: Math.floor(diatonic / 7) };
+}
+
+/**
+ * Diatonic step number of the bottom line of a five-line staff in a clef
+ */
+export function clefBottomLine(clef: Clef): number {
+  const anchor = clef.sign === 'F' ? 3 * 7 + 3 : clef.sign === 'C' ? 4 * 7 : 4 * 7 + 4;
+  return anchor + (clef.octaveChange ?? 0) * 7 - 2 * (clef.line - 1);
+}
+
+/**
+ * Alteration a key signature gives to a step
+ */
+export function keySignatureAlter(key: KeySignature, step: Step): number {
+  if (key.fifths > 0) return SHARP_ORDER.slice(0, key.fifths).includes(step) ? 1 : 0;
+  if (key.fifths < 0) return FLAT_ORDER.slice(0, -key.fifths).includes(step) ? -1 : 0;
+  return 0;
+}
+
+/**
+ * Length of a full measure in ticks
+ */
+export function measureTicks(time: TimeSignature, divisions: number): number {
+  return Math.round((time.beats * 4 * divisions) / time.beatType);
+}
+
+/**
+ * Duration in ticks of a notated value with optional dots
+ */
+export function noteValueTicks(value: NoteValue, divisions: number, dots = 0): number {
+  let ticks = NOTE_VALUE_QUARTERS[value] * divisions;
+  let added = ticks;
+  for (let i = 0; i < dots; i++) {
+    added /= 2;
+    ticks += added;
+  }
+  return Math.round(ticks);
+}
+
+/**
+ * Key, time and clefs in effect for every measure of a part
+ */
+export function resolveMeasureAttributes(part: ScorePart): MeasureAttributes[] {
+  let key = DEFAULT_KEY;
+  let time = DEFAULT_TIME;
+  let clefs: Clef[] = Array.from({ length: part.staves }, (_, i) => ({
+    staff: i + 1,
+    sign: i === 0 ? 'G' : 'F',
+    line: i === 0 ? 2 : 4,
+  }));
+  
+  return part.measures.map(measure => {
+    key = measure.key ?? key;
+    time = measure.time ?? time;
+    if (measure.clefs) {
+      clefs = clefs.map(clef => measure.clefs!.find(change => change.staff === clef.staff) ?? clef);
+    }
+    return { key, time, clefs };
+  });
+}
+
+/**
+ * The model with only the listed parts, in score order
+ */
+export function selectParts(model: ScoreModel, partIds: string[]): ScoreModel {
+  return { ...model, parts: model.parts.filter(part => partIds.includes(part.id)) };
+}
+
+/**
+ * Summary stored on the Score record
+ */
+export function summarizeScoreModel(model: ScoreModel): ScoreModelSummary {
+  const firstPart = model.parts[0];
+  const attributes = firstPart ? resolveMeasureAttributes(firstPart)[0] : undefined;
+  
+  return {
+    source: model.source,
+    partCount: model.parts.length,
+    measureCount: Math.max(0, ...model.parts.map(part => part.measures.length)),
+    key: attributes?.key ?? DEFAULT_KEY,
+    time: attributes?.time ?? DEFAULT_TIME,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// JSON SCHEMA
+// ============================================================================
+
+const NOTE_VALUES = Object.keys(NOTE_VALUE_QUARTERS);
+const DYNAMIC_MARKINGS = ['ppp', 'pp', 'p', 'mp', 'mf', 'f', 'ff', 'fff', 'sf', 'sfz', 'fp'];
+
+const eventBase = {
+  offset: { type: 'integer', minimum: 0 },
+  staff: { type: 'integer', minimum: 1 },
+} as const;
+
+/**
+ * JSON Schema (draft 2020-12) for ScoreModel
+ */
+export const SCORE_MODEL_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://sheettosound.app/schemas/score-model.json',
+  title: 'ScoreModel',
+  type: 'object',
+  required: ['version', 'source', 'divisions', 'parts'],
+  properties: {
+    version: { const: SCORE_MODEL_VERSION },
+    source: { enum: ['omr', 'musicxml', 'editor'] },
+    title: { type: 'string' },
+    composer: { type: 'string' },
+    divisions: { type: 'integer', minimum: 1 },
+    parts: { type: 'array', minItems: 1, items: { $ref: '#/$defs/part' } },
+  },
+  $defs: {
+    part: {
+      type: 'object',
+      required: ['id', 'name', 'staves', 'measures'],
+      properties: {
+        id: { type: 'string', minLength: 1 },
+        name: { type: 'string' },
+        abbreviation: { type: 'string' },
+        staves: { type: 'integer', minimum: 1 },
+        measures: { type: 'array', items: { $ref: '#/$defs/measure' } },
+      },
+    },
+    measure: {
+      type: 'object',
+      required: ['number', 'events'],
+      properties: {
+        number: { type: 'integer', minimum: 0 },
+        implicit: { type: 'boolean' },
+        key: { $ref: '#/$defs/key' },
+        time: { $ref: '#/$defs/time' },
+        clefs: { type: 'array', items: { $ref: '#/$defs/clef' } },
+        events: { type: 'array', items: { $ref: '#/$defs/event' } },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+        repeatStart: { type: 'boolean' },
+        repeatEnd: { type: 'integer', minimum: 2, maximum: 10 },
+        ending: { type: 'array', minItems: 1, items: { type: 'integer', minimum: 1 } },
+        segno: { type: 'boolean' },
+        coda: { type: 'boolean' },
+        toCoda: { type: 'boolean' },
+        fine: { type: 'boolean' },
+        jump: { enum: ['da-capo', 'dal-segno'] },
+      },
+    },
+    key: {
+      type: 'object',
+      required: ['fifths', 'mode'],
+      properties: {
+        fifths: { type: 'integer', minimum: -7, maximum: 7 },
+        mode: { enum: ['major', 'minor'] },
+      },
+    },
+    time: {
+      type: 'object',
+      required: ['beats', 'beatType'],
+      properties: {
+        beats: { type: 'integer', minimum: 1 },
+        beatType: { enum: [1, 2, 4, 8, 16, 32] },
+      },
+    },
+    clef: {
+      type: 'object',
+      required: ['staff', 'sign', 'line'],
+      properties: {
+        staff: { type: 'integer', minimum: 1 },
+        sign: { enum: ['G', 'F', 'C', 'percussion'] },
+        line: { type: 'integer', minimum: 1, maximum: 5 },
+        octaveChange: { type: 'integer', minimum: -2, maximum: 2 },
+      },
+    },
+    pitch: {
+      type: 'object',
+      required: ['step', 'alter', 'octave'],
+      properties: {
+        step: { enum: ['C', 'D', 'E', 'F', 'G', 'A', 'B'] },
+        alter: { type: 'number', minimum: -2, maximum: 2 },
+        octave: { type: 'integer', minimum: 0, maximum: 9 },
+      },
+    },
+    lyric: {
+      type: 'object',
+      required: ['verse', 'text'],
+      properties: {
+        verse: { type: 'integer', minimum: 1 },
+        text: { type: 'string' },
+        syllabic: { enum: ['single', 'begin', 'middle', 'end'] },
+      },
+    },
+    event: {
+      oneOf: [
+        { $ref: '#/$defs/note' },
+        { $ref: '#/$defs/rest' },
+        { $ref: '#/$defs/dynamic' },
+        { $ref: '#/$defs/wedge' },
+        { $ref: '#/$defs/tempo' },
+        { $ref: '#/$defs/words' },
+      ],
+    },
+    note: {
+      type: 'object',
+      required: ['type', 'offset', 'staff', 'voice', 'duration', 'pitch'],
+      properties: {
+        type: { const: 'note' },
+        ...eventBase,
+        voice: { type: 'integer', minimum: 1 },
+        duration: { type: 'integer', minimum: 0 },
+        pitch: { $ref: '#/$defs/pitch' },
+        value: { enum: NOTE_VALUES },
+        dots: { type: 'integer', minimum: 0, maximum: 3 },
+        accidental: { enum: ['sharp', 'flat', 'natural', 'double-sharp', 'flat-flat'] },
+        tie: { enum: ['start', 'stop', 'continue'] },
+        stem: { enum: ['up', 'down'] },
+        grace: { type: 'boolean' },
+        fermata: { type: 'boolean' },
+        lyrics: { type: 'array', items: { $ref: '#/$defs/lyric' } },
+      },
+    },
+    rest: {
+      type: 'object',
+      required: ['type', 'offset', 'staff', 'voice', 'duration'],
+      properties: {
+        type: { const: 'rest' },
+        ...eventBase,
+        voice: { type: 'integer', minimum: 1 },
+        duration: { type: 'integer', minimum: 1 },
+        value: { enum: NOTE_VALUES },
+        dots: { type: 'integer', minimum: 0, maximum: 3 },
+        measureRest: { type: 'boolean' },
+        fermata: { type: 'boolean' },
+      },
+    },
+    dynamic: {
+      type: 'object',
+      required: ['type', 'offset', 'staff', 'marking'],
+      properties: {
+        type: { const: 'dynamic' },
+        ...eventBase,
+        marking: { enum: DYNAMIC_MARKINGS },
+      },
+    },
+    wedge: {
+      type: 'object',
+      required: ['type', 'offset', 'staff', 'kind'],
+      properties: {
+        type: { const: 'wedge' },
+        ...eventBase,
+        kind: { enum: ['crescendo', 'diminuendo', 'stop'] },
+      },
+    },
+    tempo: {
+      type: 'object',
+      required: ['type', 'offset', 'staff'],
+      properties: {
+        type: { const: 'tempo' },
+        ...eventBase,
+        bpm: { type: 'number', minimum: 1, maximum: 1000 },
+        beatUnit: { enum: NOTE_VALUES },
+        modulation: { type: 'number', minimum: 0.125, maximum: 8 },
+        text: { type: 'string' },
+      },
+    },
+    words: {
+      type: 'object',
+      required: ['type', 'offset', 'staff', 'text'],
+      properties: {
+        type: { const: 'words' },
+        ...eventBase,
+        text: { type: 'string' },
+      },
+    },
+  },
+} as const;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * The JSON Schema keywords SCORE_MODEL_SCHEMA uses. A node either refers to
+ * or combines other nodes, pins down its value, or has a `type`.
+ */
+type SchemaNode =
+  | { type?: never; $ref: string }
+  | { type?: never; oneOf: readonly SchemaNode[] }
+  | { type?: never; const: unknown }
+  | { type?: never; enum: readonly unknown[] }
+  | { type: 'object'; required?: readonly string[]; properties: { readonly [key: string]: SchemaNode } }
+  | { type: 'array'; items: SchemaNode; minItems?: number }
+  | { type: 'string'; minLength?: number }
+  | { type: 'boolean' }
+  | { type: 'integer' | 'number'; minimum?: number; maximum?: number };
+
+const SCHEMA_DEFS: { readonly [name: string]: SchemaNode } = SCORE_MODEL_SCHEMA.$defs;
+
+function resolveRef(ref: string): SchemaNode {
+  return SCHEMA_DEFS[ref.replace('#/$defs/', '')];
+}
+
+/**
+ * Validate an unknown value as a ScoreModel.
+ *
+ * Structural problems (checked against SCORE_MODEL_SCHEMA) are errors.
+ * Musical inconsistencies that players can still cope with, such as
+ * overfull measures or parts of different lengths, are warnings.
+ */
+export function validateScoreModel(value: unknown): ScoreModelValidation {
+  const errors: string[] = [];
+  checkSchema(value, SCORE_MODEL_SCHEMA, 'score', errors);
+  
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings: [] };
+  }
+  
+  const model = value as ScoreModel;
+  const warnings: string[] = [];
+  
+  const partIds = new Set<string>();
+  for (const part of model.parts) {
+    if (partIds.has(part.id)) {
+      errors.push(`Duplicate part id "${part.id}"`);
+    }
+    partIds.add(part.id);
+  }
+  
+  const measureCounts = new Set(model.parts.map(part => part.measures.length));
+  if (measureCounts.size > 1) {
+    warnings.push('Parts have different numbers of measures');
+  }
+  
+  for (const part of model.parts) {
+    const attributes = resolveMeasureAttributes(part);
+    
+    part.measures.forEach((measure, index) => {
+      const label = `${part.name || part.id}, measure ${measure.number}`;
+      const capacity = measureTicks(attributes[index].time, model.divisions);
+      const voiceEnds = new Map<string, number>();
+      
+      for (const event of measure.events) {
+        if (event.staff > part.staves) {
+          errors.push(`${label}: event on staff ${event.staff} but the part has ${part.staves}`);
+        }
+        if (event.type !== 'note' && event.type !== 'rest') continue;
+        if (event.type === 'note' && event.grace) continue;
+        
+        const voiceKey = `${event.staff}:${event.voice}`;
+        const end = event.offset + event.duration;
+        voiceEnds.set(voiceKey, Math.max(voiceEnds.get(voiceKey) ?? 0, end));
+      }
+      
+      for (const end of voiceEnds.values()) {
+        if (end > capacity) {
+          warnings.push(`${label}: contents are longer than the time signature allows`);
+          break;
+        }
+      }
+    });
+  }
+  
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Minimal JSON Schema checker covering the keywords SCORE_MODEL_SCHEMA uses
+ */
+function checkSchema(value: unknown, schema: SchemaNode, path: string, errors: string[]) {
+  if (errors.length >= 50) return;
+  
+  if ('$ref' in schema) {
+    checkSchema(value, resolveRef(schema.$ref), path, errors);
+    return;
+  }
+  
+  if ('oneOf' in schema) {
+    checkOneOf(value, schema.oneOf, path, errors);
+    return;
+  }
+  
+  if ('const' in schema) {
+    if (value !== schema.const) errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+    return;
+  }
+  
+  if ('enum' in schema) {
+    if (!schema.enum.includes(value)) errors.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+    return;
+  }
+  
+  switch (schema.type) {
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${path}: must be an object`);
+        return;
+      }
+      for (const key of schema.required ?? []) {
+        if (!(key in value)) {
+          errors.push(`${path}: missing "${key}"`);
+        }
+      }
+      for (const [key, child] of Object.entries(value)) {
+        const childSchema = schema.properties[key];
+        if (childSchema && child !== undefined) {
+          checkSchema(child, childSchema, `${path}.${key}`, errors);
+        }
+      }
+      return;
+    
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${path}: must be an array`);
+        return;
+      }
+      if (schema.minItems && value.length < schema.minItems) {
+        errors.push(`${path}: needs at least ${schema.minItems} item(s)`);
+      }
+      value.forEach((item, index) => checkSchema(item, schema.items, `${path}[${index}]`, errors));
+      return;
+    
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${path}: must be a string`);
+      } else if (schema.minLength && value.length < schema.minLength) {
+        errors.push(`${path}: must not be empty`);
+      }
+      return;
+    
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${path}: must be true or false`);
+      }
+      return;
+    
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value) ||
+          (schema.type === 'integer' && !Number.isInteger(value))) {
+        errors.push(`${path}: must be ${schema.type === 'integer' ? 'an integer' : 'a number'}`);
+      } else if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path}: must be at least ${schema.minimum}`);
+      } else if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path}: must be at most ${schema.maximum}`);
+      }
+      return;
+  }
+}
+
+/**
+ * oneOf over object schemas tagged by a `type` const: report the errors of
+ * the branch whose tag matches instead of every branch's errors
+ */
+function checkOneOf(value: unknown, branches: readonly SchemaNode[], path: string, errors: string[]) {
+  const tag = typeof value === 'object' && value !== null && 'type' in value ? value.type : undefined;
+  
+  for (const branch of branches) {
+    const resolved = '$ref' in branch ? resolveRef(branch.$ref) : branch;
+    const branchTag = resolved.type === 'object' ? resolved.properties.type : undefined;
+    
+    if (branchTag && 'const' in branchTag && branchTag.const === tag) {
+      checkSchema(value, resolved, path, errors);
+      return;
+    }
+  }
+  
+  errors.push(`${path}: unknown event type ${JSON.stringify(tag)}`);
+}
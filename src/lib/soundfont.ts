@@ -0,0 +1,485 @@
+/**
+ * SoundFont
+ *
+ * Loader and sampler for SoundFont 2 (.sf2) files. The parser flattens each
+ * preset into playable regions: preset and instrument zones are merged into
+ * one record per sample with its key/velocity ranges, tuning, loop points,
+ * attenuation, pan and volume envelope. The sampler renders a note from
+ * those regions with interpolated resampling.
+ *
+ * Used by the offline renderer (src/lib/audio-render.ts) and by in-browser
+ * players; modulators are ignored apart from the default velocity curve.
+ */
+
+import { GM_DRUM_BANK, getGeneralMidiSounds } from './instruments.ts';
+
+/**
+ * A parsed SoundFont with all sample data in one buffer
+ */
+export interface SoundFont {
+  name: string;
+  presets: SoundFontPreset[];
+  sampleData: Int16Array;
+}
+
+export interface SoundFontPreset {
+  name: string;
+  bank: number;
+  program: number;
+  regions: SoundFontRegion[];
+}
+
+/**
+ * One sample as played within a key/velocity range
+ */
+export interface SoundFontRegion {
+  keyRange: [number, number];
+  velocityRange: [number, number];
+  sampleName: string;
+  // Frame positions in SoundFont.sampleData
+  start: number;
+  end: number;
+  loopStart: number;
+  loopEnd: number;
+  loop: 'none' | 'continuous' | 'until-release';
+  sampleRate: number;
+  rootKey: number;
+  // Total tuning in cents (coarse, fine and the sample's pitch correction)
+  tune: number;
+  // Cents per key, 100 for normal keyboard tracking
+  scaleTuning: number;
+  // Decibels of attenuation
+  attenuation: number;
+  // -1 (left) to 1 (right)
+  pan: number;
+  envelope: SoundFontEnvelope;
+}
+
+/**
+ * Volume envelope, times in seconds and sustain as a linear level
+ */
+export interface SoundFontEnvelope {
+  delay: number;
+  attack: number;
+  hold: number;
+  decay: number;
+  sustain: number;
+  release: number;
+}
+
+/**
+ * Malformed or unsupported SoundFont data
+ */
+export class SoundFontError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SoundFontError';
+  }
+}
+
+// Generator operators used when building regions
+const GEN = {
+  startAddrsOffset: 0,
+  endAddrsOffset: 1,
+  startloopAddrsOffset: 2,
+  endloopAddrsOffset: 3,
+  startAddrsCoarseOffset: 4,
+  endAddrsCoarseOffset: 12,
+  pan: 17,
+  delayVolEnv: 33,
+  attackVolEnv: 34,
+  holdVolEnv: 35,
+  decayVolEnv: 36,
+  sustainVolEnv: 37,
+  releaseVolEnv: 38,
+  instrument: 41,
+  keyRange: 43,
+  velRange: 44,
+  startloopAddrsCoarseOffset: 45,
+  initialAttenuation: 48,
+  endloopAddrsCoarseOffset: 50,
+  coarseTune: 51,
+  fineTune: 52,
+  sampleID: 53,
+  sampleModes: 54,
+  scaleTuning: 56,
+  overridingRootKey: 58,
+};
+
+// Values used when a generator is absent
+const GENERATOR_DEFAULTS: Record<number, number> = {
+  [GEN.delayVolEnv]: -12000,
+  [GEN.attackVolEnv]: -12000,
+  [GEN.holdVolEnv]: -12000,
+  [GEN.decayVolEnv]: -12000,
+  [GEN.releaseVolEnv]: -12000,
+  [GEN.scaleTuning]: 100,
+  [GEN.overridingRootKey]: -1,
+};
+
+// Generators that are not summed between preset and instrument level
+const NON_ADDITIVE = new Set([
+  GEN.startAddrsOffset, GEN.endAddrsOffset, GEN.startloopAddrsOffset, GEN.endloopAddrsOffset,
+  GEN.startAddrsCoarseOffset, GEN.endAddrsCoarseOffset, GEN.startloopAddrsCoarseOffset,
+  GEN.endloopAddrsCoarseOffset, GEN.instrument, GEN.keyRange, GEN.velRange, GEN.sampleID,
+  GEN.sampleModes, GEN.overridingRootKey,
+]);
+
+interface Zone {
+  generators: Map<number, number>;
+  keyRange: [number, number];
+  velocityRange: [number, number];
+}
+
+interface SampleHeader {
+  name: string;
+  start: number;
+  end: number;
+  loopStart: number;
+  loopEnd: number;
+  sampleRate: number;
+  originalPitch: number;
+  pitchCorrection: number;
+}
+
+/**
+ * Parse a .sf2 file
+ */
+export function parseSoundFont(bytes: Uint8Array): SoundFont {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (readFourCC(bytes, 0) !== 'RIFF' || readFourCC(bytes, 8) !== 'sfbk') {
+    throw new SoundFontError('Not a SoundFont 2 file');
+  }
+  
+  const chunks = new Map<string, { offset: number; size: number }>();
+  let name = '';
+  walkChunks(bytes, view, 12, 8 + view.getUint32(4, true), (id, offset, size) => {
+    if (id === 'INAM') name = readString(bytes, offset, size);
+    chunks.set(id, { offset, size });
+  });
+  
+  const required = ['smpl', 'phdr', 'pbag', 'pgen', 'inst', 'ibag', 'igen', 'shdr'];
+  for (const id of required) {
+    if (!chunks.has(id)) throw new SoundFontError(`Missing ${id} chunk`);
+  }
+  
+  const smpl = chunks.get('smpl')!;
+  const sampleData = new Int16Array(Math.floor(smpl.size / 2));
+  for (let i = 0; i < sampleData.length; i++) {
+    sampleData[i] = view.getInt16(smpl.offset + i * 2, true);
+  }
+  
+  const records = (id: string, size: number) => {
+    const chunk = chunks.get(id)!;
+    return Array.from({ length: Math.floor(chunk.size / size) }, (_, i) => chunk.offset + i * size);
+  };
+  
+  const samples: SampleHeader[] = records('shdr', 46).map(offset => ({
+    name: readString(bytes, offset, 20),
+    start: view.getUint32(offset + 20, true),
+    end: view.getUint32(offset + 24, true),
+    loopStart: view.getUint32(offset + 28, true),
+    loopEnd: view.getUint32(offset + 32, true),
+    sampleRate: view.getUint32(offset + 36, true),
+    originalPitch: view.getUint8(offset + 40),
+    pitchCorrection: view.getInt8(offset + 41),
+  }));
+  
+  const readGenerators = (id: string) => records(id, 4).map(offset => ({
+    operator: view.getUint16(offset, true),
+    amount: view.getInt16(offset + 2, true),
+    range: [view.getUint8(offset + 2), view.getUint8(offset + 3)] as [number, number],
+  }));
+  const readBags = (id: string) => records(id, 4).map(offset => view.getUint16(offset, true));
+  
+  const instrumentGenerators = readGenerators('igen');
+  const instrumentBags = readBags('ibag');
+  const instrumentHeaders = records('inst', 22).map(offset => ({
+    name: readString(bytes, offset, 20),
+    bagIndex: view.getUint16(offset + 20, true),
+  }));
+  
+  const presetGenerators = readGenerators('pgen');
+  const presetBags = readBags('pbag');
+  const presetHeaders = records('phdr', 38).map(offset => ({
+    name: readString(bytes, offset, 20),
+    program: view.getUint16(offset + 20, true),
+    bank: view.getUint16(offset + 22, true),
+    bagIndex: view.getUint16(offset + 24, true),
+  }));
+  
+  // Zones of record i run from its bag index to the next record's (the last
+  // record is a terminal "EOI"/"EOP" entry)
+  const zonesOf = (
+    headers: { bagIndex: number }[],
+    index: number,
+    bags: number[],
+    generators: ReturnType<typeof readGenerators>,
+    terminal: number,
+  ) => {
+    const zones: Zone[] = [];
+    let global: Zone | null = null;
+    
+    for (let bag = headers[index].bagIndex; bag < headers[index + 1].bagIndex; bag++) {
+      const zone: Zone = { generators: new Map(), keyRange: [0, 127], velocityRange: [0, 127] };
+      const last = bag + 1 < bags.length ? bags[bag + 1] : generators.length;
+      for (let g = bags[bag]; g < last; g++) {
+        const { operator, amount, range } = generators[g];
+        if (operator === GEN.keyRange) zone.keyRange = range;
+        else if (operator === GEN.velRange) zone.velocityRange = range;
+        else zone.generators.set(operator, amount);
+      }
+      
+      if (zone.generators.has(terminal)) {
+        zones.push(zone);
+      } else if (zones.length === 0 && !global) {
+        global = zone;
+      }
+    }
+    
+    return zones.map(zone => mergeZone(global, zone));
+  };
+  
+  const instrumentZones = instrumentHeaders.slice(0, -1).map((_, index) =>
+    zonesOf(instrumentHeaders, index, instrumentBags, instrumentGenerators, GEN.sampleID));
+  
+  const presets: SoundFontPreset[] = presetHeaders.slice(0, -1).map((header, index) => {
+    const regions: SoundFontRegion[] = [];
+    
+    for (const presetZone of zonesOf(presetHeaders, index, presetBags, presetGenerators, GEN.instrument)) {
+      const zones = instrumentZones[presetZone.generators.get(GEN.instrument)!] ?? [];
+      for (const instrumentZone of zones) {
+        const sample = samples[instrumentZone.generators.get(GEN.sampleID)!];
+        const region = sample && buildRegion(presetZone, instrumentZone, sample);
+        if (region) regions.push(region);
+      }
+    }
+    
+    return { name: header.name, bank: header.bank, program: header.program, regions };
+  });
+  
+  return { name, presets, sampleData };
+}
+
+/**
+ * Preset for a bank/program pair, falling back to the same program in bank 0
+ */
+export function findPreset(font: SoundFont, bank: number, program: number): SoundFontPreset | undefined {
+  return font.presets.find(preset => preset.bank === bank && preset.program === program) ??
+    font.presets.find(preset => preset.bank === 0 && preset.program === program);
+}
+
+/**
+ * How an instrument is played from a SoundFont: a preset, plus the fixed
+ * key to strike for unpitched percussion
+ */
+export interface InstrumentVoice {
+  preset: SoundFontPreset;
+  drumKey?: number;
+}
+
+/**
+ * Preset that plays an instrument from INSTRUMENTS, trying its fallback
+ * General MIDI sound when the font lacks the preferred one
+ */
+export function voiceForInstrument(font: SoundFont, instrumentId: string): InstrumentVoice | undefined {
+  for (const sound of getGeneralMidiSounds(instrumentId)) {
+    if (sound.kind === 'program') {
+      const preset = findPreset(font, sound.bank, sound.program);
+      if (preset) return { preset };
+    } else {
+      const preset = findPreset(font, GM_DRUM_BANK, 0);
+      if (preset && regionsFor(preset, sound.key, 100).length > 0) {
+        return { preset, drumKey: sound.key };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Regions of a preset that sound for a key and velocity
+ */
+export function regionsFor(preset: SoundFontPreset, key: number, velocity: number): SoundFontRegion[] {
+  return preset.regions.filter(region =>
+    key >= region.keyRange[0] && key <= region.keyRange[1] &&
+    velocity >= region.velocityRange[0] && velocity <= region.velocityRange[1]
+  );
+}
+
+/**
+ * Render one region playing a key for `held` seconds. Calls `write` with the
+ * output frame index (from 0) and the mono sample value, and returns the
+ * number of frames written. Panning by `region.pan` is left to the caller.
+ */
+export function renderRegion(
+  font: SoundFont,
+  region: SoundFontRegion,
+  key: number,
+  velocity: number,
+  held: number,
+  sampleRate: number,
+  write: (index: number, value: number) => void,
+): number {
+  const { envelope } = region;
+  const semitones = ((key - region.rootKey) * region.scaleTuning + region.tune) / 100;
+  const step = 2 ** (semitones / 12) * (region.sampleRate / sampleRate);
+  // Default SoundFont velocity curve: attenuation rises as velocity falls
+  const gain = (velocity / 127) ** 2 * 10 ** (-region.attenuation / 20);
+  
+  const data = font.sampleData;
+  const loopLength = region.loopEnd - region.loopStart;
+  const loops = region.loop !== 'none' && loopLength > 1;
+  const maxFrames = Math.ceil((held + envelope.release) * sampleRate);
+  
+  let position = region.start;
+  let releaseLevel = 0;
+  let frame = 0;
+  
+  for (; frame < maxFrames; frame++) {
+    const t = frame / sampleRate;
+    const releasing = t >= held;
+    const looping = loops && (region.loop === 'continuous' || !releasing);
+    
+    if (looping) {
+      while (position >= region.loopEnd) position -= loopLength;
+    } else if (position >= region.end - 1) {
+      break;
+    }
+    
+    let level: number;
+    if (!releasing) {
+      level = envelopeLevel(envelope, t);
+      releaseLevel = level;
+    } else {
+      // Release falls 100 dB over the release time
+      const elapsed = t - held;
+      level = releaseLevel * 10 ** ((-100 * elapsed) / Math.max(envelope.release, 0.001) / 20);
+      if (level < 1e-5) break;
+    }
+    
+    const index = Math.floor(position);
+    const fraction = position - index;
+    let next = index + 1;
+    if (looping && next >= region.loopEnd) next -= loopLength;
+    const sample = data[index] + (data[next] - data[index]) * fraction;
+    
+    write(frame, (sample / 32768) * level * gain);
+    position += step;
+  }
+  
+  return frame;
+}
+
+/**
+ * Envelope level while the key is held, `t` seconds after it was pressed
+ */
+export function envelopeLevel(envelope: SoundFontEnvelope, t: number): number {
+  const { delay, attack, hold, decay, sustain } = envelope;
+  if (t < delay) return 0;
+  t -= delay;
+  if (t < attack) return t / attack;
+  t -= attack;
+  if (t < hold) return 1;
+  t -= hold;
+  if (t < decay) {
+    // Decay is linear in decibels towards the sustain level
+    const sustainDb = sustain > 0 ? 20 * Math.log10(sustain) : -100;
+    return 10 ** ((sustainDb * (t / decay)) / 20);
+  }
+  return sustain;
+}
+
+/**
+ * Combine a zone with its global zone; local generators win
+ */
+function mergeZone(global: Zone | null, zone: Zone): Zone {
+  if (!global) return zone;
+  return {
+    generators: new Map([...global.generators, ...zone.generators]),
+    keyRange: zone.keyRange[0] === 0 && zone.keyRange[1] === 127 ? global.keyRange : zone.keyRange,
+    velocityRange: zone.velocityRange[0] === 0 && zone.velocityRange[1] === 127 ? global.velocityRange : zone.velocityRange,
+  };
+}
+
+function buildRegion(presetZone: Zone, instrumentZone: Zone, sample: SampleHeader): SoundFontRegion | null {
+  const keyRange = intersect(presetZone.keyRange, instrumentZone.keyRange);
+  const velocityRange = intersect(presetZone.velocityRange, instrumentZone.velocityRange);
+  if (!keyRange || !velocityRange) return null;
+  
+  // Instrument-level values, with preset-level values added on top
+  const value = (operator: number) => {
+    const base = instrumentZone.generators.get(operator) ?? GENERATOR_DEFAULTS[operator] ?? 0;
+    return NON_ADDITIVE.has(operator) ? base : base + (presetZone.generators.get(operator) ?? 0);
+  };
+  const offset = (fine: number, coarse: number) => value(fine) + value(coarse) * 32768;
+  const seconds = (operator: number) => {
+    const timecents = value(operator);
+    return timecents <= -12000 ? 0 : 2 ** (timecents / 1200);
+  };
+  
+  const rootOverride = value(GEN.overridingRootKey);
+  const modes = value(GEN.sampleModes) & 3;
+  
+  return {
+    keyRange,
+    velocityRange,
+    sampleName: sample.name,
+    start: sample.start + offset(GEN.startAddrsOffset, GEN.startAddrsCoarseOffset),
+    end: sample.end + offset(GEN.endAddrsOffset, GEN.endAddrsCoarseOffset),
+    loopStart: sample.loopStart + offset(GEN.startloopAddrsOffset, GEN.startloopAddrsCoarseOffset),
+    loopEnd: sample.loopEnd + offset(GEN.endloopAddrsOffset, GEN.endloopAddrsCoarseOffset),
+    loop: modes === 1 ? 'continuous' : modes === 3 ? 'until-release' : 'none',
+    sampleRate: sample.sampleRate,
+    rootKey: rootOverride >= 0 ? rootOverride : sample.originalPitch,
+    tune: value(GEN.coarseTune) * 100 + value(GEN.fineTune) + sample.pitchCorrection,
+    scaleTuning: value(GEN.scaleTuning),
+    attenuation: Math.max(0, value(GEN.initialAttenuation)) / 10,
+    pan: Math.max(-500, Math.min(500, value(GEN.pan))) / 500,
+    envelope: {
+      delay: seconds(GEN.delayVolEnv),
+      attack: seconds(GEN.attackVolEnv),
+      hold: seconds(GEN.holdVolEnv),
+      decay: seconds(GEN.decayVolEnv),
+      // Sustain is given as attenuation in centibels
+      sustain: 10 ** (-Math.max(0, Math.min(1440, value(GEN.sustainVolEnv))) / 200),
+      release: seconds(GEN.releaseVolEnv),
+    },
+  };
+}
+
+function intersect(a: [number, number], b: [number, number]): [number, number] | null {
+  const low = Math.max(a[0], b[0]);
+  const high = Math.min(a[1], b[1]);
+  return low <= high ? [low, high] : null;
+}
+
+function walkChunks(
+  bytes: Uint8Array,
+  view: DataView,
+  start: number,
+  end: number,
+  visit: (id: string, offset: number, size: number) => void,
+) {
+  let offset = start;
+  while (offset + 8 <= Math.min(end, bytes.length)) {
+    const id = readFourCC(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'LIST') {
+      walkChunks(bytes, view, offset + 12, offset + 8 + size, visit);
+    } else {
+      visit(id, offset + 8, Math.min(size, bytes.length - offset - 8));
+    }
+    offset += 8 + size + (size % 2);
+  }
+}
+
+function readFourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+function readString(bytes: Uint8Array, offset: number, length: number): string {
+  const raw = bytes.subarray(offset, offset + length);
+  const end = raw.indexOf(0);
+  return new TextDecoder('latin1').decode(end >= 0 ? raw.subarray(0, end) : raw).trim();
+}
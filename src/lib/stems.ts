@@ -0,0 +1,89 @@
+/**
+ * Stems
+ *
+ * Bundles a conversion's tracks as separate audio files for accompanists
+ * and video editors: one WAV per instrument or voice ("stem") plus the full
+ * mix, in a ZIP archive with a manifest. Every file starts at the same
+ * moment and has the same length, and the stems share the mix's level, so
+ * laid side by side in an editor they add up to the mix.
+ *
+ * The archive is written as it is rendered, a stem at a time, so a long
+ * score with many tracks never has more than one stem in memory.
+ */
+
+import type { ScoreModel } from './score-model.ts';
+import type { ArrangementTrack } from './arrangement.ts';
+import type { TempoChange } from './performance.ts';
+import { type RenderOptions, type RenderedAudio, renderStems } from './audio-render.ts';
+import { encodeWav } from './audio-encoding.ts';
+import { createZipWriter } from './zip.ts';
+
+export const STEMS_CONTENT_TYPE = 'application/zip';
+export const STEM_MANIFEST_FILE = 'manifest.json';
+export const STEM_MIX_FILE = 'mix.wav';
+
+/**
+ * Contents of the manifest.json in a stem bundle
+ */
+export interface StemManifest {
+  sampleRate: number;
+  mix: string;
+  stems: StemManifestEntry[];
+}
+
+export interface StemManifestEntry {
+  file: string;
+  // Track name, e.g. "Violin (Part 1)" or "Soprano"
+  name: string;
+  instrumentId: string;
+  // Gain the track was mixed at, 1 for full level
+  gain: number;
+  // Stereo position from -1 (left) to 1 (right)
+  pan: number;
+}
+
+/**
+ * Render the stems of an arrangement and write them as a ZIP archive,
+ * passing the archive to `write` a chunk at a time: each stem is encoded
+ * and written before the next is rendered, and `write` is awaited, so it
+ * can hand the chunks on to an upload. Returns the mix as well, so the
+ * conversion's own audio file needs no separate render.
+ */
+export async function renderStemBundle(
+  model: ScoreModel,
+  tracks: ArrangementTrack[],
+  tempo: TempoChange[],
+  write: (chunk: Uint8Array) => Promise<void> | void,
+  options: RenderOptions = {},
+): Promise<RenderedAudio> {
+  const zip = createZipWriter(write);
+  const stems: StemManifestEntry[] = [];
+
+  const mix = await renderStems(model, tracks, tempo, async (track, audio) => {
+    const file = stemFileName(stems.length, track.name);
+    stems.push({ file, name: track.name, instrumentId: track.instrumentId, gain: track.gain, pan: track.pan });
+    await zip.add({ name: file, data: encodeWav(audio) });
+  }, options);
+
+  // The manifest lists the stems, so it comes after them
+  const manifest: StemManifest = { sampleRate: mix.sampleRate, mix: STEM_MIX_FILE, stems };
+  await zip.add({ name: STEM_MIX_FILE, data: encodeWav(mix) });
+  await zip.add({ name: STEM_MANIFEST_FILE, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  await zip.finish();
+
+  return mix;
+}
+
+/**
+ * File name of a stem: its place in the score and its track name, e.g.
+ * "02-violin-part-1.wav"
+ */
+function stemFileName(index: number, name: string): string {
+  const slug = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${String(index + 1).padStart(2, '0')}-${slug || 'track'}.wav`;
+}
@@ -0,0 +1,325 @@
+/**
+ * Tempo Map
+ *
+ * Reads how the tempo moves through a score: metronome marks, tempo terms
+ * such as "Allegro", gradual changes ("rit.", "accel."), returns ("a tempo",
+ * "Tempo I"), metric modulations and fermatas. The MIDI writer and the audio
+ * renderer both play the same tempo changes worked out from this map.
+ *
+ * A conversion's tempo applies to the map in one of two ways:
+ * - 'scale' plays the score's opening at the requested tempo and keeps every
+ *   later change in proportion, so a score marked ♩ = 100 with a ♩ = 150
+ *   section plays that section at 120 when 80 is requested
+ * - 'override' plays the whole score at the requested tempo, without
+ *   changes or fermatas
+ *
+ * Tempos are quarter notes per minute.
+ */
+
+import type { TempoMapEntry, TempoMode } from './types.ts';
+import { type ScoreEvent, type ScoreModel, NOTE_VALUE_QUARTERS } from './score-model.ts';
+import { type ScoreTimeline, type TempoChange, measureIndexAt, scoreTimeline } from './performance.ts';
+
+export const DEFAULT_TEMPO = 120;
+export const MIN_TEMPO = 40;
+export const MAX_TEMPO = 240;
+export const TEMPO_MODES: TempoMode[] = ['scale', 'override'];
+
+// A gradual change reaches its new tempo within this many measures
+const RAMP_MEASURES = 2;
+const RITARDANDO_FACTOR = 0.75;
+const ACCELERANDO_FACTOR = 1.25;
+const MENO_MOSSO_FACTOR = 0.85;
+const PIU_MOSSO_FACTOR = 1.15;
+// A note under a fermata lasts this many times its written length
+const FERMATA_HOLD = 2;
+
+// Tempo terms, most specific first, with a typical metronome value
+const TEMPO_TERMS: [string, number][] = [
+  ['prestissimo', 200],
+  ['presto', 176],
+  ['vivace', 156],
+  ['allegretto', 112],
+  ['allegro', 132],
+  ['moderato', 108],
+  ['andantino', 92],
+  ['andante', 80],
+  ['adagietto', 72],
+  ['adagio', 66],
+  ['larghetto', 60],
+  ['lento', 52],
+  ['largo', 48],
+  ['grave', 40],
+];
+
+const SLOWER_PATTERN = /\b(rit|ritard|ritardando|riten|ritenuto|rall|rallentando|allargando|slentando)\b/;
+const FASTER_PATTERN = /\b(accel|accelerando|stringendo)\b/;
+const TEMPO_PRIMO_PATTERN = /\btempo (i|1|primo)\b/;
+const A_TEMPO_PATTERN = /\ba tempo\b/;
+
+/**
+ * A tempo instruction read from the score, before it is resolved against
+ * the tempo in effect
+ */
+interface TempoInstruction {
+  tick: number;
+  kind: Exclude<TempoMapEntry['kind'], 'fermata'>;
+  bpm?: number;
+  factor?: number;
+  primo?: boolean;
+  text?: string;
+}
+
+/**
+ * Check the tempo mode of a convert request
+ */
+export function isTempoMode(value: unknown): value is TempoMode {
+  return TEMPO_MODES.includes(value as TempoMode);
+}
+
+/**
+ * Tempo the score asks for at its start, from a metronome mark or a tempo
+ * term, or null when the opening is unmarked
+ */
+export function scoreOpeningTempo(model: ScoreModel, timeline = scoreTimeline(model)): number | null {
+  const opening = readInstructions(model, timeline).find(instruction => instruction.tick === 0);
+  return opening?.bpm ?? null;
+}
+
+/**
+ * Tempo map of a score as a conversion plays it, with the requested tempo
+ * applied. The first entry is always the opening tempo.
+ */
+export function buildTempoMap(
+  model: ScoreModel,
+  tempo: number,
+  mode: TempoMode = 'scale',
+  timeline = scoreTimeline(model),
+): TempoMapEntry[] {
+  const measureNumber = (tick: number) => {
+    const index = measureIndexAt(timeline, tick);
+    return model.parts.find(part => part.measures[index])?.measures[index].number ?? index + 1;
+  };
+  const entry = (fields: Omit<TempoMapEntry, 'measure'>): TempoMapEntry => ({
+    ...fields,
+    bpm: round(fields.bpm),
+    measure: measureNumber(fields.tick),
+  });
+
+  if (mode === 'override') {
+    return [entry({ tick: 0, kind: 'mark', bpm: tempo })];
+  }
+
+  const instructions = readInstructions(model, timeline);
+  const opening = instructions[0]?.tick === 0 && instructions[0].bpm !== undefined ? instructions[0] : null;
+  const scale = opening ? tempo / opening.bpm! : 1;
+
+  // Worked out in the score's own tempos, then scaled
+  const map: TempoMapEntry[] = [entry({ tick: 0, kind: 'mark', bpm: tempo, ...(opening?.text && { text: opening.text }) })];
+  let current = opening?.bpm ?? tempo;
+  let base = current;
+  const first = current;
+
+  instructions.forEach((instruction, index) => {
+    if (instruction === opening) return;
+
+    const { tick, kind, text } = instruction;
+    let endTick: number | undefined;
+    switch (kind) {
+      case 'mark':
+      case 'term':
+        current = base = instruction.bpm!;
+        break;
+      case 'modulation':
+        current = base = current * instruction.factor!;
+        break;
+      case 'relative':
+        current = current * instruction.factor!;
+        break;
+      case 'gradual': {
+        current = current * instruction.factor!;
+        const rampEnd = timeline.measureStarts[measureIndexAt(timeline, tick) + RAMP_MEASURES] ?? timeline.totalTicks;
+        endTick = Math.min(instructions[index + 1]?.tick ?? Infinity, rampEnd);
+        if (endTick <= tick) endTick = undefined;
+        break;
+      }
+      case 'return':
+        if (instruction.primo) base = first;
+        current = base;
+        break;
+    }
+
+    map.push(entry({
+      tick,
+      kind,
+      bpm: current * scale,
+      ...(endTick !== undefined && { endTick }),
+      ...(text && { text }),
+    }));
+  });
+
+  // Fermatas hold at the tempo reached by then
+  const steady = tempoChanges(map, model.divisions);
+  let heldUntil = -1;
+  for (const [tick, duration] of readFermatas(model, timeline)) {
+    if (tick < heldUntil) continue;
+    heldUntil = tick + duration;
+    map.push(entry({ tick, kind: 'fermata', bpm: tempoAt(steady, tick) / FERMATA_HOLD, endTick: heldUntil }));
+  }
+
+  return map.sort((a, b) => a.tick - b.tick);
+}
+
+/**
+ * Tempo changes that play a tempo map. Gradual changes move in eighth-note
+ * steps; after a fermata the tempo goes back to what it would have been.
+ */
+export function tempoChanges(map: TempoMapEntry[], divisions: number): TempoChange[] {
+  const step = Math.max(1, Math.round(divisions / 2));
+  const steady: TempoChange[] = [];
+  let current = map[0]?.bpm ?? DEFAULT_TEMPO;
+
+  for (const entry of map) {
+    if (entry.kind === 'fermata') continue;
+
+    if (entry.kind === 'gradual' && entry.endTick !== undefined) {
+      const span = entry.endTick - entry.tick;
+      const steps = Math.max(1, Math.round(span / step));
+      for (let i = 0; i < steps; i++) {
+        const bpm = current + ((entry.bpm - current) * (i + 1)) / steps;
+        setTempo(steady, entry.tick + Math.round((span * i) / steps), round(bpm));
+      }
+    } else {
+      setTempo(steady, entry.tick, entry.bpm);
+    }
+    current = entry.bpm;
+  }
+  if (steady.length === 0) steady.push({ tick: 0, bpm: current });
+
+  const fermatas = map.filter(entry => entry.kind === 'fermata');
+  if (fermatas.length === 0) return steady;
+
+  const changes = steady.filter(change =>
+    !fermatas.some(fermata => change.tick >= fermata.tick && change.tick < fermata.endTick!));
+  for (const fermata of fermatas) {
+    setTempo(changes, fermata.tick, fermata.bpm);
+    if (!steady.some(change => change.tick === fermata.endTick)) {
+      setTempo(changes, fermata.endTick!, tempoAt(steady, fermata.endTick!));
+    }
+  }
+  return changes.sort((a, b) => a.tick - b.tick);
+}
+
+/**
+ * Describe a tempo map entry, e.g. "Allegro, ♩ = 132" or "rit. to ♩ = 99"
+ */
+export function describeTempoEntry(entry: TempoMapEntry, speed = 1): string {
+  const bpm = `♩ = ${Math.round(entry.bpm * speed)}`;
+  switch (entry.kind) {
+    case 'gradual':
+      return `${entry.text ?? 'Gradual change'} to ${bpm}`;
+    case 'fermata':
+      return 'Fermata';
+    case 'modulation':
+      return `Metric modulation to ${bpm}`;
+    default:
+      return entry.text ? `${entry.text}, ${bpm}` : bpm;
+  }
+}
+
+/**
+ * Tempo instructions of all parts in score order. Parts usually repeat the
+ * same marking, so the first instruction at each tick is kept, preferring
+ * one with a metronome mark.
+ */
+function readInstructions(model: ScoreModel, timeline: ScoreTimeline): TempoInstruction[] {
+  const byTick = new Map<number, TempoInstruction>();
+
+  for (const part of model.parts) {
+    part.measures.forEach((measure, index) => {
+      for (const event of measure.events) {
+        const tick = timeline.measureStarts[index] + event.offset;
+        const instruction = readInstruction(event, tick);
+        const existing = byTick.get(tick);
+        if (instruction && (!existing || (existing.kind !== 'mark' && instruction.kind === 'mark'))) {
+          byTick.set(tick, instruction);
+        }
+      }
+    });
+  }
+
+  return [...byTick.values()].sort((a, b) => a.tick - b.tick);
+}
+
+function readInstruction(event: ScoreEvent, tick: number): TempoInstruction | null {
+  if (event.type === 'tempo') {
+    const text = event.text ? { text: event.text } : {};
+    if (event.bpm) {
+      return { tick, kind: 'mark', bpm: event.bpm * NOTE_VALUE_QUARTERS[event.beatUnit ?? 'quarter'], ...text };
+    }
+    if (event.modulation) {
+      return { tick, kind: 'modulation', factor: event.modulation, ...text };
+    }
+    return event.text ? readTempoText(event.text, tick) : null;
+  }
+  if (event.type === 'words') {
+    return readTempoText(event.text, tick);
+  }
+  return null;
+}
+
+/**
+ * Read tempo text, ignoring case and accents ("più mosso")
+ */
+function readTempoText(text: string, tick: number): TempoInstruction | null {
+  const normalized = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+  if (TEMPO_PRIMO_PATTERN.test(normalized)) return { tick, kind: 'return', primo: true, text };
+  if (A_TEMPO_PATTERN.test(normalized)) return { tick, kind: 'return', text };
+  if (SLOWER_PATTERN.test(normalized)) return { tick, kind: 'gradual', factor: RITARDANDO_FACTOR, text };
+  if (FASTER_PATTERN.test(normalized)) return { tick, kind: 'gradual', factor: ACCELERANDO_FACTOR, text };
+  if (/\bmeno mosso\b/.test(normalized)) return { tick, kind: 'relative', factor: MENO_MOSSO_FACTOR, text };
+  if (/\bpiu (mosso|moto)\b/.test(normalized)) return { tick, kind: 'relative', factor: PIU_MOSSO_FACTOR, text };
+
+  const term = TEMPO_TERMS.find(([word]) => new RegExp(`\\b${word}\\b`).test(normalized));
+  return term ? { tick, kind: 'term', bpm: term[1], text } : null;
+}
+
+/**
+ * Ticks of notes and rests under a fermata, with the longest length held
+ * there by any part
+ */
+function readFermatas(model: ScoreModel, timeline: ScoreTimeline): [number, number][] {
+  const fermatas = new Map<number, number>();
+
+  for (const part of model.parts) {
+    part.measures.forEach((measure, index) => {
+      for (const event of measure.events) {
+        if ((event.type !== 'note' && event.type !== 'rest') || !event.fermata || event.duration === 0) continue;
+        const tick = timeline.measureStarts[index] + event.offset;
+        fermatas.set(tick, Math.max(fermatas.get(tick) ?? 0, event.duration));
+      }
+    });
+  }
+
+  return [...fermatas.entries()].sort((a, b) => a[0] - b[0]);
+}
+
+function setTempo(changes: TempoChange[], tick: number, bpm: number) {
+  const existing = changes.find(change => change.tick === tick);
+  if (existing) existing.bpm = bpm;
+  else changes.push({ tick, bpm });
+}
+
+function tempoAt(changes: TempoChange[], tick: number): number {
+  let bpm = changes[0]?.bpm ?? DEFAULT_TEMPO;
+  for (const change of changes) {
+    if (change.tick > tick) break;
+    bpm = change.bpm;
+  }
+  return bpm;
+}
+
+function round(bpm: number): number {
+  return Math.round(bpm * 100) / 100;
+}
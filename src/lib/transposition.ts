@@ -0,0 +1,250 @@
+/**
+ * Transposition
+ *
+ * Moves a score to another key for one conversion. The stored score model
+ * is never changed; the conversion transposes its own copy before the MIDI
+ * file and the audio are made.
+ *
+ * A conversion asks for a shift in semitones or a target key, plus whole
+ * octaves. Either way it is worked out as an interval of diatonic steps and
+ * chromatic semitones (the form instrument transpositions use), so notes
+ * keep sensible spellings: C major down two semitones becomes B♭ major with
+ * E♭s rather than D♯s. A shift in semitones picks the key with the fewest
+ * sharps or flats.
+ */
+
+import type { Transposition, TranspositionInterval } from './types.ts';
+import {
+  type Accidental,
+  type KeySignature,
+  type Pitch,
+  type ScoreModel,
+  DEFAULT_KEY,
+  describeKey,
+  diatonicNumber,
+  diatonicPitch,
+  midiToPitch,
+  pitchToMidi,
+  resolveMeasureAttributes,
+} from './score-model.ts';
+
+export const MAX_TRANSPOSE_SEMITONES = 11;
+export const MAX_TRANSPOSE_OCTAVES = 2;
+
+const ALTER_ACCIDENTALS: Record<number, Accidental> = {
+  [-2]: 'flat-flat',
+  [-1]: 'flat',
+  0: 'natural',
+  1: 'sharp',
+  2: 'double-sharp',
+};
+
+// Semitones above the lower note of each simple interval when it is
+// perfect or major, by number of diatonic steps
+const NATURAL_SEMITONES = [0, 2, 4, 5, 7, 9, 11];
+const PERFECT_STEPS = [0, 3, 4];
+const INTERVAL_NAMES = ['unison', '2nd', '3rd', '4th', '5th', '6th', '7th'];
+
+/**
+ * Check the transposition of a convert request: `semitones` or
+ * `targetKey` (fifths, -7 to 7), not both, and optional `octaves`
+ */
+export function isTranspositionRequest(value: unknown): value is Transposition {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const { semitones, targetKey, octaves, ...rest } = value as Record<string, unknown>;
+
+  const within = (field: unknown, limit: number) =>
+    field === undefined || (Number.isInteger(field) && Math.abs(field as number) <= limit);
+
+  return Object.keys(rest).length === 0 &&
+    (semitones === undefined || targetKey === undefined) &&
+    within(semitones, MAX_TRANSPOSE_SEMITONES) &&
+    within(targetKey, 7) &&
+    within(octaves, MAX_TRANSPOSE_OCTAVES);
+}
+
+/**
+ * Work out the interval and the keys of a requested transposition for a
+ * score. A target key is reached by the nearer way, going down for a
+ * tritone.
+ */
+export function resolveTransposition(
+  model: ScoreModel,
+  request: Transposition,
+): Required<Pick<Transposition, 'interval' | 'fromKey' | 'toKey'>> {
+  const firstPart = model.parts[0];
+  const fromKey = firstPart?.measures.length ? resolveMeasureAttributes(firstPart)[0].key : DEFAULT_KEY;
+
+  let semitones: number;
+  let fifths: number;
+  if (request.targetKey !== undefined) {
+    fifths = request.targetKey - fromKey.fifths;
+    const upward = mod(7 * fifths, 12);
+    semitones = upward < 6 ? upward : upward - 12;
+  } else {
+    semitones = request.semitones ?? 0;
+    // Of the two spellings of the new key, take the one with fewer
+    // accidentals (G♭ rather than F♯ when they tie)
+    const target = mod(fromKey.fifths + 7 * semitones + 6, 12) - 6;
+    fifths = mod(semitones, 12) === 0 ? 0 : target - fromKey.fifths;
+  }
+
+  // Steps that spell the change of key, in the octave nearest the size of
+  // the shift
+  const steps = mod(4 * fifths, 7);
+  const diatonic = steps + 7 * Math.round(((semitones * 7) / 12 - steps) / 7);
+
+  const octaves = request.octaves ?? 0;
+  const interval = { diatonic: diatonic + 7 * octaves, chromatic: semitones + 12 * octaves };
+  return { interval, fromKey, toKey: transposeKey(fromKey, interval) };
+}
+
+/**
+ * Transpose every note and key signature of a model. Each key change is
+ * spelled on its own, so the notes that follow it are spelled to match.
+ */
+export function transposeScoreModel(model: ScoreModel, interval: TranspositionInterval): ScoreModel {
+  if (interval.diatonic === 0 && interval.chromatic === 0) return model;
+
+  return {
+    ...model,
+    parts: model.parts.map(part => {
+      let spelling = interval;
+      return {
+        ...part,
+        measures: part.measures.map(measure => {
+          if (measure.key) spelling = keySpelling(measure.key, interval);
+          return {
+            ...measure,
+            ...(measure.key && { key: transposeKey(measure.key, spelling) }),
+            events: measure.events.map(event => {
+              if (event.type !== 'note') return event;
+
+              const pitch = transposePitch(event.pitch, spelling);
+              // An enharmonic respelling no longer follows the key, so it is written out
+              const respelled = diatonicNumber(pitch) !== diatonicNumber(event.pitch) + spelling.diatonic;
+              return {
+                ...event,
+                pitch,
+                ...((event.accidental !== undefined || respelled) && { accidental: ALTER_ACCIDENTALS[pitch.alter] }),
+              };
+            }),
+          };
+        }),
+      };
+    }),
+  };
+}
+
+/**
+ * Transpose one pitch. Spellings that would need more than a double sharp
+ * or flat are replaced by the plain enharmonic note.
+ */
+export function transposePitch(pitch: Pitch, interval: TranspositionInterval): Pitch {
+  const midi = pitchToMidi(pitch) + interval.chromatic;
+  const natural = diatonicPitch(diatonicNumber(pitch) + interval.diatonic);
+  const alter = midi - pitchToMidi(natural);
+
+  if (Math.abs(alter) > 2) {
+    return midiToPitch(midi, interval.chromatic < 0 ? -1 : 0);
+  }
+  return { ...natural, alter };
+}
+
+/**
+ * Key signature after transposing by an interval. Every fifth up adds a
+ * sharp: a fifth is 4 steps and 7 semitones, so 7 × semitones − 12 × steps
+ * counts the fifths in any interval. A key past seven sharps or flats is
+ * written as its enharmonic (G♯ major as A♭ major).
+ */
+export function transposeKey(key: KeySignature, interval: TranspositionInterval): KeySignature {
+  const fifths = key.fifths + 7 * interval.chromatic - 12 * interval.diatonic;
+  return { ...key, fifths: fifths - 12 * enharmonicShift(fifths) };
+}
+
+/**
+ * The interval as spelled for music in a key: the same number of semitones,
+ * with one step more or fewer when that keeps the new key within seven
+ * sharps or flats (F major down to E major takes A major to A♭, not G♯)
+ */
+export function keySpelling(key: KeySignature, interval: TranspositionInterval): TranspositionInterval {
+  const shift = enharmonicShift(key.fifths + 7 * interval.chromatic - 12 * interval.diatonic);
+  return shift === 0 ? interval : { ...interval, diatonic: interval.diatonic + shift };
+}
+
+/**
+ * Twelves of fifths to take away to bring a key within -7 to 7
+ */
+function enharmonicShift(fifths: number): number {
+  return fifths > 7 ? Math.ceil((fifths - 7) / 12) : fifths < -7 ? -Math.ceil((-7 - fifths) / 12) : 0;
+}
+
+/**
+ * Name of an interval with its direction, e.g. "down a major 2nd" or
+ * "up a perfect 4th and an octave"
+ */
+export function describeInterval(interval: TranspositionInterval): string {
+  const down = interval.chromatic < 0 || (interval.chromatic === 0 && interval.diatonic < 0);
+  const steps = down ? -interval.diatonic : interval.diatonic;
+  const semitones = down ? -interval.chromatic : interval.chromatic;
+  if (steps === 0 && semitones === 0) return 'not transposed';
+
+  const octaves = Math.floor(steps / 7);
+  const simpleSteps = steps - 7 * octaves;
+  const offset = semitones - 12 * octaves - NATURAL_SEMITONES[simpleSteps];
+  const qualities: Record<number, string> = PERFECT_STEPS.includes(simpleSteps)
+    ? { [-1]: 'diminished', 0: 'perfect', 1: 'augmented' }
+    : { [-2]: 'diminished', [-1]: 'minor', 0: 'major', 1: 'augmented' };
+  const quality = qualities[offset];
+
+  const octaveText = octaves === 1 ? 'an octave' : `${octaves} octaves`;
+  let text: string;
+  if (!quality || octaves < 0) {
+    text = `${Math.abs(semitones)} semitone${Math.abs(semitones) !== 1 ? 's' : ''}`;
+  } else if (simpleSteps === 0 && offset === 0 && octaves > 0) {
+    text = octaveText;
+  } else {
+    const article = /^[aeiou]/.test(quality) ? 'an' : 'a';
+    text = `${article} ${quality} ${INTERVAL_NAMES[simpleSteps]}${octaves > 0 ? ` and ${octaveText}` : ''}`;
+  }
+  return `${down ? 'down' : 'up'} ${text}`;
+}
+
+/**
+ * Describe a conversion's transposition: the interval and keys once it has
+ * run, otherwise what was asked for
+ */
+export function describeTransposition(transposition: Transposition): string {
+  const { interval, fromKey, toKey } = transposition;
+  if (interval) {
+    const text = describeInterval(interval);
+    const keys = fromKey && toKey && fromKey.fifths !== toKey.fifths
+      ? ` (${describeKey(fromKey)} → ${describeKey(toKey)})`
+      : '';
+    return `${text.charAt(0).toUpperCase()}${text.slice(1)}${keys}`;
+  }
+
+  const parts: string[] = [];
+  if (transposition.targetKey !== undefined) {
+    parts.push(`To the key with ${describeFifths(transposition.targetKey)}`);
+  } else if (transposition.semitones) {
+    const count = Math.abs(transposition.semitones);
+    parts.push(`${transposition.semitones < 0 ? 'Down' : 'Up'} ${count} semitone${count !== 1 ? 's' : ''}`);
+  }
+  if (transposition.octaves) {
+    const count = Math.abs(transposition.octaves);
+    parts.push(`${transposition.octaves < 0 ? 'down' : 'up'} ${count === 1 ? 'an octave' : `${count} octaves`}`);
+  }
+  const text = parts.join(', ') || 'Not transposed';
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+}
+
+function describeFifths(fifths: number): string {
+  if (fifths === 0) return 'no sharps or flats';
+  const count = Math.abs(fifths);
+  return `${count} ${fifths > 0 ? 'sharp' : 'flat'}${count !== 1 ? 's' : ''}`;
+}
+
+function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
@@ -2,8 +2,15 @@
  * Type Definitions
  * 
  * Core data structures used throughout the application.
+ * The musical content of a score is described in ./score-model.ts.
  */
 
+import type { KeySignature, ScoreModelSource, ScoreModelSummary } from './score-model.ts';
+import type { RecognizedMeasure } from './omr.ts';
+import type { Box } from './raster.ts';
+import type { AmbiguousMeasure } from './voice-separation.ts';
+import type { PartSource } from './performance.ts';
+
 /**
  * User account information
  */
@@ -25,9 +32,39 @@ export interface Score {
   fileSize: number;
   uploadedAt: string;
   url: string;
+  model?: ScoreModelSummary;
+  // Number of the current score revision; every saved model is a revision
+  revision?: number;
+  // Page images, once the score has been recognized (a PDF has one per page)
+  pages?: ScorePage[];
   conversions?: Conversion[];
 }
 
+/**
+ * One saved version of a score's model. Revision 1 is what was recognized
+ * or imported; later ones are corrections from the notation editor, or an
+ * older revision restored from the library.
+ */
+export interface ScoreRevision {
+  number: number;
+  source: ScoreModelSource;
+  createdAt: string;
+  summary: ScoreModelSummary;
+  // Revision whose model this one brings back
+  restoredFrom?: number;
+}
+
+/**
+ * One page of a score as an image. `number` counts from 1.
+ */
+export interface ScorePage {
+  number: number;
+  path: string;
+  url: string;
+  width: number;
+  height: number;
+}
+
 /**
  * Music conversion job
  */
@@ -36,26 +73,203 @@ export interface Conversion {
   scoreId: string;
   userId: string;
   instruments: string[];
-  satbConfig: SATBConfig;
+  partAssignments?: PartAssignment[];
+  orchestration?: OrchestrationNote[];
+  // Choir voices, top voice first, for choir conversions (see ./voices.ts)
+  voices?: ChoirVoice[];
+  // Parts the choir sings when it has instruments too; the instruments play
+  // the others (see sungPartIds in ./voices.ts)
+  sungParts?: string[];
+  // Split staves shared by two voices before the choir voices are taken
+  // from them (see ./voice-separation.ts)
+  separateVoices?: boolean;
+  // Opening tempo in quarter notes per minute; see tempoMode
   tempo: number;
+  tempoMode?: TempoMode;
+  // The score's tempo changes as played, filled in when the conversion runs
+  tempoMap?: TempoMapEntry[];
+  // Play each repeated section once (see ./repeats.ts)
+  skipRepeats?: boolean;
+  // Written measures in the order the audio plays them, filled in when the
+  // conversion runs
+  measureSequence?: PlayedMeasure[];
+  // Mix the playback page starts from, by track id, saved from its mixer
+  mix?: Record<string, TrackMix>;
+  audioFormat?: AudioFormat;
+  // Also render each track as its own WAV, bundled in a ZIP (see ./stems.ts)
+  stems?: boolean;
+  // Rehearsal mixes to render for a choir conversion (see ./learning-tracks.ts)
+  learningTracks?: LearningTrackOptions;
+  // Score revision the conversion was rendered from
+  revision?: number;
+  transposition?: Transposition;
   status: 'processing' | 'completed' | 'failed';
+  stage?: ConversionStage;
+  attempts?: number;
   createdAt: string;
   completedAt?: string;
   audioUrl?: string;
   midiUrl?: string;
   audioPath?: string;
   midiPath?: string;
+  stemsPath?: string;
+  learningTrackFiles?: LearningTrack[];
+  rangeWarnings?: RangeWarning[];
   error?: string;
 }
 
 /**
- * SATB (Soprano, Alto, Tenor, Bass) voice configuration
+ * A passage that goes outside the range of the instrument playing it.
+ * Notes are MIDI numbers at sounding pitch; measures are as numbered in
+ * the score.
+ */
+export interface RangeWarning {
+  trackId: string;
+  trackName: string;
+  instrumentId: string;
+  severity: 'uncomfortable' | 'unplayable';
+  fromMeasure: number;
+  toMeasure: number;
+  lowest?: number;
+  highest?: number;
+  message: string;
+}
+
+/**
+ * Instruments that play one part, or one staff of a part written on several
+ * staves. An empty list drops the part; several instruments double it.
+ */
+export interface PartAssignment {
+  partId: string;
+  staff?: number;
+  instruments: string[];
+}
+
+/**
+ * A decision made by automatic orchestration. Compromises leave notes out of
+ * range, combine parts on one instrument or leave something unplayed.
+ */
+export interface OrchestrationNote {
+  kind: 'choice' | 'compromise';
+  message: string;
+}
+
+/**
+ * Transposition of a conversion (see ./transposition.ts). The request gives
+ * either `semitones` or a `targetKey` (as fifths, in the score's mode), plus
+ * whole `octaves`; the interval and keys are filled in when it runs.
+ */
+export interface Transposition {
+  semitones?: number;
+  targetKey?: number;
+  octaves?: number;
+  interval?: TranspositionInterval;
+  fromKey?: KeySignature;
+  toKey?: KeySignature;
+}
+
+/**
+ * How a conversion's tempo applies to the score's tempo map (see
+ * ./tempo-map.ts): 'scale' plays the opening at the requested tempo and
+ * keeps later changes in proportion; 'override' plays the whole score at
+ * the requested tempo. Conversions without a mode scale.
+ */
+export type TempoMode = 'scale' | 'override';
+
+/**
+ * A tempo instruction of the score, in quarter notes per minute as played.
+ * Gradual changes reach `bpm` at `endTick`; a fermata holds at `bpm` until
+ * `endTick`. Ticks are in the score model's divisions.
+ */
+export interface TempoMapEntry {
+  tick: number;
+  // Measure number as printed in the score
+  measure: number;
+  kind: 'mark' | 'term' | 'gradual' | 'relative' | 'return' | 'modulation' | 'fermata';
+  bpm: number;
+  endTick?: number;
+  text?: string;
+}
+
+/**
+ * A measure as heard: its index and number in the written score, and the
+ * time in seconds at which it starts in the audio and MIDI file
+ */
+export interface PlayedMeasure {
+  index: number;
+  number: number;
+  time: number;
+}
+
+/**
+ * Mix settings of one track of a conversion in live playback
+ */
+export interface TrackMix {
+  // Gain from 0 (silent) to 1 (full level)
+  volume: number;
+  // Stereo position from -1 (left) to 1 (right)
+  pan: number;
+  muted: boolean;
+  solo: boolean;
+}
+
+/**
+ * Learning tracks asked for with a choir conversion
  */
-export interface SATBConfig {
-  soprano: VoiceSettings;
-  alto: VoiceSettings;
-  tenor: VoiceSettings;
-  bass: VoiceSettings;
+export interface LearningTrackOptions {
+  // Put the prominent voice on the left and the rest of the choir on the right
+  panned?: boolean;
+}
+
+/**
+ * Kinds of learning track: every voice at its level, one voice prominent
+ * over the others, or one voice left out to sing along to
+ */
+export type LearningTrackKind = 'balanced' | 'prominent' | 'missing';
+
+/**
+ * A rendered learning track. Prominent and missing tracks name the voice
+ * track they are about.
+ */
+export interface LearningTrack {
+  id: string;
+  kind: LearningTrackKind;
+  trackId?: string;
+  trackName?: string;
+  path: string;
+  url: string;
+}
+
+/**
+ * Encodings offered for the rendered audio
+ */
+export type AudioFormat = 'wav' | 'mp3' | 'ogg';
+
+/**
+ * Conversion pipeline stages, in the order a job runs them
+ */
+export type ConversionStage =
+  | 'recognize'
+  | 'build-model'
+  | 'write-midi'
+  | 'render-audio'
+  | 'upload'
+  | 'learning-tracks';
+
+/**
+ * A named voice of a choir, such as "Soprano 2" or "Baritone". The source
+ * is the part, staff or notated voice it sings; voices without one sing
+ * the score's lines in order.
+ */
+export interface ChoirVoice {
+  id: string;
+  name: string;
+  // Voice instrument it sounds as: soprano, alto, tenor or bass-voice
+  instrumentId: string;
+  // Comfortable singing range, as MIDI note numbers
+  range: PitchRange;
+  settings: VoiceSettings;
+  source?: PartSource;
 }
 
 /**
@@ -90,8 +304,55 @@ export interface Instrument {
   name: string;
   category: InstrumentCategory;
   icon?: string;
+  gm: GeneralMidiSound;
+  gmFallback?: GeneralMidiSound;
+  clef: InstrumentClef;
+  // Sounding range; unpitched percussion has none
+  range?: InstrumentRange;
+  // Interval from written to sounding pitch, absent for concert-pitch instruments
+  transposition?: TranspositionInterval;
 }
 
+/**
+ * Comfortable and extreme playable range, as MIDI note numbers
+ */
+export interface InstrumentRange {
+  comfortable: PitchRange;
+  extreme: PitchRange;
+}
+
+export interface PitchRange {
+  low: number;
+  high: number;
+}
+
+/**
+ * Transposition in the form MusicXML uses: diatonic steps and chromatic
+ * semitones added to the written pitch, e.g. -1 and -2 for a B♭ clarinet
+ */
+export interface TranspositionInterval {
+  diatonic: number;
+  chromatic: number;
+}
+
+/**
+ * Clef an instrument's part is normally written in
+ */
+export type InstrumentClef =
+  | 'treble'
+  | 'treble-8vb'
+  | 'alto'
+  | 'bass'
+  | 'grand'
+  | 'percussion';
+
+/**
+ * General MIDI sound: a melodic program, or a key on the channel-10 drum kit
+ */
+export type GeneralMidiSound =
+  | { kind: 'program'; program: number; bank: number }
+  | { kind: 'drum'; key: number };
+
 /**
  * Instrument categories
  */
@@ -103,11 +364,35 @@ export type InstrumentCategory =
   | 'keyboards'
   | 'voices';
 
+/**
+ * What was recognized in a score, shown for review before converting.
+ * `lowConfidence` holds the measures to check, with their place on `pages`,
+ * and `ambiguousVoices` the measures where shared staves split into voices
+ * uncertainly; every issue is also listed in `validation.warnings`.
+ */
+export interface RecognitionReview {
+  summary: ScoreModelSummary;
+  pages: ScorePage[];
+  lowConfidence: RecognizedMeasure[];
+  ambiguousVoices: AmbiguousVoiceMeasure[];
+  validation: UploadValidation;
+}
+
+/**
+ * A measure whose shared staff could not be split into voices with
+ * certainty, with its place on the pages when it was read from a scan
+ */
+export interface AmbiguousVoiceMeasure extends AmbiguousMeasure {
+  page?: number;
+  box?: Box;
+}
+
 /**
  * Upload validation result
  */
 export interface UploadValidation {
   valid: boolean;
   error?: string;
+  errors?: string[];
   warnings?: string[];
 }
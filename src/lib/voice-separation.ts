@@ -0,0 +1,299 @@
+/**
+ * Voice Separation
+ *
+ * Splits staves shared by two voices into one voice each, as hymnals and
+ * other closed scores print choral music: soprano and alto on the treble
+ * staff, tenor and bass on the bass staff. A staff is shared when its notes
+ * stack into two-note chords; staves with fuller chords are taken for an
+ * accompaniment and left alone.
+ *
+ * Each note of a shared staff goes to its upper or lower voice by, in order:
+ * - a tie, continuing the note a voice is holding
+ * - its stem, where notes at the same time have stems both up and down
+ * - its notated voice, where the staff is written in two voices
+ * - its place in a chord: the top note to the upper voice, the bottom note
+ *   to the lower one
+ * - layering: a note struck while one voice holds goes to the other
+ * - range: a note left over goes to the voice singing nearest to it
+ *
+ * A lone note while neither voice holds or rests is a unison and both sing
+ * it. Stems and notated voices keep the voices apart where they cross.
+ * Measures where the split is a guess are reported, so the recognition
+ * review can ask for them to be checked.
+ */
+
+import type { ScoreMeasure, ScoreModel, ScoreNote, ScorePart, ScoreRest } from './score-model.ts';
+import { pitchToMidi } from './score-model.ts';
+
+/**
+ * A measure of a shared staff whose split into voices is uncertain
+ */
+export interface AmbiguousMeasure {
+  partId: string;
+  staff: number;
+  // Index of the measure in the part, and its written number
+  index: number;
+  number: number;
+  reasons: string[];
+}
+
+/**
+ * Result of separateVoices. `model` is the model passed in when no staff
+ * was shared.
+ */
+export interface VoiceSeparation {
+  model: ScoreModel;
+  ambiguous: AmbiguousMeasure[];
+}
+
+type Side = 'upper' | 'lower';
+type StaffEvent = ScoreNote | ScoreRest;
+
+const SIDES: Side[] = ['upper', 'lower'];
+
+// Share of a staff's chords that may hold more than two notes before the
+// staff is taken for an accompaniment
+const MAX_FULL_CHORDS = 0.25;
+// Recent notes that give a voice's range
+const RANGE_NOTES = 4;
+// Leap in semitones both voices must make before pitch order is doubted
+const CROSSING_LEAP = 7;
+
+const MORE_NOTES = 'a chord has more notes than voices';
+const BOTH_HOLDING = 'a note is struck while both voices hold';
+const MAY_CROSS = 'the voices may cross';
+
+/**
+ * Split every shared staff of a model, or of the listed parts, into an
+ * upper and a lower voice. The upper voice keeps the staff's first notated
+ * voice; the lower one takes the second, or else the next voice number
+ * free in the part.
+ */
+export function separateVoices(model: ScoreModel, partIds?: string[]): VoiceSeparation {
+  const ambiguous: AmbiguousMeasure[] = [];
+  let changed = false;
+
+  const parts = model.parts.map(part => {
+    if (partIds && !partIds.includes(part.id)) return part;
+    let separated = part;
+    for (let staff = 1; staff <= part.staves; staff++) {
+      const voices = sharedStaffVoices(separated, staff);
+      if (!voices) continue;
+      separated = { ...separated, measures: splitStaff(separated, staff, voices, ambiguous) };
+      changed = true;
+    }
+    return separated;
+  });
+
+  return { model: changed ? { ...model, parts } : model, ambiguous };
+}
+
+/**
+ * Voice numbers for the two voices of a shared staff, or null when the
+ * staff is not shared: it has no chords, is already written in more than
+ * two voices, or has the full chords of an accompaniment
+ */
+function sharedStaffVoices(part: ScorePart, staff: number): Record<Side, number> | null {
+  const layers = new Set<number>();
+  let chords = 0;
+  let fullChords = 0;
+
+  for (const measure of part.measures) {
+    const onsets = new Map<string, number>();
+    for (const event of measure.events) {
+      if (event.type !== 'note' || event.staff !== staff || event.grace) continue;
+      layers.add(event.voice);
+      const key = `${event.voice}:${event.offset}`;
+      onsets.set(key, (onsets.get(key) ?? 0) + 1);
+    }
+    for (const count of onsets.values()) {
+      if (count > 1) chords++;
+      if (count > 2) fullChords++;
+    }
+  }
+
+  if (chords === 0 || layers.size > 2 || fullChords > chords * MAX_FULL_CHORDS) return null;
+  const [upper, lower] = [...layers].sort((a, b) => a - b);
+  return { upper, lower: lower ?? nextFreeVoice(part) };
+}
+
+/**
+ * The measures of a part with one staff's notes and rests given to its
+ * upper and lower voice
+ */
+function splitStaff(
+  part: ScorePart,
+  staff: number,
+  voices: Record<Side, number>,
+  ambiguous: AmbiguousMeasure[],
+): ScoreMeasure[] {
+  const recent: Record<Side, number[]> = { upper: [], lower: [] };
+  // Pitches each voice has tied over to its next note
+  const tied: Record<Side, Set<number>> = { upper: new Set(), lower: new Set() };
+
+  return part.measures.map((measure, index) => {
+    const own = measure.events.filter((event): event is StaffEvent =>
+      (event.type === 'note' || event.type === 'rest') && event.staff === staff);
+    if (own.length === 0) return measure;
+
+    const twoLayers = new Set(own.map(event => event.voice)).size > 1;
+    const layerSide = (event: StaffEvent): Side => (event.voice === voices.upper ? 'upper' : 'lower');
+    const reasons = new Set<string>();
+    const busyUntil: Record<Side, number> = { upper: 0, lower: 0 };
+    const placed: StaffEvent[] = [];
+    const place = (event: StaffEvent, sides: Side[]) => {
+      for (const side of sides) {
+        placed.push({ ...event, voice: voices[side] });
+        busyUntil[side] = Math.max(busyUntil[side], event.offset + event.duration);
+      }
+    };
+
+    // Grace notes only decorate a voice, so they follow their notation
+    for (const event of own) {
+      if (event.type === 'note' && event.grace) {
+        placed.push({ ...event, voice: voices[twoLayers ? layerSide(event) : 'upper'] });
+      }
+    }
+
+    const offsets = [...new Set(own.filter(event => event.type === 'rest' || !event.grace).map(event => event.offset))]
+      .sort((a, b) => a - b);
+
+    for (const offset of offsets) {
+      const notes = own
+        .filter((event): event is ScoreNote => event.type === 'note' && !event.grace && event.offset === offset)
+        .sort((a, b) => pitchToMidi(b.pitch) - pitchToMidi(a.pitch));
+      const rests = own.filter((event): event is ScoreRest => event.type === 'rest' && event.offset === offset);
+      const free = (side: Side) => busyUntil[side] <= offset;
+      const stems = new Set(notes.map(note => note.stem).filter(Boolean));
+      const sides = new Map<ScoreNote, Side[]>();
+      const continued = new Set<ScoreNote>();
+
+      for (const note of notes) {
+        const midi = pitchToMidi(note.pitch);
+        const holding = SIDES.filter(side => tied[side].has(midi));
+        const alone = notes.filter(other => other.voice === note.voice).length === 1;
+        if ((note.tie === 'stop' || note.tie === 'continue') && holding.length > 0) {
+          sides.set(note, holding);
+          continued.add(note);
+        } else if (stems.size === 2 && note.stem) {
+          sides.set(note, [note.stem === 'up' ? 'upper' : 'lower']);
+        } else if (twoLayers && alone) {
+          sides.set(note, [layerSide(note)]);
+        }
+      }
+
+      const open = notes.filter(note => !sides.has(note));
+      const taken = (side: Side) => [...sides.values()].some(list => list.includes(side));
+      if (open.length > 0 && sides.size === 0) {
+        if (open.length === 1) {
+          const available = SIDES.filter(free);
+          if (available.length > 0) {
+            sides.set(open[0], available);
+          } else {
+            sides.set(open[0], [nearestSide(recent, pitchToMidi(open[0].pitch))]);
+            reasons.add(BOTH_HOLDING);
+          }
+        } else {
+          const top = open[0];
+          const bottom = open[open.length - 1];
+          sides.set(top, ['upper']);
+          sides.set(bottom, ['lower']);
+          if (mayCross(recent, pitchToMidi(top.pitch), pitchToMidi(bottom.pitch))) reasons.add(MAY_CROSS);
+          for (const note of open.slice(1, -1)) {
+            sides.set(note, [nearestSide(recent, pitchToMidi(note.pitch))]);
+          }
+        }
+      } else {
+        for (const note of open) {
+          const untaken = SIDES.filter(side => !taken(side));
+          sides.set(note, untaken.length === 1 ? untaken : [nearestSide(recent, pitchToMidi(note.pitch))]);
+        }
+      }
+
+      const counts = SIDES.map(side => notes.filter(note => sides.get(note)!.includes(side)).length);
+      if (counts.some(count => count > 1)) reasons.add(MORE_NOTES);
+
+      // Rests of a single notated voice silence whichever voice is not singing
+      const resting = new Set<Side>();
+      for (const rest of rests) {
+        const restSides = twoLayers ? [layerSide(rest)] : SIDES.filter(side => !taken(side) && free(side));
+        for (const side of restSides) resting.add(side);
+        place(rest, restSides);
+      }
+
+      // A lone note while the other voice neither holds nor rests is a
+      // unison, unless it only continues a tie
+      if (notes.length === 1 && !continued.has(notes[0])) {
+        const noteSides = sides.get(notes[0])!;
+        const other = SIDES.find(side => !noteSides.includes(side));
+        if (other && free(other) && !resting.has(other)) noteSides.push(other);
+      }
+
+      for (const note of notes) {
+        const midi = pitchToMidi(note.pitch);
+        const noteSides = sides.get(note)!;
+        place(note, noteSides);
+        for (const side of noteSides) {
+          recent[side] = [...recent[side], midi].slice(-RANGE_NOTES);
+          if (note.tie === 'start' || note.tie === 'continue') {
+            tied[side].add(midi);
+          } else {
+            tied[side].delete(midi);
+          }
+        }
+      }
+    }
+
+    if (reasons.size > 0) {
+      ambiguous.push({ partId: part.id, staff, index, number: measure.number, reasons: [...reasons] });
+    }
+
+    const events = [
+      ...measure.events.filter(event => !own.includes(event as StaffEvent)),
+      ...placed,
+    ];
+    return {
+      ...measure,
+      events: events
+        .map((event, position) => ({ event, position }))
+        .sort((a, b) => a.event.offset - b.event.offset || a.position - b.position)
+        .map(({ event }) => event),
+    };
+  });
+}
+
+/**
+ * The voice whose recent notes lie nearest a pitch
+ */
+function nearestSide(recent: Record<Side, number[]>, midi: number): Side {
+  const distance = (side: Side) => {
+    const notes = recent[side];
+    return notes.length > 0
+      ? Math.abs(notes.reduce((sum, note) => sum + note, 0) / notes.length - midi)
+      : Infinity;
+  };
+  return distance('lower') < distance('upper') ? 'lower' : 'upper';
+}
+
+/**
+ * Whether two voices read in pitch order would both leap, where crossing
+ * over would let both move by step
+ */
+function mayCross(recent: Record<Side, number[]>, top: number, bottom: number): boolean {
+  const upper = recent.upper[recent.upper.length - 1];
+  const lower = recent.lower[recent.lower.length - 1];
+  if (upper === undefined || lower === undefined || top === bottom) return false;
+  const straight = Math.abs(top - upper) + Math.abs(bottom - lower);
+  const crossed = Math.abs(top - lower) + Math.abs(bottom - upper);
+  return Math.abs(top - upper) > CROSSING_LEAP && Math.abs(bottom - lower) > CROSSING_LEAP && crossed * 2 < straight;
+}
+
+function nextFreeVoice(part: ScorePart): number {
+  let highest = 0;
+  for (const measure of part.measures) {
+    for (const event of measure.events) {
+      if (event.type === 'note' || event.type === 'rest') highest = Math.max(highest, event.voice);
+    }
+  }
+  return highest + 1;
+}
@@ -0,0 +1,303 @@
+/**
+ * Choir Voices
+ *
+ * The voices of a choir conversion: an ordered list, top voice first, each
+ * with a name, the voice type it sounds as, its singing range and its mix
+ * settings. Voices are detected from the score (one per vocal part, or per
+ * staff and notated voice of a part that carries several lines) or defined
+ * by the user, so SSAA, TTBB, SSATB or eight-part music gets a voice for
+ * every line.
+ *
+ * A choir can sing next to instruments: anthems with organ or piano get
+ * voices for the vocal parts and instruments for the accompaniment (see
+ * sungPartIds).
+ *
+ * Conversions made before voices were named stored four fixed SATB
+ * settings. migrateConversion turns those into the equivalent voice list,
+ * keeping the ids 'soprano', 'alto', 'tenor' and 'bass' so mixes and
+ * learning tracks saved with them still apply.
+ */
+
+import type { ChoirVoice, Conversion, InstrumentRange, PitchRange, VoiceSettings } from './types.ts';
+import type { ScoreModel, ScorePart } from './score-model.ts';
+import { type PartSource, performNotes, scoreTimeline } from './performance.ts';
+import { getInstrumentById } from './instruments.ts';
+
+/**
+ * Instruments a choir voice can sound as, from high to low
+ */
+export const VOICE_TYPES = ['soprano', 'alto', 'tenor', 'bass-voice'];
+
+// Enough for double choirs with divisi
+export const MAX_CHOIR_VOICES = 16;
+export const MAX_VOICE_NAME_LENGTH = 60;
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = { enabled: true, solo: false, volume: 100 };
+
+// Part names only voices carry, and voice names that alone name a voice part
+// (not "Alto Saxophone" or "Bass Guitar")
+const VOCAL_PART_NAME = /choir|chorus|voice|vocal|satb|sopran|contralto|mezzo/i;
+const VOICE_PART_NAME = /^(alto|tenor|bass|baritone|treble|descant)s?(\s+(\d+|[iv]+))?$/i;
+
+// The fixed voices of conversions made before voices were named
+const SATB_VOICES = [
+  { id: 'soprano', name: 'Soprano', instrumentId: 'soprano' },
+  { id: 'alto', name: 'Alto', instrumentId: 'alto' },
+  { id: 'tenor', name: 'Tenor', instrumentId: 'tenor' },
+  { id: 'bass', name: 'Bass', instrumentId: 'bass-voice' },
+] as const;
+
+/**
+ * Voice settings keyed by the four SATB voices, as conversions stored them
+ * before voices were named
+ */
+export interface LegacySATBConfig {
+  soprano?: VoiceSettings;
+  alto?: VoiceSettings;
+  tenor?: VoiceSettings;
+  bass?: VoiceSettings;
+}
+
+/**
+ * A voice sounding as a voice type, with that type's comfortable range
+ */
+export function createChoirVoice(id: string, name: string, instrumentId: string, source?: PartSource): ChoirVoice {
+  return {
+    id,
+    name,
+    instrumentId,
+    range: voiceTypeRange(instrumentId),
+    settings: { ...DEFAULT_VOICE_SETTINGS },
+    ...(source && { source }),
+  };
+}
+
+/**
+ * Soprano, alto, tenor and bass, each singing the score's lines in order
+ */
+export function defaultChoirVoices(): ChoirVoice[] {
+  return SATB_VOICES.map(voice => createChoirVoice(voice.id, voice.name, voice.instrumentId));
+}
+
+/**
+ * The voice list equivalent to fixed SATB settings
+ */
+export function choirVoicesFromSatbConfig(config: LegacySATBConfig): ChoirVoice[] {
+  return SATB_VOICES.map(voice => ({
+    ...createChoirVoice(voice.id, voice.name, voice.instrumentId),
+    settings: config[voice.id] ?? { ...DEFAULT_VOICE_SETTINGS },
+  }));
+}
+
+/**
+ * A conversion in its current shape. Stored conversions with SATB settings
+ * get the equivalent voices; the settings of instrument conversions, which
+ * were empty, are dropped.
+ */
+export function migrateConversion(stored: Conversion & { satbConfig?: LegacySATBConfig }): Conversion {
+  if (!('satbConfig' in stored)) return stored;
+  const { satbConfig, ...conversion } = stored;
+  if (!satbConfig?.soprano || conversion.voices) return conversion;
+  return { ...conversion, voices: choirVoicesFromSatbConfig(satbConfig) };
+}
+
+/**
+ * One voice per line of the score, top line first. A part with one line is
+ * sung whole and keeps its name; a part with several staves or notated
+ * voices gives a voice for each, named after its voice type. The voice type
+ * is the one a part's name gives, or else the one whose range suits the
+ * line's median pitch. Repeated names are numbered, e.g. "Soprano 1" and
+ * "Soprano 2".
+ */
+export function detectChoirVoices(model: ScoreModel): ChoirVoice[] {
+  const timeline = scoreTimeline(model);
+  const layers = staffVoiceLayers(model);
+  const lines = model.parts.flatMap(part => {
+    const partLayers = layers.filter(layer => layer.partId === part.id);
+    const whole: PartSource = { partId: part.id };
+    return partLayers.length === 1
+      ? [{ source: whole, name: part.name.trim() }]
+      : partLayers.map(source => ({ source, name: '' }));
+  });
+
+  const detected = lines.flatMap(line => {
+    const pitches = performNotes(model, [line.source], timeline)
+      .map(note => note.midi)
+      .sort((a, b) => a - b);
+    if (pitches.length === 0) return [];
+    const instrumentId = namedVoiceType(line.name) ?? closestVoiceType(pitches[Math.floor(pitches.length / 2)]);
+    return [{ ...line, instrumentId, name: line.name || getInstrumentById(instrumentId)!.name }];
+  });
+
+  const ids = new Set<string>();
+  return detected.map(line => {
+    const sameName = detected.filter(other => other.name === line.name);
+    const name = sameName.length > 1 ? `${line.name} ${sameName.indexOf(line) + 1}` : line.name;
+    const id = uniqueId(slug(name) || 'voice', ids);
+    ids.add(id);
+    return createChoirVoice(id, name.slice(0, MAX_VOICE_NAME_LENGTH), line.instrumentId, line.source);
+  });
+}
+
+/**
+ * Whether a part looks written for voices: it has lyrics, or a voice's name
+ */
+export function isVocalPart(part: ScorePart): boolean {
+  const name = part.name.trim();
+  return VOCAL_PART_NAME.test(name) || VOICE_PART_NAME.test(name) || part.measures.some(measure =>
+    measure.events.some(event => event.type === 'note' && (event.lyrics?.length ?? 0) > 0));
+}
+
+/**
+ * Ids of the parts a conversion's choir sings, in score order. A choir on
+ * its own sings the whole score; next to instruments it sings the parts
+ * chosen for it, or else those its voices name, or else those that look
+ * vocal, or else the top part, and the instruments play the rest.
+ */
+export function sungPartIds(
+  model: ScoreModel,
+  conversion: Pick<Conversion, 'instruments' | 'partAssignments' | 'voices' | 'sungParts'>,
+): string[] {
+  if (!conversion.voices?.length) return [];
+  if (conversion.instruments.length === 0 && !conversion.partAssignments?.length) {
+    return model.parts.map(part => part.id);
+  }
+  const named = new Set(conversion.sungParts ??
+    conversion.voices.flatMap(voice => (voice.source ? [voice.source.partId] : [])));
+  return named.size > 0
+    ? model.parts.filter(part => named.has(part.id)).map(part => part.id)
+    : defaultSungPartIds(model);
+}
+
+/**
+ * Ids of the parts a choir sings when nothing names them: those that look
+ * vocal, or else the top part
+ */
+export function defaultSungPartIds(model: ScoreModel): string[] {
+  const vocal = model.parts.filter(isVocalPart);
+  return (vocal.length > 0 ? vocal : model.parts.slice(0, 1)).map(part => part.id);
+}
+
+/**
+ * Lines sung by voices that name no source of their own: each part when
+ * the score has a part per voice, otherwise every staff and notated voice
+ * in score order, as closed SATB scores are written
+ */
+export function defaultVoiceLayers(model: ScoreModel, voiceCount: number): PartSource[] {
+  return model.parts.length >= voiceCount
+    ? model.parts.map(part => ({ partId: part.id }))
+    : staffVoiceLayers(model);
+}
+
+/**
+ * Range checked for a voice: its own range is comfortable, and its voice
+ * type's extreme range (widened to take it in) is the limit
+ */
+export function choirVoiceRange(voice: ChoirVoice): InstrumentRange {
+  const extreme = getInstrumentById(voice.instrumentId)?.range?.extreme ?? voice.range;
+  return {
+    comfortable: { ...voice.range },
+    extreme: { low: Math.min(extreme.low, voice.range.low), high: Math.max(extreme.high, voice.range.high) },
+  };
+}
+
+/**
+ * Comfortable range of a voice type
+ */
+export function voiceTypeRange(instrumentId: string): PitchRange {
+  const range = getInstrumentById(instrumentId)?.range ?? getInstrumentById('soprano')!.range!;
+  return { ...range.comfortable };
+}
+
+/**
+ * An id not yet used by any of the voices
+ */
+export function nextVoiceId(voices: ChoirVoice[]): string {
+  return uniqueId('voice', new Set(voices.map(voice => voice.id)));
+}
+
+/**
+ * Whether a value is a well-formed voice list: named voices with distinct
+ * ids, known voice types and ranges of MIDI notes
+ */
+export function isChoirVoiceList(value: unknown): value is ChoirVoice[] {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_CHOIR_VOICES) return false;
+  const ids = new Set(value.map(voice => voice?.id));
+  return ids.size === value.length && value.every(item => {
+    const voice = item as Partial<ChoirVoice> | null;
+    const settings = voice?.settings;
+    const source = voice?.source;
+    return typeof voice?.id === 'string' && voice.id.length > 0 && voice.id.length <= MAX_VOICE_NAME_LENGTH &&
+      typeof voice.name === 'string' && voice.name.trim().length > 0 && voice.name.length <= MAX_VOICE_NAME_LENGTH &&
+      typeof voice.instrumentId === 'string' && VOICE_TYPES.includes(voice.instrumentId) &&
+      isMidiNote(voice.range?.low) && isMidiNote(voice.range?.high) && voice.range!.low <= voice.range!.high &&
+      typeof settings?.enabled === 'boolean' &&
+      typeof settings.solo === 'boolean' &&
+      typeof settings.volume === 'number' && settings.volume >= 0 && settings.volume <= 100 &&
+      (source === undefined || (
+        typeof source.partId === 'string' &&
+        (source.staff === undefined || (Number.isInteger(source.staff) && source.staff > 0)) &&
+        (source.voice === undefined || (Number.isInteger(source.voice) && source.voice > 0))
+      ));
+  });
+}
+
+/**
+ * Every staff/voice combination that holds notes, top staff first
+ */
+function staffVoiceLayers(model: ScoreModel): PartSource[] {
+  const layers: PartSource[] = [];
+
+  for (const part of model.parts) {
+    for (let staff = 1; staff <= part.staves; staff++) {
+      const voices = new Set<number>();
+      for (const measure of part.measures) {
+        for (const event of measure.events) {
+          if (event.type === 'note' && event.staff === staff) voices.add(event.voice);
+        }
+      }
+      for (const voice of [...voices].sort((a, b) => a - b)) {
+        layers.push({ partId: part.id, staff, voice });
+      }
+    }
+  }
+
+  return layers;
+}
+
+/**
+ * Voice type a part name calls for, e.g. 'tenor' for "Tenor II"
+ */
+function namedVoiceType(name: string): string | undefined {
+  if (/sopran|treble|descant/i.test(name)) return 'soprano';
+  if (/alto|mezzo|contralto/i.test(name)) return 'alto';
+  if (/tenor/i.test(name)) return 'tenor';
+  if (/bass|baritone/i.test(name)) return 'bass-voice';
+  return undefined;
+}
+
+/**
+ * Voice type whose comfortable range is centred nearest a pitch
+ */
+function closestVoiceType(midi: number): string {
+  const distance = (id: string) => {
+    const range = voiceTypeRange(id);
+    return Math.abs((range.low + range.high) / 2 - midi);
+  };
+  return VOICE_TYPES.reduce((best, id) => (distance(id) < distance(best) ? id : best));
+}
+
+function isMidiNote(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 127;
+}
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function uniqueId(base: string, taken: Set<string>): string {
+  if (!taken.has(base)) return base;
+  let number = 2;
+  while (taken.has(`${base}-${number}`)) number++;
+  return `${base}-${number}`;
+}
@@ -0,0 +1,204 @@
+/**
+ * XML Parser
+ *
+ * Small non-validating XML parser that builds an element tree. Used to read
+ * MusicXML both in the browser and in the edge function, where DOMParser is
+ * not available. Supports elements, attributes, text, CDATA, comments,
+ * processing instructions, DOCTYPE declarations and character references.
+ */
+
+/**
+ * An element and its children. Text content is concatenated into `text`.
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+/**
+ * Malformed input, with the 1-based line where parsing stopped
+ */
+export class XmlParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'XmlParseError';
+    this.line = line;
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parse a document and return its root element
+ */
+export function parseXml(source: string): XmlElement {
+  let pos = 0;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+
+  function fail(message: string): never {
+    const line = source.slice(0, pos).split('\n').length;
+    throw new XmlParseError(message, line);
+  }
+
+  function skipPast(terminator: string, what: string) {
+    const end = source.indexOf(terminator, pos);
+    if (end < 0) fail(`Unterminated ${what}`);
+    pos = end + terminator.length;
+  }
+
+  function appendText(text: string) {
+    const current = stack[stack.length - 1];
+    if (current) {
+      current.text += text;
+    } else if (text.trim()) {
+      fail('Text outside the root element');
+    }
+  }
+
+  // Skip a byte order mark
+  if (source.charCodeAt(0) === 0xfeff) pos = 1;
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt < 0) {
+      appendText(decodeEntities(source.slice(pos), fail));
+      break;
+    }
+    if (lt > pos) {
+      appendText(decodeEntities(source.slice(pos, lt), fail));
+    }
+    pos = lt;
+
+    if (source.startsWith('<!--', pos)) {
+      skipPast('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      const end = source.indexOf(']]>', pos);
+      if (end < 0) fail('Unterminated CDATA section');
+      appendText(source.slice(pos + 9, end));
+      pos = end + 3;
+    } else if (source.startsWith('<?', pos)) {
+      skipPast('?>', 'processing instruction');
+    } else if (source.startsWith('<!DOCTYPE', pos)) {
+      skipDoctype();
+    } else if (source.startsWith('</', pos)) {
+      const end = source.indexOf('>', pos);
+      if (end < 0) fail('Unterminated closing tag');
+      const name = source.slice(pos + 2, end).trim();
+      const open = stack.pop();
+      if (!open) fail(`Unexpected closing tag </${name}>`);
+      if (open.name !== name) fail(`Expected </${open.name}> but found </${name}>`);
+      pos = end + 1;
+    } else {
+      parseStartTag();
+    }
+  }
+
+  if (stack.length > 0) {
+    fail(`Unclosed element <${stack[stack.length - 1].name}>`);
+  }
+  if (!root) {
+    fail('Document has no root element');
+  }
+  return root;
+
+  function skipDoctype() {
+    // DOCTYPE may contain an internal subset in square brackets
+    let depth = 0;
+    for (let i = pos; i < source.length; i++) {
+      const char = source[i];
+      if (char === '[') depth++;
+      else if (char === ']') depth--;
+      else if (char === '>' && depth === 0) {
+        pos = i + 1;
+        return;
+      }
+    }
+    fail('Unterminated DOCTYPE');
+  }
+
+  function parseStartTag() {
+    pos++;
+    const nameMatch = /^[^\s/>]+/.exec(source.slice(pos, pos + 256));
+    if (!nameMatch) fail('Missing element name');
+    const element: XmlElement = { name: nameMatch[0], attributes: {}, children: [], text: '' };
+    pos += nameMatch[0].length;
+
+    while (true) {
+      while (pos < source.length && /\s/.test(source[pos])) pos++;
+      if (pos >= source.length) fail(`Unterminated tag <${element.name}>`);
+
+      if (source.startsWith('/>', pos)) {
+        pos += 2;
+        attach(element, false);
+        return;
+      }
+      if (source[pos] === '>') {
+        pos++;
+        attach(element, true);
+        return;
+      }
+
+      const attrMatch = /^([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/.exec(source.slice(pos, pos + 4096));
+      if (!attrMatch) fail(`Malformed attribute in <${element.name}>`);
+      element.attributes[attrMatch[1]] = decodeEntities(attrMatch[3] ?? attrMatch[4], fail);
+      pos += attrMatch[0].length;
+    }
+  }
+
+  function attach(element: XmlElement, open: boolean) {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.children.push(element);
+    } else if (root) {
+      fail('Document has more than one root element');
+    } else {
+      root = element;
+    }
+    if (open) stack.push(element);
+  }
+}
+
+function decodeEntities(text: string, fail: (message: string) => never): string {
+  if (!text.includes('&')) return text;
+
+  return text.replace(/&([^;\s]*);?/g, (match, entity: string) => {
+    if (!match.endsWith(';')) fail(`Unterminated entity &${entity}`);
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    if (entity in NAMED_ENTITIES) return NAMED_ENTITIES[entity];
+    fail(`Unknown entity &${entity};`);
+  });
+}
+
+/**
+ * First direct child with the given name
+ */
+export function child(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(item => item.name === name);
+}
+
+/**
+ * All direct children with the given name
+ */
+export function children(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element?.children.filter(item => item.name === name) ?? [];
+}
+
+/**
+ * Trimmed text of the first direct child with the given name
+ */
+export function childText(element: XmlElement | undefined, name: string): string | undefined {
+  const found = child(element, name);
+  return found ? found.text.trim() : undefined;
+}
@@ -0,0 +1,239 @@
+/**
+ * ZIP Archives
+ *
+ * Reads ZIP archives such as compressed MusicXML (.mxl). Entries may be
+ * stored or deflated; deflated entries are inflated with the platform's
+ * DecompressionStream, available in browsers and in the Deno edge runtime.
+ *
+ * Also writes archives, such as stem bundles, with every entry stored:
+ * audio barely compresses, and stored entries keep the output the same for
+ * the same files. Archives too large to hold in memory are written a file
+ * at a time with createZipWriter.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// Version 2.0 of the format, and the UTF-8 file name flag
+const ZIP_VERSION = 20;
+const FLAG_UTF8 = 0x0800;
+// DOS date of 1 January 1980, the earliest a ZIP can hold; written entries
+// carry no real time so that archives are reproducible
+const FIXED_DATE = (0 << 9) | (1 << 5) | 1;
+
+/**
+ * A file to write into an archive
+ */
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+/**
+ * Archive written a file at a time
+ */
+export interface ZipWriter {
+  add(entry: ZipEntry): Promise<void>;
+  // Writes the central directory; nothing can be added afterwards
+  finish(): Promise<void>;
+}
+
+/**
+ * Read every file in an archive, keyed by path
+ */
+export async function readZip(bytes: Uint8Array): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const files = new Map<string, Uint8Array>();
+
+  const endOffset = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry ${name}`);
+    }
+    const dataStart = localOffset + 30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      files.set(name, data);
+    } else if (method === METHOD_DEFLATE) {
+      files.set(name, await inflateRaw(data));
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Write files into an archive, in the order given
+ */
+export function writeZip(entries: ZipEntry[]): Uint8Array {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const { local, central } = entryHeaders(entry, offset);
+    locals.push(local, entry.data);
+    centrals.push(central);
+    offset += local.length + entry.data.length;
+  }
+
+  return concat([...locals, ...centrals, endOfCentralDirectory(centrals, offset)]);
+}
+
+/**
+ * Write an archive a file at a time, in the order added. Each file's local
+ * header and data go to `write` as soon as it is added; only its CRC, size
+ * and offset are kept, in its central directory entry, until `finish`.
+ * `write` may return a promise, which is awaited before going on.
+ */
+export function createZipWriter(write: (chunk: Uint8Array) => Promise<void> | void): ZipWriter {
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  return {
+    async add(entry: ZipEntry) {
+      const { local, central } = entryHeaders(entry, offset);
+      centrals.push(central);
+      offset += local.length + entry.data.length;
+      await write(local);
+      await write(entry.data);
+    },
+
+    async finish() {
+      await write(concat([...centrals, endOfCentralDirectory(centrals, offset)]));
+    },
+  };
+}
+
+/**
+ * Whether the bytes start with a ZIP local file header
+ */
+export function isZip(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is at least 22 bytes and may be followed by a comment of up to 64 KB
+  const last = view.byteLength - 22;
+  for (let offset = last; offset >= Math.max(0, last - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Not a ZIP archive');
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Local file header and central directory entry of a file stored at an
+ * offset of the archive
+ */
+function entryHeaders(entry: ZipEntry, offset: number): { local: Uint8Array; central: Uint8Array } {
+  const name = new TextEncoder().encode(entry.name);
+  const crc = crc32(entry.data);
+
+  const local = new Uint8Array(30 + name.length);
+  const localView = new DataView(local.buffer);
+  localView.setUint32(0, LOCAL_FILE_HEADER, true);
+  writeEntryFields(localView, 4, crc, entry.data.length, name.length);
+  local.set(name, 30);
+
+  const central = new Uint8Array(46 + name.length);
+  const centralView = new DataView(central.buffer);
+  centralView.setUint32(0, CENTRAL_DIRECTORY_ENTRY, true);
+  centralView.setUint16(4, ZIP_VERSION, true);
+  writeEntryFields(centralView, 6, crc, entry.data.length, name.length);
+  centralView.setUint32(42, offset, true);
+  central.set(name, 46);
+
+  return { local, central };
+}
+
+/**
+ * End of central directory record for a directory that starts at an offset
+ */
+function endOfCentralDirectory(centrals: Uint8Array[], offset: number): Uint8Array {
+  const directorySize = centrals.reduce((total, central) => total + central.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, centrals.length, true);
+  endView.setUint16(10, centrals.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+  return end;
+}
+
+/**
+ * Fields shared by local headers and central directory entries, from the
+ * version needed to extract through the extra field length
+ */
+function writeEntryFields(view: DataView, at: number, crc: number, size: number, nameLength: number) {
+  view.setUint16(at, ZIP_VERSION, true);
+  view.setUint16(at + 2, FLAG_UTF8, true);
+  view.setUint16(at + 4, METHOD_STORED, true);
+  view.setUint16(at + 6, 0, true);
+  view.setUint16(at + 8, FIXED_DATE, true);
+  view.setUint32(at + 10, crc, true);
+  view.setUint32(at + 14, size, true);
+  view.setUint32(at + 18, size, true);
+  view.setUint16(at + 22, nameLength, true);
+  view.setUint16(at + 24, 0, true);
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
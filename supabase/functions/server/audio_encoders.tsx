@@ -0,0 +1,64 @@
+/**
+ * Audio Encoders
+ *
+ * Encodes rendered audio in the format chosen for a conversion. WAV and
+ * Ogg FLAC use the shared encoders in src/lib/audio-encoding.ts; MP3 uses the
+ * pure JavaScript LAME port, which only the edge function loads.
+ */
+
+import { Mp3Encoder } from 'npm:@breezystack/lamejs@1.2.7';
+import type { AudioFormat } from '../../../src/lib/types.ts';
+import type { RenderedAudio } from '../../../src/lib/audio-render.ts';
+import {
+  AUDIO_FORMATS,
+  encodeOggFlac,
+  encodeWav,
+  toInt16,
+} from '../../../src/lib/audio-encoding.ts';
+
+const MP3_BITRATE_KBPS = 192;
+// LAME consumes one MPEG-1 Layer III frame of samples per call
+const MP3_FRAME_SAMPLES = 1152;
+
+/**
+ * Encode audio, returning the bytes with their content type and extension
+ */
+export function encodeAudio(audio: RenderedAudio, format: AudioFormat) {
+  const { contentType, extension } = AUDIO_FORMATS[format];
+  
+  let bytes: Uint8Array;
+  switch (format) {
+    case 'mp3':
+      bytes = encodeMp3(audio);
+      break;
+    case 'ogg':
+      bytes = encodeOggFlac(audio);
+      break;
+    default:
+      bytes = encodeWav(audio);
+  }
+  
+  return { bytes, contentType, extension };
+}
+
+function encodeMp3(audio: RenderedAudio): Uint8Array {
+  const [left, right] = toInt16(audio);
+  const encoder = new Mp3Encoder(2, audio.sampleRate, MP3_BITRATE_KBPS);
+  const chunks: Uint8Array[] = [];
+  
+  for (let start = 0; start < left.length; start += MP3_FRAME_SAMPLES) {
+    const end = start + MP3_FRAME_SAMPLES;
+    const chunk = encoder.encodeBuffer(left.subarray(start, end), right.subarray(start, end));
+    if (chunk.length > 0) chunks.push(new Uint8Array(chunk));
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) chunks.push(new Uint8Array(tail));
+  
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
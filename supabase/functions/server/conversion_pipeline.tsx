@@ -0,0 +1,643 @@
+/**
+ * Conversion Pipeline
+ *
+ * Persisted job queue that turns an uploaded score into MIDI and audio files.
+ *
+ * Every conversion gets a job record in the KV store. A worker drains queued
+ * jobs (leasing each one atomically, see job_queue.tsx) and runs their
+ * stages in order, stopping if another worker takes the lease over:
+ *   recognize → build-model → write-midi → render-audio → upload → learning-tracks
+ *
+ * A failed stage is retried with exponential backoff, unless the stage reports
+ * the failure as permanent. A conversion only becomes 'completed' after the
+ * upload stage has confirmed that its audio and MIDI objects exist in
+ * AUDIO_BUCKET and MIDI_BUCKET. A job is deleted once it has completed or
+ * failed for good; its conversion records the outcome.
+ */
+
+import * as kv from './kv_store.tsx';
+import {
+  AUDIO_BUCKET,
+  MIDI_BUCKET,
+  SCORE_BUCKET,
+  downloadFile,
+  supabase,
+  uploadGeneratedFile,
+  uploadGeneratedStream,
+} from './storage.tsx';
+import { type JobStatus, type JobStore, LeaseLostError, drainJobs, saveLeasedJob } from './job_queue.tsx';
+import {
+  getScoreModel,
+  getScoreRevisionModel,
+  getScoreRevisions,
+  saveScoreModel,
+} from './score_models.tsx';
+import { UnreadableScoreError, recognizeUploadedScore } from './score_recognition.tsx';
+import { getConversion } from './conversions.tsx';
+import type { Conversion, ConversionStage, LearningTrack } from '../../../src/lib/types.ts';
+import type { ScoreModel } from '../../../src/lib/score-model.ts';
+import { importMusicXml } from '../../../src/lib/musicxml.ts';
+import { isImageType, isMusicXmlType, isPdfType } from '../../../src/lib/score-formats.ts';
+import {
+  type ArrangementTrack,
+  audibleTracks,
+  buildArrangement,
+  orchestrateAccompaniment,
+} from '../../../src/lib/arrangement.ts';
+import { MIDI_CONTENT_TYPE, writeMidiFile } from '../../../src/lib/midi.ts';
+import { checkRanges } from '../../../src/lib/range-check.ts';
+import { sungPartIds } from '../../../src/lib/voices.ts';
+import { resolveTransposition, transposeScoreModel } from '../../../src/lib/transposition.ts';
+import { separateVoices } from '../../../src/lib/voice-separation.ts';
+import { renderArrangement } from '../../../src/lib/audio-render.ts';
+import { STEMS_CONTENT_TYPE, renderStemBundle } from '../../../src/lib/stems.ts';
+import { learningTrackVariants, renderLearningTracks } from '../../../src/lib/learning-tracks.ts';
+import { buildTempoMap, tempoChanges } from '../../../src/lib/tempo-map.ts';
+import { measureSequence, performanceOrder, unrollScoreModel } from '../../../src/lib/repeats.ts';
+import { type TempoChange, createTempoClock, scoreTimeline } from '../../../src/lib/performance.ts';
+import { DEFAULT_AUDIO_FORMAT } from '../../../src/lib/audio-encoding.ts';
+import { encodeAudio } from './audio_encoders.tsx';
+import { loadSoundFont } from './soundfonts.tsx';
+
+/**
+ * Stages in the order a job runs them
+ */
+export const CONVERSION_STAGES: ConversionStage[] = [
+  'recognize',
+  'build-model',
+  'write-midi',
+  'render-audio',
+  'upload',
+  'learning-tracks',
+];
+
+const JOB_KEY_PREFIX = 'conversion_job_';
+// The table behind kv_store.tsx, for the conditional write it has no call for
+const KV_TABLE = 'kv_store_f24025d1';
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 5000;
+// A running job whose lease has expired belonged to a worker that died
+const JOB_LEASE_MS = 5 * 60 * 1000;
+// Keep draining while the next retry is due within this window
+const MAX_RETRY_WAIT_MS = 60 * 1000;
+// Most audio rendered for one conversion's learning tracks, all variants together
+const MAX_LEARNING_TRACK_SECONDS = 2 * 60 * 60;
+
+export type ConversionJobStatus = JobStatus;
+
+/**
+ * Persisted job record, stored under conversion_job_<conversionId>
+ */
+export interface ConversionJob {
+  id: string;
+  conversionId: string;
+  scoreId: string;
+  userId: string;
+  status: ConversionJobStatus;
+  stage: ConversionStage | null;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string;
+  leaseId?: string;
+  leaseExpiresAt?: string;
+  lastError?: string;
+  history: StageAttempt[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * One stage run within one attempt
+ */
+export interface StageAttempt {
+  stage: ConversionStage;
+  attempt: number;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
+/**
+ * Error thrown by a stage. Set retryable to false when running the job
+ * again cannot help (unsupported input, invalid score).
+ */
+export class PipelineError extends Error {
+  retryable: boolean;
+  
+  constructor(message: string, retryable = true) {
+    super(message);
+    this.name = 'PipelineError';
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * A file produced by a stage, waiting for the upload stage
+ */
+interface GeneratedFile {
+  bytes: Uint8Array;
+  contentType: string;
+  extension: string;
+}
+
+/**
+ * Values handed from one stage to the next within a single attempt
+ */
+interface PipelineArtifacts {
+  recognized?: ScoreModel;
+  model?: ScoreModel;
+  // The model in performance order, with repeats and jumps unrolled
+  performed?: ScoreModel;
+  // Tracks of the written model, played by both the MIDI file and the audio
+  tracks?: ArrangementTrack[];
+  midi?: GeneratedFile;
+  audio?: GeneratedFile;
+  results?: Partial<Conversion>;
+}
+
+interface StageContext {
+  job: ConversionJob;
+  conversion: Conversion;
+  score: any;
+  artifacts: PipelineArtifacts;
+}
+
+type StageHandler = (context: StageContext) => Promise<void>;
+
+const STAGE_HANDLERS: Record<ConversionStage, StageHandler> = {
+  'recognize': async ({ conversion, score, artifacts }) => {
+    // Conversions started after the score was read render the revision that
+    // was current then, even if it has been corrected since
+    if (conversion.revision !== undefined) {
+      const pinned = await getScoreRevisionModel(score.id, conversion.revision);
+      if (!pinned) {
+        throw new PipelineError(`Revision ${conversion.revision} of the score no longer exists`, false);
+      }
+      artifacts.model = pinned;
+      return;
+    }
+    
+    // A stored model (from an earlier conversion) makes recognition unnecessary
+    const stored = await getScoreModel(score.id);
+    if (stored) {
+      const revisions = await getScoreRevisions(score.id);
+      artifacts.model = stored;
+      artifacts.results = { ...artifacts.results, revision: revisions[revisions.length - 1]?.number };
+      return;
+    }
+    
+    // MusicXML already describes the notes, so no optical recognition is needed
+    if (isMusicXmlType(score.fileType)) {
+      const imported = await importMusicXml(await downloadFile(SCORE_BUCKET, score.filePath));
+      if (!imported.model) {
+        throw new PipelineError(`The MusicXML file could not be read: ${imported.errors.join('; ')}`, false);
+      }
+      artifacts.recognized = imported.model;
+      return;
+    }
+    
+    if (isImageType(score.fileType) || isPdfType(score.fileType)) {
+      let recognition;
+      try {
+        recognition = await recognizeUploadedScore(score);
+      } catch (error) {
+        if (error instanceof UnreadableScoreError) {
+          throw new PipelineError(error.message, false);
+        }
+        throw error;
+      }
+      
+      if (!recognition.model) {
+        throw new PipelineError(`No music was recognized in the score: ${recognition.warnings.join('; ')}`, false);
+      }
+      artifacts.recognized = recognition.model;
+      return;
+    }
+    
+    throw new PipelineError(
+      `Notation recognition is not available for ${score.fileType} uploads yet`,
+      false,
+    );
+  },
+  
+  'build-model': async ({ conversion, score, artifacts }) => {
+    if (!artifacts.model) {
+      if (!artifacts.recognized) {
+        throw new PipelineError('No recognized notation to build a score model from', false);
+      }
+      
+      const validation = await saveScoreModel(score.id, artifacts.recognized);
+      if (!validation.valid) {
+        throw new PipelineError(
+          `Recognized notation is not a valid score: ${validation.errors.slice(0, 3).join('; ')}`,
+          false,
+        );
+      }
+      
+      artifacts.model = artifacts.recognized;
+      artifacts.results = { ...artifacts.results, revision: validation.revision?.number };
+    }
+    
+    // Only this conversion's copy is transposed; the stored model keeps the written key
+    if (conversion.transposition) {
+      const resolved = resolveTransposition(artifacts.model, conversion.transposition);
+      artifacts.model = transposeScoreModel(artifacts.model, resolved.interval);
+      artifacts.results = {
+        ...artifacts.results,
+        transposition: { ...conversion.transposition, ...resolved },
+      };
+    }
+    
+    // Choir voices are taken from shared staves once these are split apart;
+    // an accompaniment's staves are left as written
+    if (conversion.voices && conversion.separateVoices) {
+      artifacts.model = separateVoices(artifacts.model, sungPartIds(artifacts.model, conversion)).model;
+    }
+    
+    // The files play repeats and jumps; the written model is kept for range
+    // warnings and orchestration, which refer to written measures
+    const order = performanceOrder(artifacts.model, { skipRepeats: conversion.skipRepeats });
+    const performed = unrollScoreModel(artifacts.model, order);
+    const tempoMap = buildTempoMap(performed, conversion.tempo, conversion.tempoMode);
+    artifacts.performed = performed;
+    artifacts.results = {
+      ...artifacts.results,
+      tempoMap,
+      measureSequence: measureSequence(performed, order, tempoChanges(tempoMap, performed.divisions)),
+    };
+  },
+  
+  'write-midi': async ({ conversion, artifacts }) => {
+    const model = requireModel(artifacts);
+    const tracks = buildArrangement(model, conversion);
+    
+    if (audibleTracks(tracks).length === 0) {
+      throw new PipelineError('No instruments or voices are selected to play the score', false);
+    }
+    
+    const performed = requirePerformance(artifacts);
+    artifacts.tracks = tracks;
+    artifacts.midi = {
+      bytes: writeMidiFile(performed, tracks, performedTempo(performed, conversion, artifacts)),
+      contentType: MIDI_CONTENT_TYPE,
+      extension: 'mid',
+    };
+    artifacts.results = { ...artifacts.results, rangeWarnings: checkRanges(model, tracks) };
+    
+    // Keep the automatic orchestration so the user can review and override it
+    if (!conversion.partAssignments?.length && conversion.instruments.length > 0) {
+      const { assignments, notes } = orchestrateAccompaniment(model, conversion);
+      artifacts.results = { ...artifacts.results, partAssignments: assignments, orchestration: notes };
+    }
+  },
+  
+  'render-audio': async ({ job, conversion, artifacts }) => {
+    const performed = requirePerformance(artifacts);
+    const tracks = requireTracks(artifacts);
+    const tempo = performedTempo(performed, conversion, artifacts);
+    const options = { soundFont: await loadSoundFont() };
+    
+    // Refuse learning tracks that would take too long before rendering anything
+    if (conversion.learningTracks) {
+      const variants = learningTrackVariants(tracks, conversion.learningTracks).length;
+      const seconds = variants * createTempoClock(tempo, performed.divisions)(scoreTimeline(performed).totalTicks);
+      if (seconds > MAX_LEARNING_TRACK_SECONDS) {
+        throw new PipelineError(
+          `The ${variants} learning tracks would run ${Math.ceil(seconds / 60)} minutes in all, ` +
+            `more than the ${MAX_LEARNING_TRACK_SECONDS / 60} allowed. Turn off learning tracks or use fewer voices.`,
+          false,
+        );
+      }
+    }
+    
+    // Stems are rendered alongside the mix, which then comes from the same
+    // render. Their ZIP is uploaded while it is written, a stem at a time,
+    // rather than held in memory for the upload stage.
+    let audio;
+    if (conversion.stems) {
+      const stemsPath = `${job.userId}/${job.conversionId}-stems.zip`;
+      audio = await uploadGeneratedStream(AUDIO_BUCKET, stemsPath, STEMS_CONTENT_TYPE, write =>
+        renderStemBundle(performed, tracks, tempo, write, options));
+      artifacts.results = { ...artifacts.results, stemsPath };
+    } else {
+      audio = renderArrangement(performed, tracks, tempo, options);
+    }
+    
+    artifacts.audio = encodeAudio(audio, conversion.audioFormat ?? DEFAULT_AUDIO_FORMAT);
+  },
+  
+  'upload': async ({ job, artifacts }) => {
+    const { midi, audio } = artifacts;
+    if (!midi || !audio) {
+      throw new PipelineError('Nothing was generated to upload', false);
+    }
+    
+    const midiPath = `${job.userId}/${job.conversionId}.${midi.extension}`;
+    const audioPath = `${job.userId}/${job.conversionId}.${audio.extension}`;
+    
+    const midiUrl = await uploadGeneratedFile(MIDI_BUCKET, midiPath, midi.bytes, midi.contentType);
+    const audioUrl = await uploadGeneratedFile(AUDIO_BUCKET, audioPath, audio.bytes, audio.contentType);
+    
+    artifacts.results = { ...artifacts.results, midiPath, midiUrl, audioPath, audioUrl };
+  },
+  
+  // Each learning track is uploaded before the next is rendered, so only one
+  // is held in memory, and each renews the job's lease
+  'learning-tracks': async ({ job, conversion, artifacts }) => {
+    if (!conversion.learningTracks) return;
+    
+    const performed = requirePerformance(artifacts);
+    const tempo = performedTempo(performed, conversion, artifacts);
+    const tracks = requireTracks(artifacts);
+    const format = conversion.audioFormat ?? DEFAULT_AUDIO_FORMAT;
+    const learningTrackFiles: LearningTrack[] = [];
+    
+    await renderLearningTracks(performed, tracks, tempo, conversion.learningTracks, async (variant, audio) => {
+      const file = encodeAudio(audio, format);
+      const path = `${job.userId}/${job.conversionId}-learning-${variant.id}.${file.extension}`;
+      const url = await uploadGeneratedFile(AUDIO_BUCKET, path, file.bytes, file.contentType);
+      learningTrackFiles.push({
+        id: variant.id,
+        kind: variant.kind,
+        ...(variant.track && { trackId: variant.track.id, trackName: variant.track.name }),
+        path,
+        url,
+      });
+      await renewLease(job);
+    }, { soundFont: await loadSoundFont() });
+    
+    artifacts.results = { ...artifacts.results, learningTrackFiles };
+  },
+};
+
+function requireModel(artifacts: PipelineArtifacts): ScoreModel {
+  if (!artifacts.model) {
+    throw new PipelineError('No score model was built', false);
+  }
+  return artifacts.model;
+}
+
+function requirePerformance(artifacts: PipelineArtifacts): ScoreModel {
+  return artifacts.performed ?? requireModel(artifacts);
+}
+
+function requireTracks(artifacts: PipelineArtifacts): ArrangementTrack[] {
+  if (!artifacts.tracks) {
+    throw new PipelineError('No tracks were arranged', false);
+  }
+  return artifacts.tracks;
+}
+
+/**
+ * Tempo changes of the tempo map recorded by build-model, so the MIDI file
+ * and the audio keep the same time
+ */
+function performedTempo(model: ScoreModel, conversion: Conversion, artifacts: PipelineArtifacts): TempoChange[] {
+  const map = artifacts.results?.tempoMap ?? buildTempoMap(model, conversion.tempo, conversion.tempoMode);
+  return tempoChanges(map, model.divisions);
+}
+
+/**
+ * The model a conversion played: its score revision, transposed, split
+ * into voices and unrolled as build-model did, so the page can play the
+ * notes itself.
+ * Null when the conversion has not recorded its revision or the revision
+ * is no longer stored.
+ */
+export async function getPerformedModel(conversion: Conversion): Promise<ScoreModel | null> {
+  if (conversion.revision === undefined) return null;
+  
+  const written = await getScoreRevisionModel(conversion.scoreId, conversion.revision);
+  if (!written) return null;
+  
+  const interval = conversion.transposition?.interval;
+  const transposed = interval ? transposeScoreModel(written, interval) : written;
+  const model = conversion.voices && conversion.separateVoices
+    ? separateVoices(transposed, sungPartIds(transposed, conversion)).model
+    : transposed;
+  return unrollScoreModel(model, performanceOrder(model, { skipRepeats: conversion.skipRepeats }));
+}
+
+/**
+ * KV key of the job belonging to a conversion
+ */
+export function conversionJobKey(conversionId: string): string {
+  return `${JOB_KEY_PREFIX}${conversionId}`;
+}
+
+/**
+ * Create a queued job for a freshly stored conversion
+ */
+export async function enqueueConversionJob(conversion: Conversion): Promise<ConversionJob> {
+  const now = new Date().toISOString();
+  const job: ConversionJob = {
+    id: conversionJobKey(conversion.id),
+    conversionId: conversion.id,
+    scoreId: conversion.scoreId,
+    userId: conversion.userId,
+    status: 'queued',
+    stage: null,
+    attempts: 0,
+    maxAttempts: MAX_ATTEMPTS,
+    runAfter: now,
+    history: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  
+  await kv.set(job.id, job);
+  return job;
+}
+
+// Only one drain loop per isolate; leases guard against other isolates
+let activeDrain: Promise<number> | null = null;
+
+/**
+ * Run queued jobs until none are due. Returns the number of attempts made.
+ * Safe to call repeatedly: concurrent calls share the running drain.
+ */
+export function drainConversionQueue(): Promise<number> {
+  if (!activeDrain) {
+    activeDrain = drainJobs(kvJobStore, runJob, {
+      leaseMs: JOB_LEASE_MS,
+      maxWaitMs: MAX_RETRY_WAIT_MS,
+    }).finally(() => {
+      activeDrain = null;
+    });
+  }
+  return activeDrain;
+}
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+/**
+ * Keep a promise alive after the response has been sent
+ */
+export function runInBackground(task: Promise<unknown>) {
+  const guarded = task.catch(error => console.log('Background task error:', error));
+  
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(guarded);
+  }
+}
+
+/**
+ * Jobs in the KV store. A claim updates the row only while the job is
+ * unchanged since it was listed and still due, and a save only while the
+ * job still has the worker's lease, so both are a compare-and-set. Only
+ * queued and running jobs are listed; finished jobs are deleted.
+ */
+const kvJobStore: JobStore<ConversionJob> = {
+  list: async () => {
+    const { data, error } = await supabase.from(KV_TABLE)
+      .select('value')
+      .like('key', `${JOB_KEY_PREFIX}%`)
+      .in('value->>status', ['queued', 'running']);
+    if (error) {
+      throw new Error(`Failed to list conversion jobs: ${error.message}`);
+    }
+    return data.map(row => row.value as ConversionJob).filter(job => job?.id?.startsWith(JOB_KEY_PREFIX));
+  },
+  
+  claim: async (job, lease, now) => {
+    const leased: ConversionJob = { ...job, ...lease, status: 'running', updatedAt: now };
+    let update = supabase.from(KV_TABLE)
+      .update({ value: leased })
+      .eq('key', job.id)
+      .eq('value->>updatedAt', job.updatedAt);
+    update = job.status === 'queued'
+      ? update.eq('value->>status', 'queued').is('value->>leaseId', null).lte('value->>runAfter', now)
+      : update.eq('value->>status', 'running').eq('value->>leaseId', job.leaseId ?? '').lte('value->>leaseExpiresAt', now);
+    
+    const { data, error } = await update.select('key');
+    if (error) {
+      throw new Error(`Failed to claim ${job.id}: ${error.message}`);
+    }
+    return data.length > 0;
+  },
+  
+  save: async (job, leaseId) => {
+    const { data, error } = await supabase.from(KV_TABLE)
+      .update({ value: job })
+      .eq('key', job.id)
+      .eq('value->>leaseId', leaseId)
+      .select('key');
+    if (error) {
+      throw new Error(`Failed to save ${job.id}: ${error.message}`);
+    }
+    return data.length > 0;
+  },
+};
+
+async function runJob(job: ConversionJob) {
+  const conversion = await getConversion(job.conversionId);
+  const score = await kv.get(job.scoreId);
+  
+  if (!conversion || !score) {
+    // Score or conversion was deleted while the job was waiting
+    await kv.del(job.id);
+    return;
+  }
+  
+  job.attempts++;
+  const artifacts: PipelineArtifacts = {};
+  
+  try {
+    for (const stage of CONVERSION_STAGES) {
+      const attempt: StageAttempt = {
+        stage,
+        attempt: job.attempts,
+        startedAt: new Date().toISOString(),
+      };
+      job.stage = stage;
+      job.history.push(attempt);
+      await renewLease(job);
+      await updateConversion(job.conversionId, { stage, attempts: job.attempts });
+      
+      await STAGE_HANDLERS[stage]({ job, conversion, score, artifacts });
+      
+      attempt.finishedAt = new Date().toISOString();
+    }
+    
+    await deleteJob(job);
+    await updateConversion(job.conversionId, {
+      ...artifacts.results,
+      status: 'completed',
+      error: undefined,
+      completedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    // Another worker holds the job now and records its outcome
+    if (error instanceof LeaseLostError) throw error;
+    
+    const message = error instanceof Error ? error.message : String(error);
+    const retryable = !(error instanceof PipelineError) || error.retryable;
+    console.log(`Conversion ${job.conversionId} failed at ${job.stage} (attempt ${job.attempts}):`, error);
+    
+    const current = job.history[job.history.length - 1];
+    if (current && !current.finishedAt) {
+      current.finishedAt = new Date().toISOString();
+      current.error = message;
+    }
+    
+    if (retryable && job.attempts < job.maxAttempts) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+      await saveJob({
+        ...job,
+        status: 'queued',
+        lastError: message,
+        runAfter: new Date(Date.now() + delay).toISOString(),
+        leaseId: undefined,
+        leaseExpiresAt: undefined,
+      }, job.leaseId);
+    } else {
+      await deleteJob(job);
+      await updateConversion(job.conversionId, { status: 'failed', error: message });
+    }
+  }
+}
+
+/**
+ * Save a job this worker holds under `leaseId`. Throws LeaseLostError, which
+ * stops the running stage, when another worker has taken the job over.
+ */
+async function saveJob(job: ConversionJob, leaseId: string | undefined) {
+  await saveLeasedJob(kvJobStore, { ...job, updatedAt: new Date().toISOString() }, leaseId);
+}
+
+/**
+ * Delete a finished job this worker holds; the conversion keeps its
+ * outcome. Throws LeaseLostError when another worker has taken it over.
+ */
+async function deleteJob(job: ConversionJob) {
+  const { data, error } = await supabase.from(KV_TABLE)
+    .delete()
+    .eq('key', job.id)
+    .eq('value->>leaseId', job.leaseId ?? '')
+    .select('key');
+  if (error) {
+    throw new Error(`Failed to delete ${job.id}: ${error.message}`);
+  }
+  if (data.length === 0) {
+    throw new LeaseLostError(job.id);
+  }
+}
+
+/**
+ * Save a running job with its lease extended, so a long job is not taken
+ * over by another worker
+ */
+async function renewLease(job: ConversionJob) {
+  job.leaseExpiresAt = new Date(Date.now() + JOB_LEASE_MS).toISOString();
+  await saveJob(job, job.leaseId);
+}
+
+/**
+ * Merge fields into the stored conversion, unless it has been deleted
+ */
+async function updateConversion(conversionId: string, patch: Partial<Conversion>) {
+  const current = await getConversion(conversionId);
+  if (!current) return;
+  
+  await kv.set(conversionId, { ...current, ...patch });
+}
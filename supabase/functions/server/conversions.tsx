@@ -0,0 +1,29 @@
+/**
+ * Conversion Records
+ *
+ * Reads conversions from the KV store in their current shape. Conversions
+ * stored before choirs had named voices kept four fixed SATB settings; they
+ * are given the equivalent voice list (see src/lib/voices.ts) as they are
+ * read. Reads never write: the migrated shape is stored with the next
+ * change to the record, so a read cannot overwrite a concurrent update.
+ */
+
+import * as kv from './kv_store.tsx';
+import type { Conversion } from '../../../src/lib/types.ts';
+import { migrateConversion } from '../../../src/lib/voices.ts';
+
+/**
+ * Get a conversion by id, or undefined when there is none
+ */
+export async function getConversion(conversionId: string): Promise<Conversion | undefined> {
+  const stored = await kv.get(conversionId);
+  return stored ? migrateConversion(stored) : undefined;
+}
+
+/**
+ * Get the conversions that exist among a list of ids
+ */
+export async function getConversions(conversionIds: string[]): Promise<Conversion[]> {
+  const stored: Conversion[] = await kv.mget(conversionIds);
+  return stored.map(conversion => migrateConversion(conversion));
+}
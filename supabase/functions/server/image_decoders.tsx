@@ -0,0 +1,96 @@
+/**
+ * Image Decoders
+ *
+ * Turns uploaded scores into grayscale bitmaps for optical music
+ * recognition. PNG uses the shared decoder in src/lib/png.ts; JPEG uses the
+ * pure JavaScript jpeg-js decoder and PDF pages are rendered with the
+ * MuPDF WebAssembly build, both of which only the edge function loads.
+ */
+
+import jpeg from 'npm:jpeg-js@0.4.4';
+import * as mupdf from 'npm:mupdf@1.3.0';
+import { decodePng, isPng } from '../../../src/lib/png.ts';
+import { type GrayImage, createGrayImage, toGrayImage } from '../../../src/lib/raster.ts';
+
+// Refuse images that would not fit in the edge function's memory
+const MAX_IMAGE_MEGAPIXELS = 40;
+// Printed staves are about 7 mm tall, which puts staff lines ~20 px apart
+export const PDF_RENDER_DPI = 300;
+export const MAX_PDF_PAGES = 40;
+
+/**
+ * A PDF opened for rendering one page at a time
+ */
+export interface PdfPages {
+  count: number;
+  render(index: number): GrayImage;
+  close(): void;
+}
+
+/**
+ * Decode a PNG or JPEG score image to gray pixels
+ */
+export async function decodeScoreImage(bytes: Uint8Array): Promise<GrayImage> {
+  if (isPng(bytes)) {
+    return toGrayImage(await decodePng(bytes));
+  }
+  
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    const decoded = jpeg.decode(bytes, {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxResolutionInMP: MAX_IMAGE_MEGAPIXELS,
+    });
+    return toGrayImage({ width: decoded.width, height: decoded.height, data: decoded.data });
+  }
+  
+  throw new Error('The image is neither a PNG nor a JPEG file');
+}
+
+/**
+ * Open a PDF whose pages are rendered to gray at PDF_RENDER_DPI on demand,
+ * so that only one page of pixels is held at a time
+ */
+export function openPdfPages(bytes: Uint8Array): PdfPages {
+  const document = mupdf.Document.openDocument(bytes, 'application/pdf');
+  if (document.needsPassword()) {
+    document.destroy();
+    throw new Error('The PDF is password protected');
+  }
+  
+  const count = document.countPages();
+  if (count === 0 || count > MAX_PDF_PAGES) {
+    document.destroy();
+    throw new Error(count === 0 ? 'The PDF has no pages' : `The PDF has ${count} pages; at most ${MAX_PDF_PAGES} can be read`);
+  }
+  
+  const scale = PDF_RENDER_DPI / 72;
+  return {
+    count,
+    render(index: number) {
+      const page = document.loadPage(index);
+      const pixmap = page.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceGray, false, true);
+      try {
+        const width = pixmap.getWidth();
+        const height = pixmap.getHeight();
+        if (width * height > MAX_IMAGE_MEGAPIXELS * 1e6) {
+          throw new Error(`Page ${index + 1} of the PDF is too large to read`);
+        }
+        
+        const image = createGrayImage(width, height);
+        const pixels = pixmap.getPixels();
+        const stride = pixmap.getStride();
+        for (let y = 0; y < height; y++) {
+          image.data.set(pixels.subarray(y * stride, y * stride + width), y * width);
+        }
+        return image;
+      } finally {
+        pixmap.destroy();
+        page.destroy();
+      }
+    },
+    close() {
+      document.destroy();
+    },
+  };
+}
@@ -4,7 +4,7 @@
  * This Hono-based edge function provides backend services for:
  * - User authentication (signup, login)
  * - Sheet music upload and storage
- * - Music notation conversion orchestration
+ * - Music notation conversion orchestration (see conversion_pipeline.tsx)
  * - Audio/MIDI file generation and storage
  * - User library management
  * 
@@ -18,8 +18,56 @@
 import { Hono } from 'npm:hono';
 import { cors } from 'npm:hono/cors';
 import { logger } from 'npm:hono/logger';
-import { createClient } from 'npm:@supabase/supabase-js';
 import * as kv from './kv_store.tsx';
+import {
+  supabase,
+  SCORE_BUCKET,
+  AUDIO_BUCKET,
+  MIDI_BUCKET,
+  SOUNDFONT_BUCKET,
+  createSignedFileUrl,
+} from './storage.tsx';
+import {
+  conversionJobKey,
+  drainConversionQueue,
+  enqueueConversionJob,
+  getPerformedModel,
+  runInBackground,
+} from './conversion_pipeline.tsx';
+import { getConversion, getConversions } from './conversions.tsx';
+import { defaultSoundFontUrl } from './soundfonts.tsx';
+import {
+  deleteScoreModels,
+  getScoreModel,
+  getScoreRecognition,
+  getScoreRevisionModel,
+  getScoreRevisions,
+  restoreScoreRevision,
+  saveScoreModel,
+} from './score_models.tsx';
+import { UnreadableScoreError, buildRecognitionReview, recognizeUploadedScore } from './score_recognition.tsx';
+import type { ChoirVoice, Conversion, LearningTrack, ScorePage, UploadValidation } from '../../../src/lib/types.ts';
+import { importMusicXml, MusicXmlImport } from '../../../src/lib/musicxml.ts';
+import { diffScoreModels } from '../../../src/lib/score-diff.ts';
+import { isTranspositionRequest } from '../../../src/lib/transposition.ts';
+import { DEFAULT_TEMPO, MAX_TEMPO, MIN_TEMPO, isTempoMode } from '../../../src/lib/tempo-map.ts';
+import {
+  MUSICXML_MIME_TYPE,
+  MXL_MIME_TYPE,
+  detectScoreFileFormat,
+  isImageType,
+  isPdfType,
+} from '../../../src/lib/score-formats.ts';
+import { AUDIO_FORMATS, DEFAULT_AUDIO_FORMAT } from '../../../src/lib/audio-encoding.ts';
+import {
+  assignedInstruments,
+  buildArrangement,
+  isInstrumentList,
+  isPartAssignmentList,
+  isTrackMixMap,
+} from '../../../src/lib/arrangement.ts';
+import { isLearningTrackOptions } from '../../../src/lib/learning-tracks.ts';
+import { choirVoicesFromSatbConfig, isChoirVoiceList } from '../../../src/lib/voices.ts';
 
 const app = new Hono();
 
@@ -27,23 +75,12 @@ const app = new Hono();
 app.use('*', cors());
 app.use('*', logger(console.log));
 
-// Initialize Supabase client with service role for admin operations
-const supabase = createClient(
-  Deno.env.get('SUPABASE_URL') ?? '',
-  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
-);
-
-// Bucket names for file storage
-const SCORE_BUCKET = 'make-f24025d1-scores';
-const AUDIO_BUCKET = 'make-f24025d1-audio';
-const MIDI_BUCKET = 'make-f24025d1-midi';
-
 /**
  * Initialize storage buckets on server startup
  * Creates private buckets for storing user-uploaded scores and generated files
  */
 async function initializeBuckets() {
-  const buckets = [SCORE_BUCKET, AUDIO_BUCKET, MIDI_BUCKET];
+  const buckets = [SCORE_BUCKET, AUDIO_BUCKET, MIDI_BUCKET, SOUNDFONT_BUCKET];
   
   const { data: existingBuckets } = await supabase.storage.listBuckets();
   
@@ -125,11 +162,15 @@ app.post('/make-server-f24025d1/signup', async (c) => {
 
 /**
  * POST /make-server-f24025d1/scores/upload
- * Upload a sheet music image/PDF
+ * Upload a sheet music image/PDF or a MusicXML file
  * 
  * Requires: Authorization header with access token
  * Body: FormData with 'file' field
- * Returns: { scoreId, url, metadata }
+ * Returns: { scoreId, url, metadata, validation }
+ * 
+ * MusicXML (.musicxml, .xml, .mxl) is parsed straight away and its score
+ * model stored, so conversions skip optical recognition. Files that cannot
+ * be parsed are rejected with 422 and an UploadValidation listing the errors.
  */
 app.post('/make-server-f24025d1/scores/upload', async (c) => {
   try {
@@ -147,13 +188,32 @@ app.post('/make-server-f24025d1/scores/upload', async (c) => {
     }
     
     // Validate file type
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/jpg', 'application/pdf'];
-    if (!allowedTypes.includes(file.type)) {
+    const format = detectScoreFileFormat(file.name, file.type);
+    if (!format) {
       return c.json({ 
-        error: 'Invalid file type. Please upload JPG, PNG, or PDF files only.' 
+        error: 'Invalid file type. Please upload JPG, PNG, PDF, or MusicXML files only.' 
       }, 400);
     }
     
+    // Parse MusicXML before storing anything
+    let contentType = file.type;
+    let musicXml: MusicXmlImport | null = null;
+    if (format === 'musicxml' || format === 'mxl') {
+      musicXml = await importMusicXml(new Uint8Array(await file.arrayBuffer()));
+      
+      if (!musicXml.model) {
+        const validation: UploadValidation = {
+          valid: false,
+          error: 'The MusicXML file could not be read',
+          errors: musicXml.errors,
+          warnings: musicXml.warnings,
+        };
+        return c.json({ error: validation.error, validation }, 422);
+      }
+      
+      contentType = format === 'mxl' ? MXL_MIME_TYPE : MUSICXML_MIME_TYPE;
+    }
+    
     // Generate unique filename
     const timestamp = Date.now();
     const fileExt = file.name.split('.').pop();
@@ -163,7 +223,7 @@ app.post('/make-server-f24025d1/scores/upload', async (c) => {
     const { data: uploadData, error: uploadError } = await supabase.storage
       .from(SCORE_BUCKET)
       .upload(fileName, file, {
-        contentType: file.type,
+        contentType,
         upsert: false,
       });
     
@@ -184,7 +244,7 @@ app.post('/make-server-f24025d1/scores/upload', async (c) => {
       userId: user.id,
       fileName: file.name,
       filePath: fileName,
-      fileType: file.type,
+      fileType: contentType,
       fileSize: file.size,
       uploadedAt: new Date().toISOString(),
       url: signedUrlData?.signedUrl || '',
@@ -192,15 +252,26 @@ app.post('/make-server-f24025d1/scores/upload', async (c) => {
     
     await kv.set(scoreId, scoreMetadata);
     
+    // Store the imported score model (also records its summary on the score)
+    if (musicXml?.model) {
+      await saveScoreModel(scoreId, musicXml.model);
+    }
+    
     // Add to user's score list
     const userScoresKey = `user_scores_${user.id}`;
     const existingScores = await kv.get(userScoresKey) || [];
     await kv.set(userScoresKey, [...existingScores, scoreId]);
     
+    const validation: UploadValidation = {
+      valid: true,
+      warnings: musicXml?.warnings ?? [],
+    };
+    
     return c.json({ 
       scoreId,
       url: signedUrlData?.signedUrl,
-      metadata: scoreMetadata 
+      metadata: await kv.get(scoreId),
+      validation,
     });
   } catch (error) {
     console.log('Upload exception:', error);
@@ -208,18 +279,327 @@ app.post('/make-server-f24025d1/scores/upload', async (c) => {
   }
 });
 
+/**
+ * GET /make-server-f24025d1/scores/:scoreId/model
+ * Get the symbolic score model recognized or imported for a score
+ * 
+ * Requires: Authorization header
+ * Returns: { model, summary, revision }
+ */
+app.get('/make-server-f24025d1/scores/:scoreId/model', async (c) => {
+  try {
+    const { user, error: authError } = await verifyAuth(c.req.raw);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+    
+    const scoreId = c.req.param('scoreId');
+    const scoreMetadata = await kv.get(scoreId);
+    
+    if (!scoreMetadata || scoreMetadata.userId !== user.id) {
+      return c.json({ error: 'Score not found or access denied' }, 404);
+    }
+    
+    const model = await getScoreModel(scoreId);
+    if (!model) {
+      return c.json({ error: 'No score model has been created for this score yet' }, 404);
+    }
+    
+    return c.json({ model, summary: scoreMetadata.model, revision: scoreMetadata.revision });
+  } catch (error) {
+    console.log('Get score model exception:', error);
+    return c.json({ error: 'Internal server error fetching score model' }, 500);
+  }
+});
+
+/**
+ * PUT /make-server-f24025d1/scores/:scoreId/model
+ * Save a corrected score model from the notation editor as a new revision;
+ * later conversions of the score use it
+ * 
+ * Requires: Authorization header
+ * Body: { model }
+ * Returns: { model, summary, revision }; 422 with { error, validation }
+ * when the model is not valid
+ */
+app.put('/make-server-f24025d1/scores/:scoreId/model', async (c) => {
+  try {
+    const { user, error: authError } = await verifyAuth(c.req.raw);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+    
+    const scoreId = c.req.param('scoreId');
+    const scoreMetadata = await kv.get(scoreId);
+    
+    if (!scoreMetadata || scoreMetadata.userId !== user.id) {
+      return c.json({ error: 'Score not found or access denied' }, 404);
+    }
+    
+    const { model } = await c.req.json();
+    if (typeof model !== 'object' || model === null) {
+      return c.json({ error: 'A score model is required' }, 400);
+    }
+    
+    const edited = { ...model, source: 'editor' };
+    const result = await saveScoreModel(scoreId, edited);
+    if (!result.valid) {
+      const validation: UploadValidation = {
+        valid: false,
+        error: 'The edited score is not valid',
+        errors: result.errors,
+        warnings: result.warnings,
+      };
+      return c.json({ error: validation.error, validation }, 422);
+    }
+    
+    return c.json({ model: edited, summary: result.revision!.summary, revision: result.revision });
+  } catch (error) {
+    console.log('Save score model exception:', error);
+    return c.json({ error: 'Internal server error saving score model' }, 500);
+  }
+});
+
+/**
+ * GET /make-server-f24025d1/scores/:scoreId/revisions
+ * List the revisions of a score's model, oldest first
+ * 
+ * Requires: Authorization header
+ * Returns: { revisions, current }
+ */
+app.get('/make-server-f24025d1/scores/:scoreId/revisions', async (c) => {
+  try {
+    const { user, error: authError } = await verifyAuth(c.req.raw);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+    
+    const scoreId = c.req.param('scoreId');
+    const scoreMetadata = await kv.get(scoreId);
+    
+    if (!scoreMetadata || scoreMetadata.userId !== user.id) {
+      return c.json({ error: 'Score not found or access denied' }, 404);
+    }
+    
+    const revisions = await getScoreRevisions(scoreId);
+    return c.json({ revisions, current: revisions[revisions.length - 1]?.number ?? null });
+  } catch (error) {
+    console.log('List score revisions exception:', error);
+    return c.json({ error: 'Internal server error fetching score revisions' }, 500);
+  }
+});
+
+/**
+ * GET /make-server-f24025d1/scores/:scoreId/revisions/diff?from=1&to=3
+ * Compare two revisions of a score measure by measure
+ * 
+ * Requires: Authorization header
+ * Returns: { from, to, diff: { partsAdded, partsRemoved, measures } }
+ */
+app.get('/make-server-f24025d1/scores/:scoreId/revisions/diff', async (c) => {
+  try {
+    const { user, error: authError } = await verifyAuth(c.req.raw);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+    
+    const scoreId = c.req.param('scoreId');
+    const scoreMetadata = await kv.get(scoreId);
+    
+    if (!scoreMetadata || scoreMetadata.userId !== user.id) {
+      return c.json({ error: 'Score not found or access denied' }, 404);
+    }
+    
+    const from = Number(c.req.query('from'));
+    const to = Number(c.req.query('to'));
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      return c.json({ error: 'Two revision numbers are required' }, 400);
+    }
+    
+    const [fromModel, toModel] = await Promise.all([
+      getScoreRevisionModel(scoreId, from),
+      getScoreRevisionModel(scoreId, to),
+    ]);
+    if (!fromModel || !toModel) {
+      return c.json({ error: `Revision ${fromModel ? to : from} not found` }, 404);
+    }
+    
+    return c.json({ from, to, diff: diffScoreModels(fromModel, toModel) });
+  } catch (error) {
+    console.log('Diff score revisions exception:', error);
+    return c.json({ error: 'Internal server error comparing score revisions' }, 500);
+  }
+});
+
+/**
+ * POST /make-server-f24025d1/scores/:scoreId/revisions/:revision/restore
+ * Make an older revision current again. It is saved as a new revision, so
+ * the revisions after it stay in the history.
+ * 
+ * Requires: Authorization header
+ * Returns: { model, summary, revision }
+ */
+app.post('/make-server-f24025d1/scores/:scoreId/revisions/:revision/restore', async (c) => {
+  try {
+    const { user, error: authError } = await verifyAuth(c.req.raw);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+    
+    const scoreId = c.req.param('scoreId');
+    const scoreMetadata = await kv.get(scoreId);
+    
+    if (!scoreMetadata || scoreMetadata.userId !== user.id) {
+      return c.json({ error: 'Score not found or access denied' }, 404);
+    }
+    
+    const number = Number(c.req.param('revision'));
+    const result = Number.isInteger(number) ? await restoreScoreRevision(scoreId, number) : null;
+    if (!result) {
+      return c.json({ error: 'Revision not found' }, 404);
+    }
+    
+    if (!result.valid) {
+      const validation: UploadValidation = {
+        valid: false,
+        error: `Revision ${number} is no longer a valid score`,
+        errors: result.errors,
+        warnings: result.warnings,
+      };
+      return c.json({ error: validation.error, validation }, 422);
+    }
+    
+    return c.json({ model: result.model, summary: result.revision!.summary, revision: result.revision });
+  } catch (error) {
+    console.log('Restore score revision exception:', error);
+    return c.json({ error: 'Internal server error restoring score revision' }, 500);
+  }
+});
+
+/**
+ * GET /make-server-f24025d1/scores/:scoreId/recognition
+ * Get how an uploaded image or PDF was recognized: staves, the page and
+ * place each measure was found at, per-measure confidence and warnings
+ * 
+ * Requires: Authorization header
+ * Returns: { recognition }
+ */
+app.get('/make-server-f24025d1/scores/:scoreId/recognition', async (c) => {
+  try {
+    const { user, error: authError } = await verifyAuth(c.req.raw);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+    
+    const scoreId = c.req.param('scoreId');
+    const scoreMetadata = await kv.get(scoreId);
+    
+    if (!scoreMetadata || scoreMetadata.userId !== user.id) {
+      return c.json({ error: 'Score not found or access denied' }, 404);
+    }
+    
+    const recognition = await getScoreRecognition(scoreId);
+    if (!recognition) {
+      return c.json({ error: 'This score has not been read by optical recognition' }, 404);
+    }
+    
+    return c.json({ recognition });
+  } catch (error) {
+    console.log('Get score recognition exception:', error);
+    return c.json({ error: 'Internal server error fetching score recognition' }, 500);
+  }
+});
+
+/**
+ * POST /make-server-f24025d1/scores/:scoreId/recognize
+ * Recognize an uploaded image or PDF (once) and return what was found, so
+ * it can be reviewed before a conversion is started
+ * 
+ * Requires: Authorization header
+ * Returns: { review } with the key, time signature, part and measure counts,
+ * the page images, the measures read with low confidence and the issues as
+ * validation warnings; 422 with { error, validation } when the file cannot
+ * be read or no music is found in it
+ * 
+ * MusicXML scores already have a model and are reviewed from it.
+ */
+app.post('/make-server-f24025d1/scores/:scoreId/recognize', async (c) => {
+  try {
+    const { user, error: authError } = await verifyAuth(c.req.raw);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+    
+    const scoreId = c.req.param('scoreId');
+    const scoreMetadata = await kv.get(scoreId);
+    
+    if (!scoreMetadata || scoreMetadata.userId !== user.id) {
+      return c.json({ error: 'Score not found or access denied' }, 404);
+    }
+    
+    let model = await getScoreModel(scoreId);
+    if (!model) {
+      if (!isImageType(scoreMetadata.fileType) && !isPdfType(scoreMetadata.fileType)) {
+        return c.json({ error: 'This score has no notation to review' }, 400);
+      }
+      
+      let result;
+      try {
+        result = await recognizeUploadedScore(scoreMetadata);
+      } catch (error) {
+        if (error instanceof UnreadableScoreError) {
+          const validation: UploadValidation = { valid: false, error: error.message, errors: [error.message] };
+          return c.json({ error: validation.error, validation }, 422);
+        }
+        throw error;
+      }
+      
+      const modelValidation = result.model
+        ? await saveScoreModel(scoreId, result.model)
+        : { valid: false, errors: result.warnings };
+      if (!result.model || !modelValidation.valid) {
+        const validation: UploadValidation = {
+          valid: false,
+          error: 'No music could be recognized in the score',
+          errors: modelValidation.errors,
+          warnings: result.warnings,
+        };
+        return c.json({ error: validation.error, validation }, 422);
+      }
+      model = result.model;
+    }
+    
+    const score = await kv.get(scoreId);
+    const review = buildRecognitionReview(
+      model,
+      score?.pages ?? [],
+      await getScoreRecognition(scoreId),
+    );
+    return c.json({ review });
+  } catch (error) {
+    console.log('Recognize score exception:', error);
+    return c.json({ error: 'Internal server error recognizing score' }, 500);
+  }
+});
+
 /**
  * POST /make-server-f24025d1/scores/:scoreId/convert
  * Convert sheet music to audio/MIDI
  * 
  * Requires: Authorization header
- * Body: { instruments, satbConfig, tempo }
+ * Body: { instruments, partAssignments, voices, sungParts, separateVoices, tempo, tempoMode, skipRepeats, audioFormat, stems, learningTracks, transposition }
  * Returns: { conversionId, status }
  * 
- * NOTE: This endpoint simulates conversion. In production, integrate with:
- * - OMR (Optical Music Recognition) API like Audiveris, PhotoScore API
- * - Music synthesis engine like FluidSynth, TiMidity++
- * - Or cloud services like Google Cloud Vision + custom MIDI generation
+ * Stores the conversion, made from the score's current revision, and
+ * queues a job for the conversion pipeline; poll
+ * GET /conversions/:conversionId for its stage and result.
  */
 app.post('/make-server-f24025d1/scores/:scoreId/convert', async (c) => {
   try {
@@ -230,7 +610,89 @@ app.post('/make-server-f24025d1/scores/:scoreId/convert', async (c) => {
     }
     
     const scoreId = c.req.param('scoreId');
-    const { instruments, satbConfig, tempo } = await c.req.json();
+    const {
+      instruments,
+      partAssignments,
+      voices,
+      satbConfig,
+      sungParts,
+      separateVoices,
+      tempo,
+      tempoMode,
+      skipRepeats,
+      audioFormat,
+      stems,
+      learningTracks,
+      transposition,
+    } = await c.req.json();
+    
+    if (tempo !== undefined && !(typeof tempo === 'number' && tempo >= MIN_TEMPO && tempo <= MAX_TEMPO)) {
+      return c.json({ error: `Tempo must be between ${MIN_TEMPO} and ${MAX_TEMPO} BPM` }, 400);
+    }
+    
+    if (tempoMode !== undefined && !isTempoMode(tempoMode)) {
+      return c.json({ error: `Unsupported tempo mode: ${tempoMode}` }, 400);
+    }
+    
+    if (skipRepeats !== undefined && typeof skipRepeats !== 'boolean') {
+      return c.json({ error: 'skipRepeats must be true or false' }, 400);
+    }
+    
+    if (audioFormat !== undefined && !(audioFormat in AUDIO_FORMATS)) {
+      return c.json({ error: `Unsupported audio format: ${audioFormat}` }, 400);
+    }
+    
+    if (stems !== undefined && typeof stems !== 'boolean') {
+      return c.json({ error: 'stems must be true or false' }, 400);
+    }
+    
+    if (instruments !== undefined && !isInstrumentList(instruments)) {
+      return c.json({ error: 'instruments must be a list of known instrument ids' }, 400);
+    }
+    
+    if (partAssignments !== undefined && !isPartAssignmentList(partAssignments)) {
+      return c.json({ error: 'Invalid part assignments' }, 400);
+    }
+    
+    const choirVoices = voices ?? (satbConfig?.soprano ? choirVoicesFromSatbConfig(satbConfig) : undefined);
+    if (choirVoices !== undefined && !isChoirVoiceList(choirVoices)) {
+      return c.json({ error: 'Invalid choir voices' }, 400);
+    }
+    
+    if (sungParts !== undefined) {
+      if (!Array.isArray(sungParts) || sungParts.length === 0 || !sungParts.every(id => typeof id === 'string')) {
+        return c.json({ error: 'sungParts must be a list of part ids' }, 400);
+      }
+      if (!choirVoices || !(partAssignments?.length || instruments?.length)) {
+        return c.json({ error: 'Sung parts are only chosen for conversions with both voices and instruments' }, 400);
+      }
+      // A voice can only sing a part the choir sings
+      if (choirVoices.some((voice: ChoirVoice) => voice.source && !sungParts.includes(voice.source.partId))) {
+        return c.json({ error: 'Every voice source must be one of the sung parts' }, 400);
+      }
+    }
+    
+    if (separateVoices !== undefined) {
+      if (typeof separateVoices !== 'boolean') {
+        return c.json({ error: 'separateVoices must be true or false' }, 400);
+      }
+      if (separateVoices && !choirVoices) {
+        return c.json({ error: 'Voices are only separated for choir conversions' }, 400);
+      }
+    }
+    
+    if (learningTracks !== undefined) {
+      if (!isLearningTrackOptions(learningTracks)) {
+        return c.json({ error: 'Invalid learning track options' }, 400);
+      }
+      if (!choirVoices) {
+        return c.json({ error: 'Learning tracks are only made for choir conversions' }, 400);
+      }
+    }
+    
+    if (transposition !== undefined && !isTranspositionRequest(transposition)) {
+      return c.json({ error: 'Invalid transposition' }, 400);
+    }
     
     // Verify score ownership
     const scoreMetadata = await kv.get(scoreId);
@@ -238,73 +700,39 @@ app.post('/make-server-f24025d1/scores/:scoreId/convert', async (c) => {
       return c.json({ error: 'Score not found or access denied' }, 404);
     }
     
-    // Create conversion job
+    // Create conversion record
     const conversionId = `conversion_${user.id}_${Date.now()}`;
-    const conversionData = {
+    const conversionData: Conversion = {
       id: conversionId,
       scoreId,
       userId: user.id,
-      instruments: instruments || [],
-      satbConfig: satbConfig || {},
-      tempo: tempo || 120,
+      instruments: partAssignments ? assignedInstruments(partAssignments) : instruments || [],
+      ...(partAssignments && { partAssignments }),
+      ...(choirVoices && { voices: choirVoices }),
+      ...(sungParts && { sungParts }),
+      ...(separateVoices && { separateVoices }),
+      tempo: tempo || DEFAULT_TEMPO,
+      ...(tempoMode && { tempoMode }),
+      ...(skipRepeats && { skipRepeats }),
+      audioFormat: audioFormat || DEFAULT_AUDIO_FORMAT,
+      ...(stems && { stems }),
+      ...(learningTracks && { learningTracks }),
+      ...(scoreMetadata.revision !== undefined && { revision: scoreMetadata.revision }),
+      ...(transposition && { transposition }),
       status: 'processing',
       createdAt: new Date().toISOString(),
     };
     
     await kv.set(conversionId, conversionData);
     
-    // TODO: Integration point for actual OMR and conversion
-    // Example workflow:
-    // 1. Call OMR API with score image → get MusicXML/MIDI
-    // 2. Process MusicXML with selected instruments
-    // 3. Generate audio using synthesis engine
-    // 4. Upload audio/MIDI to storage buckets
-    // 5. Update conversion status
+    // Add to user's conversion history right away so failures show up too
+    const userConversionsKey = `user_conversions_${user.id}`;
+    const existingConversions = await kv.get(userConversionsKey) || [];
+    await kv.set(userConversionsKey, [...existingConversions, conversionId]);
     
-    // Simulate async processing (in production, this would be a background job)
-    setTimeout(async () => {
-      try {
-        // In production: generate actual audio/MIDI files here
-        // For now, we'll create dummy file references
-        
-        const audioPath = `${user.id}/${conversionId}.mp3`;
-        const midiPath = `${user.id}/${conversionId}.mid`;
-        
-        // Create signed URLs (these would point to actual generated files)
-        const { data: audioUrl } = await supabase.storage
-          .from(AUDIO_BUCKET)
-          .createSignedUrl(audioPath, 60 * 60 * 24 * 365);
-        
-        const { data: midiUrl } = await supabase.storage
-          .from(MIDI_BUCKET)
-          .createSignedUrl(midiPath, 60 * 60 * 24 * 365);
-        
-        // Update conversion with results
-        const updatedConversion = {
-          ...conversionData,
-          status: 'completed',
-          audioUrl: audioUrl?.signedUrl,
-          midiUrl: midiUrl?.signedUrl,
-          audioPath,
-          midiPath,
-          completedAt: new Date().toISOString(),
-        };
-        
-        await kv.set(conversionId, updatedConversion);
-        
-        // Add to user's conversion history
-        const userConversionsKey = `user_conversions_${user.id}`;
-        const existingConversions = await kv.get(userConversionsKey) || [];
-        await kv.set(userConversionsKey, [...existingConversions, conversionId]);
-      } catch (error) {
-        console.log('Background conversion error:', error);
-        await kv.set(conversionId, {
-          ...conversionData,
-          status: 'failed',
-          error: 'Conversion processing failed',
-        });
-      }
-    }, 2000); // Simulate 2-second processing time
+    // Queue the pipeline job and start draining without blocking the response
+    await enqueueConversionJob(conversionData);
+    runInBackground(drainConversionQueue());
     
     return c.json({ 
       conversionId,
@@ -333,12 +761,17 @@ app.get('/make-server-f24025d1/conversions/:conversionId', async (c) => {
     }
     
     const conversionId = c.req.param('conversionId');
-    const conversionData = await kv.get(conversionId);
+    const conversionData = await getConversion(conversionId);
     
     if (!conversionData || conversionData.userId !== user.id) {
       return c.json({ error: 'Conversion not found or access denied' }, 404);
     }
     
+    // Pick up jobs whose background worker was shut down mid-drain
+    if (conversionData.status === 'processing') {
+      runInBackground(drainConversionQueue());
+    }
+    
     return c.json(conversionData);
   } catch (error) {
     console.log('Get conversion exception:', error);
@@ -346,6 +779,154 @@ app.get('/make-server-f24025d1/conversions/:conversionId', async (c) => {
   }
 });
 
+/**
+ * GET /make-server-f24025d1/conversions/:conversionId/performance
+ * Get the score model a completed conversion played, transposed and in
+ * performance order, for playing it in the browser
+ * 
+ * Requires: Authorization header
+ * Returns: { model }
+ */
+app.get('/make-server-f24025d1/conversions/:conversionId/performance', async (c) => {
+  try {
+    const { user, error: authError } = await verifyAuth(c.req.raw);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+    
+    const conversionId = c.req.param('conversionId');
+    const conversionData = await getConversion(conversionId);
+    
+    if (!conversionData || conversionData.userId !== user.id) {
+      return c.json({ error: 'Conversion not found or access denied' }, 404);
+    }
+    
+    const model = conversionData.status === 'completed' ? await getPerformedModel(conversionData) : null;
+    if (!model) {
+      return c.json({ error: 'The score this conversion played is not available' }, 404);
+    }
+    
+    return c.json({ model });
+  } catch (error) {
+    console.log('Get conversion performance exception:', error);
+    return c.json({ error: 'Internal server error fetching conversion performance' }, 500);
+  }
+});
+
+/**
+ * GET /make-server-f24025d1/conversions/:conversionId/stems
+ * Get a download link for a conversion's stem bundle: a ZIP with one WAV
+ * per instrument or voice, the full mix and manifest.json
+ * 
+ * Requires: Authorization header
+ * Returns: { url }; 404 when the conversion was not made with stems
+ */
+app.get('/make-server-f24025d1/conversions/:conversionId/stems', async (c) => {
+  try {
+    const { user, error: authError } = await verifyAuth(c.req.raw);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+    
+    const conversionId = c.req.param('conversionId');
+    const conversionData = await getConversion(conversionId);
+    
+    if (!conversionData || conversionData.userId !== user.id) {
+      return c.json({ error: 'Conversion not found or access denied' }, 404);
+    }
+    
+    if (!conversionData.stemsPath) {
+      return c.json({ error: 'No stems were rendered for this conversion' }, 404);
+    }
+    
+    const url = await createSignedFileUrl(AUDIO_BUCKET, conversionData.stemsPath);
+    return c.json({ url });
+  } catch (error) {
+    console.log('Get conversion stems exception:', error);
+    return c.json({ error: 'Internal server error fetching conversion stems' }, 500);
+  }
+});
+
+/**
+ * PUT /make-server-f24025d1/conversions/:conversionId/mix
+ * Save the playback mixer's settings as the conversion's default mix. The
+ * rendered audio file is not changed.
+ * 
+ * Requires: Authorization header
+ * Body: { mix } - { [trackId]: { volume (0-1), pan (-1 to 1), muted, solo } },
+ *   keyed by the ids of the conversion's tracks
+ * Returns: { mix }
+ */
+app.put('/make-server-f24025d1/conversions/:conversionId/mix', async (c) => {
+  try {
+    const { user, error: authError } = await verifyAuth(c.req.raw);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+    
+    const conversionId = c.req.param('conversionId');
+    const conversionData = await getConversion(conversionId);
+    
+    if (!conversionData || conversionData.userId !== user.id) {
+      return c.json({ error: 'Conversion not found or access denied' }, 404);
+    }
+    
+    const { mix } = await c.req.json();
+    if (!isTrackMixMap(mix)) {
+      return c.json({ error: 'mix must give volume (0-1), pan (-1 to 1), muted and solo for each track' }, 400);
+    }
+    
+    const model = conversionData.status === 'completed' ? await getPerformedModel(conversionData) : null;
+    if (!model) {
+      return c.json({ error: 'The score this conversion played is not available' }, 404);
+    }
+    
+    const trackIds = new Set(buildArrangement(model, conversionData).map(track => track.id));
+    const unknown = Object.keys(mix).filter(id => !trackIds.has(id));
+    if (unknown.length > 0) {
+      return c.json({ error: `mix has settings for tracks this conversion does not have: ${unknown.join(', ')}` }, 400);
+    }
+    
+    await kv.set(conversionId, { ...conversionData, mix });
+    
+    return c.json({ mix });
+  } catch (error) {
+    console.log('Save conversion mix exception:', error);
+    return c.json({ error: 'Internal server error saving conversion mix' }, 500);
+  }
+});
+
+/**
+ * GET /make-server-f24025d1/soundfont
+ * Get a download link for the SoundFont the renderer plays, so the page can
+ * play live with the same instruments
+ * 
+ * Requires: Authorization header
+ * Returns: { url }, a signed URL; 404 when no SoundFont has been uploaded
+ */
+app.get('/make-server-f24025d1/soundfont', async (c) => {
+  try {
+    const { user, error: authError } = await verifyAuth(c.req.raw);
+    
+    if (authError || !user) {
+      return c.json({ error: authError || 'Unauthorized' }, 401);
+    }
+    
+    const url = await defaultSoundFontUrl();
+    if (!url) {
+      return c.json({ error: 'No SoundFont has been uploaded' }, 404);
+    }
+    
+    return c.json({ url });
+  } catch (error) {
+    console.log('Get SoundFont exception:', error);
+    return c.json({ error: 'Internal server error fetching SoundFont' }, 500);
+  }
+});
+
 /**
  * GET /make-server-f24025d1/library
  * Get user's score library
@@ -373,7 +954,7 @@ app.get('/make-server-f24025d1/library', async (c) => {
     const scores = await kv.mget(scoreIds);
     
     // Fetch all conversion metadata
-    const conversions = await kv.mget(conversionIds);
+    const conversions = await getConversions(conversionIds);
     
     // Group conversions by scoreId
     const conversionsByScore = conversions.reduce((acc, conv) => {
@@ -424,13 +1005,16 @@ app.delete('/make-server-f24025d1/scores/:scoreId', async (c) => {
       return c.json({ error: 'Score not found or access denied' }, 404);
     }
     
-    // Delete score file from storage
-    await supabase.storage.from(SCORE_BUCKET).remove([scoreMetadata.filePath]);
+    // Delete score file and its rendered page images from storage
+    const pagePaths: string[] = (scoreMetadata.pages ?? [])
+      .map((page: ScorePage) => page.path)
+      .filter((path: string) => path !== scoreMetadata.filePath);
+    await supabase.storage.from(SCORE_BUCKET).remove([scoreMetadata.filePath, ...pagePaths]);
     
     // Get and delete all conversions for this score
     const userConversionsKey = `user_conversions_${user.id}`;
     const conversionIds = await kv.get(userConversionsKey) || [];
-    const conversions = await kv.mget(conversionIds);
+    const conversions = await getConversions(conversionIds);
     
     const scoreConversions = conversions.filter(c => c.scoreId === scoreId);
     
@@ -442,9 +1026,18 @@ app.delete('/make-server-f24025d1/scores/:scoreId', async (c) => {
       if (conversion.midiPath) {
         await supabase.storage.from(MIDI_BUCKET).remove([conversion.midiPath]);
       }
+      if (conversion.stemsPath) {
+        await supabase.storage.from(AUDIO_BUCKET).remove([conversion.stemsPath]);
+      }
+      if (conversion.learningTrackFiles?.length) {
+        await supabase.storage.from(AUDIO_BUCKET).remove(
+          conversion.learningTrackFiles.map((track: LearningTrack) => track.path),
+        );
+      }
       
-      // Delete conversion metadata
+      // Delete conversion metadata and its pipeline job
       await kv.del(conversion.id);
+      await kv.del(conversionJobKey(conversion.id));
     }
     
     // Remove conversions from user's list
@@ -453,8 +1046,9 @@ app.delete('/make-server-f24025d1/scores/:scoreId', async (c) => {
     );
     await kv.set(userConversionsKey, updatedConversions);
     
-    // Delete score metadata
+    // Delete score metadata, its score model, revisions and recognition record
     await kv.del(scoreId);
+    await deleteScoreModels(scoreId);
     
     // Remove score from user's list
     const userScoresKey = `user_scores_${user.id}`;
@@ -468,6 +1062,29 @@ app.delete('/make-server-f24025d1/scores/:scoreId', async (c) => {
   }
 });
 
+/**
+ * POST /make-server-f24025d1/jobs/drain
+ * Run queued conversion jobs (for a scheduled trigger)
+ * 
+ * Requires: Authorization header with the service role key
+ * Returns: { processed }
+ */
+app.post('/make-server-f24025d1/jobs/drain', async (c) => {
+  try {
+    const token = c.req.header('Authorization')?.split(' ')[1];
+    if (!token || token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+    
+    const processed = await drainConversionQueue();
+    
+    return c.json({ processed });
+  } catch (error) {
+    console.log('Job drain exception:', error);
+    return c.json({ error: 'Internal server error draining conversion jobs' }, 500);
+  }
+});
+
 /**
  * Health check endpoint
  */
@@ -0,0 +1,144 @@
+/**
+ * Job Queue
+ *
+ * Claiming and draining persisted jobs, independent of where they are
+ * stored. Several workers (one per isolate) may drain the same queue, so a
+ * job is only leased by a conditional write that succeeds while the job is
+ * still due: of two workers claiming the same job, exactly one gets it.
+ * Every later write is conditional on the lease too, so a worker whose
+ * lease lapsed and was taken over stops instead of overwriting the job.
+ */
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * The fields of a stored job that the queue reads and writes
+ */
+export interface QueuedJob {
+  id: string;
+  status: JobStatus;
+  runAfter: string;
+  leaseId?: string;
+  leaseExpiresAt?: string;
+  createdAt: string;
+}
+
+export interface JobLease {
+  leaseId: string;
+  leaseExpiresAt: string;
+}
+
+/**
+ * Where jobs are kept. `claim` must be atomic: it marks the job running
+ * under the new lease only if the stored job is still due at `now` (see
+ * isJobDue) and still has the lease `job` was read with, and reports
+ * whether it did. `save` likewise writes the job only while the stored job
+ * is still held under `leaseId`.
+ */
+export interface JobStore<Job extends QueuedJob> {
+  list(): Promise<Job[]>;
+  claim(job: Job, lease: JobLease, now: string): Promise<boolean>;
+  save(job: Job, leaseId: string): Promise<boolean>;
+}
+
+/**
+ * Thrown when a worker writes a job whose lease another worker has taken
+ * over. The worker stops running the job; the new lease holder finishes it.
+ */
+export class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`The lease on ${jobId} was taken over by another worker`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+export interface DrainOptions {
+  leaseMs: number;
+  // Keep draining while the next retry is due within this window
+  maxWaitMs: number;
+}
+
+/**
+ * Whether a job may be claimed: queued and past its runAfter, or running
+ * under a lease that has expired because its worker died
+ */
+export function isJobDue(job: QueuedJob, now: string): boolean {
+  if (job.status === 'queued') return !job.leaseId && job.runAfter <= now;
+  if (job.status === 'running') return job.leaseExpiresAt !== undefined && job.leaseExpiresAt <= now;
+  return false;
+}
+
+/**
+ * Run due jobs one at a time until none are due. Returns the number of
+ * attempts made, including those given up when their lease was lost.
+ */
+export async function drainJobs<Job extends QueuedJob>(
+  store: JobStore<Job>,
+  run: (job: Job) => Promise<void>,
+  options: DrainOptions,
+): Promise<number> {
+  let processed = 0;
+  
+  while (true) {
+    const { job, waitMs } = await claimNextJob(store, options.leaseMs);
+    
+    if (job) {
+      try {
+        await run(job);
+      } catch (error) {
+        if (!(error instanceof LeaseLostError)) throw error;
+        console.log(error.message);
+      }
+      processed++;
+    } else if (waitMs !== null && waitMs <= options.maxWaitMs) {
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    } else {
+      return processed;
+    }
+  }
+}
+
+/**
+ * Write a job held under `leaseId`, or throw LeaseLostError when another
+ * worker holds it now
+ */
+export async function saveLeasedJob<Job extends QueuedJob>(
+  store: JobStore<Job>,
+  job: Job,
+  leaseId: string | undefined,
+): Promise<void> {
+  if (!leaseId || !(await store.save(job, leaseId))) {
+    throw new LeaseLostError(job.id);
+  }
+}
+
+/**
+ * Lease the oldest due job. When nothing is due yet, report how long until
+ * the next queued job becomes due.
+ */
+export async function claimNextJob<Job extends QueuedJob>(
+  store: JobStore<Job>,
+  leaseMs: number,
+): Promise<{ job: Job | null; waitMs: number | null }> {
+  const now = Date.now();
+  const nowIso = new Date(now).toISOString();
+  const jobs = await store.list();
+  
+  const due = jobs
+    .filter(job => isJobDue(job, nowIso))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  
+  for (const candidate of due) {
+    const lease = { leaseId: crypto.randomUUID(), leaseExpiresAt: new Date(now + leaseMs).toISOString() };
+    // Another worker may have claimed the job since it was listed
+    if (await store.claim(candidate, lease, nowIso)) {
+      return { job: { ...candidate, ...lease, status: 'running' }, waitMs: null };
+    }
+  }
+  
+  const pending = jobs
+    .filter(job => job.status === 'queued')
+    .map(job => Date.parse(job.runAfter) - now);
+  
+  return { job: null, waitMs: pending.length > 0 ? Math.max(0, Math.min(...pending)) : null };
+}
@@ -0,0 +1,192 @@
+/**
+ * Score Model Storage
+ *
+ * Stores the symbolic score model (see src/lib/score-model.ts) next to each
+ * Score record in the KV store, and keeps a summary on the Score itself.
+ * Every saved model is also kept as a numbered revision, so corrections
+ * made in the notation editor never overwrite what came before them; the
+ * latest revision is the model new conversions use, and each conversion
+ * records the revision it was rendered from. Restoring an older revision
+ * adds it again as the latest, so the history only ever grows.
+ * Scores read by optical recognition also keep where each measure was found
+ * on the page and how confident the reading is.
+ */
+
+import * as kv from './kv_store.tsx';
+import {
+  ScoreModel,
+  ScoreModelValidation,
+  summarizeScoreModel,
+  validateScoreModel,
+} from '../../../src/lib/score-model.ts';
+import type { RecognitionResult } from '../../../src/lib/omr.ts';
+import type { ScoreRevision } from '../../../src/lib/types.ts';
+
+/**
+ * Page layout, measure confidence and warnings from recognizing a score image
+ */
+export interface ScoreRecognition extends Omit<RecognitionResult, 'model'> {
+  recognizedAt: string;
+}
+
+/**
+ * KV key of the model belonging to a score
+ */
+export function scoreModelKey(scoreId: string): string {
+  return `score_model_${scoreId}`;
+}
+
+/**
+ * Load the stored model for a score, if one exists
+ */
+export async function getScoreModel(scoreId: string): Promise<ScoreModel | null> {
+  return (await kv.get(scoreModelKey(scoreId))) ?? null;
+}
+
+/**
+ * Validate and store a model for a score as its next revision
+ * Nothing is written when validation fails
+ */
+export async function saveScoreModel(
+  scoreId: string,
+  model: ScoreModel,
+  restoredFrom?: number,
+): Promise<ScoreModelValidation & { revision?: ScoreRevision }> {
+  const validation = validateScoreModel(model);
+  if (!validation.valid) {
+    return validation;
+  }
+  
+  const revisions = await addRevision(scoreId, await getScoreRevisions(scoreId), model, restoredFrom);
+  const revision = revisions[revisions.length - 1];
+  await kv.set(scoreModelKey(scoreId), model);
+  
+  const score = await kv.get(scoreId);
+  if (score) {
+    await kv.set(scoreId, { ...score, model: revision.summary, revision: revision.number });
+  }
+  
+  return { ...validation, revision };
+}
+
+/**
+ * Store a model as the revision after the last of `revisions`
+ */
+async function addRevision(
+  scoreId: string,
+  revisions: ScoreRevision[],
+  model: ScoreModel,
+  restoredFrom?: number,
+): Promise<ScoreRevision[]> {
+  const summary = summarizeScoreModel(model);
+  const revision: ScoreRevision = {
+    number: (revisions[revisions.length - 1]?.number ?? 0) + 1,
+    source: model.source,
+    createdAt: summary.updatedAt,
+    summary,
+    ...(restoredFrom !== undefined && { restoredFrom }),
+  };
+  
+  const updated = [...revisions, revision];
+  await kv.set(scoreRevisionKey(scoreId, revision.number), model);
+  await kv.set(scoreRevisionsKey(scoreId), updated);
+  return updated;
+}
+
+/**
+ * KV key of the list of revisions of a score
+ */
+export function scoreRevisionsKey(scoreId: string): string {
+  return `score_revisions_${scoreId}`;
+}
+
+/**
+ * KV key of the model saved as one revision of a score
+ */
+export function scoreRevisionKey(scoreId: string, revision: number): string {
+  return `score_revision_${scoreId}_${revision}`;
+}
+
+/**
+ * Revisions of a score, oldest first (empty for scores without a model).
+ * A model stored before revisions were kept becomes revision 1 here.
+ */
+export async function getScoreRevisions(scoreId: string): Promise<ScoreRevision[]> {
+  const revisions: ScoreRevision[] | undefined = await kv.get(scoreRevisionsKey(scoreId));
+  if (revisions) {
+    return revisions;
+  }
+  
+  const existing = await getScoreModel(scoreId);
+  if (!existing) {
+    return [];
+  }
+  
+  const backfilled = await addRevision(scoreId, [], existing);
+  const score = await kv.get(scoreId);
+  if (score) {
+    await kv.set(scoreId, { ...score, revision: backfilled[0].number });
+  }
+  return backfilled;
+}
+
+/**
+ * Load the model saved as one revision of a score, if it exists
+ */
+export async function getScoreRevisionModel(scoreId: string, revision: number): Promise<ScoreModel | null> {
+  return (await kv.get(scoreRevisionKey(scoreId, revision))) ?? null;
+}
+
+/**
+ * Make an older revision current again by saving its model as the next
+ * revision, so the history in between is kept. Returns null when the
+ * revision does not exist.
+ */
+export async function restoreScoreRevision(
+  scoreId: string,
+  revision: number,
+): Promise<(ScoreModelValidation & { revision?: ScoreRevision; model: ScoreModel }) | null> {
+  const model = await getScoreRevisionModel(scoreId, revision);
+  if (!model) {
+    return null;
+  }
+  
+  return { ...(await saveScoreModel(scoreId, model, revision)), model };
+}
+
+/**
+ * Delete a score's model, its revisions and its recognition record
+ */
+export async function deleteScoreModels(scoreId: string): Promise<void> {
+  const revisions: ScoreRevision[] = (await kv.get(scoreRevisionsKey(scoreId))) ?? [];
+  await kv.mdel([
+    scoreModelKey(scoreId),
+    scoreRevisionsKey(scoreId),
+    scoreRecognitionKey(scoreId),
+    ...revisions.map(revision => scoreRevisionKey(scoreId, revision.number)),
+  ]);
+}
+
+/**
+ * KV key of the recognition record belonging to a score
+ */
+export function scoreRecognitionKey(scoreId: string): string {
+  return `score_recognition_${scoreId}`;
+}
+
+/**
+ * Load how a score's image was recognized, if it was
+ */
+export async function getScoreRecognition(scoreId: string): Promise<ScoreRecognition | null> {
+  return (await kv.get(scoreRecognitionKey(scoreId))) ?? null;
+}
+
+/**
+ * Store the recognition of a score's image, without the model itself
+ */
+export async function saveScoreRecognition(scoreId: string, result: RecognitionResult): Promise<ScoreRecognition> {
+  const { model: _model, ...layout } = result;
+  const recognition = { ...layout, recognizedAt: new Date().toISOString() };
+  await kv.set(scoreRecognitionKey(scoreId), recognition);
+  return recognition;
+}
@@ -0,0 +1,135 @@
+/**
+ * Score Recognition
+ *
+ * Runs optical music recognition on an uploaded image or PDF: renders and
+ * stores its pages, reads them one at a time, and stores where each measure
+ * was found and how confident the reading is. The review route runs it
+ * before a conversion so the user can check the result; the conversion
+ * pipeline runs it for scores that were never reviewed.
+ */
+
+import * as kv from './kv_store.tsx';
+import { SCORE_BUCKET, downloadFile, uploadGeneratedFile } from './storage.tsx';
+import { type ScoreRecognition, saveScoreRecognition } from './score_models.tsx';
+import { decodeScoreImage, openPdfPages } from './image_decoders.tsx';
+import type { RecognitionReview, ScorePage } from '../../../src/lib/types.ts';
+import { type ScoreModel, summarizeScoreModel } from '../../../src/lib/score-model.ts';
+import { isPdfType } from '../../../src/lib/score-formats.ts';
+import {
+  LOW_CONFIDENCE,
+  type PageReading,
+  type RecognitionResult,
+  assembleScore,
+  readPage,
+} from '../../../src/lib/omr.ts';
+import { PNG_CONTENT_TYPE, encodeGrayPng } from '../../../src/lib/png.ts';
+import { separateVoices } from '../../../src/lib/voice-separation.ts';
+import { defaultSungPartIds } from '../../../src/lib/voices.ts';
+
+/**
+ * The uploaded file itself cannot be decoded, so trying again will not help
+ */
+export class UnreadableScoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnreadableScoreError';
+  }
+}
+
+/**
+ * Recognize an image or PDF score and store its pages and recognition
+ * record. The model (null when no music was found) is left to the caller
+ * to validate and store.
+ */
+export async function recognizeUploadedScore(score: any): Promise<RecognitionResult> {
+  const bytes = await downloadFile(SCORE_BUCKET, score.filePath);
+  const readings: PageReading[] = [];
+  const pages: ScorePage[] = [];
+  
+  if (isPdfType(score.fileType)) {
+    const pdf = await decodeOrFail('PDF', () => openPdfPages(bytes));
+    const folder = score.filePath.replace(/\.[^./]*$/, '');
+    try {
+      for (let index = 0; index < pdf.count; index++) {
+        const image = await decodeOrFail('PDF', () => pdf.render(index));
+        readings.push(readPage(image, index));
+        
+        const path = `${folder}/page-${index + 1}.png`;
+        const png = await encodeGrayPng(image.width, image.height, image.data);
+        const url = await uploadGeneratedFile(SCORE_BUCKET, path, png, PNG_CONTENT_TYPE);
+        pages.push({ number: index + 1, path, url, width: image.width, height: image.height });
+      }
+    } finally {
+      pdf.close();
+    }
+  } else {
+    const image = await decodeOrFail('image', () => decodeScoreImage(bytes));
+    readings.push(readPage(image));
+    pages.push({ number: 1, path: score.filePath, url: score.url, width: image.width, height: image.height });
+  }
+  
+  // Record the pages on the Score so the UI can show them
+  const stored = await kv.get(score.id);
+  if (stored) {
+    await kv.set(score.id, { ...stored, pages });
+  }
+  
+  const result = assembleScore(readings);
+  await saveScoreRecognition(score.id, result);
+  return result;
+}
+
+/**
+ * What the user checks before converting: the summary of the model, the
+ * page images with the measures read with low confidence or whose shared
+ * staves split into voices uncertainly, and every issue as an
+ * UploadValidation warning. Measures corrected in the notation editor have
+ * lost their confidence and are no longer flagged as low confidence.
+ */
+export function buildRecognitionReview(
+  model: ScoreModel,
+  pages: ScorePage[],
+  recognition: ScoreRecognition | null,
+): RecognitionReview {
+  const measures = model.parts[0]?.measures ?? [];
+  const lowConfidence = (recognition?.measures ?? []).filter(measure =>
+    measure.confidence < LOW_CONFIDENCE && measures[measure.index]?.confidence !== undefined);
+  
+  // Only sung parts are split into voices. Recognized scores have one part,
+  // so its measures are the ones on the pages
+  const ambiguousVoices = separateVoices(model, defaultSungPartIds(model)).ambiguous.map(measure => {
+    const recognized = recognition?.measures.find(item => item.index === measure.index);
+    return recognized ? { ...measure, page: recognized.page, box: recognized.box } : measure;
+  });
+  const partName = (partId: string) => model.parts.find(part => part.id === partId)?.name || partId;
+  
+  const warnings = [
+    ...(recognition?.warnings ?? []),
+    ...lowConfidence.map(measure =>
+      `Measure ${measure.number}${pages.length > 1 ? ` on page ${measure.page + 1}` : ''} ` +
+      `was read with low confidence (${Math.round(measure.confidence * 100)}%)`),
+    ...ambiguousVoices.map(measure =>
+      `Measure ${measure.number} (${partName(measure.partId)}, staff ${measure.staff}) ` +
+      `may be split into voices wrongly: ${measure.reasons.join('; ')}`),
+  ];
+  
+  return {
+    summary: summarizeScoreModel(model),
+    pages,
+    lowConfidence,
+    ambiguousVoices,
+    validation: { valid: true, warnings },
+  };
+}
+
+/**
+ * Run a decoding step, reporting any failure as an unreadable file
+ */
+async function decodeOrFail<T>(kind: string, decode: () => T | Promise<T>): Promise<T> {
+  try {
+    return await decode();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new UnreadableScoreError(`The ${kind} could not be read: ${message}`);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * SoundFont Loading
+ *
+ * The renderer plays instruments from a General MIDI SoundFont stored at
+ * SOUNDFONT_BUCKET/default.sf2. Upload any GM-compatible .sf2 there to
+ * change the instrument sounds; fixtures/soundfonts/test.sf2 is a small
+ * generated one suitable for development. Without a SoundFont the renderer
+ * falls back to its built-in synthesized patches. The playback page
+ * downloads the same file, so live playback sounds like the rendered audio.
+ */
+
+import { SOUNDFONT_BUCKET, createSignedFileUrl, downloadFile, objectExists } from './storage.tsx';
+import { type SoundFont, parseSoundFont } from '../../../src/lib/soundfont.ts';
+
+export const DEFAULT_SOUNDFONT_PATH = 'default.sf2';
+
+// Parsed once per isolate; the file is large and rarely changes
+let cached: Promise<SoundFont | null> | null = null;
+
+/**
+ * The default SoundFont, or null when none has been uploaded or it cannot
+ * be read
+ */
+export function loadSoundFont(): Promise<SoundFont | null> {
+  if (!cached) {
+    cached = readDefaultSoundFont().catch(error => {
+      console.log('SoundFont load error, using synthesized instruments:', error);
+      cached = null;
+      return null;
+    });
+  }
+  return cached;
+}
+
+async function readDefaultSoundFont(): Promise<SoundFont | null> {
+  if (!(await objectExists(SOUNDFONT_BUCKET, DEFAULT_SOUNDFONT_PATH))) {
+    return null;
+  }
+  return parseSoundFont(await downloadFile(SOUNDFONT_BUCKET, DEFAULT_SOUNDFONT_PATH));
+}
+
+/**
+ * Download link for the default SoundFont, or null when none has been
+ * uploaded
+ */
+export async function defaultSoundFontUrl(): Promise<string | null> {
+  if (!(await objectExists(SOUNDFONT_BUCKET, DEFAULT_SOUNDFONT_PATH))) {
+    return null;
+  }
+  return createSignedFileUrl(SOUNDFONT_BUCKET, DEFAULT_SOUNDFONT_PATH);
+}
@@ -0,0 +1,144 @@
+/**
+ * Storage Helpers
+ *
+ * Shared Supabase client and bucket names for the server routes and the
+ * conversion pipeline, plus small helpers for writing generated files.
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js';
+
+// Initialize Supabase client with service role for admin operations
+export const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+);
+
+// Bucket names for file storage
+export const SCORE_BUCKET = 'make-f24025d1-scores';
+export const AUDIO_BUCKET = 'make-f24025d1-audio';
+export const MIDI_BUCKET = 'make-f24025d1-midi';
+export const SOUNDFONT_BUCKET = 'make-f24025d1-soundfonts';
+
+// Signed URLs for private files are valid for 1 year
+export const SIGNED_URL_TTL = 60 * 60 * 24 * 365;
+
+/**
+ * Check whether an object exists in a bucket
+ * Storage has no HEAD call, so list the parent folder filtered by file name
+ */
+export async function objectExists(bucket: string, path: string): Promise<boolean> {
+  const slash = path.lastIndexOf('/');
+  const folder = slash >= 0 ? path.slice(0, slash) : '';
+  const name = path.slice(slash + 1);
+  
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .list(folder, { search: name, limit: 100 });
+  
+  if (error) {
+    throw new Error(`Failed to check ${bucket}/${path}: ${error.message}`);
+  }
+  
+  return (data ?? []).some(entry => entry.name === name);
+}
+
+/**
+ * Download an object as bytes
+ */
+export async function downloadFile(bucket: string, path: string): Promise<Uint8Array> {
+  const { data, error } = await supabase.storage.from(bucket).download(path);
+  
+  if (error || !data) {
+    throw new Error(`Failed to download ${bucket}/${path}: ${error?.message ?? 'no data returned'}`);
+  }
+  
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+/**
+ * Upload generated bytes, overwriting any earlier attempt, and return a signed URL
+ * Throws unless the object can be found in the bucket afterwards
+ */
+export async function uploadGeneratedFile(
+  bucket: string,
+  path: string,
+  bytes: Uint8Array,
+  contentType: string,
+): Promise<string> {
+  const { error: uploadError } = await supabase.storage
+    .from(bucket)
+    .upload(path, bytes, { contentType, upsert: true });
+  
+  if (uploadError) {
+    throw new Error(`Failed to upload ${bucket}/${path}: ${uploadError.message}`);
+  }
+  
+  if (!(await objectExists(bucket, path))) {
+    throw new Error(`Uploaded file ${bucket}/${path} could not be found`);
+  }
+  
+  return createSignedFileUrl(bucket, path);
+}
+
+/**
+ * Upload a generated file while it is being produced, overwriting any
+ * earlier attempt. `produce` passes the file to `write` a chunk at a time;
+ * each write waits until the upload has taken the chunk, so the whole file
+ * is never held in memory. Returns what `produce` returns, and throws
+ * unless the object can be found in the bucket afterwards.
+ */
+export async function uploadGeneratedStream<T>(
+  bucket: string,
+  path: string,
+  contentType: string,
+  produce: (write: (chunk: Uint8Array) => Promise<void>) => Promise<T>,
+): Promise<T> {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const upload = supabase.storage
+    .from(bucket)
+    .upload(path, readable, { contentType, upsert: true, duplex: 'half' });
+  
+  let result: T;
+  try {
+    result = await produce(async chunk => {
+      await writer.ready;
+      await writer.write(chunk);
+    });
+    await writer.close();
+  } catch (error) {
+    // A failed upload cancels the stream, which is the likelier cause
+    await writer.abort(error).catch(() => {});
+    const { error: uploadError } = await upload;
+    if (uploadError) {
+      throw new Error(`Failed to upload ${bucket}/${path}: ${uploadError.message}`);
+    }
+    throw error;
+  }
+  
+  const { error: uploadError } = await upload;
+  if (uploadError) {
+    throw new Error(`Failed to upload ${bucket}/${path}: ${uploadError.message}`);
+  }
+  
+  if (!(await objectExists(bucket, path))) {
+    throw new Error(`Uploaded file ${bucket}/${path} could not be found`);
+  }
+  
+  return result;
+}
+
+/**
+ * Signed URL for downloading a private object, valid for SIGNED_URL_TTL
+ */
+export async function createSignedFileUrl(bucket: string, path: string): Promise<string> {
+  const { data: signedUrlData, error: signError } = await supabase.storage
+    .from(bucket)
+    .createSignedUrl(path, SIGNED_URL_TTL);
+  
+  if (signError || !signedUrlData?.signedUrl) {
+    throw new Error(`Failed to sign ${bucket}/${path}: ${signError?.message ?? 'no URL returned'}`);
+  }
+  
+  return signedUrlData.signedUrl;
+}
@@ -0,0 +1,114 @@
+/**
+ * Golden tests for offline rendering: a fixed arrangement must always
+ * render and encode to the same bytes, and its stems must add up to its mix
+ * and stream into a stem bundle a file at a time.
+ *
+ * When rendering changes on purpose, print the new hashes with
+ * `npx deno test --allow-read tests/audio-render.test.ts -- --update` and
+ * paste them below.
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import type { ScoreModel } from '../src/lib/score-model.ts';
+import { type ArrangementTrack, buildArrangement } from '../src/lib/arrangement.ts';
+import { renderArrangement, renderStems } from '../src/lib/audio-render.ts';
+import { encodeOggFlac, encodeWav } from '../src/lib/audio-encoding.ts';
+import { buildTempoMap, tempoChanges } from '../src/lib/tempo-map.ts';
+import { STEM_MANIFEST_FILE, STEM_MIX_FILE, type StemManifest, renderStemBundle } from '../src/lib/stems.ts';
+import { readZip } from '../src/lib/zip.ts';
+
+const GOLDEN = {
+  wav: 'fcc39bdb8ec2c35898693bd95f5abb9692821dc25e9a64c25812b230ac50720c',
+  oggFlac: '7b3849ccb733dff4dcb28081c1bcf8d9aea002324e2283a484c085d51a88ecc1',
+};
+
+// Low enough to keep the test fast; the renderer works the same at any rate
+const SAMPLE_RATE = 8000;
+
+const model: ScoreModel = JSON.parse(
+  readFileSync(new URL('../fixtures/omr/hymn-e-major.json', import.meta.url), 'utf8'),
+);
+// A sustained, a plucked and a noise patch, so the seeded noise is covered
+const tracks: ArrangementTrack[] = buildArrangement(model, {
+  instruments: [],
+  partAssignments: [{ partId: 'P1', instruments: ['violin', 'harp', 'snare-drum'] }],
+});
+const tempo = tempoChanges(buildTempoMap(model, 96, 'scale'), model.divisions);
+
+const render = () => renderArrangement(model, tracks, tempo, { sampleRate: SAMPLE_RATE });
+
+Deno.test('renders the same samples every time', () => {
+  const first = render();
+  const second = render();
+  assert.deepEqual(first.left, second.left);
+  assert.deepEqual(first.right, second.right);
+});
+
+Deno.test('encodes a fixed arrangement to golden WAV bytes', async () => {
+  await assertGolden('wav', encodeWav(render()));
+});
+
+Deno.test('encodes a fixed arrangement to golden Ogg FLAC bytes', async () => {
+  await assertGolden('oggFlac', encodeOggFlac(render()));
+});
+
+Deno.test('stems add up to the mix', async () => {
+  const left = new Float64Array(render().left.length);
+  const right = new Float64Array(left.length);
+  let stems = 0;
+  const mix = await renderStems(model, tracks, tempo, (_, stem) => {
+    assert.equal(stem.left.length, left.length);
+    for (let i = 0; i < left.length; i++) {
+      left[i] += stem.left[i];
+      right[i] += stem.right[i];
+    }
+    stems++;
+  }, { sampleRate: SAMPLE_RATE });
+
+  assert.equal(stems, tracks.length);
+  for (let i = 0; i < left.length; i++) {
+    assert.ok(Math.abs(left[i] - mix.left[i]) < 1e-5, `left sample ${i} differs from the mix`);
+    assert.ok(Math.abs(right[i] - mix.right[i]) < 1e-5, `right sample ${i} differs from the mix`);
+  }
+});
+
+Deno.test('streams a stem bundle a file at a time', async () => {
+  const chunks: Uint8Array[] = [];
+  const mix = await renderStemBundle(model, tracks, tempo, chunk => {
+    chunks.push(chunk);
+  }, { sampleRate: SAMPLE_RATE });
+
+  // A local header and data per file, then the central directory
+  const files = tracks.length + 2;
+  assert.equal(chunks.length, files * 2 + 1);
+
+  const bundle = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bundle.set(chunk, offset);
+    offset += chunk.length;
+  }
+  const entries = await readZip(bundle);
+  const manifest: StemManifest = JSON.parse(new TextDecoder().decode(entries.get(STEM_MANIFEST_FILE)));
+
+  assert.deepEqual([...entries.keys()], [...manifest.stems.map(stem => stem.file), STEM_MIX_FILE, STEM_MANIFEST_FILE]);
+  assert.deepEqual(manifest.stems.map(stem => stem.file), [
+    '01-violin-part-1.wav', '02-harp-part-1.wav', '03-snare-drum-part-1.wav',
+  ]);
+  assert.deepEqual(entries.get(STEM_MIX_FILE), encodeWav(mix));
+});
+
+async function assertGolden(name: keyof typeof GOLDEN, bytes: Uint8Array) {
+  const hash = await sha256(bytes);
+  if (Deno.args.includes('--update')) {
+    console.log(`${name}: '${hash}',`);
+    return;
+  }
+  assert.equal(hash, GOLDEN[name], `${name} output changed`);
+}
+
+async function sha256(bytes: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes as Uint8Array<ArrayBuffer>));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,120 @@
+/**
+ * Claiming jobs: workers draining the same queue at the same time run each
+ * job exactly once, and a worker whose lease was taken over cannot write the
+ * job any more.
+ */
+
+import assert from 'node:assert/strict';
+import {
+  type JobLease,
+  type JobStore,
+  type QueuedJob,
+  LeaseLostError,
+  claimNextJob,
+  drainJobs,
+  isJobDue,
+  saveLeasedJob,
+} from '../supabase/functions/server/job_queue.tsx';
+
+const OPTIONS = { leaseMs: 60_000, maxWaitMs: 0 };
+
+/**
+ * Jobs in memory, with the same compare-and-set claim and save as the KV
+ * store and a pause before every read and write so that workers interleave
+ */
+function memoryStore(jobs: QueuedJob[]): JobStore<QueuedJob> & { jobs: Map<string, QueuedJob> } {
+  const stored = new Map(jobs.map(job => [job.id, job]));
+  const pause = () => new Promise(resolve => setTimeout(resolve, Math.random() * 3));
+  return {
+    jobs: stored,
+    list: async () => {
+      await pause();
+      return [...stored.values()].map(job => ({ ...job }));
+    },
+    claim: async (job: QueuedJob, lease: JobLease, now: string) => {
+      await pause();
+      const current = stored.get(job.id);
+      if (!current || current.status !== job.status || current.leaseId !== job.leaseId || !isJobDue(current, now)) {
+        return false;
+      }
+      stored.set(job.id, { ...current, ...lease, status: 'running' });
+      return true;
+    },
+    save: async (job: QueuedJob, leaseId: string) => {
+      await pause();
+      if (stored.get(job.id)?.leaseId !== leaseId) return false;
+      stored.set(job.id, job);
+      return true;
+    },
+  };
+}
+
+const queued = (index: number): QueuedJob => ({
+  id: `job_${index}`,
+  status: 'queued',
+  runAfter: new Date(0).toISOString(),
+  createdAt: new Date(index).toISOString(),
+});
+
+Deno.test('concurrent drains run every job exactly once', async () => {
+  const store = memoryStore(Array.from({ length: 20 }, (_, index) => queued(index)));
+  const runs = new Map<string, number>();
+  const run = async (job: QueuedJob) => {
+    runs.set(job.id, (runs.get(job.id) ?? 0) + 1);
+    await new Promise(resolve => setTimeout(resolve, 2));
+    store.jobs.set(job.id, { ...job, status: 'completed', leaseId: undefined, leaseExpiresAt: undefined });
+  };
+
+  const processed = await Promise.all([1, 2, 3, 4].map(() => drainJobs(store, run, OPTIONS)));
+
+  assert.equal(processed.reduce((sum, count) => sum + count, 0), 20);
+  assert.equal(runs.size, 20);
+  for (const [id, count] of runs) assert.equal(count, 1, `${id} ran ${count} times`);
+});
+
+Deno.test('takes over a running job whose lease has expired', async () => {
+  const expired = { ...queued(0), status: 'running' as const, leaseId: 'dead', leaseExpiresAt: new Date(1).toISOString() };
+  const live = { ...queued(1), status: 'running' as const, leaseId: 'alive', leaseExpiresAt: '9999-01-01T00:00:00.000Z' };
+  const store = memoryStore([expired, live]);
+
+  const { job } = await claimNextJob(store, OPTIONS.leaseMs);
+  assert.equal(job?.id, expired.id);
+  assert.notEqual(job?.leaseId, 'dead');
+  assert.equal(store.jobs.get(expired.id)?.leaseId, job?.leaseId);
+
+  assert.equal((await claimNextJob(store, OPTIONS.leaseMs)).job, null);
+});
+
+Deno.test('reports how long until the next retry is due', async () => {
+  const later = { ...queued(0), runAfter: new Date(Date.now() + 30_000).toISOString() };
+  const { job, waitMs } = await claimNextJob(memoryStore([later]), OPTIONS.leaseMs);
+  assert.equal(job, null);
+  assert.ok(waitMs !== null && waitMs > 25_000 && waitMs <= 30_000);
+});
+
+Deno.test('stops a worker whose lease was taken over', async () => {
+  const expired = { ...queued(0), status: 'running' as const, leaseId: 'lapsed', leaseExpiresAt: new Date(1).toISOString() };
+  const store = memoryStore([expired]);
+
+  const { job } = await claimNextJob(store, OPTIONS.leaseMs);
+  assert.ok(job);
+  await assert.rejects(saveLeasedJob(store, { ...expired, status: 'completed' }, 'lapsed'), LeaseLostError);
+  assert.equal(store.jobs.get(expired.id)?.leaseId, job.leaseId);
+  assert.equal(store.jobs.get(expired.id)?.status, 'running');
+
+  await saveLeasedJob(store, { ...job, status: 'completed' }, job.leaseId!);
+  assert.equal(store.jobs.get(expired.id)?.status, 'completed');
+});
+
+Deno.test('keeps draining after a job is given up for a lost lease', async () => {
+  const store = memoryStore([queued(0), queued(1)]);
+  const run = async (job: QueuedJob) => {
+    // Another worker took the first job over while it ran
+    if (job.id === 'job_0') store.jobs.set(job.id, { ...job, leaseId: 'other', leaseExpiresAt: '9999-01-01T00:00:00.000Z' });
+    await saveLeasedJob(store, { ...job, status: 'completed' }, job.leaseId);
+  };
+
+  assert.equal(await drainJobs(store, run, OPTIONS), 2);
+  assert.equal(store.jobs.get('job_0')?.leaseId, 'other');
+  assert.equal(store.jobs.get('job_1')?.status, 'completed');
+});
@@ -0,0 +1,141 @@
+/**
+ * Standard MIDI File structure: chunk lengths, the conductor track's tempo,
+ * time and key signatures, one channel per pitched track with channel 10
+ * left to the drums, and drum keys for unpitched percussion.
+ */
+
+import assert from 'node:assert/strict';
+import type { ScoreEvent, ScoreModel } from '../src/lib/score-model.ts';
+import { audibleTracks, buildArrangement } from '../src/lib/arrangement.ts';
+import { MIDI_PPQ, writeMidiFile } from '../src/lib/midi.ts';
+
+interface MidiEvent {
+  tick: number;
+  status: number;
+  // Meta event type, for status 0xff
+  type?: number;
+  data: number[];
+}
+
+const quarter = (offset: number): ScoreEvent => ({
+  type: 'note', offset, staff: 1, voice: 1, duration: 8, value: 'quarter', pitch: { step: 'G', alter: 0, octave: 4 },
+});
+
+// 2/4 in G major, repeated on measure 2 as an equal copy, then 3/4 in D major
+const model: ScoreModel = {
+  version: 1,
+  source: 'musicxml',
+  divisions: 8,
+  parts: [{
+    id: 'P1',
+    name: 'Part 1',
+    staves: 1,
+    measures: [
+      { number: 1, key: { fifths: 1, mode: 'major' }, time: { beats: 2, beatType: 4 }, events: [quarter(0), quarter(8)] },
+      { number: 2, key: { fifths: 1, mode: 'major' }, time: { beats: 2, beatType: 4 }, events: [quarter(0), quarter(8)] },
+      { number: 3, key: { fifths: 2, mode: 'major' }, time: { beats: 3, beatType: 4 }, events: [quarter(0)] },
+    ],
+  }],
+};
+
+const PITCHED = [
+  'violin', 'viola', 'cello', 'double-bass', 'flute', 'oboe', 'clarinet', 'bassoon', 'trumpet', 'trombone',
+];
+
+const tracks = audibleTracks(buildArrangement(model, {
+  instruments: [],
+  partAssignments: [{ partId: 'P1', instruments: [...PITCHED, 'snare-drum', 'castanets'] }],
+}));
+const file = writeMidiFile(model, tracks, [{ tick: 0, bpm: 90 }]);
+const chunks = readChunks(file);
+
+Deno.test('writes a Type 1 header and well-formed track chunks', () => {
+  const header = chunks[0];
+  assert.equal(header.id, 'MThd');
+  assert.deepEqual(Array.from(header.body), [0, 1, 0, tracks.length + 1, MIDI_PPQ >> 8, MIDI_PPQ & 0xff]);
+
+  const trackChunks = chunks.slice(1);
+  assert.equal(trackChunks.length, tracks.length + 1);
+  for (const chunk of trackChunks) {
+    assert.equal(chunk.id, 'MTrk');
+    assert.deepEqual(Array.from(chunk.body.slice(-3)), [0xff, 0x2f, 0x00], 'track does not end with End of Track');
+  }
+});
+
+Deno.test('writes tempo, time and key signatures to the conductor track', () => {
+  const conductor = readEvents(chunks[1].body);
+  const meta = (type: number) => conductor.filter(event => event.type === type).map(({ tick, data }) => ({ tick, data }));
+  const measure3 = 2 * 2 * MIDI_PPQ;
+
+  assert.deepEqual(meta(0x51), [{ tick: 0, data: [0x0a, 0x2c, 0x2b] }]);
+  assert.deepEqual(meta(0x58), [{ tick: 0, data: [2, 2, 24, 8] }, { tick: measure3, data: [3, 2, 24, 8] }]);
+  assert.deepEqual(meta(0x59), [{ tick: 0, data: [1, 0] }, { tick: measure3, data: [2, 0] }]);
+});
+
+Deno.test('gives each pitched track its own channel, skipping channel 10', () => {
+  const channels = chunks.slice(2, 2 + PITCHED.length).map(chunk => {
+    const programs = readEvents(chunk.body).filter(event => (event.status & 0xf0) === 0xc0);
+    assert.equal(programs.length, 1);
+    return programs[0].status & 0x0f;
+  });
+  assert.deepEqual(channels, [0, 1, 2, 3, 4, 5, 6, 7, 8, 10]);
+});
+
+Deno.test('plays unpitched percussion on channel 10 by drum key', () => {
+  const keys = chunks.slice(2 + PITCHED.length).map(chunk => {
+    const events = readEvents(chunk.body);
+    assert.ok(!events.some(event => (event.status & 0xf0) === 0xc0), 'drum track has a program change');
+
+    const notes = events.filter(event => (event.status & 0xf0) === 0x90);
+    assert.equal(notes.length, 5);
+    assert.ok(notes.every(event => (event.status & 0x0f) === 9), 'drum note off channel 10');
+    return [...new Set(notes.map(event => event.data[0]))];
+  });
+  // Castanets use their GM1 key rather than the GM2-only one
+  assert.deepEqual(keys, [[38], [75]]);
+});
+
+function readChunks(bytes: Uint8Array): { id: string; body: Uint8Array }[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const id = String.fromCharCode(...bytes.slice(offset, offset + 4));
+    const length = view.getUint32(offset + 4);
+    assert.ok(offset + 8 + length <= bytes.length, `${id} chunk runs past the end of the file`);
+    chunks.push({ id, body: bytes.slice(offset + 8, offset + 8 + length) });
+    offset += 8 + length;
+  }
+  return chunks;
+}
+
+function readEvents(body: Uint8Array): MidiEvent[] {
+  const events: MidiEvent[] = [];
+  let offset = 0;
+  let tick = 0;
+  const readVariableLength = () => {
+    let value = 0;
+    let byte;
+    do {
+      byte = body[offset++];
+      value = (value << 7) | (byte & 0x7f);
+    } while (byte & 0x80);
+    return value;
+  };
+
+  while (offset < body.length) {
+    tick += readVariableLength();
+    const status = body[offset++];
+    if (status === 0xff) {
+      const type = body[offset++];
+      const length = readVariableLength();
+      events.push({ tick, status, type, data: Array.from(body.slice(offset, offset + length)) });
+      offset += length;
+    } else {
+      const length = (status & 0xf0) === 0xc0 ? 1 : 2;
+      events.push({ tick, status, data: Array.from(body.slice(offset, offset + length)) });
+      offset += length;
+    }
+  }
+  return events;
+}
@@ -0,0 +1,93 @@
+/**
+ * Recognition accuracy: runs the built-in optical music recognition over
+ * every image and PDF in fixtures/omr and compares the result with the score
+ * model stored next to it. Each fixture must read its clef, key and time
+ * signature and its measure count exactly, and at least MIN_ACCURACY of its
+ * notes and rests with the right pitch and duration (by edit distance over
+ * the whole piece).
+ *
+ * The verovio-* fixtures are engraved by Verovio rather than drawn from the
+ * recognizer's own glyphs (see scripts/engrave-omr-fixtures.ts).
+ */
+
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync, readdirSync } from 'node:fs';
+import { decodePng } from '../src/lib/png.ts';
+import { toGrayImage } from '../src/lib/raster.ts';
+import { type RecognitionResult, assembleScore, readPage, recognizeScore } from '../src/lib/omr.ts';
+import { openPdfPages } from '../supabase/functions/server/image_decoders.tsx';
+import { type ScoreModel, resolveMeasureAttributes } from '../src/lib/score-model.ts';
+
+const MIN_ACCURACY = 0.95;
+
+const FIXTURES = new URL('../fixtures/omr/', import.meta.url);
+
+const names = readdirSync(FIXTURES)
+  .filter(file => file.endsWith('.png') || file.endsWith('.pdf'))
+  .map(file => file.replace(/\.(png|pdf)$/, ''))
+  .sort();
+
+for (const name of names) {
+  Deno.test(`recognizes ${name}`, async () => {
+    const expected: ScoreModel = JSON.parse(readFileSync(new URL(`${name}.json`, FIXTURES), 'utf8'));
+    const result = await recognizeFixture(name);
+    assert.ok(result.model, `nothing recognized: ${result.warnings.join('; ')}`);
+
+    assert.deepEqual(header(result.model), header(expected), 'clef, key or time signature');
+    assert.equal(result.model.parts[0].measures.length, expected.parts[0].measures.length, 'measure count');
+
+    const expectedEvents = eventSignatures(expected);
+    const errors = editDistance(expectedEvents, eventSignatures(result.model));
+    const accuracy = Math.max(0, 1 - errors / expectedEvents.length);
+    assert.ok(
+      accuracy >= MIN_ACCURACY,
+      `${(accuracy * 100).toFixed(1)}% of notes and rests read correctly, below ${MIN_ACCURACY * 100}%`,
+    );
+  });
+}
+
+async function recognizeFixture(name: string): Promise<RecognitionResult> {
+  // PDF pages are rendered by the edge function's decoder, then read and
+  // stitched together as in the conversion pipeline
+  const pdf = new URL(`${name}.pdf`, FIXTURES);
+  if (existsSync(pdf)) {
+    const pages = openPdfPages(readFileSync(pdf));
+    try {
+      return assembleScore(Array.from({ length: pages.count }, (_, index) => readPage(pages.render(index), index)));
+    } finally {
+      pages.close();
+    }
+  }
+  return recognizeScore(toGrayImage(await decodePng(readFileSync(new URL(`${name}.png`, FIXTURES)))));
+}
+
+function header(model: ScoreModel) {
+  const attributes = resolveMeasureAttributes(model.parts[0])[0];
+  return [attributes.clefs[0], attributes.key.fifths, attributes.time];
+}
+
+/**
+ * One string per note or rest, in order: offset, pitch and duration
+ */
+function eventSignatures(model: ScoreModel): string[] {
+  return model.parts[0].measures.flatMap(measure => measure.events.flatMap(event => {
+    if (event.type === 'note') {
+      const { step, alter, octave } = event.pitch;
+      return [`${event.offset}:${step}${alter}${octave}/${event.duration}`];
+    }
+    if (event.type === 'rest') return [`${event.offset}:rest/${event.duration}`];
+    return [];
+  }));
+}
+
+function editDistance(a: string[], b: string[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = row;
+  }
+  return previous[b.length];
+}
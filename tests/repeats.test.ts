@@ -0,0 +1,117 @@
+/**
+ * Performance order: the written measures, by number, that repeats,
+ * endings, D.C./D.S. jumps, To Coda and Fine play, with and without
+ * skipRepeats.
+ */
+
+import assert from 'node:assert/strict';
+import type { ScoreMeasure, ScoreModel } from '../src/lib/score-model.ts';
+import { performanceOrder } from '../src/lib/repeats.ts';
+
+type Marks = Omit<ScoreMeasure, 'number' | 'events'>;
+
+interface Case {
+  name: string;
+  // Navigation marks of each measure, from measure 1
+  measures: Marks[];
+  skipRepeats?: boolean;
+  played: number[];
+}
+
+const CASES: Case[] = [
+  {
+    name: 'repeats back to a forward repeat barline',
+    measures: [{}, { repeatStart: true }, { repeatEnd: 2 }, {}],
+    played: [1, 2, 3, 2, 3, 4],
+  },
+  {
+    name: 'repeats back to the start without a forward barline',
+    measures: [{}, { repeatEnd: 2 }, {}],
+    played: [1, 2, 1, 2, 3],
+  },
+  {
+    name: 'plays a section three times',
+    measures: [{}, { repeatEnd: 3 }, {}],
+    played: [1, 2, 1, 2, 1, 2, 3],
+  },
+  {
+    name: 'plays first and second endings',
+    measures: [{ repeatStart: true }, {}, { ending: [1], repeatEnd: 2 }, { ending: [2] }, {}],
+    played: [1, 2, 3, 1, 2, 4, 5],
+  },
+  {
+    name: 'plays an ending numbered for several passes',
+    measures: [{}, { ending: [1, 2], repeatEnd: 2 }, { ending: [3] }, {}],
+    played: [1, 2, 1, 2, 1, 3, 4],
+  },
+  {
+    name: 'goes back to the start at D.C. and stops at Fine',
+    measures: [{}, { fine: true }, {}, { jump: 'da-capo' }],
+    played: [1, 2, 3, 4, 1, 2],
+  },
+  {
+    name: 'goes back to the segno at D.S. and stops at Fine',
+    measures: [{}, { segno: true }, { fine: true }, { jump: 'dal-segno' }],
+    played: [1, 2, 3, 4, 2, 3],
+  },
+  {
+    name: 'goes from To Coda to the coda after D.C.',
+    measures: [{}, { toCoda: true }, { jump: 'da-capo' }, { coda: true }, {}],
+    played: [1, 2, 3, 1, 2, 4, 5],
+  },
+  {
+    name: 'goes from To Coda to the coda after D.S.',
+    measures: [{}, { segno: true }, { toCoda: true }, { jump: 'dal-segno' }, { coda: true }],
+    played: [1, 2, 3, 4, 2, 3, 5],
+  },
+  {
+    name: 'takes only the last ending after a D.C.',
+    measures: [{}, { ending: [1], repeatEnd: 2 }, { ending: [2], fine: true }, { jump: 'da-capo' }],
+    played: [1, 2, 1, 3, 4, 1, 3],
+  },
+  {
+    name: 'skips repeats, taking the last ending',
+    measures: [{ repeatStart: true }, {}, { ending: [1], repeatEnd: 2 }, { ending: [2] }, {}],
+    skipRepeats: true,
+    played: [1, 2, 4, 5],
+  },
+  {
+    name: 'skips a plain repeat',
+    measures: [{}, { repeatStart: true }, { repeatEnd: 2 }, {}],
+    skipRepeats: true,
+    played: [1, 2, 3, 4],
+  },
+  {
+    name: 'still follows D.C. al Fine when skipping repeats',
+    measures: [{}, { fine: true }, { repeatEnd: 2 }, { jump: 'da-capo' }],
+    skipRepeats: true,
+    played: [1, 2, 3, 4, 1, 2],
+  },
+];
+
+const scoreWith = (marks: Marks[][]): ScoreModel => ({
+  version: 1,
+  source: 'musicxml',
+  divisions: 1,
+  parts: marks.map((measures, index) => ({
+    id: `P${index + 1}`,
+    name: `Part ${index + 1}`,
+    staves: 1,
+    measures: measures.map((mark, position) => ({ number: position + 1, events: [], ...mark })),
+  })),
+});
+
+const playedNumbers = (model: ScoreModel, skipRepeats?: boolean) =>
+  performanceOrder(model, { skipRepeats }).map(index => index + 1);
+
+for (const { name, measures, skipRepeats, played } of CASES) {
+  Deno.test(name, () => {
+    assert.deepEqual(playedNumbers(scoreWith([measures]), skipRepeats), played);
+  });
+}
+
+Deno.test('reads marks entered in only one part', () => {
+  const unmarked = [{}, {}, {}, {}];
+  const model = scoreWith([unmarked, [{}, { fine: true }, {}, { jump: 'da-capo' }]]);
+  assert.deepEqual(playedNumbers(model), [1, 2, 3, 4, 1, 2]);
+});
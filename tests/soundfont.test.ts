@@ -0,0 +1,81 @@
+/**
+ * SoundFont loading and sample playback against the generated test font
+ * (see scripts/build-test-soundfont.ts): 128 General MIDI presets in bank 0
+ * built from single-cycle samples at middle C, and a drum kit in bank 128.
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import type { ScoreModel } from '../src/lib/score-model.ts';
+import { buildArrangement } from '../src/lib/arrangement.ts';
+import { renderArrangement } from '../src/lib/audio-render.ts';
+import { buildTempoMap, tempoChanges } from '../src/lib/tempo-map.ts';
+import {
+  SoundFontError,
+  findPreset,
+  parseSoundFont,
+  regionsFor,
+  renderRegion,
+  voiceForInstrument,
+} from '../src/lib/soundfont.ts';
+
+const SAMPLE_RATE = 8000;
+
+const font = parseSoundFont(readFileSync(new URL('../fixtures/soundfonts/test.sf2', import.meta.url)));
+
+Deno.test('parses the test SoundFont', () => {
+  assert.equal(font.name, 'Sheet to Sound Test');
+  assert.equal(font.presets.filter(preset => preset.bank === 0).length, 128);
+  assert.equal(findPreset(font, 128, 0)?.name, 'Standard Kit');
+
+  const [region] = regionsFor(findPreset(font, 0, 0)!, 60, 100);
+  assert.equal(region.rootKey, 60);
+  assert.equal(region.loop, 'continuous');
+  assert.ok(region.loopEnd > region.loopStart && region.loopEnd <= font.sampleData.length);
+});
+
+Deno.test('maps instruments to General MIDI presets and drum keys', () => {
+  assert.equal(voiceForInstrument(font, 'violin')?.preset.program, 40);
+  const snare = voiceForInstrument(font, 'snare-drum');
+  assert.equal(snare?.preset.bank, 128);
+  assert.equal(snare?.drumKey, 38);
+});
+
+Deno.test('plays a region at the pitch of the key', () => {
+  const preset = findPreset(font, 0, 0)!;
+  for (const [key, frequency] of [[60, 261.63], [69, 440]]) {
+    const samples: number[] = [];
+    const [region] = regionsFor(preset, key, 100);
+    const frames = renderRegion(font, region, key, 100, 0.5, SAMPLE_RATE, (index, value) => {
+      samples[index] = value;
+    });
+    assert.ok(frames >= 0.5 * SAMPLE_RATE, 'the note stops before it is released');
+
+    // Count rising zero crossings over 0.4 s of the held note
+    let crossings = 0;
+    const start = Math.round(0.05 * SAMPLE_RATE);
+    const end = start + Math.round(0.4 * SAMPLE_RATE);
+    for (let i = start + 1; i < end; i++) {
+      if (samples[i - 1] < 0 && samples[i] >= 0) crossings++;
+    }
+    assert.ok(Math.abs(crossings / 0.4 - frequency) <= 5, `key ${key} plays at ${crossings / 0.4} Hz`);
+  }
+});
+
+Deno.test('renders an arrangement from the SoundFont', () => {
+  const model: ScoreModel = JSON.parse(
+    readFileSync(new URL('../fixtures/omr/hymn-e-major.json', import.meta.url), 'utf8'),
+  );
+  const tracks = buildArrangement(model, { instruments: ['violin'], partAssignments: [] });
+  const tempo = tempoChanges(buildTempoMap(model, 96, 'scale'), model.divisions);
+
+  const sampled = renderArrangement(model, tracks, tempo, { sampleRate: SAMPLE_RATE, soundFont: font });
+  const synthesized = renderArrangement(model, tracks, tempo, { sampleRate: SAMPLE_RATE });
+  const peak = sampled.left.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+  assert.ok(peak > 0.01, 'the sampled render is silent');
+  assert.ok(sampled.left.some((value, index) => value !== synthesized.left[index]), 'the SoundFont was not used');
+});
+
+Deno.test('rejects data that is not a SoundFont', () => {
+  assert.throws(() => parseSoundFont(new TextEncoder().encode('RIFF....WAVEfmt ')), SoundFontError);
+});
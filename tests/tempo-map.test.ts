@@ -0,0 +1,96 @@
+/**
+ * Tempo maps in both tempo modes: the entries read from the score, the
+ * tempo changes that play them (gradual changes in eighth-note steps,
+ * fermatas held and released) and the times those changes give.
+ */
+
+import assert from 'node:assert/strict';
+import type { ScoreEvent, ScoreMeasure, ScoreModel } from '../src/lib/score-model.ts';
+import { buildTempoMap, tempoChanges } from '../src/lib/tempo-map.ts';
+import { createTempoClock, scoreTimeline } from '../src/lib/performance.ts';
+
+const DIVISIONS = 4;
+const MEASURE = 4 * DIVISIONS;
+
+const quarters = (fermata = false): ScoreEvent[] => [0, 4, 8, 12].map((offset, index) => ({
+  type: 'note', offset, staff: 1, voice: 1, duration: 4, value: 'quarter',
+  pitch: { step: 'C', alter: 0, octave: 5 }, ...(fermata && index === 0 && { fermata: true }),
+}));
+
+const measure = (number: number, marking: ScoreEvent[] = [], fermata = false): ScoreMeasure => ({
+  number,
+  ...(number === 1 && { time: { beats: 4, beatType: 4 } }),
+  events: [...marking, ...quarters(fermata)],
+});
+
+// ♩ = 100, rit. in measure 2, a tempo in measure 4, a fermata on the first
+// beat of measure 5 and ♩ = 150 in measure 6
+const model: ScoreModel = {
+  version: 1,
+  source: 'musicxml',
+  divisions: DIVISIONS,
+  parts: [{
+    id: 'P1',
+    name: 'Part 1',
+    staves: 1,
+    measures: [
+      measure(1, [{ type: 'tempo', offset: 0, staff: 1, bpm: 100 }]),
+      measure(2, [{ type: 'words', offset: 0, staff: 1, text: 'rit.' }]),
+      measure(3),
+      measure(4, [{ type: 'words', offset: 0, staff: 1, text: 'a tempo' }]),
+      measure(5, [], true),
+      measure(6, [{ type: 'tempo', offset: 0, staff: 1, bpm: 150 }]),
+    ],
+  }],
+};
+
+const seconds = (ticks: number, bpm: number) => (ticks * 60) / (bpm * DIVISIONS);
+
+// The rit. from ♩ = 80 to ♩ = 60 over measures 2 and 3, one step per eighth
+const ritardando = Array.from({ length: 16 }, (_, i) => ({ tick: MEASURE + 2 * i, bpm: 80 - (20 * (i + 1)) / 16 }));
+
+Deno.test('scales the tempo map to the requested opening tempo', () => {
+  assert.deepEqual(buildTempoMap(model, 80, 'scale'), [
+    { tick: 0, kind: 'mark', bpm: 80, measure: 1 },
+    { tick: MEASURE, kind: 'gradual', bpm: 60, endTick: 3 * MEASURE, text: 'rit.', measure: 2 },
+    { tick: 3 * MEASURE, kind: 'return', bpm: 80, text: 'a tempo', measure: 4 },
+    { tick: 4 * MEASURE, kind: 'fermata', bpm: 40, endTick: 4 * MEASURE + 4, measure: 5 },
+    { tick: 5 * MEASURE, kind: 'mark', bpm: 120, measure: 6 },
+  ]);
+});
+
+Deno.test('plays a ritardando in steps and holds a fermata', () => {
+  const changes = tempoChanges(buildTempoMap(model, 80, 'scale'), DIVISIONS);
+  assert.deepEqual(changes, [
+    { tick: 0, bpm: 80 },
+    ...ritardando,
+    { tick: 3 * MEASURE, bpm: 80 },
+    { tick: 4 * MEASURE, bpm: 40 },
+    { tick: 4 * MEASURE + 4, bpm: 80 },
+    { tick: 5 * MEASURE, bpm: 120 },
+  ]);
+
+  const clock = createTempoClock(changes, DIVISIONS);
+  const rit = ritardando.reduce((sum, change) => sum + seconds(2, change.bpm), 0);
+  assert.equal(clock(MEASURE), 3);
+  assert.ok(Math.abs(clock(3 * MEASURE) - (3 + rit)) < 1e-9);
+  // The fermata holds a quarter note for twice its length
+  assert.ok(Math.abs(clock(4 * MEASURE + 4) - clock(4 * MEASURE) - 1.5) < 1e-9);
+  assert.ok(Math.abs(clock(scoreTimeline(model).totalTicks) - (3 + rit + 3 + 1.5 + 2.25 + 2)) < 1e-9);
+});
+
+Deno.test('plays the whole score at the requested tempo in override mode', () => {
+  const map = buildTempoMap(model, 90, 'override');
+  assert.deepEqual(map, [{ tick: 0, kind: 'mark', bpm: 90, measure: 1 }]);
+
+  const changes = tempoChanges(map, DIVISIONS);
+  assert.deepEqual(changes, [{ tick: 0, bpm: 90 }]);
+  assert.equal(createTempoClock(changes, DIVISIONS)(6 * MEASURE), seconds(6 * MEASURE, 90));
+});
+
+Deno.test('plays an unmarked opening at the requested tempo and later marks as written', () => {
+  const unmarked = { ...model, parts: [{ ...model.parts[0], measures: model.parts[0].measures.slice(1) }] };
+  const map = buildTempoMap(unmarked, 72, 'scale');
+  assert.equal(map[0].bpm, 72);
+  assert.equal(map[map.length - 1].bpm, 150);
+});
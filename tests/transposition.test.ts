@@ -0,0 +1,67 @@
+/**
+ * Transposition keeps every key signature within seven sharps or flats and
+ * spells the notes after each key change to match it.
+ */
+
+import assert from 'node:assert/strict';
+import type { KeySignature, Pitch, ScoreEvent, ScoreModel, Step } from '../src/lib/score-model.ts';
+import { resolveTransposition, transposeKey, transposeScoreModel } from '../src/lib/transposition.ts';
+
+const note = (offset: number, step: Step, alter: number, octave: number): ScoreEvent => ({
+  type: 'note', offset, staff: 1, voice: 1, duration: 8, value: 'quarter', pitch: { step, alter, octave },
+});
+
+// F major, then A major from the second measure
+const model: ScoreModel = {
+  version: 1,
+  source: 'musicxml',
+  divisions: 8,
+  parts: [{
+    id: 'P1',
+    name: 'Part 1',
+    staves: 1,
+    measures: [
+      {
+        number: 1,
+        key: { fifths: -1, mode: 'major' },
+        time: { beats: 2, beatType: 4 },
+        clefs: [{ staff: 1, sign: 'G', line: 2 }],
+        events: [note(0, 'F', 0, 4), note(8, 'B', -1, 4)],
+      },
+      {
+        number: 2,
+        key: { fifths: 3, mode: 'major' },
+        events: [note(0, 'A', 0, 4), note(8, 'G', 1, 4)],
+      },
+    ],
+  }],
+};
+
+const pitches = (measure: number, transposed: ScoreModel): Pitch[] =>
+  transposed.parts[0].measures[measure].events.flatMap(event => event.type === 'note' ? [event.pitch] : []);
+
+Deno.test('respells a key change that would pass seven sharps', () => {
+  const { interval, toKey } = resolveTransposition(model, { semitones: -1 });
+  assert.equal(toKey.fifths, 4);
+
+  const transposed = transposeScoreModel(model, interval);
+  const [first, second] = transposed.parts[0].measures;
+  assert.equal(first.key?.fifths, 4);
+  assert.deepEqual(pitches(0, transposed), [{ step: 'E', alter: 0, octave: 4 }, { step: 'A', alter: 0, octave: 4 }]);
+
+  // A major down a semitone is A♭ major, not G♯ major with eight sharps
+  assert.equal(second.key?.fifths, -4);
+  assert.deepEqual(pitches(1, transposed), [{ step: 'A', alter: -1, octave: 4 }, { step: 'G', alter: 0, octave: 4 }]);
+});
+
+Deno.test('keeps transposed keys within seven sharps or flats', () => {
+  for (let fifths = -7; fifths <= 7; fifths++) {
+    for (let chromatic = -11; chromatic <= 11; chromatic++) {
+      for (const diatonic of [Math.floor((chromatic * 7) / 12), Math.ceil((chromatic * 7) / 12)]) {
+        const key: KeySignature = { fifths, mode: 'major' };
+        const transposed = transposeKey(key, { diatonic, chromatic });
+        assert.ok(Math.abs(transposed.fifths) <= 7, `${fifths} by ${diatonic}/${chromatic} gives ${transposed.fifths}`);
+      }
+    }
+  }
+});
@@ -0,0 +1,129 @@
+/**
+ * Choir voices: conversions stored with the fixed SATB settings migrated to
+ * a voice list, and the voices detected from closed and open scores.
+ */
+
+import assert from 'node:assert/strict';
+import type { Conversion, VoiceSettings } from '../src/lib/types.ts';
+import type { Pitch, ScoreEvent, ScoreModel, ScorePart } from '../src/lib/score-model.ts';
+import { DEFAULT_VOICE_SETTINGS, defaultVoiceLayers, detectChoirVoices, migrateConversion } from '../src/lib/voices.ts';
+
+const conversion: Conversion = {
+  id: 'conversion-1',
+  scoreId: 'score-1',
+  userId: 'user-1',
+  instruments: [],
+  tempo: 96,
+  status: 'completed',
+  createdAt: '2024-01-01T00:00:00.000Z',
+};
+
+const quiet: VoiceSettings = { enabled: true, solo: false, volume: 40 };
+const muted: VoiceSettings = { enabled: false, solo: false, volume: 100 };
+
+Deno.test('turns SATB settings into four voices that keep them', () => {
+  const migrated = migrateConversion({
+    ...conversion,
+    satbConfig: { soprano: quiet, alto: DEFAULT_VOICE_SETTINGS, tenor: muted, bass: DEFAULT_VOICE_SETTINGS },
+  });
+
+  assert.ok(!('satbConfig' in migrated));
+  assert.deepEqual(
+    migrated.voices?.map(({ id, name, instrumentId, settings }) => ({ id, name, instrumentId, settings })),
+    [
+      { id: 'soprano', name: 'Soprano', instrumentId: 'soprano', settings: quiet },
+      { id: 'alto', name: 'Alto', instrumentId: 'alto', settings: DEFAULT_VOICE_SETTINGS },
+      { id: 'tenor', name: 'Tenor', instrumentId: 'tenor', settings: muted },
+      { id: 'bass', name: 'Bass', instrumentId: 'bass-voice', settings: DEFAULT_VOICE_SETTINGS },
+    ],
+  );
+});
+
+Deno.test('drops the empty settings of an instrument conversion', () => {
+  const migrated = migrateConversion({ ...conversion, instruments: ['violin', 'cello'], satbConfig: {} });
+  assert.deepEqual(migrated, { ...conversion, instruments: ['violin', 'cello'] });
+});
+
+Deno.test('passes migrated conversions through unchanged', () => {
+  const migrated = migrateConversion({ ...conversion, satbConfig: { soprano: quiet } });
+  assert.equal(migrateConversion(migrated), migrated);
+  assert.equal(migrateConversion(conversion), conversion);
+});
+
+// A line of two half notes on one staff and notated voice
+const line = (staff: number, voice: number, pitch: Pitch): ScoreEvent[] => [0, 2].map(offset => ({
+  type: 'note', offset, staff, voice, duration: 2, value: 'half', pitch,
+}));
+
+const part = (id: string, name: string, staves: number, events: ScoreEvent[]): ScorePart => ({
+  id, name, staves, measures: [{ number: 1, time: { beats: 4, beatType: 4 }, events }],
+});
+
+const scoreOf = (parts: ScorePart[]): ScoreModel => ({ version: 1, source: 'musicxml', divisions: 1, parts });
+
+const C5: Pitch = { step: 'C', alter: 0, octave: 5 };
+const E5: Pitch = { step: 'E', alter: 0, octave: 5 };
+const F4: Pitch = { step: 'F', alter: 0, octave: 4 };
+const D4: Pitch = { step: 'D', alter: 0, octave: 4 };
+const E4: Pitch = { step: 'E', alter: 0, octave: 4 };
+const A3: Pitch = { step: 'A', alter: 0, octave: 3 };
+const D3: Pitch = { step: 'D', alter: 0, octave: 3 };
+
+const summary = (voices: ReturnType<typeof detectChoirVoices>) =>
+  voices.map(({ id, name, instrumentId, source }) => ({ id, name, instrumentId, source }));
+
+Deno.test('finds four voices on the two staves of a closed SATB score', () => {
+  const model = scoreOf([
+    part('P1', 'Choir', 2, [...line(1, 1, C5), ...line(1, 2, E4), ...line(2, 5, A3), ...line(2, 6, D3)]),
+  ]);
+
+  assert.deepEqual(defaultVoiceLayers(model, 4), [
+    { partId: 'P1', staff: 1, voice: 1 },
+    { partId: 'P1', staff: 1, voice: 2 },
+    { partId: 'P1', staff: 2, voice: 5 },
+    { partId: 'P1', staff: 2, voice: 6 },
+  ]);
+  assert.deepEqual(summary(detectChoirVoices(model)), [
+    { id: 'soprano', name: 'Soprano', instrumentId: 'soprano', source: { partId: 'P1', staff: 1, voice: 1 } },
+    { id: 'alto', name: 'Alto', instrumentId: 'alto', source: { partId: 'P1', staff: 1, voice: 2 } },
+    { id: 'tenor', name: 'Tenor', instrumentId: 'tenor', source: { partId: 'P1', staff: 2, voice: 5 } },
+    { id: 'bass', name: 'Bass', instrumentId: 'bass-voice', source: { partId: 'P1', staff: 2, voice: 6 } },
+  ]);
+});
+
+Deno.test('numbers the repeated voices of an SSAA score with two voices per part', () => {
+  const model = scoreOf([
+    part('P1', 'Women I', 1, [...line(1, 1, E5), ...line(1, 2, C5)]),
+    part('P2', 'Women II', 1, [...line(1, 1, F4), ...line(1, 2, D4)]),
+  ]);
+
+  assert.deepEqual(defaultVoiceLayers(model, 4), [
+    { partId: 'P1', staff: 1, voice: 1 },
+    { partId: 'P1', staff: 1, voice: 2 },
+    { partId: 'P2', staff: 1, voice: 1 },
+    { partId: 'P2', staff: 1, voice: 2 },
+  ]);
+  assert.deepEqual(summary(detectChoirVoices(model)), [
+    { id: 'soprano-1', name: 'Soprano 1', instrumentId: 'soprano', source: { partId: 'P1', staff: 1, voice: 1 } },
+    { id: 'soprano-2', name: 'Soprano 2', instrumentId: 'soprano', source: { partId: 'P1', staff: 1, voice: 2 } },
+    { id: 'alto-1', name: 'Alto 1', instrumentId: 'alto', source: { partId: 'P2', staff: 1, voice: 1 } },
+    { id: 'alto-2', name: 'Alto 2', instrumentId: 'alto', source: { partId: 'P2', staff: 1, voice: 2 } },
+  ]);
+});
+
+Deno.test('keeps the part names of an open SSAA score, numbering repeated ones', () => {
+  const model = scoreOf([
+    part('P1', 'Soprano', 1, line(1, 1, E5)),
+    part('P2', 'Soprano', 1, line(1, 1, C5)),
+    part('P3', 'Alto', 1, line(1, 1, F4)),
+    part('P4', 'Alto', 1, line(1, 1, D4)),
+  ]);
+
+  assert.deepEqual(defaultVoiceLayers(model, 4), model.parts.map(({ id }) => ({ partId: id })));
+  assert.deepEqual(summary(detectChoirVoices(model)), [
+    { id: 'soprano-1', name: 'Soprano 1', instrumentId: 'soprano', source: { partId: 'P1' } },
+    { id: 'soprano-2', name: 'Soprano 2', instrumentId: 'soprano', source: { partId: 'P2' } },
+    { id: 'alto-1', name: 'Alto 1', instrumentId: 'alto', source: { partId: 'P3' } },
+    { id: 'alto-2', name: 'Alto 2', instrumentId: 'alto', source: { partId: 'P4' } },
+  ]);
+});